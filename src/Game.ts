@@ -1,12 +1,21 @@
 /**
  * Main Game Controller
  *
- * This is the heart of the Pac-Man game. It orchestrates all systems:
- * - Rendering (WebGL)
- * - Input handling
- * - Collision detection
+ * This is the browser shell around the headless GameSimulation. It
+ * orchestrates everything that needs a browser:
+ * - Rendering (WebGL, or Canvas 2D where WebGL is unavailable)
+ * - Input handling (keyboard/touch, or the built-in autopilot)
  * - Sound effects
- * - Game state management
+ * - Particles and post-processing
+ * - High score persistence
+ * - The attract mode loop shown while nobody is playing
+ *
+ * Those systems subscribe to the simulation's typed event bus rather than
+ * being called from the rules directly.
+ *
+ * The rules themselves (state machine, entities, collisions, scoring)
+ * live in GameSimulation, which this class steps once per fixed tick and
+ * draws from its read-only snapshot.
  *
  * ## Game Loop Architecture
  *
@@ -16,7 +25,7 @@
  * while (running) {
  *   processInput()
  *   while (accumulatedTime >= FIXED_TIMESTEP) {
- *     update(FIXED_TIMESTEP)
+ *     simulation.step(inputs)
  *     accumulatedTime -= FIXED_TIMESTEP
  *   }
  *   render()
@@ -37,36 +46,38 @@
  * @module Game
  */
 
-import { WebGLRenderer } from './systems/WebGLRenderer';
+import { IGameRenderer, RendererPreference, RendererType, createRenderer } from './systems/GameRenderer';
 import { Input } from './systems/Input';
-import { Collision, CollisionResult } from './systems/Collision';
 import { Sound } from './systems/Sound';
 import { ParticleSystem, EffectPresets } from './systems/ParticleSystem';
 import { PostProcessingManager, ShakePresets, FlashPresets } from './systems/PostProcessing';
-import { PacMan } from './entities/PacMan';
-import { Ghost } from './entities/Ghost';
-import { Blinky } from './entities/Blinky';
-import { Pinky } from './entities/Pinky';
-import { Inky } from './entities/Inky';
-import { Clyde } from './entities/Clyde';
-import { Fruit } from './entities/Fruit';
-import { getLevelConfig, FRUIT_SPAWN_PELLETS } from './systems/LevelConfig';
-import { Intermission } from './systems/Intermission';
+import { GameSimulation, SimulationInputs } from './GameSimulation';
+import { EventBus, GameEventBus } from './systems/EventBus';
+import { AttractMode } from './systems/AttractMode';
+import { buildDebugView } from './systems/DebugOverlay';
+import { buildInspector } from './systems/StepInspector';
+import { serializeSave, parseSave } from './systems/SaveGame';
+import {
+  ReplayFile,
+  ReplayPlayer,
+  ReplayRecorder,
+  verifyReplay,
+  serializeReplay,
+  parseReplay,
+  clampPlaybackSpeed,
+} from './systems/Replay';
+import { RewindBuffer } from './systems/Rewind';
+import { Autopilot } from './ai/Autopilot';
+import { Random } from './utils/Random';
+import { MazeDefinition, MazeSelector } from './utils/MazeData';
 import {
   GameState,
   GameStateType,
-  GhostMode,
-  GhostModeType,
   Direction,
-  FRIGHT_DURATION,
-  SCATTER_TIMES,
-  CHASE_TIMES,
-  EXTRA_LIFE_SCORE,
-  TARGET_FPS,
   FRAME_TIME,
   SCALED_TILE,
 } from './constants';
-import { SoundType } from './types';
+import { GameEventMap, SoundType, TilePosition } from './types';
 
 /**
  * Game configuration
@@ -76,21 +87,36 @@ interface GameConfig {
   canvasId: string;
   /** Enable sound */
   sound?: boolean;
+  /** Play every game with this gameplay seed (for reproducing bugs) */
+  seed?: number;
+  /** Practice mode: hold Backspace to rewind (high scores are not kept) */
+  practice?: boolean;
+  /** Rendering backend ('auto' = WebGL with Canvas 2D fallback) */
+  renderer?: RendererPreference;
+  /** Start with the autopilot driving Pac-Man (B takes over / hands back) */
+  autopilot?: boolean;
+  /** Play game sounds during attract mode demos (silent by default) */
+  attractSound?: boolean;
+  /** Per-level mazes for every game (the classic maze if omitted) */
+  mazes?: MazeSelector;
 }
 
 /**
  * Main Game Class
  */
 export class Game {
-  /** WebGL renderer */
-  private renderer: WebGLRenderer;
+  /** localStorage key for the Save & Quit slot */
+  private static readonly SAVE_KEY = 'pacman-save';
+
+  /** localStorage key for the most recent finished game's replay */
+  private static readonly REPLAY_KEY = 'pacman-last-replay';
+
+  /** WebGL or Canvas 2D renderer */
+  private renderer: IGameRenderer;
 
   /** Input handler */
   private input: Input;
 
-  /** Collision system */
-  private collision: Collision;
-
   /** Sound system */
   private sound: Sound;
 
@@ -100,108 +126,112 @@ export class Game {
   /** Post-processing effects (shake, flash, etc.) */
   private effects: PostProcessingManager;
 
-  /** Pac-Man entity */
-  private pacman: PacMan;
+  /** Headless rules engine */
+  private simulation: GameSimulation;
 
-  /** Ghost entities */
-  private ghosts: Ghost[];
+  /** Animation frame ID for cancellation */
+  private animationFrameId: number = 0;
 
-  /** Blinky reference (needed for Inky's AI) */
-  private blinky: Blinky;
+  /** Last frame timestamp */
+  private lastTime: number = 0;
 
-  /** Current game state */
-  private state: GameStateType = GameState.START_SCREEN;
+  /** Accumulated time for fixed timestep */
+  private accumulator: number = 0;
+
+  /** Is game running? */
+  private running: boolean = false;
 
-  /** Current score */
-  private score: number = 0;
+  /** One-shot inputs waiting for the next simulation tick */
+  private pendingInputs: SimulationInputs = {};
 
-  /** High score */
-  private highScore: number = 0;
+  /** Timer for continuous victory effects */
+  private victoryEffectTimer: number = 0;
 
-  /** Current level */
-  private level: number = 1;
+  /** Cosmetic random stream (particles, confetti) - separate from gameplay */
+  private cosmeticRandom: Random = new Random();
 
-  /** Pellets eaten this level */
-  private pelletsEaten: number = 0;
+  /** Seed every new game is pinned to (null = fresh seed per game) */
+  private fixedSeed: number | null;
 
-  /** Ghost mode timer */
-  private modeTimer: number = 0;
+  /** Mazes games go back to after setMazes(null) (null = the classic maze) */
+  private configuredMazes: MazeSelector | null;
 
-  /** Current ghost mode index (for scatter/chase cycle) */
-  private modeIndex: number = 0;
+  /** Mazes new games are played on (null = the classic maze) */
+  private mazes: MazeSelector | null = null;
 
-  /** Current global ghost mode */
-  private globalGhostMode: GhostModeType = GhostMode.SCATTER;
+  /** Records the current game's inputs (null when not recording) */
+  private recorder: ReplayRecorder | null = null;
 
-  /** Frightened mode timer */
-  private frightenedTimer: number = 0;
+  /** Feeds a replay's inputs instead of the player's (null when playing) */
+  private replayPlayer: ReplayPlayer | null = null;
 
-  /** State timer (for READY, DYING, etc.) */
-  private stateTimer: number = 0;
+  /** Replay playback speed multiplier */
+  private playbackSpeed: number = 1;
 
-  /** Animation frame ID for cancellation */
-  private animationFrameId: number = 0;
+  /** Recent save states for practice rewind (null outside practice mode) */
+  private rewind: RewindBuffer | null;
 
-  /** Last frame timestamp */
-  private lastTime: number = 0;
+  /** Built-in player, an alternative input source to the keyboard */
+  private readonly autopilot: Autopilot = new Autopilot();
 
-  /** Accumulated time for fixed timestep */
-  private accumulator: number = 0;
+  /** Is the autopilot driving instead of the player? */
+  private autopilotActive: boolean;
 
-  /** Is game running? */
-  private running: boolean = false;
+  /** Attract loop shown on the start screen (null when not running) */
+  private attract: AttractMode | null = null;
 
-  /** Extra life awarded flag */
-  private extraLifeAwarded: boolean = false;
+  /** Bus the attract mode demo games raise their events on */
+  private readonly attractEvents: GameEventBus = new EventBus<GameEventMap>();
 
-  /** Current fruit (if any) */
-  private fruit: Fruit | null = null;
+  /** Play sounds during attract mode demos? */
+  private readonly attractSound: boolean;
 
-  /** Track if first fruit has spawned this level */
-  private firstFruitSpawned: boolean = false;
+  /** Is the ghost AI debug overlay (F3) showing? */
+  private debugOverlay: boolean = false;
 
-  /** Track if second fruit has spawned this level */
-  private secondFruitSpawned: boolean = false;
+  /** Is the step debugger (F4) holding the game at one tick per keypress? */
+  private stepping: boolean = false;
 
-  /** Intermission system for cutscenes */
-  private intermission: Intermission;
+  /** Ticks requested from the step debugger but not yet run */
+  private pendingSteps: number = 0;
 
   /**
    * Create a new game instance
    */
   constructor(config: GameConfig) {
     // Initialize systems
-    this.renderer = new WebGLRenderer(config.canvasId);
+    this.renderer = createRenderer(config.canvasId, config.renderer, this.cosmeticRandom);
     this.input = new Input();
-    this.collision = new Collision();
     this.sound = new Sound();
 
     // Initialize 2025 visual effects systems
-    this.particles = new ParticleSystem(1000); // Up to 1000 particles
+    this.particles = new ParticleSystem(1000, this.cosmeticRandom); // Up to 1000 particles
     this.effects = new PostProcessingManager();
-    this.intermission = new Intermission();
-
-    // Initialize entities
-    this.pacman = new PacMan();
-
-    // Initialize ghosts
-    this.blinky = new Blinky();
-    const pinky = new Pinky();
-    const inky = new Inky();
-    const clyde = new Clyde();
-
-    this.ghosts = [this.blinky, pinky, inky, clyde];
 
     // Load high score from localStorage
     const savedHighScore = localStorage.getItem('pacman-highscore');
-    if (savedHighScore) {
-      this.highScore = parseInt(savedHighScore, 10);
-    }
+
+    this.fixedSeed = config.seed ?? null;
+    this.rewind = config.practice ? new RewindBuffer() : null;
+    this.autopilotActive = config.autopilot ?? false;
+    this.attractSound = config.attractSound ?? false;
+    this.configuredMazes = config.mazes ?? null;
+    this.simulation = new GameSimulation({
+      highScore: savedHighScore ? parseInt(savedHighScore, 10) : 0,
+      seed: config.seed,
+    });
+    this.setMazes(null);
+    this.bindEvents();
+    this.bindAttractEvents();
 
     // Load sound mute preference and enable M key shortcut
     this.sound.loadMutePreference();
     this.sound.enableMuteShortcut();
     this.setupMuteButton();
+    this.setupSaveButton();
+    this.setupReplayControls();
+    this.setupAutopilotControls();
+    this.setupDebugControls();
 
     // Initialize sound on first user interaction
     document.addEventListener('click', () => this.sound.init(), { once: true });
@@ -237,6 +267,68 @@ export class Game {
     });
   }
 
+  /**
+   * Setup the pause overlay's Save & Quit button and Q shortcut
+   */
+  private setupSaveButton(): void {
+    document.getElementById('save-quit-btn')?.addEventListener('click', () => this.saveAndQuit());
+
+    document.addEventListener('keydown', (e) => {
+      if (e.key.toLowerCase() === 'q') {
+        this.saveAndQuit();
+      }
+    });
+  }
+
+  /**
+   * Setup replay keys: R watches the last game, [ and ] change speed
+   */
+  private setupReplayControls(): void {
+    document.addEventListener('keydown', (e) => {
+      if (e.key === '[') {
+        this.setPlaybackSpeed(this.playbackSpeed / 2);
+      } else if (e.key === ']') {
+        this.setPlaybackSpeed(this.playbackSpeed * 2);
+      } else if (e.key.toLowerCase() === 'r') {
+        const state = this.simulation.getState();
+        const replay = this.getLastReplay();
+        if (replay && !this.replayPlayer && (state === GameState.GAME_OVER || state === GameState.GAME_WON)) {
+          this.playReplay(replay);
+        }
+      }
+    });
+  }
+
+  /**
+   * Setup the autopilot key: B takes over from the player or hands back
+   */
+  private setupAutopilotControls(): void {
+    document.addEventListener('keydown', (e) => {
+      if (e.key.toLowerCase() === 'b') {
+        this.setAutopilot(!this.autopilotActive);
+      }
+    });
+  }
+
+  /**
+   * Setup developer keys: F3 shows the ghost AI debug overlay, F4 freezes
+   * the game for the step debugger and `.` then runs one tick
+   */
+  private setupDebugControls(): void {
+    document.addEventListener('keydown', (e) => {
+      if (e.key === 'F3') {
+        // F3 is also the browser's find shortcut
+        e.preventDefault();
+        this.setDebugOverlay(!this.debugOverlay);
+      } else if (e.key === 'F4') {
+        e.preventDefault();
+        this.setStepDebugger(!this.stepping);
+      } else if (e.key === '.' && this.stepping) {
+        this.pendingSteps++;
+      }
+    });
+  }
+
   /**
    * Update mute button visual state
    */
@@ -251,683 +343,636 @@ export class Game {
   }
 
   /**
-   * Start the game
+   * Subscribe sound, visual effects and the renderer to game events
    *
-   * Called after splash screen transition. The game starts
-   * in READY state with the intro music playing.
+   * Each system listens independently, so new subscribers (stats,
+   * plugins) can be added through getEvents() without touching these.
    */
-  start(): void {
-    this.running = true;
-
-    // Start game loop
-    this.lastTime = performance.now();
-    this.gameLoop(this.lastTime);
-
-    // Go directly to starting a new game
-    this.startNewGame();
+  private bindEvents(): void {
+    const events = this.simulation.events;
+
+    events.on('stateChanged', (e) => this.onStateChanged(e.data.state, e.data.previous));
+    events.on('gameOver', () => this.finishRecording());
+    events.on('gameWon', () => this.finishRecording());
+    this.bindSoundEvents(events, () => this.simulation.getLevelProgress());
+    this.bindEffectEvents(events);
+    this.bindRendererEvents(events);
   }
 
   /**
-   * Main game loop
+   * Subscribe the renderer (and sound, if enabled) to the attract demos
+   *
+   * Demo games are thrown away after each loop, but they all share one
+   * bus, so this runs once.
    */
-  private gameLoop(currentTime: number): void {
-    if (!this.running) return;
-
-    // Calculate delta time
-    const deltaTime = currentTime - this.lastTime;
-    this.lastTime = currentTime;
-
-    // Accumulate time for fixed timestep
-    this.accumulator += deltaTime;
-
-    // Process input
-    this.processInput();
-
-    // Fixed timestep updates
-    while (this.accumulator >= FRAME_TIME) {
-      this.update(FRAME_TIME);
-      this.accumulator -= FRAME_TIME;
-    }
+  private bindAttractEvents(): void {
+    const events = this.attractEvents;
+    const levelProgress = (): number => this.attract?.getDemo()?.getLevelProgress() ?? 0;
+
+    events.on('pelletEaten', (e) => this.renderer.eatPellet(e.data.tile.col, e.data.tile.row));
+    events.on('powerPelletEaten', (e) => this.renderer.eatPellet(e.data.tile.col, e.data.tile.row));
+    events.on('pelletsChanged', () => {
+      const demo = this.attract?.getDemo();
+      if (demo) this.syncRendererPellets(demo);
+    });
+    events.on('ghostEaten', (e) => {
+      const { x, y } = this.tileCenter(e.data.tile);
+      this.renderer.renderGhostScore(x, y, e.data.points);
+    });
 
-    // Render
-    this.render();
+    if (!this.attractSound) return;
 
-    // Next frame
-    this.animationFrameId = requestAnimationFrame((t) => this.gameLoop(t));
+    this.bindSoundEvents(events, levelProgress);
+    events.on('stateChanged', (e) => {
+      if (e.data.state === GameState.PLAYING && e.data.previous === GameState.READY) {
+        this.sound.startSiren(levelProgress());
+      }
+    });
   }
 
   /**
-   * Process input
+   * Sound reacts to gameplay events
+   *
+   * @param levelProgress - Share of the level's pellets eaten (drives the siren)
    */
-  private processInput(): void {
-    // Check for skip level cheat (works in any state during gameplay)
-    if (this.state === GameState.PLAYING && this.input.isSkipLevelCheatActivated()) {
-      this.skipLevel();
-      return;
-    }
+  private bindSoundEvents(events: GameEventBus, levelProgress: () => number): void {
+    events.on('pelletEaten', () => {
+      this.sound.playWaka();
+      this.sound.updateSirenIntensity(levelProgress());
+    });
+    events.on('frightenedStarted', () => {
+      // Switch to fright sound
+      this.sound.stopSiren();
+      this.sound.startFrightSound();
+    });
+    events.on('frightenedEnded', () => {
+      // Switch back to siren
+      this.sound.stopFrightSound();
+      this.sound.startSiren(levelProgress());
+    });
+    events.on('ghostEaten', () => this.sound.play(SoundType.EAT_GHOST));
+    events.on('pacmanCaught', () => this.sound.stopAll());
+    events.on('pacmanDied', () => this.sound.play(SoundType.DEATH));
+    events.on('fruitSpawned', () => this.sound.play(SoundType.FRUIT_APPEAR));
+    events.on('fruitEaten', () => this.sound.play(SoundType.EAT_FRUIT));
+    events.on('extraLife', () => this.sound.play(SoundType.EXTRA_LIFE));
+    // Play a sound to confirm cheat
+    events.on('levelSkipped', () => this.sound.play(SoundType.EXTRA_LIFE));
+    events.on('levelComplete', () => {
+      this.sound.stopAll();
+      this.sound.play(SoundType.LEVEL_COMPLETE);
+    });
+    events.on('gameWon', () => {
+      this.sound.stopAll();
+      this.sound.play(SoundType.VICTORY);
+    });
+  }
 
-    // Handle start screen
-    if (this.state === GameState.START_SCREEN) {
-      if (this.input.isStartPressed()) {
-        this.startNewGame();
-      }
-      return;
-    }
+  /**
+   * Particles and post-processing react to gameplay events
+   */
+  private bindEffectEvents(events: GameEventBus): void {
+    events.on('pelletEaten', (e) => {
+      const { x, y } = this.tileCenter(e.data.tile);
+      this.particles.emit(x, y, EffectPresets.PELLET_EAT);
+    });
+    events.on('powerPelletEaten', (e) => {
+      // Big particle burst for power pellet
+      const { x, y } = this.tileCenter(e.data.tile);
+      this.particles.emit(x, y, EffectPresets.POWER_PELLET_EAT);
 
-    // Handle pause
-    if (this.input.isPausePressed()) {
-      this.togglePause();
-      return;
-    }
+      // Screen flash for emphasis
+      this.effects.flash(FlashPresets.POWER_PELLET);
 
-    // Handle game over or game won - restart
-    if ((this.state === GameState.GAME_OVER || this.state === GameState.GAME_WON) && this.input.isStartPressed()) {
-      this.startNewGame();
-      return;
-    }
+      // Add power mode visual indicator
+      document.getElementById('game-container')?.classList.add('power-mode');
+    });
+    events.on('frightenedEnded', () => {
+      // Remove power mode visual indicator
+      document.getElementById('game-container')?.classList.remove('power-mode');
+    });
+    events.on('ghostEaten', (e) => {
+      // Particle explosion in ghost color
+      const { x, y } = this.tileCenter(e.data.tile);
+      this.particles.emit(x, y, {
+        ...EffectPresets.GHOST_EAT,
+        color: this.hexToRGBA(e.data.ghostColor),
+      });
 
-    // Pass direction input to Pac-Man
-    const queuedDir = this.input.getQueuedDirection();
-    if (queuedDir !== Direction.NONE) {
-      this.pacman.setDirection(queuedDir);
-    }
+      // Screen shake for impact
+      this.effects.shake(ShakePresets.GHOST_EAT);
+    });
+    events.on('pacmanCaught', (e) => {
+      // Screen shake and red flash for impact
+      this.effects.shake(ShakePresets.DEATH);
+      this.effects.flash(FlashPresets.DAMAGE);
 
-    // Check for cheat code activation
-    if (this.input.isCheatActivated() && this.state === GameState.PLAYING) {
-      this.activateSkipCheat();
-    }
+      // Emit death particles
+      this.particles.emit(e.data.position.x, e.data.position.y, EffectPresets.PACMAN_DEATH);
+    });
+    events.on('fruitEaten', (e) => {
+      this.particles.emit(e.data.position.x, e.data.position.y, EffectPresets.POWER_PELLET_EAT);
+    });
+    events.on('gameWon', () => {
+      // Big screen effects
+      this.effects.flash({ color: [0, 1, 0, 0.5], duration: 20 });
+      this.effects.shake({ intensity: 12, duration: 40, decay: 0.85 });
+    });
   }
 
   /**
-   * Activate skip to end of level cheat
+   * The renderer's pellet grid, popups and overlays follow gameplay events
    */
-  private activateSkipCheat(): void {
-    const remaining = this.collision.skipToEndOfLevel();
-
-    // Update renderer to clear eaten pellets
-    for (let row = 0; row < 31; row++) {
-      for (let col = 0; col < 28; col++) {
-        const isRemaining = remaining.some(p => p.col === col && p.row === row);
-        if (!isRemaining && !this.collision.hasPellet(col, row)) {
-          this.renderer.eatPellet(col, row);
-        }
+  private bindRendererEvents(events: GameEventBus): void {
+    events.on('pelletEaten', (e) => this.renderer.eatPellet(e.data.tile.col, e.data.tile.row));
+    events.on('powerPelletEaten', (e) => this.renderer.eatPellet(e.data.tile.col, e.data.tile.row));
+    events.on('pelletsChanged', () => this.syncRendererPellets());
+    events.on('ghostEaten', (e) => {
+      // Show score popup
+      const { x, y } = this.tileCenter(e.data.tile);
+      this.renderer.renderGhostScore(x, y, e.data.points);
+    });
+    events.on('fruitEaten', (e) => {
+      // Show score briefly and add to fruit history
+      this.renderer.renderFruitScore(e.data.position.x, e.data.position.y, e.data.points);
+      this.renderer.addFruitToHistory(e.data.fruitType);
+    });
+    events.on('newHighScore', () => this.renderer.flashHighScore(true));
+    events.on('levelComplete', () => this.renderer.flashMaze());
+    events.on('gameWon', (e) => this.renderer.renderGameWonText(e.data.score));
+    events.on('gameOver', () => this.gameOver());
+    events.on('gameLoaded', (e) => {
+      this.renderer.clearFruitHistory();
+      for (const fruitType of e.data.fruitHistory) {
+        this.renderer.addFruitToHistory(fruitType);
       }
-    }
-
-    // Play a sound to confirm cheat
-    this.sound.play(SoundType.EXTRA_LIFE);
+    });
   }
 
   /**
-   * Skip the current level (cheat code)
-   * Leaves 3 adjacent pellets for the player to eat
+   * Game event bus, for external subscribers (stats, plugins)
    */
-  private skipLevel(): void {
-    // Don't skip if already in a transition state
-    if (this.state !== GameState.PLAYING) return;
-
-    // Use the existing skip implementation
-    this.activateSkipCheat();
+  getEvents(): GameEventBus {
+    return this.simulation.events;
   }
 
   /**
-   * Update game state
+   * Start the game
+   *
+   * Called after splash screen transition. The game starts
+   * in READY state with the intro music playing.
+   *
+   * @param resume - Continue the Save & Quit game instead (falls back to
+   *                 a new game if there is none or it cannot be loaded)
    */
-  private update(_deltaTime: number): void {
-    switch (this.state) {
-      case GameState.START_SCREEN:
-        // Just waiting for input
-        break;
+  start(resume: boolean = false): void {
+    this.stopAttract();
+    this.startLoop();
 
-      case GameState.READY:
-        this.updateReady();
-        break;
-
-      case GameState.PLAYING:
-        this.updatePlaying();
-        // Update visual effects
-        this.particles.update();
-        this.effects.update();
-        break;
-
-      case GameState.DYING:
-        this.updateDying();
-        break;
+    if (resume && this.continueSavedGame()) return;
 
-      case GameState.VICTORY_ANIMATION:
-        this.updateVictoryAnimation();
-        break;
-
-      case GameState.LEVEL_COMPLETE:
-        this.updateLevelComplete();
-        break;
-
-      case GameState.INTERMISSION:
-        this.updateIntermission();
-        break;
-
-      case GameState.GAME_WON:
-        // Just waiting for input to restart
-        break;
-
-      case GameState.GAME_OVER:
-        // Just waiting for input
-        break;
-
-      case GameState.PAUSED:
-        // Nothing to update
-        break;
-    }
+    // Go directly to starting a new game
+    this.startNewGame();
   }
 
   /**
-   * Update during READY state
+   * Stop the loop and any sound, leaving the game to be picked up by
+   * another start() (e.g. when going back to the maze editor)
    */
-  private updateReady(): void {
-    this.stateTimer--;
-
-    if (this.stateTimer <= 0) {
-      this.state = GameState.PLAYING;
-      this.renderer.clearReadyText();
-
-      // Start background sound
-      const intensity = this.pelletsEaten / this.collision.getPelletsRemaining();
-      this.sound.startSiren(intensity);
-
-      // Release ghosts based on level
-      this.blinky.exitHouse();
-
-      // Pinky exits almost immediately
-      setTimeout(() => {
-        if (this.state === GameState.PLAYING) {
-          this.ghosts[1].exitHouse();
-        }
-      }, 2000);
-    }
+  suspend(): void {
+    this.stopLoop();
+    this.sound.stopAll();
+    this.pendingInputs = {};
+    this.recorder = null;
+    this.endPlayback();
   }
 
   /**
-   * Update during PLAYING state
+   * Play new games on other mazes (null: the configured mazes again)
+   *
+   * Takes effect from the next new game. Games on anything but the
+   * classic maze are not recorded or saved, as a replay or save would
+   * play back on the classic maze.
    */
-  private updatePlaying(): void {
-    // Update mode timer
-    this.updateGhostModes();
-
-    // Update Pac-Man
-    this.pacman.update(FRAME_TIME);
-
-    // Update ghosts
-    for (const ghost of this.ghosts) {
-      ghost.updateTarget(this.pacman, this.blinky);
-      ghost.update(FRAME_TIME);
-      ghost.checkReachedHouse();
-    }
-
-    // Update renderer animations
-    this.renderer.updatePowerPelletBlink();
+  setMazes(mazes: MazeSelector | null): void {
+    this.mazes = mazes ?? this.configuredMazes;
 
-    // Update fruit (despawn timer and collision)
-    this.updateFruit();
-
-    // Check collisions
-    const collisions = this.collision.checkCollisions(this.pacman, this.ghosts);
-    this.handleCollisions(collisions);
+    // A replay keeps the classic maze until it ends (see endPlayback())
+    if (!this.replayPlayer) this.simulation.setMazes(this.mazes ?? undefined);
+  }
 
-    // Check level complete - trigger victory animation first
-    if (this.collision.isLevelComplete()) {
-      this.startVictoryAnimation();
+  /**
+   * Check for a Save & Quit game to continue
+   */
+  static hasSavedGame(): boolean {
+    try {
+      return localStorage.getItem(Game.SAVE_KEY) !== null;
+    } catch {
+      return false;
     }
-
-    // Release more ghosts based on pellets eaten
-    this.checkGhostRelease();
-
-    // Update Blinky's Elroy mode
-    this.blinky.updateElroyMode(this.collision.getPelletsRemaining(), this.level);
   }
 
   /**
-   * Update ghost mode timing (scatter/chase cycles)
+   * Save the paused game and return to the splash screen
+   *
+   * Only allowed while paused, so a save never lands mid-animation by
+   * accident. The page reloads so every system starts clean.
    */
-  private updateGhostModes(): void {
-    // Handle frightened mode
-    if (this.frightenedTimer > 0) {
-      this.frightenedTimer--;
-
-      if (this.frightenedTimer <= 0) {
-        // Frightened mode ended
-        this.endFrightenedMode();
-      }
-      return;
-    }
+  private saveAndQuit(): void {
+    if (this.simulation.getState() !== GameState.PAUSED) return;
 
-    // Normal mode cycling
-    this.modeTimer++;
+    // Saves do not store the maze either; they always continue on the classic one
+    if (this.mazes !== null) return;
 
-    const scatterTime = (SCATTER_TIMES[this.modeIndex] ?? 5) * TARGET_FPS;
-    const chaseTime = (CHASE_TIMES[this.modeIndex] ?? Infinity) * TARGET_FPS;
+    // Only a normal run is saved: not a practice game or a replay being watched
+    if (this.rewind || this.replayPlayer) return;
 
-    if (this.globalGhostMode === GhostMode.SCATTER) {
-      if (this.modeTimer >= scatterTime) {
-        this.modeTimer = 0;
-        this.globalGhostMode = GhostMode.CHASE;
-        this.setGhostMode(GhostMode.CHASE);
-      }
-    } else if (this.globalGhostMode === GhostMode.CHASE) {
-      if (this.modeTimer >= chaseTime && this.modeIndex < 3) {
-        this.modeTimer = 0;
-        this.modeIndex++;
-        this.globalGhostMode = GhostMode.SCATTER;
-        this.setGhostMode(GhostMode.SCATTER);
-      }
+    try {
+      localStorage.setItem(Game.SAVE_KEY, serializeSave(this.simulation.save()));
+    } catch (error) {
+      console.error('Failed to save game:', error);
+      return;
     }
-  }
 
-  /**
-   * Set mode for all ghosts
-   */
-  private setGhostMode(mode: GhostModeType): void {
-    for (const ghost of this.ghosts) {
-      if (ghost.mode !== GhostMode.EATEN && !ghost.isInHouse) {
-        ghost.setMode(mode);
-      }
-    }
+    this.stop();
+    window.location.reload();
   }
 
   /**
-   * Start frightened mode
+   * Load the Save & Quit game (the save is consumed)
+   *
+   * @returns True if a game was loaded
    */
-  private startFrightenedMode(): void {
-    // Get duration for current level
-    const duration = FRIGHT_DURATION[Math.min(this.level - 1, FRIGHT_DURATION.length - 1)] ?? 0;
+  private continueSavedGame(): boolean {
+    // Saves are on the classic maze; keep this one for a classic game
+    if (this.mazes !== null) return false;
 
-    if (duration === 0) {
-      // No frightened mode at this level!
-      return;
-    }
+    const json = localStorage.getItem(Game.SAVE_KEY);
+    if (json === null) return false;
 
-    // Add to existing timer (extends duration if already frightened)
-    this.frightenedTimer += duration;
+    localStorage.removeItem(Game.SAVE_KEY);
 
-    // Set ghosts to frightened
-    for (const ghost of this.ghosts) {
-      if (ghost.mode !== GhostMode.EATEN && !ghost.isInHouse) {
-        ghost.setMode(GhostMode.FRIGHTENED, duration);
+    try {
+      const save = parseSave(json);
+
+      const startScreen = document.getElementById('start-screen');
+      if (startScreen) {
+        startScreen.classList.add('hidden');
       }
-    }
 
-    // Switch to fright sound
-    this.sound.stopSiren();
-    this.sound.startFrightSound();
+      this.sound.init();
+      this.pendingInputs = {};
+      this.recorder = null;
+      this.rewind?.clear();
+      this.simulation.load(save);
+      return true;
+    } catch (error) {
+      console.error('Failed to load saved game:', error);
+      return false;
+    }
   }
 
   /**
-   * End frightened mode
+   * Start the game loop (no-op if it is already running)
    */
-  private endFrightenedMode(): void {
-    this.collision.resetGhostMultiplier();
+  private startLoop(): void {
+    if (this.running) return;
 
-    // Return ghosts to current mode
-    for (const ghost of this.ghosts) {
-      if (ghost.mode === GhostMode.FRIGHTENED) {
-        ghost.setMode(this.globalGhostMode);
-      }
-    }
-
-    // Remove power mode visual indicator
-    const gameContainer = document.getElementById('game-container');
-    if (gameContainer) {
-      gameContainer.classList.remove('power-mode');
-    }
-
-    // Switch back to siren
-    this.sound.stopFrightSound();
-    const intensity = this.pelletsEaten / (this.pelletsEaten + this.collision.getPelletsRemaining());
-    this.sound.startSiren(intensity);
+    this.running = true;
+    this.accumulator = 0;
+    this.lastTime = performance.now();
+    this.gameLoop(this.lastTime);
   }
 
   /**
-   * Check if more ghosts should be released
+   * Stop the game loop
    */
-  private checkGhostRelease(): void {
-    for (const ghost of this.ghosts) {
-      if (ghost.isInHouse && ghost.mode === GhostMode.HOUSE) {
-        if (this.pelletsEaten >= ghost.dotLimit) {
-          ghost.exitHouse();
-        }
-      }
-    }
+  private stopLoop(): void {
+    this.running = false;
+    cancelAnimationFrame(this.animationFrameId);
   }
 
   /**
-   * Handle collision results
+   * Start the attract loop behind the start screen
+   *
+   * Demos alternate between the autopilot and the last finished game's
+   * replay (if there is one). They play silently unless the game was
+   * created with `attractSound`.
    */
-  private handleCollisions(collisions: CollisionResult[]): void {
-    for (const result of collisions) {
-      switch (result.type) {
-        case 'pellet':
-          this.onPelletEaten(result);
-          break;
-
-        case 'powerPellet':
-          this.onPowerPelletEaten(result);
-          break;
-
-        case 'ghost':
-          this.onGhostCollision(result);
-          break;
-
-        case 'ghostEaten':
-          this.onGhostEaten(result);
-          break;
-      }
-    }
+  startAttract(): void {
+    if (this.attract || this.running) return;
+
+    this.clearScreen();
+    this.attract = new AttractMode({
+      events: this.attractEvents,
+      replay: this.getLastReplay(),
+      seed: this.fixedSeed ?? undefined,
+      highScore: this.simulation.getSnapshot().highScore,
+    });
+    this.startLoop();
   }
 
   /**
-   * Handle pellet eaten
+   * Stop the attract loop (the start screen takes over again)
    */
-  private onPelletEaten(result: CollisionResult): void {
-    this.addScore(result.points);
-    this.pelletsEaten++;
-
-    // Update renderer
-    if (result.tile) {
-      this.renderer.eatPellet(result.tile.col, result.tile.row);
-
-      // Emit particles at pellet position
-      const x = result.tile.col * SCALED_TILE + SCALED_TILE / 2;
-      const y = result.tile.row * SCALED_TILE + SCALED_TILE / 2;
-      this.particles.emit(x, y, EffectPresets.PELLET_EAT);
-    }
-
-    // Play sound
-    this.sound.playWaka();
+  stopAttract(): void {
+    if (!this.attract) return;
 
-    // Update siren intensity
-    const intensity = this.pelletsEaten / (this.pelletsEaten + this.collision.getPelletsRemaining());
-    this.sound.updateSirenIntensity(intensity);
-
-    // Check for fruit spawn
-    this.checkFruitSpawn();
-
-    // Brief slowdown while eating
-    this.pacman.isEating = true;
-    setTimeout(() => {
-      this.pacman.isEating = false;
-    }, 10);
+    this.attract = null;
+    this.stopLoop();
+    this.sound.stopAll();
+    this.renderer.clearAttractScreen();
+    this.renderer.clearIntermission();
+    this.syncRendererPellets();
   }
 
   /**
-   * Check if fruit should spawn
+   * Is the attract loop running?
    */
-  private checkFruitSpawn(): void {
-    // Don't spawn if fruit already exists
-    if (this.fruit && this.fruit.isActive()) return;
-
-    const config = getLevelConfig(this.level);
-
-    // First fruit at 70 pellets
-    if (!this.firstFruitSpawned && this.pelletsEaten >= FRUIT_SPAWN_PELLETS.FIRST) {
-      this.fruit = new Fruit(config.fruitType);
-      this.firstFruitSpawned = true;
-      this.sound.play(SoundType.FRUIT_APPEAR);
-    }
-
-    // Second fruit at 170 pellets
-    if (!this.secondFruitSpawned && this.pelletsEaten >= FRUIT_SPAWN_PELLETS.SECOND) {
-      this.fruit = new Fruit(config.fruitType);
-      this.secondFruitSpawned = true;
-      this.sound.play(SoundType.FRUIT_APPEAR);
-    }
+  isAttractActive(): boolean {
+    return this.attract !== null;
   }
 
   /**
-   * Check fruit collision and update
+   * Main game loop
    */
-  private updateFruit(): void {
-    if (!this.fruit || !this.fruit.isActive()) return;
+  private gameLoop(currentTime: number): void {
+    if (!this.running) return;
 
-    // Update despawn timer
-    this.fruit.update();
+    // Calculate delta time
+    const deltaTime = currentTime - this.lastTime;
+    this.lastTime = currentTime;
 
-    // Check collision with Pac-Man
-    const pacTile = this.pacman.getTile();
-    const fruitTile = this.fruit.getTile();
+    // Accumulate time for fixed timestep (replays can run faster or slower)
+    this.accumulator += this.replayPlayer ? deltaTime * this.playbackSpeed : deltaTime;
 
-    if (pacTile.col === fruitTile.col && pacTile.row === fruitTile.row) {
-      const points = this.fruit.collect();
-      this.addScore(points);
+    // Process input
+    this.processInput();
 
-      // Sound and effects
-      this.sound.play(SoundType.EAT_FRUIT);
-      this.particles.emit(
-        this.fruit.position.x,
-        this.fruit.position.y,
-        EffectPresets.POWER_PELLET_EAT
-      );
+    if (this.stepping) {
+      // Step debugger: only the requested ticks, and no catching up after
+      this.accumulator = 0;
+      for (; this.pendingSteps > 0; this.pendingSteps--) {
+        this.update();
+      }
+    } else {
+      // Fixed timestep updates
+      while (this.accumulator >= FRAME_TIME) {
+        this.update();
+        this.accumulator -= FRAME_TIME;
+      }
+    }
 
-      // Show score briefly
-      this.renderer.renderFruitScore(
-        this.fruit.position.x,
-        this.fruit.position.y,
-        points
-      );
+    // Render
+    this.render();
 
-      // Add to fruit history
-      this.renderer.addFruitToHistory(this.fruit.type);
-    }
+    // Next frame
+    this.animationFrameId = requestAnimationFrame((t) => this.gameLoop(t));
   }
 
   /**
-   * Handle power pellet eaten
+   * Process input
+   *
+   * Starting a game is handled here (the intro jingle needs the browser);
+   * everything else is queued for the next simulation tick.
    */
-  private onPowerPelletEaten(result: CollisionResult): void {
-    this.addScore(result.points);
-    this.pelletsEaten++;
+  private processInput(): void {
+    // The replay or the attract demo drives the game; ignore (and drop)
+    // the player's input
+    if (this.replayPlayer || this.attract) {
+      this.input.reset();
+      return;
+    }
 
-    // Update renderer
-    if (result.tile) {
-      this.renderer.eatPellet(result.tile.col, result.tile.row);
+    const state = this.simulation.getState();
 
-      // Big particle burst for power pellet
-      const x = result.tile.col * SCALED_TILE + SCALED_TILE / 2;
-      const y = result.tile.row * SCALED_TILE + SCALED_TILE / 2;
-      this.particles.emit(x, y, EffectPresets.POWER_PELLET_EAT);
+    // Skip level cheat (only meaningful during gameplay)
+    if (this.input.isSkipLevelCheatActivated() && state === GameState.PLAYING) {
+      this.pendingInputs.skipLevel = true;
     }
 
-    // Screen flash for emphasis
-    this.effects.flash(FlashPresets.POWER_PELLET);
+    // Start screen, game over or game won - start a new game
+    if (state === GameState.START_SCREEN || state === GameState.GAME_OVER || state === GameState.GAME_WON) {
+      if (this.input.isStartPressed()) {
+        this.startNewGame();
+        return;
+      }
+    }
 
-    // Add power mode visual indicator
-    const gameContainer = document.getElementById('game-container');
-    if (gameContainer) {
-      gameContainer.classList.add('power-mode');
+    // Handle pause
+    if (this.input.isPausePressed()) {
+      this.pendingInputs.pause = true;
     }
 
-    // Check for fruit spawn
-    this.checkFruitSpawn();
+    // The autopilot steers; the player's arrows wait for B to take back over
+    if (this.autopilotActive) {
+      this.input.clearQueuedDirection();
+      return;
+    }
 
-    // Start frightened mode
-    this.startFrightenedMode();
+    // Pass direction input to Pac-Man
+    const queuedDir = this.input.getQueuedDirection();
+    if (queuedDir !== Direction.NONE) {
+      this.pendingInputs.direction = queuedDir;
+    }
   }
 
   /**
-   * Handle ghost collision (Pac-Man dies)
+   * Run one fixed tick: step the simulation, then advance cosmetics
    */
-  private onGhostCollision(_result: CollisionResult): void {
-    this.state = GameState.DYING;
-    this.stateTimer = 60; // 1 second pause before death animation
+  private update(): void {
+    if (this.attract) {
+      this.attract.update();
+      if (this.attract.getDemo()) this.renderer.updatePowerPelletBlink();
+      return;
+    }
 
-    // Stop sounds
-    this.sound.stopAll();
+    // Practice rewind: while the key is held in play, each tick steps back instead
+    if (this.rewind?.inPlay(this.simulation) && !this.replayPlayer && this.input.isRewindHeld()) {
+      if (this.rewind.rewind(this.simulation)) {
+        // A rewound game can no longer be replayed from its inputs
+        this.recorder = null;
+      }
+      return;
+    }
 
-    // Screen shake for impact
-    this.effects.shake(ShakePresets.DEATH);
+    const inputs = this.nextInputs();
+    this.recorder?.record(inputs);
+    this.simulation.step(inputs);
+    this.rewind?.record(this.simulation);
 
-    // Flash red
-    this.effects.flash(FlashPresets.DAMAGE);
+    if (this.replayPlayer?.isFinished()) {
+      this.finishPlayback();
+    }
 
-    // Emit death particles
-    this.particles.emit(
-      this.pacman.position.x,
-      this.pacman.position.y,
-      EffectPresets.PACMAN_DEATH
-    );
+    // Directions stay queued, one-shot presses are consumed by the tick
+    this.pendingInputs = { direction: this.pendingInputs.direction };
 
-    // Freeze everything
-    this.pacman.die();
+    this.stateEffects[this.simulation.getState()]?.();
   }
 
   /**
-   * Handle ghost eaten
+   * This tick's inputs from the active source: a replay, the autopilot
+   * (with the player's pause and start presses) or the player
    */
-  private onGhostEaten(result: CollisionResult): void {
-    if (!result.ghost) return;
-
-    this.addScore(result.points);
-    result.ghost.eaten();
-
-    // Play sound
-    this.sound.play(SoundType.EAT_GHOST);
-
-    // Show score popup
-    if (result.tile) {
-      const x = result.tile.col * SCALED_TILE + SCALED_TILE / 2;
-      const y = result.tile.row * SCALED_TILE + SCALED_TILE / 2;
-
-      this.renderer.renderGhostScore(x, y, result.points);
-
-      // Particle explosion in ghost color
-      const ghostColorHex = result.ghost.color;
-      const ghostColor = this.hexToRGBA(ghostColorHex);
-      this.particles.emit(x, y, {
-        ...EffectPresets.GHOST_EAT,
-        color: ghostColor,
-      });
+  private nextInputs(): SimulationInputs {
+    if (this.replayPlayer) {
+      return this.replayPlayer.nextInputs();
     }
-
-    // Screen shake for impact
-    this.effects.shake(ShakePresets.GHOST_EAT);
-
-    // Brief pause
-    this.pacman.frightenedModeActive = true;
+    if (this.autopilotActive) {
+      return { ...this.pendingInputs, ...this.autopilot.nextInputs(this.simulation) };
+    }
+    return this.pendingInputs;
   }
 
   /**
-   * Convert hex color to RGBA array
+   * Hand Pac-Man to the autopilot, or take him back
+   *
+   * Either way the old queued direction is dropped, so nobody's last
+   * arrow press steers the other driver.
    */
-  private hexToRGBA(hex: string): number[] {
-    const h = hex.replace('#', '');
-    return [
-      parseInt(h.substring(0, 2), 16) / 255,
-      parseInt(h.substring(2, 4), 16) / 255,
-      parseInt(h.substring(4, 6), 16) / 255,
-      1,
-    ];
+  setAutopilot(active: boolean): void {
+    this.autopilotActive = active;
+    this.pendingInputs = { ...this.pendingInputs, direction: undefined };
+    this.input.clearQueuedDirection();
+    console.log(active ? 'Autopilot engaged (B to take over)' : 'Autopilot off (B to hand back)');
   }
 
   /**
-   * Update during DYING state
+   * Show or hide the ghost AI debug overlay
    */
-  private updateDying(): void {
-    if (this.stateTimer > 0) {
-      this.stateTimer--;
-      return;
+  setDebugOverlay(enabled: boolean): void {
+    this.debugOverlay = enabled;
+    if (!enabled) {
+      this.renderer.clearDebugOverlay();
     }
+  }
 
-    // Play death animation
-    this.pacman.update(FRAME_TIME);
-
-    if (this.pacman.isDeathAnimationComplete()) {
-      this.sound.play(SoundType.DEATH);
-
-      // Check lives
-      this.pacman.lives--;
-
-      if (this.pacman.lives <= 0) {
-        this.gameOver();
-      } else {
-        // Continue with remaining lives
-        this.resetPositions();
-        this.state = GameState.READY;
-        this.stateTimer = 120; // 2 seconds
-        this.renderer.renderReadyText();
-      }
+  /**
+   * Freeze the game for the step debugger, or let it run again
+   *
+   * While frozen the loop keeps rendering and reading input (so a
+   * direction can be queued for the next tick), but only runs the ticks
+   * asked for with `.`.
+   */
+  setStepDebugger(enabled: boolean): void {
+    this.stepping = enabled;
+    this.pendingSteps = 0;
+    if (!enabled) {
+      this.renderer.clearInspector();
     }
+    console.log(enabled ? 'Step debugger on (. steps one tick, F4 resumes)' : 'Step debugger off');
   }
 
   /**
-   * Update during LEVEL_COMPLETE state
+   * Is the autopilot driving?
    */
-  private updateLevelComplete(): void {
-    this.stateTimer--;
+  isAutopilotActive(): boolean {
+    return this.autopilotActive;
+  }
 
+  /**
+   * Cosmetic per-tick updates for the states that animate
+   */
+  private readonly stateEffects: Partial<Record<GameStateType, () => void>> = {
+    [GameState.PLAYING]: () => {
+      // Update renderer animations
+      this.renderer.updatePowerPelletBlink();
+
+      // Update visual effects
+      this.particles.update();
+      this.effects.update();
+    },
+    [GameState.VICTORY_ANIMATION]: () => this.updateVictoryEffects(),
     // Update maze flash animation
-    this.renderer.updateMazeFlash();
+    [GameState.LEVEL_COMPLETE]: () => this.renderer.updateMazeFlash(),
+  };
 
-    if (this.stateTimer <= 0) {
-      // Stop maze flashing
+  /**
+   * React to simulation state changes
+   */
+  private onStateChanged(state: GameStateType, previous: GameStateType): void {
+    // Stop maze flashing once the level complete pause is over
+    if (previous === GameState.LEVEL_COMPLETE) {
       this.renderer.setMazeFlashing(false);
+    }
 
-      // Check if we should play an intermission after this level
-      if (Intermission.shouldPlayAfterLevel(this.level)) {
-        this.startIntermission();
-      } else {
-        this.startNextLevel();
-      }
+    // Pause overlay (with Save & Quit) follows the PAUSED state
+    document.getElementById('pause-overlay')?.classList.toggle('visible', state === GameState.PAUSED);
+
+    switch (state) {
+      case GameState.READY:
+        this.renderer.renderReadyText();
+        break;
+
+      case GameState.PLAYING:
+        // Start (or resume) background sound
+        if (previous === GameState.READY) {
+          this.renderer.clearReadyText();
+        }
+        // Rewinding loads PLAYING over PLAYING - keep the siren going
+        if (previous !== GameState.PLAYING) {
+          this.sound.startSiren(this.simulation.getLevelProgress());
+        }
+        break;
+
+      case GameState.PAUSED:
+        this.sound.stopAll();
+        break;
+
+      case GameState.VICTORY_ANIMATION:
+        this.startVictoryEffects();
+        break;
     }
   }
 
   /**
-   * Start an intermission cutscene
+   * Bring the renderer's pellet grid in line with the simulation
    */
-  private startIntermission(): void {
-    this.state = GameState.INTERMISSION;
-    this.intermission.start(this.level, () => {
-      this.onIntermissionComplete();
-    });
-  }
+  private syncRendererPellets(simulation: GameSimulation = this.simulation): void {
+    const maze = simulation.getMaze();
+    this.renderer.setMaze(maze);
+    this.renderer.resetPellets();
 
-  /**
-   * Update during INTERMISSION state
-   */
-  private updateIntermission(): void {
-    this.intermission.update();
+    for (let row = 0; row < maze.height; row++) {
+      for (let col = 0; col < maze.width; col++) {
+        if (!simulation.hasPellet(col, row)) {
+          this.renderer.eatPellet(col, row);
+        }
+      }
+    }
   }
 
   /**
-   * Called when intermission completes
+   * Pixel center of a tile
    */
-  private onIntermissionComplete(): void {
-    // Check if this was the final level (game won)
-    if (Intermission.isFinalLevel(this.level)) {
-      this.gameWon();
-    } else {
-      this.startNextLevel();
-    }
+  private tileCenter(tile: TilePosition): { x: number; y: number } {
+    return {
+      x: tile.col * SCALED_TILE + SCALED_TILE / 2,
+      y: tile.row * SCALED_TILE + SCALED_TILE / 2,
+    };
   }
 
   /**
-   * Handle game won (completed all 5 levels)
+   * Convert hex color to RGBA array
    */
-  private gameWon(): void {
-    this.state = GameState.GAME_WON;
-    this.sound.stopAll();
-    this.sound.play(SoundType.VICTORY);
-    this.renderer.renderGameWonText(this.score);
-
-    // Big screen effects
-    this.effects.flash({ color: [0, 1, 0, 0.5], duration: 20 });
-    this.effects.shake({ intensity: 12, duration: 40, decay: 0.85 });
+  private hexToRGBA(hex: string): number[] {
+    const h = hex.replace('#', '');
+    return [
+      parseInt(h.substring(0, 2), 16) / 255,
+      parseInt(h.substring(2, 4), 16) / 255,
+      parseInt(h.substring(4, 6), 16) / 255,
+      1,
+    ];
   }
 
   /**
-   * Start the victory animation (Pac-Man spin and jump)
+   * Kick off the victory celebration (Pac-Man spin and jump)
    */
-  private startVictoryAnimation(): void {
-    this.state = GameState.VICTORY_ANIMATION;
+  private startVictoryEffects(): void {
+    const pacman = this.simulation.getSnapshot().pacman;
+
     this.sound.stopAll();
-    this.pacman.startVictory();
 
     // Play victory celebration music!
     this.sound.play(SoundType.VICTORY);
@@ -947,15 +992,15 @@ export class Game {
     for (let i = 0; i < 30; i++) {
       const color = colors[i % colors.length];
       this.particles.emit(
-        this.pacman.position.x,
-        this.pacman.position.y,
+        pacman.position.x,
+        pacman.position.y,
         {
           count: 1,
-          speed: 3 + Math.random() * 4,
+          speed: 3 + this.cosmeticRandom.next() * 4,
           speedVariance: 2,
-          life: 40 + Math.floor(Math.random() * 30),
+          life: 40 + Math.floor(this.cosmeticRandom.next() * 30),
           lifeVariance: 10,
-          size: 3 + Math.random() * 3,
+          size: 3 + this.cosmeticRandom.next() * 3,
           sizeVariance: 1,
           color: color,
           gravity: 0.15,
@@ -963,34 +1008,34 @@ export class Game {
         }
       );
     }
-  }
 
-  /** Timer for continuous victory effects */
-  private victoryEffectTimer: number = 0;
+    this.victoryEffectTimer = 0;
+  }
 
   /**
-   * Update during VICTORY_ANIMATION state
+   * Update effects during VICTORY_ANIMATION state
    */
-  private updateVictoryAnimation(): void {
-    this.pacman.update(FRAME_TIME);
+  private updateVictoryEffects(): void {
+    const pacman = this.simulation.getSnapshot().pacman;
+
     this.particles.update();
     this.effects.update();
 
     // Continuous sparkles during victory
     this.victoryEffectTimer++;
     if (this.victoryEffectTimer % 5 === 0) {
-      const angle = Math.random() * Math.PI * 2;
-      const dist = 20 + Math.random() * 15;
+      const angle = this.cosmeticRandom.next() * Math.PI * 2;
+      const dist = 20 + this.cosmeticRandom.next() * 15;
       this.particles.emit(
-        this.pacman.position.x + Math.cos(angle) * dist,
-        this.pacman.position.y - this.pacman.victoryJump + Math.sin(angle) * dist,
+        pacman.position.x + Math.cos(angle) * dist,
+        pacman.position.y - pacman.victoryJump + Math.sin(angle) * dist,
         {
           count: 1,
           speed: 1,
           speedVariance: 0.5,
           life: 20,
           lifeVariance: 5,
-          size: 2 + Math.random() * 2,
+          size: 2 + this.cosmeticRandom.next() * 2,
           sizeVariance: 1,
           color: [1, 1, 0.5, 1], // Golden sparkle
           gravity: 0,
@@ -998,173 +1043,167 @@ export class Game {
         }
       );
     }
-
-    if (this.pacman.isVictoryAnimationComplete()) {
-      // Reset victory state and proceed to level complete
-      this.pacman.isVictory = false;
-      this.victoryEffectTimer = 0;
-      this.completeLevel();
-    }
   }
 
   /**
-   * Complete current level
+   * Game over
    */
-  private completeLevel(): void {
-    this.state = GameState.LEVEL_COMPLETE;
-    this.stateTimer = 120; // 2 seconds
-
-    this.sound.stopAll();
-    this.sound.play(SoundType.LEVEL_COMPLETE);
+  private gameOver(): void {
+    // Persist high score (practice games with rewind do not count)
+    const snapshot = this.simulation.getSnapshot();
+    if (!this.rewind && snapshot.score >= snapshot.highScore) {
+      localStorage.setItem('pacman-highscore', snapshot.highScore.toString());
+    }
 
-    // Flash maze animation
-    this.renderer.flashMaze();
+    this.renderer.renderGameOverText();
   }
 
   /**
-   * Start next level
+   * Start a new game
    */
-  private startNextLevel(): void {
-    this.level++;
-    this.pelletsEaten = 0;
-
-    // Reset fruit spawns for new level
-    this.fruit = null;
-    this.firstFruitSpawned = false;
-    this.secondFruitSpawned = false;
-
-    // Apply level-specific settings (colors handled by theme system)
-    getLevelConfig(this.level);
+  private startNewGame(): void {
+    this.clearScreen();
 
-    // Reset pellets
-    this.collision.resetPellets();
-    this.renderer.resetPellets();
+    // Reset game state and entities
+    this.pendingInputs = {};
+    this.recorder = null;
+    this.rewind?.clear();
+    this.simulation.newGame(this.fixedSeed ?? Random.generateSeed());
 
-    // Reset positions
-    this.resetPositions();
+    // Play intro
+    this.sound.init();
+    this.sound.playIntro().then(() => {
+      // A replay started during the intro owns the simulation now
+      if (this.replayPlayer) return;
 
-    // Enter ready state
-    this.state = GameState.READY;
-    this.stateTimer = 120;
-    this.renderer.renderReadyText();
+      // Enter ready state and record from the first tick of play (a
+      // second Start during the intro leaves a stale callback - ignore it)
+      if (!this.simulation.enterReady()) return;
 
-    // Reset ghost mode cycle
-    this.modeIndex = 0;
-    this.modeTimer = 0;
-    this.globalGhostMode = GhostMode.SCATTER;
+      // Replays do not store the maze, so they only cover the classic one
+      if (this.mazes !== null) return;
+      this.recorder = new ReplayRecorder(this.simulation.getSeed(), this.simulation.getSnapshot().highScore);
+    });
   }
 
   /**
-   * Reset entity positions
+   * Hide the start screen and clear end-of-game text
    */
-  private resetPositions(): void {
-    this.pacman.reset();
-
-    for (const ghost of this.ghosts) {
-      ghost.reset();
+  private clearScreen(): void {
+    // Hide start screen
+    const startScreen = document.getElementById('start-screen');
+    if (startScreen) {
+      startScreen.classList.add('hidden');
     }
+
+    // Clear game over/won text
+    this.renderer.clearGameOverText();
+    this.renderer.clearGameWonText();
+    this.renderer.clearFruitHistory();
+    this.renderer.flashHighScore(false);
   }
 
   /**
-   * Game over
+   * Close the current recording and keep it as the last replay
    */
-  private gameOver(): void {
-    this.state = GameState.GAME_OVER;
+  private finishRecording(): void {
+    if (!this.recorder) return;
 
-    // Update high score
-    if (this.score > this.highScore) {
-      this.highScore = this.score;
-      localStorage.setItem('pacman-highscore', this.highScore.toString());
-    }
+    const replay = this.recorder.finish(this.simulation.getSnapshot());
+    this.recorder = null;
 
-    this.renderer.renderGameOverText();
+    try {
+      localStorage.setItem(Game.REPLAY_KEY, serializeReplay(replay));
+    } catch (error) {
+      console.error('Failed to store replay:', error);
+    }
   }
 
   /**
-   * Start a new game
+   * Get the replay of the most recent finished game, if any
    */
-  private startNewGame(): void {
-    // Hide start screen
-    const startScreen = document.getElementById('start-screen');
-    if (startScreen) {
-      startScreen.classList.add('hidden');
+  getLastReplay(): ReplayFile | null {
+    try {
+      const json = localStorage.getItem(Game.REPLAY_KEY);
+      return json === null ? null : parseReplay(json);
+    } catch (error) {
+      console.error('Failed to read replay:', error);
+      return null;
     }
+  }
 
-    // Clear game over/won text
-    this.renderer.clearGameOverText();
-    this.renderer.clearGameWonText();
-    this.renderer.clearFruitHistory();
-    this.renderer.flashHighScore(false);
-    this.highScoreFlashing = false;
-
-    // Reset game state
-    this.score = 0;
-    this.level = 1;
-    this.pelletsEaten = 0;
-    this.modeIndex = 0;
-    this.modeTimer = 0;
-    this.globalGhostMode = GhostMode.SCATTER;
-    this.extraLifeAwarded = false;
-
-    // Reset entities
-    this.pacman.fullReset();
-    this.collision.resetPellets();
-    this.renderer.resetPellets();
-    this.resetPositions();
+  /**
+   * Watch a recorded game
+   *
+   * The recorded inputs are fed into the fixed-timestep loop frame for
+   * frame; the player's own input is ignored until playback ends.
+   * Replays are only recorded on the classic maze, so they play back on
+   * it whatever mazes the player has chosen.
+   *
+   * @param replay - Replay object or its JSON text
+   * @throws Error if the JSON is not a supported replay
+   */
+  playReplay(replay: ReplayFile | string): void {
+    const file = typeof replay === 'string' ? parseReplay(replay) : replay;
 
-    // Play intro
-    this.sound.init();
-    this.sound.playIntro().then(() => {
-      // Enter ready state
-      this.state = GameState.READY;
-      this.stateTimer = 120;
-      this.renderer.renderReadyText();
-    });
+    this.clearScreen();
+    this.sound.stopAll();
+    this.pendingInputs = {};
+    this.recorder = null;
+    this.rewind?.clear();
+    this.replayPlayer = new ReplayPlayer(file);
+    this.simulation.setMazes();
+    this.simulation.startNewGame(file.seed);
+
+    console.log(`Playing replay: seed ${file.seed}, ${file.length} ticks at ${this.playbackSpeed}x`);
   }
 
   /**
-   * Toggle pause
+   * Playback has reached the end of the recording - check it matched
    */
-  private togglePause(): void {
-    if (this.state === GameState.PLAYING) {
-      this.state = GameState.PAUSED;
-      this.sound.stopAll();
-    } else if (this.state === GameState.PAUSED) {
-      this.state = GameState.PLAYING;
-      this.sound.startSiren(this.pelletsEaten / (this.pelletsEaten + this.collision.getPelletsRemaining()));
+  private finishPlayback(): void {
+    if (!this.replayPlayer) return;
+
+    const result = verifyReplay(this.replayPlayer.replay, this.simulation.getSnapshot());
+    this.endPlayback();
+
+    if (result.desynced) {
+      console.warn('Replay desynced:', result.expected, 'recorded,', result.actual, 'played back');
+    } else {
+      console.log('Replay finished in sync:', result.actual);
     }
   }
 
-  /** Track if we've started flashing high score */
-  private highScoreFlashing: boolean = false;
+  /**
+   * Stop feeding replay inputs and put the player's mazes back (for the
+   * next new game)
+   */
+  private endPlayback(): void {
+    this.replayPlayer = null;
+    this.simulation.setMazes(this.mazes ?? undefined);
+  }
 
   /**
-   * Add to score
+   * Set the replay playback speed (clamped to 0.25x - 8x)
    */
-  private addScore(points: number): void {
-    this.score += points;
-
-    // Check for extra life
-    if (!this.extraLifeAwarded && this.score >= EXTRA_LIFE_SCORE) {
-      this.extraLifeAwarded = true;
-      this.pacman.lives++;
-      this.sound.play(SoundType.EXTRA_LIFE);
-    }
+  setPlaybackSpeed(speed: number): void {
+    this.playbackSpeed = clampPlaybackSpeed(speed);
+  }
 
-    // Check for new high score
-    if (this.score > this.highScore) {
-      this.highScore = this.score;
-      if (!this.highScoreFlashing) {
-        this.highScoreFlashing = true;
-        this.renderer.flashHighScore(true);
-      }
-    }
+  /**
+   * Is a replay being played back?
+   */
+  isPlayingReplay(): boolean {
+    return this.replayPlayer !== null;
   }
 
   /**
    * Render the current frame
    */
   private render(): void {
+    // The attract demo game, if one is on, is drawn in place of the player's
+    const snapshot = (this.attract?.getDemo() ?? this.simulation).getSnapshot();
+
     // Apply screen shake offset
     const shakeOffset = this.effects.getShakeOffset();
     const canvas = this.renderer.getCanvas();
@@ -1189,7 +1228,7 @@ export class Game {
     this.renderer.clear();
 
     // Set level for theming
-    this.renderer.setLevel(this.level);
+    this.renderer.setLevel(snapshot.level);
 
     // Render maze
     this.renderer.renderMaze();
@@ -1198,42 +1237,44 @@ export class Game {
     this.renderer.renderPellets();
 
     // Render entities (except during start screen)
-    if (this.state !== GameState.START_SCREEN) {
+    if (snapshot.state !== GameState.START_SCREEN) {
+      const pacman = snapshot.pacman;
+
       // Render Pac-Man
       this.renderer.renderPacMan(
-        this.pacman.position.x,
-        this.pacman.position.y,
-        this.pacman.direction,
-        this.pacman.getAnimationFrame(),
-        this.pacman.isDying,
-        this.pacman.deathAnimationFrame,
-        this.pacman.isVictory,
-        this.pacman.victoryRotation,
-        this.pacman.victoryJump
+        pacman.position.x,
+        pacman.position.y,
+        pacman.direction,
+        pacman.animationFrame,
+        pacman.isDying,
+        pacman.deathAnimationFrame,
+        pacman.isVictory,
+        pacman.victoryRotation,
+        pacman.victoryJump
       );
 
       // Render ghosts (unless dying)
-      if (this.state !== GameState.DYING || this.stateTimer > 0) {
-        for (const ghost of this.ghosts) {
+      if (snapshot.state !== GameState.DYING || snapshot.stateTimer > 0) {
+        for (const ghost of snapshot.ghosts) {
           this.renderer.renderGhost(
             ghost.position.x,
             ghost.position.y,
             ghost.color,
             ghost.direction,
             ghost.mode,
-            ghost.getAnimationFrame(),
+            ghost.animationFrame,
             ghost.frightenedFlashing
           );
         }
       }
 
       // Render fruit if active
-      if (this.fruit && this.fruit.isActive()) {
+      if (snapshot.fruit) {
         this.renderer.renderFruit(
-          this.fruit.position.x,
-          this.fruit.position.y,
-          this.fruit.getColor(),
-          this.fruit.type
+          snapshot.fruit.position.x,
+          snapshot.fruit.position.y,
+          snapshot.fruit.color,
+          snapshot.fruit.type
         );
       }
     }
@@ -1246,27 +1287,37 @@ export class Game {
     this.renderer.present();
 
     // Update UI
-    this.renderer.renderScore(this.score, this.highScore);
-    this.renderer.renderLevel(this.level);
-    this.renderer.renderLives(this.pacman.lives);
-    this.renderer.renderLevel(this.level);
+    this.renderer.renderScore(snapshot.score, snapshot.highScore);
+    this.renderer.renderLevel(snapshot.level);
+    this.renderer.renderLives(snapshot.lives);
 
     // Render intermission overlay if active
-    if (this.state === GameState.INTERMISSION) {
-      const desc = this.intermission.getSceneDescription();
-      const sprites = this.intermission.getSprites();
-      this.renderer.renderIntermission(desc.title, desc.message, this.intermission.getProgress(), sprites);
+    if (snapshot.intermission) {
+      const { title, message, progress, sprites } = snapshot.intermission;
+      this.renderer.renderIntermission(title, message, progress, [...sprites]);
     } else {
       this.renderer.clearIntermission();
     }
+
+    if (this.attract) {
+      this.renderer.renderAttractScreen(this.attract.getScreen());
+    }
+
+    if (this.debugOverlay) {
+      this.renderer.renderDebugOverlay(buildDebugView(snapshot));
+    }
+
+    if (this.stepping) {
+      this.renderer.renderInspector(buildInspector(snapshot));
+    }
   }
 
   /**
    * Stop the game
    */
   stop(): void {
-    this.running = false;
-    cancelAnimationFrame(this.animationFrameId);
+    this.attract = null;
+    this.stopLoop();
     this.sound.destroy();
     this.input.destroy();
   }
@@ -1275,13 +1326,44 @@ export class Game {
    * Get current game state (for testing)
    */
   getState(): GameStateType {
-    return this.state;
+    return this.simulation.getState();
+  }
+
+  /**
+   * Get the maze in play
+   */
+  getMaze(): MazeDefinition {
+    return this.simulation.getMaze();
   }
 
   /**
    * Get current score (for testing)
    */
   getScore(): number {
-    return this.score;
+    return this.simulation.getScore();
+  }
+
+  /**
+   * Get the rendering backend in use (include it in bug reports)
+   */
+  getRendererType(): RendererType {
+    return this.renderer.type;
+  }
+
+  /**
+   * Get the gameplay seed of the current game (include it in bug reports)
+   */
+  getSeed(): number {
+    return this.simulation.getSeed();
+  }
+
+  /**
+   * Pin every following game to a seed (null = fresh seed per game)
+   */
+  setSeed(seed: number | null): void {
+    this.fixedSeed = seed;
+    if (seed !== null) {
+      this.simulation.setSeed(seed);
+    }
   }
 }
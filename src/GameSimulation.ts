@@ -0,0 +1,1365 @@
+/**
+ * Headless Game Simulation
+ *
+ * The complete Pac-Man rule set with no browser dependencies. This class
+ * owns the game state machine, Pac-Man/ghost/fruit updates, collision
+ * handling and scoring, and advances exactly one fixed tick per `step()`.
+ *
+ * ## Why a Separate Simulation?
+ *
+ * Game.ts used to create the WebGL renderer, input and sound systems in its
+ * constructor and touched `document`/`localStorage` directly, so the rules
+ * could only run inside a browser. Keeping the rules here means:
+ *
+ * - Thousands of games can run in vitest or a batch script (no jsdom, no WebGL mock)
+ * - Game.ts becomes a thin browser shell: it forwards input and draws snapshots
+ * - Presentation (sound, particles, renderer) subscribes to its event bus
+ *
+ * ## Usage
+ *
+ * ```ts
+ * const sim = new GameSimulation();
+ * sim.events.on('ghostEaten', (e) => console.log(e.data.ghostName));
+ * sim.startNewGame();
+ *
+ * while (sim.getState() !== GameState.GAME_OVER) {
+ *   sim.step({ direction: Direction.LEFT });
+ * }
+ *
+ * console.log(sim.getSnapshot().score);
+ * ```
+ *
+ * @module GameSimulation
+ */
+
+import { Collision, CollisionResult, CollisionSaveData } from './systems/Collision';
+import { PacMan, PacManSaveData } from './entities/PacMan';
+import { Ghost, GhostSaveData } from './entities/Ghost';
+import { Blinky } from './entities/Blinky';
+import { Pinky } from './entities/Pinky';
+import { Inky } from './entities/Inky';
+import { Clyde } from './entities/Clyde';
+import { Fruit, FruitTypeValue, FruitSaveData } from './entities/Fruit';
+import { getLevelConfig, FRUIT_SPAWN_PELLETS } from './systems/LevelConfig';
+import { Intermission, CutsceneSprite, IntermissionSaveData } from './systems/Intermission';
+import { EventBus, GameEventBus } from './systems/EventBus';
+import { FrameScheduler, ScheduledActionSaveData } from './systems/Scheduler';
+import { GhostHouse, GhostHouseSaveData } from './systems/GhostHouse';
+import { GhostBrainSelector } from './ai/GhostBrain';
+import { CLASSIC_MAZE, MazeDefinition, MazeSelector } from './utils/MazeData';
+import { assertPlayable } from './utils/MazeValidator';
+import { StateMachine } from './systems/StateMachine';
+import { Random } from './utils/Random';
+import {
+  GameState,
+  GameStateType,
+  GAME_STATE_TRANSITIONS,
+  GhostMode,
+  GhostModeType,
+  Direction,
+  DirectionType,
+  EXTRA_LIFE_SCORE,
+  TARGET_FPS,
+  FRAME_TIME,
+} from './constants';
+import { Position, TilePosition, GameEventMap } from './types';
+
+/**
+ * Inputs applied at the start of a single simulation tick
+ *
+ * Directions are sticky (Pac-Man keeps the last one queued), while
+ * `pause`, `start` and `skipLevel` are one-shot presses.
+ */
+export interface SimulationInputs {
+  /** Direction to queue for Pac-Man (NONE or omitted = no change) */
+  direction?: DirectionType;
+
+  /** Toggle pause */
+  pause?: boolean;
+
+  /** Start a new game from the start screen, game over or game won */
+  start?: boolean;
+
+  /** Skip-level cheat (clears all but 3 pellets) */
+  skipLevel?: boolean;
+}
+
+/**
+ * Simulation construction options
+ */
+export interface GameSimulationOptions {
+  /** High score carried in from storage (the browser shell loads it) */
+  highScore?: number;
+
+  /** Bus to raise game events on (a private one is created if omitted) */
+  events?: GameEventBus;
+
+  /** Gameplay random seed (a random one is picked if omitted) */
+  seed?: number;
+
+  /** Per-level ghost personalities (every ghost keeps its classic brain if omitted) */
+  ghostBrains?: GhostBrainSelector;
+
+  /**
+   * Per-level maze layouts (the classic maze on every level if omitted);
+   * a maze with validation errors throws when its level starts
+   */
+  mazes?: MazeSelector;
+}
+
+/**
+ * Read-only view of Pac-Man for rendering and analysis
+ */
+export interface PacManSnapshot {
+  readonly position: Readonly<Position>;
+  readonly tile: Readonly<TilePosition>;
+  readonly direction: DirectionType;
+  readonly nextDirection: DirectionType;
+  readonly animationFrame: number;
+  readonly isDying: boolean;
+  readonly deathAnimationFrame: number;
+  readonly isVictory: boolean;
+  readonly victoryRotation: number;
+  readonly victoryJump: number;
+}
+
+/**
+ * Read-only view of a ghost
+ */
+export interface GhostSnapshot {
+  readonly name: string;
+  readonly color: string;
+  readonly position: Readonly<Position>;
+  readonly tile: Readonly<TilePosition>;
+  readonly direction: DirectionType;
+  readonly mode: GhostModeType;
+  readonly targetTile: Readonly<TilePosition>;
+  readonly scatterTarget: Readonly<TilePosition>;
+  /** Pixels per tick in its current mode and place */
+  readonly speed: number;
+  /** Direction it will take at its next tile (null when random or not yet known) */
+  readonly nextDirection: DirectionType | null;
+  /** Name of the brain choosing its chase target and path */
+  readonly brain: string;
+  readonly isInHouse: boolean;
+  readonly animationFrame: number;
+  readonly frightenedFlashing: boolean;
+}
+
+/**
+ * Read-only view of a collision handled in the last tick
+ */
+export interface CollisionSnapshot {
+  readonly type: CollisionResult['type'];
+  readonly points: number;
+  readonly tile: Readonly<TilePosition> | null;
+  /** Name of the ghost involved (null for pellets) */
+  readonly ghost: string | null;
+}
+
+/**
+ * Read-only view of the active bonus fruit
+ */
+export interface FruitSnapshot {
+  readonly position: Readonly<Position>;
+  readonly tile: Readonly<TilePosition>;
+  readonly type: FruitTypeValue;
+  readonly points: number;
+  readonly color: string;
+  readonly remainingTime: number;
+}
+
+/**
+ * Read-only view of a playing intermission
+ */
+export interface IntermissionSnapshot {
+  readonly title: string;
+  readonly message: string;
+  readonly progress: number;
+  readonly sprites: readonly CutsceneSprite[];
+}
+
+/**
+ * Complete read-only snapshot of the simulation after a tick
+ */
+export interface GameSnapshot {
+  /** Ticks simulated since construction */
+  readonly tick: number;
+  /** Gameplay random seed of the current game */
+  readonly seed: number;
+  readonly state: GameStateType;
+  readonly stateTimer: number;
+  readonly score: number;
+  readonly highScore: number;
+  readonly level: number;
+  readonly lives: number;
+  readonly pelletsEaten: number;
+  readonly pelletsRemaining: number;
+  readonly globalGhostMode: GhostModeType;
+  /** Scatter/chase phase (0-based; scatter and chase share an index) */
+  readonly modeIndex: number;
+  /** Ticks spent in the current scatter or chase phase */
+  readonly modeTimer: number;
+  /** Length of the current phase in ticks (null for the final, endless chase) */
+  readonly modeDuration: number | null;
+  readonly frightenedTimer: number;
+  readonly pacman: PacManSnapshot;
+  readonly ghosts: readonly GhostSnapshot[];
+  readonly fruit: FruitSnapshot | null;
+  readonly intermission: IntermissionSnapshot | null;
+  /** What Pac-Man ran into in the last tick, in the order it was handled */
+  readonly collisions: readonly CollisionSnapshot[];
+  /** Layout of the current level (shared, never copied: definitions are immutable) */
+  readonly maze: MazeDefinition;
+}
+
+/**
+ * Everything needed to resume a game exactly where it was saved
+ *
+ * Plain JSON data; see SaveGame for the versioned file format.
+ */
+export interface SimulationSaveData {
+  state: GameStateType;
+  tick: number;
+  score: number;
+  highScore: number;
+  level: number;
+  pelletsEaten: number;
+  modeTimer: number;
+  modeIndex: number;
+  globalGhostMode: GhostModeType;
+  frightenedTimer: number;
+  stateTimer: number;
+  extraLifeAwarded: boolean;
+  highScoreAnnounced: boolean;
+  firstFruitSpawned: boolean;
+  secondFruitSpawned: boolean;
+  fruit: FruitSaveData | null;
+  /** Fruits eaten this game, oldest first (for the fruit history display) */
+  fruitHistory: FruitTypeValue[];
+  random: { seed: number; state: number };
+  scheduled: ScheduledActionSaveData[];
+  ghostHouse: GhostHouseSaveData;
+  collision: CollisionSaveData;
+  pacman: PacManSaveData;
+  ghosts: GhostSaveData[];
+  intermission: IntermissionSaveData;
+}
+
+/**
+ * Headless Game Simulation Class
+ */
+export class GameSimulation {
+  /** Collision system (also tracks the pellet grid) */
+  private collision: Collision;
+
+  /** Pac-Man entity */
+  private pacman: PacMan;
+
+  /** Ghost entities */
+  private ghosts: Ghost[];
+
+  /** Blinky reference (needed for Inky's AI) */
+  private blinky: Blinky;
+
+  /** Dot counters and idle timer that release ghosts from the house */
+  private ghostHouse: GhostHouse;
+
+  /** Chooses each ghost's brain per level (null: classic brains only) */
+  private ghostBrains: GhostBrainSelector | null;
+
+  /** Chooses each level's maze */
+  private mazes: MazeSelector;
+
+  /** Maze of the current level */
+  private maze: MazeDefinition = CLASSIC_MAZE;
+
+  /** Intermission system for cutscenes */
+  private intermission: Intermission;
+
+  /** Game events (pellet eaten, ghost eaten, state changed, ...) */
+  public readonly events: GameEventBus;
+
+  /** Gameplay random stream (shared by every ghost) */
+  private random: Random;
+
+  /** Delayed gameplay actions, advanced only by PLAYING ticks */
+  private scheduler: FrameScheduler = new FrameScheduler();
+
+  /** Game state machine (allowed transitions: GAME_STATE_TRANSITIONS) */
+  private machine: StateMachine<GameStateType>;
+
+  /** Ticks simulated since construction */
+  private tick: number = 0;
+
+  /** Current score */
+  private score: number = 0;
+
+  /** High score */
+  private highScore: number = 0;
+
+  /** Current level */
+  private level: number = 1;
+
+  /** Pellets eaten this level */
+  private pelletsEaten: number = 0;
+
+  /** Collisions handled in the last tick (for debugging tools) */
+  private lastCollisions: CollisionResult[] = [];
+
+  /** Ghost mode timer */
+  private modeTimer: number = 0;
+
+  /** Current ghost mode index (for scatter/chase cycle) */
+  private modeIndex: number = 0;
+
+  /** Current global ghost mode */
+  private globalGhostMode: GhostModeType = GhostMode.SCATTER;
+
+  /** Frightened mode timer */
+  private frightenedTimer: number = 0;
+
+  /** State timer (for READY, DYING, etc.) */
+  private stateTimer: number = 0;
+
+  /** Extra life awarded flag */
+  private extraLifeAwarded: boolean = false;
+
+  /** Track if the new high score has been announced this game */
+  private highScoreAnnounced: boolean = false;
+
+  /** Current fruit (if any) */
+  private fruit: Fruit | null = null;
+
+  /** Track if first fruit has spawned this level */
+  private firstFruitSpawned: boolean = false;
+
+  /** Track if second fruit has spawned this level */
+  private secondFruitSpawned: boolean = false;
+
+  /** Fruits eaten this game, oldest first */
+  private fruitHistory: FruitTypeValue[] = [];
+
+  /**
+   * Create a new simulation
+   */
+  constructor(options: GameSimulationOptions = {}) {
+    this.events = options.events ?? new EventBus<GameEventMap>();
+    this.highScore = options.highScore ?? 0;
+    this.random = new Random(options.seed);
+    this.ghostBrains = options.ghostBrains ?? null;
+    this.mazes = options.mazes ?? (() => CLASSIC_MAZE);
+
+    this.collision = new Collision();
+    this.intermission = new Intermission();
+
+    // Initialize entities
+    this.pacman = new PacMan();
+
+    this.blinky = new Blinky();
+    const pinky = new Pinky();
+    const inky = new Inky();
+    const clyde = new Clyde();
+
+    this.ghosts = [this.blinky, pinky, inky, clyde];
+    for (const ghost of this.ghosts) {
+      ghost.setRandom(this.random);
+    }
+    this.ghostHouse = new GhostHouse([pinky, inky, clyde]);
+
+    this.machine = this.createStateMachine();
+  }
+
+  /**
+   * Build the state machine: the transition table plus per-state hooks
+   *
+   * Every state change goes through it, so an illegal one (pausing while
+   * dying, a late READY after play started) is refused, logged and raised
+   * as a `stateRejected` event instead of corrupting the game.
+   */
+  private createStateMachine(): StateMachine<GameStateType> {
+    return new StateMachine<GameStateType>(
+      GameState.START_SCREEN,
+      GAME_STATE_TRANSITIONS,
+      {
+        [GameState.READY]: {
+          enter: () => {
+            this.stateTimer = 120; // 2 seconds
+          },
+          update: () => this.updateReady(),
+        },
+        [GameState.PLAYING]: {
+          // Pending delayed actions survive pausing but nothing else
+          exit: (to) => {
+            if (to !== GameState.PAUSED) this.scheduler.clear();
+          },
+          update: () => this.updatePlaying(),
+        },
+        [GameState.DYING]: {
+          enter: () => {
+            this.stateTimer = 60; // 1 second pause before death animation
+          },
+          update: () => this.updateDying(),
+        },
+        [GameState.VICTORY_ANIMATION]: {
+          enter: () => this.pacman.startVictory(),
+          exit: () => {
+            this.pacman.isVictory = false;
+          },
+          update: () => this.updateVictoryAnimation(),
+        },
+        [GameState.LEVEL_COMPLETE]: {
+          enter: () => {
+            this.stateTimer = 120; // 2 seconds
+          },
+          update: () => this.updateLevelComplete(),
+        },
+        [GameState.INTERMISSION]: {
+          enter: () => this.intermission.start(this.level, () => this.onIntermissionComplete()),
+          update: () => this.intermission.update(),
+        },
+      },
+      {
+        onTransition: (state, previous) => this.events.emit('stateChanged', { state, previous }),
+        onRejected: (state, current) => {
+          console.warn(`Illegal game state transition: ${current} -> ${state}`);
+          this.events.emit('stateRejected', { state, current });
+        },
+      }
+    );
+  }
+
+  /**
+   * Current game state
+   */
+  private get state(): GameStateType {
+    return this.machine.state;
+  }
+
+  /**
+   * Advance the simulation by exactly one fixed tick
+   *
+   * @param inputs - Inputs to apply before this tick's update
+   */
+  step(inputs: SimulationInputs = {}): void {
+    this.lastCollisions = [];
+    this.applyInputs(inputs);
+    this.update();
+    this.tick++;
+  }
+
+  /**
+   * Reset score, level, lives and entities for a new game
+   *
+   * The state returns to START_SCREEN (a reset, allowed from anywhere) so
+   * the browser shell can play the intro jingle before calling
+   * `enterReady()`. Headless callers normally use `startNewGame()` instead.
+   *
+   * @param seed - Gameplay seed for this game (defaults to the current one,
+   *               so restarting replays the same ghost decisions)
+   */
+  newGame(seed: number = this.random.getSeed()): void {
+    this.random.setSeed(seed);
+    this.score = 0;
+    this.level = 1;
+    this.pelletsEaten = 0;
+    this.modeIndex = 0;
+    this.modeTimer = 0;
+    this.frightenedTimer = 0;
+    this.globalGhostMode = GhostMode.SCATTER;
+    this.extraLifeAwarded = false;
+    this.highScoreAnnounced = false;
+    this.fruit = null;
+    this.firstFruitSpawned = false;
+    this.secondFruitSpawned = false;
+    this.fruitHistory = [];
+    this.scheduler.clear();
+    this.resetState(GameState.START_SCREEN);
+
+    this.pacman.fullReset();
+    this.applyLevelMaze();
+    this.collision.resetPellets();
+    this.resetPositions();
+    this.ghostHouse.startLevel(this.level);
+    this.emitPelletsChanged();
+  }
+
+  /**
+   * Start a new game and go straight to the READY state
+   */
+  startNewGame(seed?: number): void {
+    this.newGame(seed);
+    this.enterReady();
+  }
+
+  /**
+   * Enter the READY state (2 second "READY!" pause before play)
+   *
+   * @returns False if READY cannot follow the current state (for example
+   *          an intro jingle that finishes after play already started)
+   */
+  enterReady(): boolean {
+    return this.machine.transition(GameState.READY);
+  }
+
+  /**
+   * Apply one tick's inputs
+   */
+  private applyInputs(inputs: SimulationInputs): void {
+    // Skip level cheat (only during gameplay)
+    if (this.state === GameState.PLAYING && inputs.skipLevel) {
+      this.activateSkipCheat();
+      return;
+    }
+
+    // Handle start screen
+    if (this.state === GameState.START_SCREEN) {
+      if (inputs.start) {
+        this.startNewGame();
+      }
+      return;
+    }
+
+    // Handle pause
+    if (inputs.pause) {
+      this.togglePause();
+      return;
+    }
+
+    // Handle game over or game won - restart
+    if ((this.state === GameState.GAME_OVER || this.state === GameState.GAME_WON) && inputs.start) {
+      this.startNewGame();
+      return;
+    }
+
+    // Pass direction input to Pac-Man
+    if (inputs.direction !== undefined && inputs.direction !== Direction.NONE) {
+      this.pacman.setDirection(inputs.direction);
+    }
+  }
+
+  /**
+   * Activate skip to end of level cheat
+   * Leaves 3 adjacent pellets for the player to eat
+   */
+  private activateSkipCheat(): void {
+    this.collision.skipToEndOfLevel();
+    this.emitPelletsChanged();
+    this.events.emit('levelSkipped');
+  }
+
+  /**
+   * Jump to a state outside the transition table (new game), raising
+   * stateChanged if it differs
+   */
+  private resetState(state: GameStateType): void {
+    const previous = this.state;
+    this.machine.reset(state);
+
+    if (state !== previous) {
+      this.events.emit('stateChanged', { state, previous });
+    }
+  }
+
+  /**
+   * Update game state
+   *
+   * Runs the current state's update hook. START_SCREEN, GAME_OVER,
+   * GAME_WON and PAUSED have none - they wait for input.
+   */
+  private update(): void {
+    this.machine.update();
+  }
+
+  /**
+   * Update during READY state
+   */
+  private updateReady(): void {
+    this.stateTimer--;
+
+    if (this.stateTimer <= 0) {
+      // Ghosts leave the house by dot counter (see GhostHouse)
+      this.machine.transition(GameState.PLAYING);
+    }
+  }
+
+  /**
+   * Update during PLAYING state
+   */
+  private updatePlaying(): void {
+    // Update mode timer
+    this.updateGhostModes();
+
+    // Update Pac-Man
+    this.pacman.update(FRAME_TIME);
+
+    // Run delayed actions that are now due (after Pac-Man moves, so a
+    // one-tick eating slowdown covers exactly one move)
+    this.scheduler.update();
+
+    // Update ghosts
+    for (const ghost of this.ghosts) {
+      ghost.updateTarget(this.pacman, this.blinky);
+      ghost.update(FRAME_TIME);
+
+      // Eaten ghosts revive in the house and leave straight away
+      if (ghost.checkReachedHouse()) {
+        ghost.exitHouse();
+      }
+    }
+
+    // Update fruit (despawn timer and collision)
+    this.updateFruit();
+
+    // Check collisions
+    const collisions = this.collision.checkCollisions(this.pacman, this.ghosts);
+    this.lastCollisions = collisions;
+    this.handleCollisions(collisions);
+
+    // A ghost may have caught Pac-Man this tick
+    if (this.state !== GameState.PLAYING) return;
+
+    // Check level complete - trigger victory animation first
+    if (this.collision.isLevelComplete()) {
+      this.startVictoryAnimation();
+    }
+
+    // Release more ghosts (dot counters and idle timer)
+    this.ghostHouse.update();
+
+    // Update Blinky's Elroy mode
+    this.blinky.updateElroyMode(this.collision.getPelletsRemaining());
+  }
+
+  /**
+   * Update ghost mode timing (scatter/chase cycles)
+   */
+  private updateGhostModes(): void {
+    // Handle frightened mode
+    if (this.frightenedTimer > 0) {
+      this.frightenedTimer--;
+
+      if (this.frightenedTimer <= 0) {
+        // Frightened mode ended
+        this.endFrightenedMode();
+      }
+      return;
+    }
+
+    // Normal mode cycling
+    this.modeTimer++;
+
+    const { chaseTimes } = getLevelConfig(this.level);
+
+    if (this.globalGhostMode === GhostMode.SCATTER) {
+      if (this.modeTimer >= this.getModeDuration()) {
+        this.modeTimer = 0;
+        this.globalGhostMode = GhostMode.CHASE;
+        this.setGhostMode(GhostMode.CHASE);
+      }
+    } else if (this.globalGhostMode === GhostMode.CHASE) {
+      if (this.modeTimer >= this.getModeDuration() && this.modeIndex < chaseTimes.length - 1) {
+        this.modeTimer = 0;
+        this.modeIndex++;
+        this.globalGhostMode = GhostMode.SCATTER;
+        this.setGhostMode(GhostMode.SCATTER);
+      }
+    }
+  }
+
+  /**
+   * Length of the current scatter or chase phase in ticks
+   *
+   * @returns Infinity for the final chase, which never ends
+   */
+  private getModeDuration(): number {
+    const { scatterTimes, chaseTimes } = getLevelConfig(this.level);
+    const seconds = this.globalGhostMode === GhostMode.CHASE
+      ? chaseTimes[this.modeIndex] ?? Infinity
+      : scatterTimes[this.modeIndex] ?? 5;
+    return seconds * TARGET_FPS;
+  }
+
+  /**
+   * Set mode for all ghosts
+   */
+  private setGhostMode(mode: GhostModeType): void {
+    for (const ghost of this.ghosts) {
+      if (ghost.mode !== GhostMode.EATEN && !ghost.isInHouse) {
+        ghost.setMode(mode);
+      }
+    }
+  }
+
+  /**
+   * Start frightened mode
+   */
+  private startFrightenedMode(): void {
+    // Get duration for current level
+    const duration = getLevelConfig(this.level).frightenedDuration * TARGET_FPS;
+
+    if (duration === 0) {
+      // No frightened mode at this level!
+      return;
+    }
+
+    // Add to existing timer (extends duration if already frightened)
+    this.frightenedTimer += duration;
+    this.pacman.frightenedModeActive = true;
+
+    // Set ghosts to frightened
+    for (const ghost of this.ghosts) {
+      if (ghost.mode !== GhostMode.EATEN && !ghost.isInHouse) {
+        ghost.setMode(GhostMode.FRIGHTENED, duration);
+      }
+    }
+
+    this.events.emit('frightenedStarted', { duration });
+  }
+
+  /**
+   * End frightened mode
+   */
+  private endFrightenedMode(): void {
+    this.collision.resetGhostMultiplier();
+    this.pacman.frightenedModeActive = false;
+
+    // Return ghosts to current mode
+    for (const ghost of this.ghosts) {
+      if (ghost.mode === GhostMode.FRIGHTENED) {
+        ghost.setMode(this.globalGhostMode);
+      }
+    }
+
+    this.events.emit('frightenedEnded');
+  }
+
+  /**
+   * Handle collision results
+   */
+  private handleCollisions(collisions: CollisionResult[]): void {
+    for (const result of collisions) {
+      switch (result.type) {
+        case 'pellet':
+          this.onPelletEaten(result);
+          break;
+
+        case 'powerPellet':
+          this.onPowerPelletEaten(result);
+          break;
+
+        case 'ghost':
+          this.onGhostCollision(result);
+          break;
+
+        case 'ghostEaten':
+          this.onGhostEaten(result);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Handle pellet eaten
+   */
+  private onPelletEaten(result: CollisionResult): void {
+    this.addScore(result.points);
+    this.pelletsEaten++;
+    this.ghostHouse.pelletEaten();
+
+    if (result.tile) {
+      this.events.emit('pelletEaten', { tile: result.tile, points: result.points });
+    }
+
+    // Check for fruit spawn
+    this.checkFruitSpawn();
+
+    // Brief slowdown while eating (the next tick only)
+    this.pacman.isEating = true;
+    this.schedule(1, 'endEating');
+  }
+
+  /**
+   * Handle power pellet eaten
+   */
+  private onPowerPelletEaten(result: CollisionResult): void {
+    this.addScore(result.points);
+    this.pelletsEaten++;
+    this.ghostHouse.pelletEaten();
+
+    if (result.tile) {
+      this.events.emit('powerPelletEaten', { tile: result.tile, points: result.points });
+    }
+
+    // Check for fruit spawn
+    this.checkFruitSpawn();
+
+    // Start frightened mode
+    this.startFrightenedMode();
+  }
+
+  /**
+   * Check if fruit should spawn
+   */
+  private checkFruitSpawn(): void {
+    // Don't spawn if fruit already exists
+    if (this.fruit && this.fruit.isActive()) return;
+
+    const config = getLevelConfig(this.level);
+
+    // First fruit
+    if (!this.firstFruitSpawned && this.pelletsEaten >= FRUIT_SPAWN_PELLETS.FIRST) {
+      this.fruit = new Fruit(config.fruitType, this.maze.fruitSpawn);
+      this.firstFruitSpawned = true;
+      this.emitFruitSpawned(this.fruit);
+    }
+
+    // Second fruit
+    if (!this.secondFruitSpawned && this.pelletsEaten >= FRUIT_SPAWN_PELLETS.SECOND) {
+      this.fruit = new Fruit(config.fruitType, this.maze.fruitSpawn);
+      this.secondFruitSpawned = true;
+      this.emitFruitSpawned(this.fruit);
+    }
+  }
+
+  /**
+   * Check fruit collision and update
+   */
+  private updateFruit(): void {
+    if (!this.fruit || !this.fruit.isActive()) return;
+
+    // Update despawn timer
+    this.fruit.update();
+
+    // Check collision with Pac-Man
+    const pacTile = this.pacman.getTile();
+    const fruitTile = this.fruit.getTile();
+
+    if (pacTile.col === fruitTile.col && pacTile.row === fruitTile.row) {
+      const points = this.fruit.collect();
+      this.fruitHistory.push(this.fruit.type);
+      this.addScore(points);
+      this.events.emit('fruitEaten', {
+        fruitType: this.fruit.type,
+        position: { ...this.fruit.position },
+        points,
+      });
+    }
+  }
+
+  /**
+   * Handle ghost collision (Pac-Man dies)
+   */
+  private onGhostCollision(result: CollisionResult): void {
+    // Only the first deadly ghost this tick counts
+    if (this.state !== GameState.PLAYING) return;
+
+    this.machine.transition(GameState.DYING);
+    this.events.emit('pacmanCaught', {
+      ghostName: result.ghost?.name ?? '',
+      position: { ...this.pacman.position },
+    });
+
+    // Freeze everything
+    this.pacman.die();
+  }
+
+  /**
+   * Handle ghost eaten
+   */
+  private onGhostEaten(result: CollisionResult): void {
+    if (!result.ghost) return;
+
+    this.addScore(result.points);
+    result.ghost.eaten();
+
+    if (result.tile) {
+      this.events.emit('ghostEaten', {
+        ghostName: result.ghost.name,
+        ghostColor: result.ghost.color,
+        tile: result.tile,
+        points: result.points,
+      });
+    }
+  }
+
+  /**
+   * Update during DYING state
+   */
+  private updateDying(): void {
+    if (this.stateTimer > 0) {
+      this.stateTimer--;
+      return;
+    }
+
+    // Play death animation
+    this.pacman.update(FRAME_TIME);
+
+    if (this.pacman.isDeathAnimationComplete()) {
+      // Check lives
+      this.pacman.lives--;
+      this.events.emit('pacmanDied', { livesLeft: this.pacman.lives });
+
+      if (this.pacman.lives <= 0) {
+        this.gameOver();
+      } else {
+        // Continue with remaining lives (ghosts now leave by global counter)
+        this.resetPositions();
+        this.ghostHouse.lifeLost();
+        this.enterReady();
+      }
+    }
+  }
+
+  /**
+   * Start the victory animation (Pac-Man spin and jump)
+   */
+  private startVictoryAnimation(): void {
+    this.machine.transition(GameState.VICTORY_ANIMATION);
+  }
+
+  /**
+   * Update during VICTORY_ANIMATION state
+   */
+  private updateVictoryAnimation(): void {
+    this.pacman.update(FRAME_TIME);
+
+    if (this.pacman.isVictoryAnimationComplete()) {
+      // Proceed to level complete (leaving the state resets the victory pose)
+      this.completeLevel();
+    }
+  }
+
+  /**
+   * Complete current level
+   */
+  private completeLevel(): void {
+    this.machine.transition(GameState.LEVEL_COMPLETE);
+    this.events.emit('levelComplete', { level: this.level });
+  }
+
+  /**
+   * Update during LEVEL_COMPLETE state
+   */
+  private updateLevelComplete(): void {
+    this.stateTimer--;
+
+    if (this.stateTimer <= 0) {
+      // Check if we should play an intermission after this level
+      if (Intermission.shouldPlayAfterLevel(this.level)) {
+        this.startIntermission();
+      } else {
+        this.startNextLevel();
+      }
+    }
+  }
+
+  /**
+   * Start an intermission cutscene
+   */
+  private startIntermission(): void {
+    this.machine.transition(GameState.INTERMISSION);
+  }
+
+  /**
+   * Called when intermission completes
+   */
+  private onIntermissionComplete(): void {
+    // Check if this was the final level (game won)
+    if (Intermission.isFinalLevel(this.level)) {
+      this.gameWon();
+    } else {
+      this.startNextLevel();
+    }
+  }
+
+  /**
+   * Skip a playing intermission cutscene
+   */
+  skipIntermission(): void {
+    this.intermission.skip();
+  }
+
+  /**
+   * Handle game won (completed all levels)
+   */
+  private gameWon(): void {
+    this.machine.transition(GameState.GAME_WON);
+    this.events.emit('gameWon', { score: this.score });
+  }
+
+  /**
+   * Start next level
+   */
+  private startNextLevel(): void {
+    this.level++;
+    this.pelletsEaten = 0;
+    this.frightenedTimer = 0;
+
+    // Reset fruit spawns for new level
+    this.fruit = null;
+    this.firstFruitSpawned = false;
+    this.secondFruitSpawned = false;
+
+    // Load the new level's maze and its pellets
+    this.applyLevelMaze();
+    this.collision.resetPellets();
+    this.emitPelletsChanged();
+
+    // Reset positions and ghost house counters
+    this.resetPositions();
+    this.ghostHouse.startLevel(this.level);
+
+    // Reset ghost mode cycle
+    this.modeIndex = 0;
+    this.modeTimer = 0;
+    this.globalGhostMode = GhostMode.SCATTER;
+
+    // Enter ready state
+    this.enterReady();
+  }
+
+  /**
+   * Reset entity positions (with the current level's settings)
+   */
+  private resetPositions(): void {
+    this.applyLevelConfig();
+    this.pacman.reset();
+
+    for (const ghost of this.ghosts) {
+      ghost.reset();
+    }
+  }
+
+  /**
+   * Load the current level's maze into the entities and collision system
+   *
+   * Pellets are not refilled here; callers reset or load them next.
+   *
+   * @throws Error if the maze fails validation
+   */
+  private applyLevelMaze(): void {
+    this.maze = this.mazes(this.level);
+    assertPlayable(this.maze);
+    this.collision.setMaze(this.maze);
+    this.pacman.setMaze(this.maze);
+    for (const ghost of this.ghosts) {
+      ghost.setMaze(this.maze);
+    }
+  }
+
+  /**
+   * Get the current level's maze
+   */
+  getMaze(): MazeDefinition {
+    return this.maze;
+  }
+
+  /**
+   * Choose mazes with a new selector (the classic maze if omitted)
+   *
+   * The level in play keeps its maze; the selector is first asked at the
+   * next new game or level.
+   */
+  setMazes(mazes: MazeSelector = () => CLASSIC_MAZE): void {
+    this.mazes = mazes;
+  }
+
+  /**
+   * Give Pac-Man and the ghosts the current level's speeds, fright
+   * settings and brains (colors are handled by the renderer's theme system)
+   */
+  private applyLevelConfig(): void {
+    const config = getLevelConfig(this.level);
+
+    this.pacman.setLevelSpeeds(config);
+    for (const ghost of this.ghosts) {
+      ghost.setLevelSpeeds(config);
+      ghost.setFrightenedDuration(config.frightenedDuration * TARGET_FPS, config.frightenedFlashes);
+      ghost.setBrain(this.ghostBrains?.(ghost.name, this.level) ?? ghost.defaultBrain);
+    }
+  }
+
+  /**
+   * Game over
+   */
+  private gameOver(): void {
+    this.machine.transition(GameState.GAME_OVER);
+    this.events.emit('gameOver', { score: this.score, level: this.level });
+  }
+
+  /**
+   * Toggle pause (only PLAYING can pause; anywhere else is rejected)
+   */
+  private togglePause(): void {
+    this.machine.transition(this.state === GameState.PAUSED ? GameState.PLAYING : GameState.PAUSED);
+  }
+
+  /**
+   * Add to score
+   */
+  private addScore(points: number): void {
+    if (points === 0) return;
+
+    this.score += points;
+    this.events.emit('scoreChanged', { score: this.score, delta: points });
+
+    // Check for extra life
+    if (!this.extraLifeAwarded && this.score >= EXTRA_LIFE_SCORE) {
+      this.extraLifeAwarded = true;
+      this.pacman.lives++;
+      this.events.emit('extraLife', { lives: this.pacman.lives });
+    }
+
+    // Check for new high score
+    if (this.score > this.highScore) {
+      this.highScore = this.score;
+      if (!this.highScoreAnnounced) {
+        this.highScoreAnnounced = true;
+        this.events.emit('newHighScore', { score: this.score });
+      }
+    }
+  }
+
+  /**
+   * Schedule a delayed action by key (keys survive save/load)
+   */
+  private schedule(frames: number, key: string): void {
+    this.scheduler.after(frames, this.resolveScheduledAction(key), key);
+  }
+
+  /**
+   * Turn a scheduled action key back into its action
+   *
+   * The only key is `endEating`.
+   */
+  private resolveScheduledAction(key: string): () => void {
+    if (key === 'endEating') {
+      return () => {
+        this.pacman.isEating = false;
+      };
+    }
+
+    throw new Error(`Unknown scheduled action '${key}'`);
+  }
+
+  /**
+   * Announce a bulk change to the pellet grid
+   */
+  private emitPelletsChanged(): void {
+    this.events.emit('pelletsChanged', { pelletsRemaining: this.collision.getPelletsRemaining() });
+  }
+
+  /**
+   * Announce a newly spawned fruit
+   */
+  private emitFruitSpawned(fruit: Fruit): void {
+    this.events.emit('fruitSpawned', { fruitType: fruit.type, position: { ...fruit.position } });
+  }
+
+  /**
+   * Fraction of this level's pellets eaten (0-1), drives the siren pitch
+   */
+  getLevelProgress(): number {
+    const total = this.pelletsEaten + this.collision.getPelletsRemaining();
+    return total > 0 ? this.pelletsEaten / total : 0;
+  }
+
+  /**
+   * Check if a tile still has a pellet
+   */
+  hasPellet(col: number, row: number): boolean {
+    return this.collision.hasPellet(col, row);
+  }
+
+  /**
+   * Get current game state
+   */
+  getState(): GameStateType {
+    return this.state;
+  }
+
+  /**
+   * Get current score
+   */
+  getScore(): number {
+    return this.score;
+  }
+
+  /**
+   * Capture the complete game for a save
+   */
+  save(): SimulationSaveData {
+    return {
+      state: this.state,
+      tick: this.tick,
+      score: this.score,
+      highScore: this.highScore,
+      level: this.level,
+      pelletsEaten: this.pelletsEaten,
+      modeTimer: this.modeTimer,
+      modeIndex: this.modeIndex,
+      globalGhostMode: this.globalGhostMode,
+      frightenedTimer: this.frightenedTimer,
+      stateTimer: this.stateTimer,
+      extraLifeAwarded: this.extraLifeAwarded,
+      highScoreAnnounced: this.highScoreAnnounced,
+      firstFruitSpawned: this.firstFruitSpawned,
+      secondFruitSpawned: this.secondFruitSpawned,
+      fruit: this.fruit ? this.fruit.save() : null,
+      fruitHistory: [...this.fruitHistory],
+      random: { seed: this.random.getSeed(), state: this.random.getState() },
+      scheduled: this.scheduler.save(),
+      ghostHouse: this.ghostHouse.save(),
+      collision: this.collision.save(),
+      pacman: this.pacman.save(),
+      ghosts: this.ghosts.map((ghost) => ghost.save()),
+      intermission: this.intermission.save(),
+    };
+  }
+
+  /**
+   * Resume a game captured by save()
+   *
+   * Stepping afterwards reproduces exactly what the saved game would have
+   * done. Raises pelletsChanged, gameLoaded and stateChanged so presenters
+   * can rebuild their view. The high score keeps whichever is higher.
+   */
+  load(data: SimulationSaveData): void {
+    if (data.ghosts.length !== this.ghosts.length) {
+      throw new Error(`Save has ${data.ghosts.length} ghosts, expected ${this.ghosts.length}`);
+    }
+
+    this.lastCollisions = [];
+    this.level = data.level;
+    this.applyLevelMaze();
+    this.collision.load(data.collision);
+    this.pacman.load(data.pacman);
+    this.ghosts.forEach((ghost, i) => ghost.load(data.ghosts[i]));
+
+    const previous = this.state;
+    this.machine.reset(data.state);
+    this.tick = data.tick;
+    this.score = data.score;
+    this.highScore = Math.max(this.highScore, data.highScore);
+    this.level = data.level;
+    this.applyLevelConfig();
+    this.pelletsEaten = data.pelletsEaten;
+    this.modeTimer = data.modeTimer;
+    this.modeIndex = data.modeIndex;
+    this.globalGhostMode = data.globalGhostMode;
+    this.frightenedTimer = data.frightenedTimer;
+    this.stateTimer = data.stateTimer;
+    this.extraLifeAwarded = data.extraLifeAwarded;
+    this.highScoreAnnounced = data.highScoreAnnounced;
+    this.firstFruitSpawned = data.firstFruitSpawned;
+    this.secondFruitSpawned = data.secondFruitSpawned;
+    this.fruit = data.fruit ? Fruit.fromSave(data.fruit) : null;
+    this.fruitHistory = [...data.fruitHistory];
+
+    this.random.setSeed(data.random.seed);
+    this.random.setState(data.random.state);
+    this.scheduler.load(data.scheduled, (key) => this.resolveScheduledAction(key));
+    this.ghostHouse.load(data.ghostHouse);
+    this.intermission.load(data.intermission, () => this.onIntermissionComplete());
+
+    this.emitPelletsChanged();
+    this.events.emit('gameLoaded', { fruitHistory: [...this.fruitHistory] });
+    this.events.emit('stateChanged', { state: this.state, previous });
+  }
+
+  /**
+   * Get the gameplay random seed (enough, with the inputs, to reproduce a run)
+   */
+  getSeed(): number {
+    return this.random.getSeed();
+  }
+
+  /**
+   * Restart the gameplay random stream from a new seed
+   */
+  setSeed(seed: number): void {
+    this.random.setSeed(seed);
+  }
+
+  /**
+   * Build a read-only snapshot of the current simulation state
+   *
+   * All values are copied, so mutating the snapshot (or holding on to it
+   * across ticks) never affects the simulation.
+   */
+  getSnapshot(): GameSnapshot {
+    const pacman = this.pacman;
+    const modeDuration = this.getModeDuration();
+
+    return {
+      tick: this.tick,
+      seed: this.random.getSeed(),
+      state: this.state,
+      stateTimer: this.stateTimer,
+      score: this.score,
+      highScore: this.highScore,
+      level: this.level,
+      lives: pacman.lives,
+      pelletsEaten: this.pelletsEaten,
+      pelletsRemaining: this.collision.getPelletsRemaining(),
+      globalGhostMode: this.globalGhostMode,
+      modeIndex: this.modeIndex,
+      modeTimer: this.modeTimer,
+      modeDuration: Number.isFinite(modeDuration) ? modeDuration : null,
+      frightenedTimer: this.frightenedTimer,
+      pacman: {
+        position: { ...pacman.position },
+        tile: pacman.getTile(),
+        direction: pacman.direction,
+        nextDirection: pacman.nextDirection,
+        animationFrame: pacman.getAnimationFrame(),
+        isDying: pacman.isDying,
+        deathAnimationFrame: pacman.deathAnimationFrame,
+        isVictory: pacman.isVictory,
+        victoryRotation: pacman.victoryRotation,
+        victoryJump: pacman.victoryJump,
+      },
+      ghosts: this.ghosts.map((ghost) => ({
+        name: ghost.name,
+        color: ghost.color,
+        position: { ...ghost.position },
+        tile: ghost.getTile(),
+        direction: ghost.direction,
+        mode: ghost.mode,
+        targetTile: { ...ghost.targetTile },
+        scatterTarget: { ...ghost.scatterTarget },
+        speed: ghost.speed,
+        nextDirection: ghost.planNextDirection(),
+        brain: ghost.getBrain().name,
+        isInHouse: ghost.isInHouse,
+        animationFrame: ghost.getAnimationFrame(),
+        frightenedFlashing: ghost.frightenedFlashing,
+      })),
+      fruit: this.fruit && this.fruit.isActive()
+        ? {
+            position: { ...this.fruit.position },
+            tile: this.fruit.getTile(),
+            type: this.fruit.type,
+            points: this.fruit.getPoints(),
+            color: this.fruit.getColor(),
+            remainingTime: this.fruit.getRemainingTime(),
+          }
+        : null,
+      intermission: this.state === GameState.INTERMISSION
+        ? {
+            ...this.intermission.getSceneDescription(),
+            progress: this.intermission.getProgress(),
+            sprites: this.intermission.getSprites().map((sprite) => ({ ...sprite })),
+          }
+        : null,
+      collisions: this.lastCollisions.map((result) => ({
+        type: result.type,
+        points: result.points,
+        tile: result.tile ? { ...result.tile } : null,
+        ghost: result.ghost?.name ?? null,
+      })),
+      maze: this.maze,
+    };
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * PAC-MAN TypeScript - Headless Agent Server
+ *
+ * Node entry point that plays the game rules without a browser, speaking
+ * the JSON-lines protocol in `ai/AgentProtocol.ts` over stdio: one
+ * request per line on stdin, one reply per line on stdout.
+ *
+ * ```bash
+ * npm run agent-server
+ * echo '{"id":"a","type":"reset","seed":1}' | npm run --silent agent-server
+ * ```
+ *
+ * Logs go to stderr so stdout carries nothing but replies.
+ *
+ * @module agentServer
+ */
+
+import { createInterface } from 'node:readline';
+import { AgentServer } from './ai/AgentProtocol';
+
+const server = new AgentServer();
+const lines = createInterface({ input: process.stdin, crlfDelay: Infinity });
+
+lines.on('line', (line) => {
+  if (line.trim() === '') return;
+  process.stdout.write(server.handleLine(line) + '\n');
+});
+
+lines.on('close', () => {
+  console.error(`Agent server: input closed (${server.getInstanceCount()} games still open)`);
+});
@@ -0,0 +1,214 @@
+/**
+ * JSON-Lines Agent Protocol
+ *
+ * Lets bots written in any language play through `GameEnvironment` by
+ * exchanging one JSON object per line (the stdio transport lives in
+ * `agentServer.ts`; this module is the transport-free core).
+ *
+ * Every request names the game instance it is for, so one process can
+ * host many independent games:
+ *
+ * ```
+ * → {"id":"a","type":"reset","seed":42,"options":{"frameSkip":4}}
+ * ← {"id":"a","type":"observation","observation":{...},"reward":0,"done":false,"score":0,"info":{...}}
+ * → {"id":"a","type":"step","direction":"left"}
+ * ← {"id":"a","type":"observation",...}
+ * → {"id":"a","type":"state"}
+ * ← {"id":"a","type":"observation",...}      (no step taken, reward 0)
+ * → {"id":"a","type":"close"}
+ * ← {"id":"a","type":"closed"}
+ * ```
+ *
+ * `reset` creates the instance (or starts it over with new options).
+ * Directions are `"up"`, `"down"`, `"left"`, `"right"` or `"none"`. A bad
+ * request gets an `{"type":"error","message":...}` reply and never takes
+ * the other games down.
+ *
+ * @module AgentProtocol
+ */
+
+import { GameEnvironment, EnvironmentOptions, Observation, StepInfo, StepResult } from './Environment';
+import { Direction, DirectionType } from '../constants';
+
+/**
+ * Direction names accepted in `step` requests (a Map, so names like
+ * 'constructor' are not found on the object prototype)
+ */
+const DIRECTIONS = new Map<string, DirectionType>([
+  ['none', Direction.NONE],
+  ['up', Direction.UP],
+  ['down', Direction.DOWN],
+  ['left', Direction.LEFT],
+  ['right', Direction.RIGHT],
+]);
+
+/**
+ * A request from an agent
+ */
+export type AgentRequest =
+  | { id: string; type: 'reset'; seed?: number; options?: EnvironmentOptions }
+  | { id: string; type: 'step'; direction: string }
+  | { id: string; type: 'state' }
+  | { id: string; type: 'close' };
+
+/**
+ * A reply to an agent
+ */
+export type AgentReply =
+  | {
+      id: string;
+      type: 'observation';
+      observation: Observation;
+      reward: number;
+      done: boolean;
+      score: number;
+      info: StepInfo;
+    }
+  | { id: string; type: 'closed' }
+  | { id: string | null; type: 'error'; message: string };
+
+/**
+ * Game instances addressed by id, driven by protocol messages
+ */
+export class AgentServer {
+  /** Live games by instance id */
+  private instances: Map<string, GameEnvironment> = new Map();
+
+  /**
+   * Handle one line of input
+   *
+   * @returns The reply line (JSON, without a trailing newline)
+   */
+  handleLine(line: string): string {
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return JSON.stringify(errorReply(null, 'Invalid JSON'));
+    }
+    return JSON.stringify(this.handle(message));
+  }
+
+  /**
+   * Handle one parsed message
+   */
+  handle(message: unknown): AgentReply {
+    const id = isObject(message) && typeof message.id === 'string' ? message.id : null;
+
+    try {
+      return this.dispatch(parseRequest(message));
+    } catch (error) {
+      return errorReply(id, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Number of live game instances
+   */
+  getInstanceCount(): number {
+    return this.instances.size;
+  }
+
+  /**
+   * Run a validated request
+   */
+  private dispatch(request: AgentRequest): AgentReply {
+    switch (request.type) {
+      case 'reset': {
+        const env = new GameEnvironment(request.options);
+        this.instances.set(request.id, env);
+        return observationReply(request.id, env.reset(request.seed));
+      }
+
+      case 'step': {
+        const direction = DIRECTIONS.get(request.direction);
+        if (direction === undefined) {
+          throw new Error(`Unknown direction '${request.direction}'`);
+        }
+        return observationReply(request.id, this.instance(request.id).step(direction));
+      }
+
+      case 'state':
+        return observationReply(request.id, this.instance(request.id).current());
+
+      case 'close':
+        this.instance(request.id);
+        this.instances.delete(request.id);
+        return { id: request.id, type: 'closed' };
+    }
+  }
+
+  /**
+   * Look up a live instance
+   *
+   * @throws Error if there is none (reset creates it)
+   */
+  private instance(id: string): GameEnvironment {
+    const env = this.instances.get(id);
+    if (!env) {
+      throw new Error(`No game '${id}' - send reset first`);
+    }
+    return env;
+  }
+}
+
+/**
+ * Check a message's shape
+ *
+ * @throws Error describing what is wrong
+ */
+function parseRequest(message: unknown): AgentRequest {
+  if (!isObject(message)) {
+    throw new Error('Message must be a JSON object');
+  }
+  if (typeof message.id !== 'string' || message.id === '') {
+    throw new Error("Message needs a string 'id'");
+  }
+
+  switch (message.type) {
+    case 'reset':
+      if (message.seed !== undefined && (!Number.isInteger(message.seed) || (message.seed as number) < 0)) {
+        throw new Error("'seed' must be a non-negative integer");
+      }
+      if (message.options !== undefined && !isObject(message.options)) {
+        throw new Error("'options' must be an object");
+      }
+      return message as AgentRequest;
+
+    case 'step':
+      if (typeof message.direction !== 'string') {
+        throw new Error("'step' needs a 'direction'");
+      }
+      return message as AgentRequest;
+
+    case 'state':
+    case 'close':
+      return message as AgentRequest;
+
+    default:
+      throw new Error(`Unknown message type '${String(message.type)}'`);
+  }
+}
+
+/**
+ * Reply for a step, reset or state request
+ */
+function observationReply(id: string, result: StepResult): AgentReply {
+  return {
+    id,
+    type: 'observation',
+    observation: result.observation,
+    reward: result.reward,
+    done: result.done,
+    score: result.info.score,
+    info: result.info,
+  };
+}
+
+function errorReply(id: string | null, message: string): AgentReply {
+  return { id, type: 'error', message };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,399 @@
+/**
+ * Autopilot Pac-Man
+ *
+ * A built-in player that drives Pac-Man with the same `SimulationInputs`
+ * the keyboard produces, so everything downstream (replays, rewind, the
+ * simulation's `setDirection` path) cannot tell it from a person. Used for
+ * attract-mode demos, soak-testing the game loop and as a baseline for
+ * balance experiments.
+ *
+ * ## How It Decides
+ *
+ * Every tick it plans over the maze graph from scratch:
+ *
+ * 1. **Danger map**: a breadth-first search from each dangerous ghost
+ *    (which cannot reverse on its first step) gives how soon a ghost could
+ *    reach every tile. The next few tiles of each ghost's route toward its
+ *    known target tile are marked as extra dangerous.
+ * 2. **Safe routes**: a second search from Pac-Man only enters tiles he
+ *    reaches with a head start over every ghost.
+ * 3. **Goal**: the reachable tile with the best value per tile travelled.
+ *    Pellets, fruit that will still be there on arrival, and frightened
+ *    ghosts that will still be blue all count. Power pellets are saved
+ *    until a ghost closes in. The bot sticks with its goal until another
+ *    is clearly better, or it would dither between two similar goals.
+ * 4. **Flee**: with no safe goal, step to the neighbour furthest from the
+ *    ghosts.
+ *
+ * ```ts
+ * const bot = new Autopilot();
+ * sim.startNewGame();
+ * while (sim.getState() !== GameState.GAME_OVER) {
+ *   sim.step(bot.nextInputs(sim));
+ * }
+ * ```
+ *
+ * The bot is deterministic (no randomness, and its only memory is the
+ * current goal), so bot games replay exactly from their seed and inputs.
+ *
+ * @module Autopilot
+ */
+
+import {
+  DirectionType,
+  OPPOSITE_DIRECTION,
+  GameState,
+  GhostMode,
+  MAX_SPEED,
+  SCALED_TILE,
+} from '../constants';
+import { TilePosition, TileType } from '../types';
+import { MazeDefinition, wrapColumn } from '../utils/MazeData';
+import { houseEntrance, adjacentTiles, isCorridor } from '../utils/Pathfinding';
+import { closestToTarget } from './GhostBrain';
+import type { GameSnapshot, GhostSnapshot, SimulationInputs } from '../GameSimulation';
+
+/**
+ * What the bot reads from the game (GameSimulation provides both)
+ */
+export interface AutopilotView {
+  getSnapshot(): GameSnapshot;
+  hasPellet(col: number, row: number): boolean;
+}
+
+/** Tiles of head start Pac-Man keeps over the nearest ghost */
+const SAFETY_MARGIN = 2;
+
+/** Extra head start on tiles a ghost is about to take */
+const PREDICTED_ROUTE_MARGIN = 2;
+
+/** How far along each ghost's route to its target to predict */
+const PREDICTED_ROUTE_TILES = 6;
+
+/** Rough ticks Pac-Man needs per tile (80% speed, the level 1 pace) */
+const TICKS_PER_TILE = SCALED_TILE / (MAX_SPEED * 0.8);
+
+/** Frightened ghosts turn dangerous again this close to the end */
+const FRIGHT_ENDING_TICKS = 120;
+
+/** A new goal must score this many times the current one to replace it */
+const GOAL_SWITCH_FACTOR = 1.5;
+
+/** A ghost this close (in tiles) makes power pellets worth eating */
+const POWER_PELLET_THREAT_DISTANCE = 8;
+
+/** Planning values (points, roughly) */
+const PELLET_VALUE = 10;
+const POWER_PELLET_VALUE = 50;
+const SAVED_POWER_PELLET_VALUE = 1;
+const FRIGHTENED_GHOST_VALUE = 200;
+
+/**
+ * How soon ghosts can reach each tile
+ */
+interface DangerMap {
+  /** Fewest tiles any dangerous ghost needs to reach a tile */
+  distance: number[][];
+  /** Tiles on a ghost's predicted route */
+  predicted: boolean[][];
+  /** Dangerous ghosts within POWER_PELLET_THREAT_DISTANCE of Pac-Man */
+  threats: number;
+}
+
+/**
+ * Result of a breadth-first search from one tile
+ */
+interface SearchResult {
+  /** Tiles from the start (Infinity where not entered) */
+  distance: number[][];
+  /** First direction taken on the way to each tile */
+  firstStep: (DirectionType | null)[][];
+  /** Entered tiles in order of distance */
+  visited: TilePosition[];
+}
+
+/**
+ * Deterministic Pac-Man controller
+ */
+export class Autopilot {
+  /** Tile the bot is heading for (null to pick afresh) */
+  private goal: TilePosition | null = null;
+
+  /**
+   * Inputs for the next tick (empty outside PLAYING)
+   */
+  nextInputs(view: AutopilotView): SimulationInputs {
+    const snapshot = view.getSnapshot();
+    if (snapshot.state !== GameState.PLAYING) {
+      this.goal = null;
+      return {};
+    }
+
+    return { direction: this.chooseDirection(snapshot, view) };
+  }
+
+  /**
+   * Pick Pac-Man's direction for a PLAYING snapshot
+   */
+  chooseDirection(snapshot: GameSnapshot, view: AutopilotView): DirectionType {
+    const { maze } = snapshot;
+    const start = wrapTile(snapshot.pacman.tile, maze);
+    const danger = this.buildDangerMap(snapshot, start);
+
+    const routes = search(maze, start, 0, null, (tile, distance) => isSafe(tile, distance, danger));
+    this.goal = this.pickGoal(snapshot, view, routes, danger);
+
+    if (this.goal) {
+      return routes.firstStep[this.goal.row][this.goal.col] ?? snapshot.pacman.direction;
+    }
+    return this.flee(maze, start, danger, snapshot.pacman.direction);
+  }
+
+  /**
+   * Distances from every dangerous ghost, plus their predicted routes
+   */
+  private buildDangerMap(snapshot: GameSnapshot, pacmanTile: TilePosition): DangerMap {
+    const { maze } = snapshot;
+    const distance = maze.grid.map((row) => row.map(() => Infinity));
+    const predicted = maze.grid.map((row) => row.map(() => false));
+    let threats = 0;
+
+    for (const ghost of snapshot.ghosts) {
+      if (!isDangerous(ghost, snapshot.frightenedTimer)) continue;
+
+      // A ghost leaving the house appears above the door in a moment
+      const exiting = ghost.mode === GhostMode.EXITING;
+      const tile = exiting ? houseEntrance(maze) : wrapTile(ghost.tile, maze);
+      const reverse = exiting ? null : (OPPOSITE_DIRECTION[ghost.direction] as DirectionType | undefined) ?? null;
+
+      const reach = search(maze, tile, exiting ? 2 : 0, reverse, () => true);
+      for (const { col, row } of reach.visited) {
+        distance[row][col] = Math.min(distance[row][col], reach.distance[row][col]);
+      }
+
+      if (reach.distance[pacmanTile.row]?.[pacmanTile.col] <= POWER_PELLET_THREAT_DISTANCE) {
+        threats++;
+      }
+
+      if (!exiting) {
+        for (const { col, row } of predictRoute(maze, tile, ghost.direction, ghost.targetTile)) {
+          predicted[row][col] = true;
+        }
+      }
+    }
+
+    return { distance, predicted, threats };
+  }
+
+  /**
+   * Best reachable tile by value per tile travelled (null if none),
+   * keeping the current goal unless another is clearly better
+   */
+  private pickGoal(
+    snapshot: GameSnapshot,
+    view: AutopilotView,
+    routes: SearchResult,
+    danger: DangerMap
+  ): TilePosition | null {
+    const scoreOf = (tile: TilePosition): number => {
+      const distance = routes.distance[tile.row][tile.col];
+      if (distance === 0 || distance === Infinity) return 0;
+      return this.tileValue(tile, distance, snapshot, view, danger) / (distance + 1);
+    };
+
+    let best: TilePosition | null = null;
+    let bestScore = 0;
+
+    for (const tile of routes.visited) {
+      const score = scoreOf(tile);
+      if (score > bestScore) {
+        bestScore = score;
+        best = tile;
+      }
+    }
+
+    const currentScore = this.goal ? scoreOf(this.goal) : 0;
+    if (currentScore > 0 && bestScore < currentScore * GOAL_SWITCH_FACTOR) {
+      return this.goal;
+    }
+    return best;
+  }
+
+  /**
+   * What arriving at a tile after `distance` tiles is worth
+   */
+  private tileValue(
+    tile: TilePosition,
+    distance: number,
+    snapshot: GameSnapshot,
+    view: AutopilotView,
+    danger: DangerMap
+  ): number {
+    const arrivalTicks = distance * TICKS_PER_TILE;
+    let value = 0;
+
+    if (view.hasPellet(tile.col, tile.row)) {
+      if (snapshot.maze.grid[tile.row][tile.col] !== TileType.POWER_PELLET) {
+        value += PELLET_VALUE;
+      } else if (danger.threats > 0) {
+        value += POWER_PELLET_VALUE + FRIGHTENED_GHOST_VALUE * danger.threats;
+      } else {
+        value += SAVED_POWER_PELLET_VALUE;
+      }
+    }
+
+    const fruit = snapshot.fruit;
+    if (fruit && sameTile(fruit.tile, tile) && arrivalTicks < fruit.remainingTime) {
+      value += fruit.points;
+    }
+
+    for (const ghost of snapshot.ghosts) {
+      if (
+        ghost.mode === GhostMode.FRIGHTENED &&
+        sameTile(wrapTile(ghost.tile, snapshot.maze), tile) &&
+        arrivalTicks < snapshot.frightenedTimer - FRIGHT_ENDING_TICKS
+      ) {
+        value += FRIGHTENED_GHOST_VALUE;
+      }
+    }
+
+    return value;
+  }
+
+  /**
+   * Step to the open neighbour furthest from the ghosts
+   */
+  private flee(maze: MazeDefinition, start: TilePosition, danger: DangerMap, current: DirectionType): DirectionType {
+    let bestDir: DirectionType = current;
+    let bestDistance = -Infinity;
+
+    for (const { direction, tile } of adjacentTiles(start, maze)) {
+      if (!isCorridor(maze.grid[tile.row][tile.col])) continue;
+
+      const penalty = danger.predicted[tile.row][tile.col] ? PREDICTED_ROUTE_MARGIN : 0;
+      const distance = danger.distance[tile.row][tile.col] - penalty;
+      if (distance > bestDistance) {
+        bestDistance = distance;
+        bestDir = direction;
+      }
+    }
+
+    return bestDir;
+  }
+}
+
+/**
+ * Can this ghost catch Pac-Man soon? (chasing, scattering, leaving the
+ * house, or frightened with the fright nearly over)
+ */
+function isDangerous(ghost: GhostSnapshot, frightenedTimer: number): boolean {
+  switch (ghost.mode) {
+    case GhostMode.CHASE:
+    case GhostMode.SCATTER:
+    case GhostMode.EXITING:
+      return true;
+    case GhostMode.FRIGHTENED:
+      return frightenedTimer < FRIGHT_ENDING_TICKS;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Does Pac-Man reach this tile with enough of a head start?
+ */
+function isSafe(tile: TilePosition, distance: number, danger: DangerMap): boolean {
+  const margin = SAFETY_MARGIN + (danger.predicted[tile.row][tile.col] ? PREDICTED_ROUTE_MARGIN : 0);
+  return distance + margin < danger.distance[tile.row][tile.col];
+}
+
+/**
+ * The next tiles a ghost will take toward its target (arcade steering,
+ * no reversing)
+ */
+function predictRoute(
+  maze: MazeDefinition,
+  start: TilePosition,
+  direction: DirectionType,
+  target: TilePosition
+): TilePosition[] {
+  const route: TilePosition[] = [];
+  let tile = start;
+  let heading = direction;
+
+  for (let i = 0; i < PREDICTED_ROUTE_TILES; i++) {
+    const reverse = OPPOSITE_DIRECTION[heading];
+    const steps = adjacentTiles(tile, maze).filter(
+      (step) => step.direction !== reverse && isCorridor(maze.grid[step.tile.row][step.tile.col])
+    );
+    if (steps.length === 0) break;
+
+    heading = closestToTarget(tile, target, steps.map((step) => step.direction));
+    tile = steps.find((step) => step.direction === heading)!.tile;
+    route.push(tile);
+  }
+
+  return route;
+}
+
+/**
+ * Breadth-first search over corridor tiles
+ *
+ * @param maze - Maze to search
+ * @param start - Tile to search from
+ * @param startDistance - Distance already travelled at the start tile
+ * @param blockedFirst - Direction that may not be taken from the start
+ * @param canEnter - Extra check for each tile before it is entered
+ */
+function search(
+  maze: MazeDefinition,
+  start: TilePosition,
+  startDistance: number,
+  blockedFirst: DirectionType | null,
+  canEnter: (tile: TilePosition, distance: number) => boolean
+): SearchResult {
+  const { grid } = maze;
+  const distance = grid.map((row) => row.map(() => Infinity));
+  const firstStep: (DirectionType | null)[][] = grid.map((row) => row.map(() => null));
+  const visited: TilePosition[] = [];
+
+  if (!grid[start.row] || !isCorridor(grid[start.row][start.col])) {
+    return { distance, firstStep, visited };
+  }
+
+  distance[start.row][start.col] = startDistance;
+  visited.push(start);
+
+  for (let head = 0; head < visited.length; head++) {
+    const tile = visited[head];
+    const next = distance[tile.row][tile.col] + 1;
+    const atStart = head === 0;
+
+    for (const { direction, tile: neighbour } of adjacentTiles(tile, maze)) {
+      if (atStart && direction === blockedFirst) continue;
+      if (distance[neighbour.row][neighbour.col] !== Infinity) continue;
+      if (!isCorridor(grid[neighbour.row][neighbour.col])) continue;
+      if (!canEnter(neighbour, next - startDistance)) continue;
+
+      distance[neighbour.row][neighbour.col] = next;
+      firstStep[neighbour.row][neighbour.col] = atStart ? direction : firstStep[tile.row][tile.col];
+      visited.push(neighbour);
+    }
+  }
+
+  return { distance, firstStep, visited };
+}
+
+/**
+ * Bring a tile just past the tunnel mouth back onto the grid
+ */
+function wrapTile(tile: TilePosition, maze: MazeDefinition): TilePosition {
+  return { col: wrapColumn(maze, tile.col, tile.row), row: tile.row };
+}
+
+/**
+ * Are two tiles the same?
+ */
+function sameTile(a: TilePosition, b: TilePosition): boolean {
+  return a.col === b.col && a.row === b.row;
+}
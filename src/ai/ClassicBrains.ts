@@ -0,0 +1,131 @@
+/**
+ * Classic Ghost Brains
+ *
+ * The four arcade personalities. They differ only in their chase target;
+ * all four steer with the arcade's straight-line rule (`closestToTarget`).
+ *
+ * | Brain   | Chase target                                          |
+ * |---------|-------------------------------------------------------|
+ * | Blinky  | Pac-Man's tile                                        |
+ * | Pinky   | 4 tiles ahead of Pac-Man (4 left as well facing up)   |
+ * | Inky    | Blinky's vector to 2 tiles ahead of Pac-Man, doubled  |
+ * | Clyde   | Pac-Man when over 8 tiles away, else his own corner   |
+ *
+ * The "facing up" offsets reproduce an overflow bug in the original Z80
+ * code, which players rely on.
+ *
+ * @module ClassicBrains
+ */
+
+import { Direction, DirectionType, DIRECTION_VECTORS } from '../constants';
+import { TilePosition } from '../types';
+import { GhostBrain, GhostWorld, closestToTarget } from './GhostBrain';
+import type { Ghost } from '../entities/Ghost';
+
+/**
+ * Distance threshold in tiles for Clyde's behavior switch
+ * At or below this distance, Clyde retreats to his corner
+ */
+export const CLYDE_RETREAT_DISTANCE = 8;
+
+/**
+ * Base for the arcade brains: straight-line path choice
+ */
+abstract class ClassicBrain implements GhostBrain {
+  abstract readonly name: string;
+
+  abstract chooseTarget(ghost: Ghost, world: GhostWorld): TilePosition;
+
+  chooseDirection(ghost: Ghost, tile: TilePosition, options: readonly DirectionType[]): DirectionType {
+    return closestToTarget(tile, ghost.targetTile, options);
+  }
+}
+
+/**
+ * Tile some distance ahead of Pac-Man, with the arcade's facing-up bug
+ * (the same distance is also added to the left)
+ *
+ * @param pacmanTile - Pac-Man's tile
+ * @param facing - Pac-Man's direction (standing still counts as right)
+ */
+export function tileAhead(pacmanTile: TilePosition, facing: DirectionType, tiles: number): TilePosition {
+  const direction = facing === Direction.NONE ? Direction.RIGHT : facing;
+  const vector = DIRECTION_VECTORS[direction];
+
+  let col = pacmanTile.col + vector.x * tiles;
+  const row = pacmanTile.row + vector.y * tiles;
+
+  // The original used a single instruction that added to both X and Y,
+  // shifting the target left whenever Pac-Man faces up
+  if (direction === Direction.UP) {
+    col -= tiles;
+  }
+
+  return { col, row };
+}
+
+/**
+ * Blinky ("Shadow"): straight at Pac-Man, constant pressure from behind
+ */
+export class BlinkyBrain extends ClassicBrain {
+  readonly name = 'blinky';
+
+  chooseTarget(_ghost: Ghost, world: GhostWorld): TilePosition {
+    const pacmanTile = world.pacman.getTile();
+    return { col: pacmanTile.col, row: pacmanTile.row };
+  }
+}
+
+/**
+ * Pinky ("Speedy"): ambushes 4 tiles ahead of Pac-Man
+ */
+export class PinkyBrain extends ClassicBrain {
+  readonly name = 'pinky';
+
+  chooseTarget(_ghost: Ghost, world: GhostWorld): TilePosition {
+    return tileAhead(world.pacman.getTile(), world.pacman.direction, 4);
+  }
+}
+
+/**
+ * Inky ("Bashful"): flanks using Blinky's position
+ *
+ * Draws a vector from Blinky to the tile 2 ahead of Pac-Man and doubles
+ * it. Without a Blinky reference it falls back to the ahead tile.
+ */
+export class InkyBrain extends ClassicBrain {
+  readonly name = 'inky';
+
+  chooseTarget(_ghost: Ghost, world: GhostWorld): TilePosition {
+    const ahead = tileAhead(world.pacman.getTile(), world.pacman.direction, 2);
+    if (!world.blinky) return ahead;
+
+    const blinkyTile = world.blinky.getTile();
+    return {
+      col: blinkyTile.col + (ahead.col - blinkyTile.col) * 2,
+      row: blinkyTile.row + (ahead.row - blinkyTile.row) * 2,
+    };
+  }
+}
+
+/**
+ * Clyde ("Pokey"): chases from afar, retreats to his corner up close
+ */
+export class ClydeBrain extends ClassicBrain {
+  readonly name = 'clyde';
+
+  chooseTarget(ghost: Ghost, world: GhostWorld): TilePosition {
+    const pacmanTile = world.pacman.getTile();
+    const ghostTile = ghost.getTile();
+
+    // Euclidean distance in tiles
+    const dx = pacmanTile.col - ghostTile.col;
+    const dy = pacmanTile.row - ghostTile.row;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+
+    if (distance > CLYDE_RETREAT_DISTANCE) {
+      return { col: pacmanTile.col, row: pacmanTile.row };
+    }
+    return ghost.scatterTarget;
+  }
+}
@@ -0,0 +1,531 @@
+/**
+ * Reinforcement-Learning Environment
+ *
+ * A gym-style wrapper around the headless simulation, for training agents
+ * without a browser:
+ *
+ * ```ts
+ * const env = new GameEnvironment({ frameSkip: 4, rewards: { death: -500 } });
+ * let { observation } = env.reset(42);
+ * let done = false;
+ * while (!done) {
+ *   const action = agent.act(observation.features);   // a Direction
+ *   ({ observation, done } = env.step(action));
+ * }
+ * ```
+ *
+ * ## Steps
+ *
+ * One `step()` holds the action for `frameSkip` simulation ticks. The
+ * agent only ever acts while Pac-Man can move: READY pauses, death
+ * animations, level transitions and intermissions are fast-forwarded
+ * inside the step that triggered them (their reward still counts).
+ *
+ * ## Observation
+ *
+ * - `grid`: one code per tile (`ObservationCell`), one row per maze row
+ *   (28x31 for the classic maze). Entities are drawn over the maze;
+ *   ghosts over Pac-Man.
+ * - `features`: a fixed-length vector of numbers in [-1, 1], described
+ *   entry by entry in `FEATURE_NAMES`.
+ *
+ * ## Reward
+ *
+ * By default the reward is the raw score gained. `RewardConfig` weights
+ * points, pellets, ghosts, lost lives, cleared levels and time, so
+ * shaping is a constructor option rather than a fork of this file.
+ *
+ * @module Environment
+ */
+
+import { GameSimulation, GameSnapshot } from '../GameSimulation';
+import { GhostBrainSelector } from './GhostBrain';
+import {
+  Direction,
+  DirectionType,
+  GameState,
+  GameStateType,
+  GhostMode,
+  GhostModeType,
+  TARGET_FPS,
+} from '../constants';
+import { TilePosition, TileType } from '../types';
+import { Intermission } from '../systems/Intermission';
+import { Random } from '../utils/Random';
+import { MazeSelector, wrapColumn } from '../utils/MazeData';
+import { adjacentTiles, distanceAt, distanceMap, isCorridor } from '../utils/Pathfinding';
+
+/**
+ * Tile codes in the observation grid
+ */
+export const ObservationCell = {
+  EMPTY: 0,
+  WALL: 1,
+  PELLET: 2,
+  POWER_PELLET: 3,
+  GHOST_DOOR: 4,
+  FRUIT: 5,
+  PACMAN: 6,
+  /** Scatter, chase or in the house - dangerous */
+  GHOST: 7,
+  GHOST_FRIGHTENED: 8,
+  /** Eyes returning home - harmless */
+  GHOST_EYES: 9,
+} as const;
+
+export type ObservationCellType = typeof ObservationCell[keyof typeof ObservationCell];
+
+/** Every action an agent can take (NONE keeps the current direction) */
+export const ACTIONS: readonly DirectionType[] = [
+  Direction.NONE,
+  Direction.UP,
+  Direction.DOWN,
+  Direction.LEFT,
+  Direction.RIGHT,
+];
+
+/** Ghosts in snapshot order (the feature vector has a block for each) */
+const GHOST_NAMES = ['blinky', 'pinky', 'inky', 'clyde'];
+
+/** Maze distances are divided by this (and capped at 1) in the features */
+const DISTANCE_SCALE = 64;
+
+/** Longest fright in the game, for scaling the fright timer */
+const MAX_FRIGHT_TICKS = 6 * TARGET_FPS;
+
+/** Lives are divided by this (and capped at 1) in the features */
+const LIVES_SCALE = 5;
+
+/** Ticks a step may fast-forward through non-playing states */
+const MAX_FAST_FORWARD_TICKS = 60 * TARGET_FPS;
+
+/**
+ * Name of each entry in `Observation.features`
+ */
+export const FEATURE_NAMES: readonly string[] = [
+  'pacman.col',
+  'pacman.row',
+  'pacman.up',
+  'pacman.down',
+  'pacman.left',
+  'pacman.right',
+  'open.up',
+  'open.down',
+  'open.left',
+  'open.right',
+  ...GHOST_NAMES.flatMap((name) => [
+    `${name}.dx`,
+    `${name}.dy`,
+    `${name}.distance`,
+    `${name}.dangerous`,
+    `${name}.frightened`,
+  ]),
+  'frightenedTimer',
+  'pelletsRemaining',
+  'nearestPellet.distance',
+  'fruit.present',
+  'fruit.distance',
+  'lives',
+  'level',
+];
+
+/**
+ * What the agent sees after a step
+ */
+export interface Observation {
+  /** Tile codes (`ObservationCell`) indexed [row][col] */
+  grid: number[][];
+
+  /** Numeric features, named by `FEATURE_NAMES` */
+  features: number[];
+}
+
+/**
+ * Diagnostics returned with every step
+ */
+export interface StepInfo {
+  score: number;
+  lives: number;
+  level: number;
+  state: GameStateType;
+  /** Simulation ticks since the game started */
+  tick: number;
+  pelletsRemaining: number;
+  /** The episode was cut off by `maxSteps` rather than ending */
+  truncated: boolean;
+}
+
+/**
+ * Result of `step()` and `reset()`
+ */
+export interface StepResult {
+  observation: Observation;
+  reward: number;
+  /** Game over, game won or truncated */
+  done: boolean;
+  info: StepInfo;
+}
+
+/**
+ * Reward weights (the reward for a step is the weighted sum)
+ */
+export interface RewardConfig {
+  /** Per point scored */
+  score: number;
+  /** Per pellet or power pellet eaten (on top of its points) */
+  pellet: number;
+  /** Per ghost eaten (on top of its points) */
+  ghost: number;
+  /** Per life lost */
+  death: number;
+  /** Per level cleared */
+  levelComplete: number;
+  /** Per simulation tick (negative values hurry the agent) */
+  tick: number;
+}
+
+/** Default weights: the raw game score */
+export const DEFAULT_REWARDS: Readonly<RewardConfig> = {
+  score: 1,
+  pellet: 0,
+  ghost: 0,
+  death: 0,
+  levelComplete: 0,
+  tick: 0,
+};
+
+/**
+ * Environment options
+ */
+export interface EnvironmentOptions {
+  /** Ticks each action is held for (default 4) */
+  frameSkip?: number;
+
+  /** Reward weights (omitted ones keep their default) */
+  rewards?: Partial<RewardConfig>;
+
+  /** End the episode after this many steps (default: never) */
+  maxSteps?: number;
+
+  /** Per-level ghost personalities, as for GameSimulation */
+  ghostBrains?: GhostBrainSelector;
+
+  /** Per-level maze layouts, as for GameSimulation */
+  mazes?: MazeSelector;
+}
+
+/**
+ * Counts of reward-relevant events during a step
+ */
+interface StepTally {
+  pellets: number;
+  ghosts: number;
+  deaths: number;
+  levels: number;
+}
+
+/**
+ * Gym-style environment over one simulated game
+ */
+export class GameEnvironment {
+  /** Ticks each action is held for */
+  readonly frameSkip: number;
+
+  /** Reward weights in use */
+  readonly rewards: Readonly<RewardConfig>;
+
+  private readonly maxSteps: number;
+  private readonly simulation: GameSimulation;
+
+  /** Events counted since the start of the current step */
+  private tally: StepTally = { pellets: 0, ghosts: 0, deaths: 0, levels: 0 };
+
+  /** Steps taken this episode */
+  private steps: number = 0;
+
+  /** Has the episode ended? (step() then throws until reset()) */
+  private done: boolean = true;
+
+  /**
+   * @throws Error if frameSkip or maxSteps is not a positive integer, or a
+   *         reward weight is unknown or not a finite number
+   */
+  constructor(options: EnvironmentOptions = {}) {
+    this.frameSkip = options.frameSkip ?? 4;
+    if (!Number.isInteger(this.frameSkip) || this.frameSkip < 1) {
+      throw new Error(`frameSkip must be a positive integer, got ${this.frameSkip}`);
+    }
+
+    this.rewards = { ...DEFAULT_REWARDS, ...checkRewards(options.rewards) };
+
+    this.maxSteps = options.maxSteps ?? Infinity;
+    if (this.maxSteps !== Infinity && (!Number.isInteger(this.maxSteps) || this.maxSteps < 1)) {
+      throw new Error(`maxSteps must be a positive integer, got ${this.maxSteps}`);
+    }
+    this.simulation = new GameSimulation({ ghostBrains: options.ghostBrains, mazes: options.mazes });
+
+    const events = this.simulation.events;
+    events.on('pelletEaten', () => this.tally.pellets++);
+    events.on('powerPelletEaten', () => this.tally.pellets++);
+    events.on('ghostEaten', () => this.tally.ghosts++);
+    events.on('pacmanCaught', () => this.tally.deaths++);
+    events.on('levelComplete', () => this.tally.levels++);
+  }
+
+  /**
+   * Start a new episode
+   *
+   * @param seed - Gameplay seed (same seed + same actions = same episode);
+   *               a fresh one is picked if omitted
+   * @returns The first observation (reward 0), with Pac-Man ready to move
+   */
+  reset(seed: number = Random.generateSeed()): StepResult {
+    this.simulation.startNewGame(seed);
+    this.steps = 0;
+    this.done = false;
+    this.fastForward();
+
+    return this.result(0);
+  }
+
+  /**
+   * Hold an action for `frameSkip` ticks
+   *
+   * @param action - Direction to steer (Direction.NONE keeps going)
+   * @throws Error if the episode is over (call reset() first)
+   */
+  step(action: DirectionType): StepResult {
+    if (this.done) {
+      throw new Error('Episode is over - call reset() first');
+    }
+    if (!ACTIONS.includes(action)) {
+      throw new Error(`Invalid action ${action}`);
+    }
+
+    const startScore = this.simulation.getScore();
+    const startTick = this.simulation.getSnapshot().tick;
+    this.tally = { pellets: 0, ghosts: 0, deaths: 0, levels: 0 };
+
+    for (let i = 0; i < this.frameSkip && !this.isOver(); i++) {
+      this.simulation.step({ direction: action });
+    }
+    this.fastForward();
+    this.steps++;
+
+    const ticks = this.simulation.getSnapshot().tick - startTick;
+    const reward = this.reward(this.simulation.getScore() - startScore, ticks);
+
+    this.done = this.isOver() || this.steps >= this.maxSteps;
+    return this.result(reward);
+  }
+
+  /**
+   * Current observation, without stepping
+   */
+  observe(): Observation {
+    const snapshot = this.simulation.getSnapshot();
+    return {
+      grid: this.buildGrid(snapshot),
+      features: this.buildFeatures(snapshot),
+    };
+  }
+
+  /**
+   * Where the episode stands, without stepping (reward 0)
+   */
+  current(): StepResult {
+    return this.result(0);
+  }
+
+  /**
+   * Read-only snapshot of the underlying game (for rendering or debugging)
+   */
+  getSnapshot(): GameSnapshot {
+    return this.simulation.getSnapshot();
+  }
+
+  /**
+   * Has the game itself ended?
+   */
+  private isOver(): boolean {
+    const state = this.simulation.getState();
+    return state === GameState.GAME_OVER || state === GameState.GAME_WON;
+  }
+
+  /**
+   * Run the simulation until Pac-Man can move again (or the game ends)
+   */
+  private fastForward(): void {
+    for (let i = 0; i < MAX_FAST_FORWARD_TICKS; i++) {
+      const state = this.simulation.getState();
+      if (state === GameState.PLAYING || this.isOver()) return;
+
+      if (state === GameState.INTERMISSION) {
+        this.simulation.skipIntermission();
+      }
+      this.simulation.step();
+    }
+  }
+
+  /**
+   * Weighted reward for the step just taken
+   */
+  private reward(points: number, ticks: number): number {
+    const { rewards, tally } = this;
+    return (
+      points * rewards.score +
+      tally.pellets * rewards.pellet +
+      tally.ghosts * rewards.ghost +
+      tally.deaths * rewards.death +
+      tally.levels * rewards.levelComplete +
+      ticks * rewards.tick
+    );
+  }
+
+  /**
+   * Package an observation, reward and info
+   */
+  private result(reward: number): StepResult {
+    const snapshot = this.simulation.getSnapshot();
+    const truncated = this.steps >= this.maxSteps && !this.isOver();
+
+    return {
+      observation: {
+        grid: this.buildGrid(snapshot),
+        features: this.buildFeatures(snapshot),
+      },
+      reward,
+      done: this.done,
+      info: {
+        score: snapshot.score,
+        lives: snapshot.lives,
+        level: snapshot.level,
+        state: snapshot.state,
+        tick: snapshot.tick,
+        pelletsRemaining: snapshot.pelletsRemaining,
+        truncated,
+      },
+    };
+  }
+
+  /**
+   * Tile grid: maze and pellets, then fruit, Pac-Man and ghosts on top
+   */
+  private buildGrid(snapshot: GameSnapshot): number[][] {
+    const grid = snapshot.maze.grid.map((cells, row) =>
+      cells.map((cell, col): number => {
+        if (cell === TileType.WALL) return ObservationCell.WALL;
+        if (cell === TileType.GHOST_DOOR) return ObservationCell.GHOST_DOOR;
+        if (!this.simulation.hasPellet(col, row)) return ObservationCell.EMPTY;
+        return cell === TileType.POWER_PELLET ? ObservationCell.POWER_PELLET : ObservationCell.PELLET;
+      })
+    );
+
+    const mark = (tile: TilePosition, code: ObservationCellType): void => {
+      if (grid[tile.row]?.[tile.col] !== undefined) {
+        grid[tile.row][tile.col] = code;
+      }
+    };
+
+    if (snapshot.fruit) mark(snapshot.fruit.tile, ObservationCell.FRUIT);
+    mark(snapshot.pacman.tile, ObservationCell.PACMAN);
+    for (const ghost of snapshot.ghosts) {
+      mark(ghost.tile, ghostCell(ghost.mode));
+    }
+
+    return grid;
+  }
+
+  /**
+   * Feature vector, in FEATURE_NAMES order
+   */
+  private buildFeatures(snapshot: GameSnapshot): number[] {
+    const { pacman, maze } = snapshot;
+    // Measure from the wrapped tile so the maps work mid-tunnel too
+    const pacmanTile: TilePosition = { col: wrapColumn(maze, pacman.tile.col, pacman.tile.row), row: pacman.tile.row };
+    const fromPacman = distanceMap(pacmanTile, maze);
+    const scaled = (distance: number): number => Math.min(distance / DISTANCE_SCALE, 1);
+
+    const open = [Direction.UP, Direction.DOWN, Direction.LEFT, Direction.RIGHT].map((direction) => {
+      const step = adjacentTiles(pacmanTile, maze).find((neighbour) => neighbour.direction === direction);
+      return step && isCorridor(maze.grid[step.tile.row][step.tile.col]) ? 1 : 0;
+    });
+
+    const ghosts = snapshot.ghosts.flatMap((ghost) => {
+      const cell = ghostCell(ghost.mode);
+      return [
+        (ghost.tile.col - pacman.tile.col) / maze.width,
+        (ghost.tile.row - pacman.tile.row) / maze.height,
+        scaled(distanceAt(fromPacman, ghost.tile, maze)),
+        cell === ObservationCell.GHOST ? 1 : 0,
+        cell === ObservationCell.GHOST_FRIGHTENED ? 1 : 0,
+      ];
+    });
+
+    let nearestPellet = Infinity;
+    for (let row = 0; row < maze.height; row++) {
+      for (let col = 0; col < maze.width; col++) {
+        if (this.simulation.hasPellet(col, row)) {
+          nearestPellet = Math.min(nearestPellet, fromPacman[row][col]);
+        }
+      }
+    }
+
+    const totalPellets = snapshot.pelletsEaten + snapshot.pelletsRemaining;
+
+    return [
+      pacman.tile.col / maze.width,
+      pacman.tile.row / maze.height,
+      pacman.direction === Direction.UP ? 1 : 0,
+      pacman.direction === Direction.DOWN ? 1 : 0,
+      pacman.direction === Direction.LEFT ? 1 : 0,
+      pacman.direction === Direction.RIGHT ? 1 : 0,
+      ...open,
+      ...ghosts,
+      Math.min(snapshot.frightenedTimer / MAX_FRIGHT_TICKS, 1),
+      totalPellets > 0 ? snapshot.pelletsRemaining / totalPellets : 0,
+      scaled(nearestPellet),
+      snapshot.fruit ? 1 : 0,
+      snapshot.fruit ? scaled(distanceAt(fromPacman, snapshot.fruit.tile, maze)) : 1,
+      Math.min(snapshot.lives / LIVES_SCALE, 1),
+      snapshot.level / Intermission.MAX_LEVEL,
+    ];
+  }
+}
+
+/**
+ * Grid code for a ghost in a mode
+ */
+function ghostCell(mode: GhostModeType): ObservationCellType {
+  switch (mode) {
+    case GhostMode.FRIGHTENED:
+      return ObservationCell.GHOST_FRIGHTENED;
+    case GhostMode.EATEN:
+    case GhostMode.ENTERING:
+      return ObservationCell.GHOST_EYES;
+    default:
+      return ObservationCell.GHOST;
+  }
+}
+
+/**
+ * Check reward weights from the options (they may come from a JSON client)
+ *
+ * @throws Error if a weight is unknown or not a finite number
+ */
+function checkRewards(rewards: unknown): Partial<RewardConfig> {
+  if (rewards === undefined) return {};
+  if (typeof rewards !== 'object' || rewards === null || Array.isArray(rewards)) {
+    throw new Error('rewards must be an object');
+  }
+
+  for (const [name, weight] of Object.entries(rewards)) {
+    if (!Object.prototype.hasOwnProperty.call(DEFAULT_REWARDS, name)) {
+      throw new Error(`Unknown reward '${name}'`);
+    }
+    if (typeof weight !== 'number' || !Number.isFinite(weight)) {
+      throw new Error(`rewards.${name} must be a finite number, got ${weight}`);
+    }
+  }
+  return rewards;
+}
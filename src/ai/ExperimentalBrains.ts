@@ -0,0 +1,81 @@
+/**
+ * Experimental Ghost Brains
+ *
+ * Personalities beyond the arcade four, for trying out new ghost
+ * behaviour (swap them in with `Ghost.setBrain()` or per level with the
+ * simulation's `ghostBrains` option):
+ *
+ * - **Hunter**: targets Pac-Man and follows the true shortest path
+ *   through the maze instead of the straight-line guess, so it never
+ *   gets stuck on the wrong side of a wall.
+ * - **Wanderer**: ignores Pac-Man and picks a random legal turn at every
+ *   intersection, like a permanently frightened ghost that still bites.
+ *
+ * @module ExperimentalBrains
+ */
+
+import { DirectionType, DIRECTION_VECTORS } from '../constants';
+import { TilePosition } from '../types';
+import { RandomSource } from '../utils/Random';
+import { distanceMap, distanceAt } from '../utils/Pathfinding';
+import { GhostBrain, GhostWorld, closestToTarget } from './GhostBrain';
+import type { Ghost } from '../entities/Ghost';
+
+/**
+ * Pathfinding hunter: shortest maze path to Pac-Man
+ */
+export class HunterBrain implements GhostBrain {
+  readonly name = 'hunter';
+
+  chooseTarget(_ghost: Ghost, world: GhostWorld): TilePosition {
+    const pacmanTile = world.pacman.getTile();
+    return { col: pacmanTile.col, row: pacmanTile.row };
+  }
+
+  /**
+   * Step onto the neighbour with the shortest path to the target
+   *
+   * Falls back to the arcade rule when the target cannot be reached
+   * (e.g. a scatter corner outside the maze).
+   */
+  chooseDirection(ghost: Ghost, tile: TilePosition, options: readonly DirectionType[]): DirectionType {
+    const maze = ghost.getMaze();
+    const distances = distanceMap(ghost.targetTile, maze);
+
+    let bestDir: DirectionType | null = null;
+    let bestDist = Infinity;
+
+    for (const dir of options) {
+      const vector = DIRECTION_VECTORS[dir];
+      const dist = distanceAt(distances, { col: tile.col + vector.x, row: tile.row + vector.y }, maze);
+
+      if (dist < bestDist) {
+        bestDist = dist;
+        bestDir = dir;
+      }
+    }
+
+    return bestDir ?? closestToTarget(tile, ghost.targetTile, options);
+  }
+}
+
+/**
+ * Random wanderer: a random legal turn at every intersection
+ */
+export class WandererBrain implements GhostBrain {
+  readonly name = 'wanderer';
+
+  /** Nothing to chase - the target is only shown in debug views */
+  chooseTarget(ghost: Ghost): TilePosition {
+    return ghost.getTile();
+  }
+
+  chooseDirection(
+    _ghost: Ghost,
+    _tile: TilePosition,
+    options: readonly DirectionType[],
+    random: RandomSource
+  ): DirectionType {
+    return options[Math.floor(random.next() * options.length)];
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Ghost Brain Strategy Interface
+ *
+ * A ghost's personality is two decisions, made by a swappable brain:
+ *
+ * 1. **Target selection** (`chooseTarget`): which tile to chase. Blinky
+ *    aims at Pac-Man, Pinky ahead of him, and so on.
+ * 2. **Path choice** (`chooseDirection`): at an intersection, which of the
+ *    legal directions to take toward `ghost.targetTile`. The arcade
+ *    ghosts pick the one closest in a straight line; a brain may instead
+ *    pathfind, wander or anything else.
+ *
+ * `Ghost` keeps the rules every ghost shares: scatter corners, no
+ * reversing, the no-upward tiles, random turns when frightened and the
+ * trip home when eaten. A brain only ever sees legal options.
+ *
+ * The arcade targeting for each ghost is in ai/ClassicBrains; the ghost
+ * classes only pick theirs as the default. `setBrain()` swaps it without
+ * touching the class.
+ *
+ * ```ts
+ * // A ghost that always heads for the fruit spot
+ * const fruitLover: GhostBrain = {
+ *   name: 'fruit-lover',
+ *   chooseTarget: () => ({ col: 13, row: 17 }),
+ *   chooseDirection: (ghost, tile, options) => closestToTarget(tile, ghost.targetTile, options),
+ * };
+ * inky.setBrain(fruitLover);
+ * ```
+ *
+ * Brains must take any randomness from the `random` they are given (the
+ * seeded gameplay stream), or replays will desync.
+ *
+ * @module GhostBrain
+ */
+
+import { DIRECTION_VECTORS, DirectionType } from '../constants';
+import { TilePosition } from '../types';
+import { RandomSource } from '../utils/Random';
+import type { Ghost } from '../entities/Ghost';
+import type { PacMan } from '../entities/PacMan';
+
+/**
+ * What a brain can see when picking a target
+ */
+export interface GhostWorld {
+  /** The player */
+  readonly pacman: PacMan;
+
+  /** Blinky (Inky's targeting is relative to him) */
+  readonly blinky?: Ghost;
+}
+
+/**
+ * Swappable ghost personality
+ */
+export interface GhostBrain {
+  /** Short identifier (for debugging and configuration) */
+  readonly name: string;
+
+  /**
+   * Tile to head for while chasing
+   */
+  chooseTarget(ghost: Ghost, world: GhostWorld): TilePosition;
+
+  /**
+   * Pick a direction at an intersection (scatter and chase)
+   *
+   * @param ghost - The deciding ghost (`targetTile` is already set)
+   * @param tile - Tile the choice is made at (usually the ghost's own;
+   *               debug views ask about the next one)
+   * @param options - Legal directions, never empty, in the arcade
+   *                  tie-break order (UP, LEFT, DOWN, RIGHT)
+   * @param random - Seeded gameplay stream
+   */
+  chooseDirection(
+    ghost: Ghost,
+    tile: TilePosition,
+    options: readonly DirectionType[],
+    random: RandomSource
+  ): DirectionType;
+}
+
+/**
+ * Pick the brain for a ghost on a level (null keeps its classic brain)
+ *
+ * ```ts
+ * // Blinky hunts by pathfinding from level 3
+ * const ghostBrains: GhostBrainSelector = (name, level) =>
+ *   name === 'Blinky' && level >= 3 ? new HunterBrain() : null;
+ * ```
+ */
+export type GhostBrainSelector = (ghostName: string, level: number) => GhostBrain | null;
+
+/**
+ * The arcade path choice: the option whose next tile is closest to the
+ * target in a straight line (ties go to the earliest option)
+ */
+export function closestToTarget(
+  tile: TilePosition,
+  target: TilePosition,
+  options: readonly DirectionType[]
+): DirectionType {
+  let bestDir = options[0];
+  let bestDist = Infinity;
+
+  for (const dir of options) {
+    const vector = DIRECTION_VECTORS[dir];
+    const nextCol = tile.col + vector.x;
+    const nextRow = tile.row + vector.y;
+
+    // Squared distance to target (no sqrt needed for comparison)
+    const dx = target.col - nextCol;
+    const dy = target.row - nextRow;
+    const dist = dx * dx + dy * dy;
+
+    if (dist < bestDist) {
+      bestDist = dist;
+      bestDir = dir;
+    }
+  }
+
+  return bestDir;
+}
@@ -18,7 +18,10 @@ export const CANVAS_HEIGHT = GRID_HEIGHT * SCALED_TILE; // 496
 export const TARGET_FPS = 60;
 export const FRAME_TIME = 1000 / TARGET_FPS;
 
-// Pac-Man speeds (pixels per frame at 60fps)
+// 100% speed (pixels per frame at 60fps) - LevelConfig speed multipliers scale this
+export const MAX_SPEED = 1.5625 * SCALE;
+
+// Pac-Man speeds (pixels per frame at 60fps, before a level config is applied)
 export const PACMAN_SPEED = 1.25 * SCALE;  // ~80% max speed
 export const PACMAN_EATING_SPEED = 1.1 * SCALE;  // Slightly slower when eating
 export const PACMAN_FRIGHT_SPEED = 1.4 * SCALE;  // Faster when ghosts frightened
@@ -29,12 +32,9 @@ export const GHOST_TUNNEL_SPEED = 0.6 * SCALE;  // Slow in tunnel
 export const GHOST_FRIGHT_SPEED = 0.8 * SCALE;  // Slower when frightened
 export const GHOST_EATEN_SPEED = 2.5 * SCALE;  // Fast when returning to ghost house
 
-// Power pellet duration (in frames)
-export const FRIGHT_DURATION = [360, 300, 240, 180, 120, 300, 120, 120, 60, 300, 120, 60, 60, 180, 60, 60, 0, 60, 0];  // Per level
-
-// Ghost mode timings (in seconds) for level 1
-export const SCATTER_TIMES = [7, 7, 5, 5];  // Scatter durations
-export const CHASE_TIMES = [20, 20, 20, Infinity];  // Chase durations
+// Frightened ghosts flash white this many times per level (see LevelConfig);
+// one flash is a white half and a blue half
+export const FRIGHT_FLASH_TICKS = 24;
 
 // Scoring
 export const SCORE_PELLET = 10;
@@ -109,6 +109,7 @@ export const GhostMode = {
   EATEN: 'eaten',
   HOUSE: 'house',
   EXITING: 'exiting',
+  ENTERING: 'entering',
 } as const;
 
 export type GhostModeType = typeof GhostMode[keyof typeof GhostMode];
@@ -130,6 +131,27 @@ export const GameState = {
 
 export type GameStateType = typeof GameState[keyof typeof GameState];
 
+/**
+ * Allowed game state transitions
+ *
+ * Anything not listed is rejected. Starting a new game and loading a save
+ * are resets rather than transitions, so GAME_OVER and GAME_WON have no
+ * way forward of their own.
+ */
+export const GAME_STATE_TRANSITIONS: Readonly<Record<GameStateType, readonly GameStateType[]>> = {
+  [GameState.LOADING]: [GameState.START_SCREEN],
+  [GameState.START_SCREEN]: [GameState.READY],
+  [GameState.READY]: [GameState.PLAYING],
+  [GameState.PLAYING]: [GameState.PAUSED, GameState.DYING, GameState.VICTORY_ANIMATION],
+  [GameState.PAUSED]: [GameState.PLAYING],
+  [GameState.DYING]: [GameState.READY, GameState.GAME_OVER],
+  [GameState.VICTORY_ANIMATION]: [GameState.LEVEL_COMPLETE],
+  [GameState.LEVEL_COMPLETE]: [GameState.INTERMISSION, GameState.READY],
+  [GameState.INTERMISSION]: [GameState.READY, GameState.GAME_WON],
+  [GameState.GAME_OVER]: [],
+  [GameState.GAME_WON]: [],
+};
+
 // Fruit types
 export const FruitType = {
   CHERRY: 0,
@@ -9,15 +9,16 @@
  *
  * 1. **Direct Chase**: Always targets Pac-Man's exact position
  * 2. **Starts Outside**: Unlike other ghosts, Blinky starts outside the ghost house
- * 3. **Cruise Elroy Mode**: Gets faster as fewer pellets remain (not yet implemented)
+ * 3. **Cruise Elroy Mode**: Gets faster as fewer pellets remain
  *
- * ## Cruise Elroy (Future Enhancement)
+ * ## Cruise Elroy
  *
- * In the original game, when pellets drop below a threshold:
+ * As in the original game, when pellets drop below a threshold:
  * - "Elroy 1": Blinky speeds up slightly and ignores scatter mode
  * - "Elroy 2": Even faster when fewer pellets remain
  *
- * This makes late-level gameplay more intense as Blinky becomes relentless.
+ * The thresholds and speeds come from the level's LevelConfig, so Blinky
+ * turns relentless earlier (and faster) on later levels.
  *
  * ## Role in Ghost Coordination
  *
@@ -25,14 +26,16 @@
  * from Blinky to 2 tiles ahead of Pac-Man, then doubles it. This creates
  * unpredictable flanking behavior.
  *
+ * The targeting itself lives in `BlinkyBrain` (ai/ClassicBrains); Cruise
+ * Elroy stays here because it changes speed and mode, not targeting.
+ *
  * @extends Ghost
  */
 
-import { Ghost, GhostConfig } from './Ghost';
-import { TilePosition } from '../types';
-import { PacMan } from './PacMan';
-import { Colors, GhostMode, GHOST_SPEED } from '../constants';
-import { SCATTER_TARGETS, START_POSITIONS } from '../utils/MazeData';
+import { Ghost, GhostConfig, GhostSaveData } from './Ghost';
+import { Colors, GhostMode, MAX_SPEED } from '../constants';
+import { LevelConfig, getLevelConfig } from '../systems/LevelConfig';
+import { BlinkyBrain } from '../ai/ClassicBrains';
 
 /**
  * Configuration specific to Blinky
@@ -40,15 +43,26 @@ import { SCATTER_TARGETS, START_POSITIONS } from '../utils/MazeData';
 const BLINKY_CONFIG: GhostConfig = {
   name: 'Blinky',
   color: Colors.BLINKY,
-  scatterTarget: SCATTER_TARGETS.BLINKY,
-  startPosition: START_POSITIONS.BLINKY,
-  dotLimit: 0,  // Blinky exits immediately (starts outside house)
+  id: 'blinky',
+  dotLimits: [0],  // Blinky exits immediately (starts outside house)
+  brain: new BlinkyBrain(),
 };
 
+/**
+ * Blinky's save data adds the Cruise Elroy level
+ */
+export interface BlinkySaveData extends GhostSaveData {
+  cruiseElroyLevel: number;
+}
+
 export class Blinky extends Ghost {
   /** Tracks whether Cruise Elroy mode is active */
   private cruiseElroyLevel: number = 0;
 
+  /** Elroy thresholds and speeds for the current level */
+  private elroy: Pick<LevelConfig, 'elroyDotsLeft1' | 'elroySpeed1' | 'elroyDotsLeft2' | 'elroySpeed2'> =
+    getLevelConfig(1);
+
   /**
    * Create Blinky
    *
@@ -65,73 +79,55 @@ export class Blinky extends Ghost {
     this.mode = GhostMode.SCATTER;
   }
 
-  /**
-   * Calculate Blinky's chase target
-   *
-   * The simplest targeting of all ghosts: aim directly for Pac-Man's current tile.
-   * This creates constant pressure, making Blinky feel aggressive and relentless.
-   *
-   * @param pacman - Reference to Pac-Man entity
-   * @returns Pac-Man's current tile position
-   */
-  calculateChaseTarget(pacman: PacMan): TilePosition {
-    // Get Pac-Man's current tile - that's our target
-    const pacmanTile = pacman.getTile();
-
-    return {
-      col: pacmanTile.col,
-      row: pacmanTile.row,
-    };
-  }
-
   /**
    * Set Cruise Elroy level based on remaining pellets
    *
    * Elroy levels:
    * - 0: Normal behavior
-   * - 1: Faster (~5% speed increase), continues chasing during scatter
-   * - 2: Even faster (~10% speed increase)
+   * - 1: Faster (elroySpeed1), continues chasing during scatter
+   * - 2: Even faster (elroySpeed2)
+   *
+   * The speed takes effect on the next update.
    *
    * @param level - Elroy level (0, 1, or 2)
    */
   setCruiseElroy(level: number): void {
-    const prevLevel = this.cruiseElroyLevel;
     this.cruiseElroyLevel = Math.min(2, Math.max(0, level));
-
-    // Apply speed boost based on level
-    if (this.cruiseElroyLevel !== prevLevel) {
-      if (this.cruiseElroyLevel === 2) {
-        this.speed = GHOST_SPEED * 1.10; // 10% faster
-      } else if (this.cruiseElroyLevel === 1) {
-        this.speed = GHOST_SPEED * 1.05; // 5% faster
-      } else {
-        this.speed = GHOST_SPEED;
-      }
-    }
   }
 
   /**
    * Check and update Elroy mode based on pellets remaining
-   * Called from Game.ts during gameplay
+   * Called from GameSimulation during gameplay
    *
-   * Level 1 thresholds (pellets remaining):
-   * - Elroy 1: 20 pellets
-   * - Elroy 2: 10 pellets
+   * Thresholds come from the level config (level 1: 22 and 11 pellets).
    */
-  updateElroyMode(pelletsRemaining: number, level: number): void {
-    // Thresholds increase slightly per level
-    const elroy1Threshold = 20 + (level - 1) * 2;
-    const elroy2Threshold = 10 + (level - 1);
-
-    if (pelletsRemaining <= elroy2Threshold) {
+  updateElroyMode(pelletsRemaining: number): void {
+    if (pelletsRemaining <= this.elroy.elroyDotsLeft2) {
       this.setCruiseElroy(2);
-    } else if (pelletsRemaining <= elroy1Threshold) {
+    } else if (pelletsRemaining <= this.elroy.elroyDotsLeft1) {
       this.setCruiseElroy(1);
     } else {
       this.setCruiseElroy(0);
     }
   }
 
+  /**
+   * Also take the level's Elroy thresholds and speeds
+   */
+  override setLevelSpeeds(config: LevelConfig): void {
+    super.setLevelSpeeds(config);
+    this.elroy = config;
+  }
+
+  /**
+   * Elroy speeds replace the normal speed (tunnel and fright still win)
+   */
+  protected override getBaseSpeed(): number {
+    if (this.cruiseElroyLevel === 2) return this.elroy.elroySpeed2 * MAX_SPEED;
+    if (this.cruiseElroyLevel === 1) return this.elroy.elroySpeed1 * MAX_SPEED;
+    return super.getBaseSpeed();
+  }
+
   /**
    * In Elroy mode, Blinky ignores scatter and keeps chasing
    */
@@ -150,6 +146,21 @@ export class Blinky extends Ghost {
     return this.cruiseElroyLevel;
   }
 
+  /**
+   * Capture full state for a save
+   */
+  override save(): BlinkySaveData {
+    return { ...super.save(), cruiseElroyLevel: this.cruiseElroyLevel };
+  }
+
+  /**
+   * Restore state captured by save()
+   */
+  override load(data: BlinkySaveData): void {
+    super.load(data);
+    this.cruiseElroyLevel = data.cruiseElroyLevel;
+  }
+
   /**
    * Reset Blinky to initial state
    * Overridden because Blinky starts outside the house
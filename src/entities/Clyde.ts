@@ -33,14 +33,14 @@
  * The "8 tile" threshold creates a donut-shaped danger zone around
  * Pac-Man where Clyde oscillates unpredictably.
  *
+ * Targeting: `ClydeBrain` (ai/ClassicBrains).
+ *
  * @extends Ghost
  */
 
 import { Ghost, GhostConfig } from './Ghost';
-import { TilePosition } from '../types';
-import { PacMan } from './PacMan';
 import { Colors } from '../constants';
-import { SCATTER_TARGETS, START_POSITIONS } from '../utils/MazeData';
+import { ClydeBrain } from '../ai/ClassicBrains';
 
 /**
  * Configuration specific to Clyde
@@ -48,17 +48,11 @@ import { SCATTER_TARGETS, START_POSITIONS } from '../utils/MazeData';
 const CLYDE_CONFIG: GhostConfig = {
   name: 'Clyde',
   color: Colors.CLYDE,
-  scatterTarget: SCATTER_TARGETS.CLYDE,
-  startPosition: START_POSITIONS.CLYDE,
-  dotLimit: 60,  // Clyde exits after 60 pellets (last to leave)
+  id: 'clyde',
+  dotLimits: [60, 50, 0],  // Clyde waits 60 pellets, then 50 on level 2 (last to leave)
+  brain: new ClydeBrain(),
 };
 
-/**
- * Distance threshold in tiles for behavior switch
- * At or below this distance, Clyde retreats to his corner
- */
-const RETREAT_DISTANCE = 8;
-
 export class Clyde extends Ghost {
   /**
    * Create Clyde
@@ -67,38 +61,4 @@ export class Clyde extends Ghost {
   constructor() {
     super(CLYDE_CONFIG);
   }
-
-  /**
-   * Calculate Clyde's chase target
-   *
-   * Behavior depends on distance to Pac-Man:
-   * - Far away (>8 tiles): Target Pac-Man directly (like Blinky)
-   * - Close (≤8 tiles): Target home corner (retreat)
-   *
-   * This creates oscillating behavior as Clyde approaches and retreats.
-   *
-   * @param pacman - Reference to Pac-Man entity
-   * @returns Target tile (either Pac-Man or home corner)
-   */
-  calculateChaseTarget(pacman: PacMan): TilePosition {
-    const pacmanTile = pacman.getTile();
-    const clydeTile = this.getTile();
-
-    // Calculate Euclidean distance in tiles
-    const dx = pacmanTile.col - clydeTile.col;
-    const dy = pacmanTile.row - clydeTile.row;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-
-    // Decision point: chase or retreat?
-    if (distance > RETREAT_DISTANCE) {
-      // Far from Pac-Man: chase directly (like Blinky)
-      return {
-        col: pacmanTile.col,
-        row: pacmanTile.row,
-      };
-    } else {
-      // Close to Pac-Man: retreat to home corner
-      return this.scatterTarget;
-    }
-  }
 }
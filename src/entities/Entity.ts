@@ -9,9 +9,20 @@ import {
   DirectionType,
   DIRECTION_VECTORS,
   SCALED_TILE,
-  GRID_WIDTH,
 } from '../constants';
-import { MAZE_DATA, isWalkable } from '../utils/MazeData';
+import { CLASSIC_MAZE, MazeDefinition, isWalkable, tunnelAt, wrapColumn } from '../utils/MazeData';
+
+/**
+ * Serializable movement and animation state shared by all entities
+ */
+export interface EntitySaveData {
+  position: Position;
+  direction: DirectionType;
+  nextDirection: DirectionType;
+  speed: number;
+  animationFrame: number;
+  animationTimer: number;
+}
 
 export abstract class Entity {
   public position: Position;
@@ -22,10 +33,27 @@ export abstract class Entity {
   protected animationTimer: number = 0;
   protected animationSpeed: number = 6;  // Slower animation
 
+  /** Maze this entity moves through */
+  protected maze: MazeDefinition = CLASSIC_MAZE;
+
   constructor(x: number, y: number) {
     this.position = { x, y };
   }
 
+  /**
+   * Move into another maze (takes effect from the next reset)
+   */
+  setMaze(maze: MazeDefinition): void {
+    this.maze = maze;
+  }
+
+  /**
+   * The maze this entity moves through
+   */
+  getMaze(): MazeDefinition {
+    return this.maze;
+  }
+
   /**
    * Get current tile position
    */
@@ -78,15 +106,11 @@ export abstract class Entity {
     const tile = this.getTile();
     const vector = DIRECTION_VECTORS[direction];
 
-    // Check the next tile in that direction
-    let nextCol = tile.col + vector.x;
+    // Check the next tile in that direction (wrapping through tunnels)
     const nextRow = tile.row + vector.y;
+    const nextCol = wrapColumn(this.maze, tile.col + vector.x, nextRow);
 
-    // Handle tunnel wrapping
-    if (nextCol < 0) nextCol = GRID_WIDTH - 1;
-    if (nextCol >= GRID_WIDTH) nextCol = 0;
-
-    return isWalkable(MAZE_DATA, nextCol, nextRow);
+    return isWalkable(this.maze, nextCol, nextRow);
   }
 
   /**
@@ -100,11 +124,11 @@ export abstract class Entity {
     this.position.y += vector.y * this.speed;
 
     // Handle tunnel wrapping
-    const tunnelY = 13 * SCALED_TILE + SCALED_TILE / 2;
-    if (Math.abs(this.position.y - tunnelY) < SCALED_TILE / 2) {
+    if (tunnelAt(this.maze, this.getTile().row)) {
+      const width = this.maze.width * SCALED_TILE;
       if (this.position.x < -SCALED_TILE / 2) {
-        this.position.x = GRID_WIDTH * SCALED_TILE + SCALED_TILE / 2;
-      } else if (this.position.x > GRID_WIDTH * SCALED_TILE + SCALED_TILE / 2) {
+        this.position.x = width + SCALED_TILE / 2;
+      } else if (this.position.x > width + SCALED_TILE / 2) {
         this.position.x = -SCALED_TILE / 2;
       }
     }
@@ -136,6 +160,32 @@ export abstract class Entity {
     this.animationTimer = 0;
   }
 
+  /**
+   * Capture movement and animation state for a save
+   */
+  save(): EntitySaveData {
+    return {
+      position: { ...this.position },
+      direction: this.direction,
+      nextDirection: this.nextDirection,
+      speed: this.speed,
+      animationFrame: this.animationFrame,
+      animationTimer: this.animationTimer,
+    };
+  }
+
+  /**
+   * Restore state captured by save()
+   */
+  load(data: EntitySaveData): void {
+    this.position = { ...data.position };
+    this.direction = data.direction;
+    this.nextDirection = data.nextDirection;
+    this.speed = data.speed;
+    this.animationFrame = data.animationFrame;
+    this.animationTimer = data.animationTimer;
+  }
+
   /**
    * Set position from tile coordinates
    */
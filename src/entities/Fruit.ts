@@ -9,7 +9,8 @@
  */
 
 import { SCALED_TILE } from '../constants';
-import { Position } from '../types';
+import { CLASSIC_MAZE } from '../utils/MazeData';
+import { Position, TilePosition } from '../types';
 
 /**
  * Fruit types matching original Pac-Man
@@ -55,29 +56,37 @@ export const FRUIT_COLORS: Record<FruitTypeValue, string> = {
   [FruitType.KEY]: '#00ffff',
 };
 
-/**
- * Fruit spawn position (center of maze, below ghost house)
- */
-const FRUIT_SPAWN_COL = 13.5;
-const FRUIT_SPAWN_ROW = 17;
-
 /**
  * How long fruit stays before despawning (in frames at 60fps)
  * Approximately 9-10 seconds in original game
  */
 const FRUIT_DESPAWN_TIME = 600; // 10 seconds
 
+/**
+ * Serializable fruit state
+ */
+export interface FruitSaveData {
+  type: FruitTypeValue;
+  position: Position;
+  active: boolean;
+  despawnTimer: number;
+}
+
 export class Fruit {
   public position: Position;
   public readonly type: FruitTypeValue;
   private active: boolean = true;
   private despawnTimer: number = FRUIT_DESPAWN_TIME;
 
-  constructor(type: FruitTypeValue) {
+  /**
+   * @param type - Fruit type
+   * @param spawn - Tile to appear on (the maze's fruit spot, below the ghost house)
+   */
+  constructor(type: FruitTypeValue, spawn: TilePosition = CLASSIC_MAZE.fruitSpawn) {
     this.type = type;
     this.position = {
-      x: FRUIT_SPAWN_COL * SCALED_TILE + SCALED_TILE / 2,
-      y: FRUIT_SPAWN_ROW * SCALED_TILE + SCALED_TILE / 2,
+      x: spawn.col * SCALED_TILE + SCALED_TILE / 2,
+      y: spawn.row * SCALED_TILE + SCALED_TILE / 2,
     };
   }
 
@@ -132,6 +141,29 @@ export class Fruit {
     return this.getPoints();
   }
 
+  /**
+   * Capture state for a save
+   */
+  save(): FruitSaveData {
+    return {
+      type: this.type,
+      position: { ...this.position },
+      active: this.active,
+      despawnTimer: this.despawnTimer,
+    };
+  }
+
+  /**
+   * Recreate a fruit from save()d state
+   */
+  static fromSave(data: FruitSaveData): Fruit {
+    const fruit = new Fruit(data.type);
+    fruit.position = { ...data.position };
+    fruit.active = data.active;
+    fruit.despawnTimer = data.despawnTimer;
+    return fruit;
+  }
+
   /**
    * Get current tile position
    */
@@ -2,7 +2,7 @@
  * Ghost Base Class
  *
  * This class implements the common behavior shared by all four ghosts in Pac-Man.
- * Each ghost has unique targeting logic (implemented in subclasses), but they all
+ * Each ghost has unique targeting logic (supplied by its GhostBrain), but they all
  * share the same movement system, mode switching, and rendering.
  *
  * ## Ghost Mode State Machine
@@ -17,13 +17,14 @@
  *        │ Timer          │ Eaten by Pac-Man
  *        ▼                ▼
  *   ┌─────────┐    ┌─────────────────┐
- *   │  CHASE  │    │     EATEN       │───── Returns to Ghost House
- *   └────┬────┘    └─────────────────┘
- *        │ Timer
- *        ▼
- *   ┌─────────┐
- *   │ SCATTER │ ... (cycles 4 times, then permanent CHASE)
- *   └─────────┘
+ *   │  CHASE  │    │     EATEN       │───── Shortest path to the door
+ *   └────┬────┘    └───────┬─────────┘
+ *        │ Timer          │ Above the door
+ *        ▼                ▼
+ *   ┌─────────┐    ┌─────────────────┐
+ *   │ SCATTER │    │    ENTERING     │───── Descends, revives, exits
+ *   └─────────┘    └─────────────────┘
+ *   ... (cycles 4 times, then permanent CHASE)
  * ```
  *
  * ## Movement Algorithm
@@ -34,12 +35,21 @@
  * 3. Choose direction that minimizes distance to target
  * 4. Use specific tie-breaking order: UP > LEFT > DOWN > RIGHT
  *
+ * Two rules keep them on the corridors:
+ * - A ghost snaps to the tile centre before it decides. It decides
+ *   anywhere within one step of the centre, and at speeds that do not
+ *   divide the tile size that left it off the centre line after a turn.
+ *   The error grew with each turn until the ghost cut through walls.
+ * - A ghost never picks a ghost house tile. `isWalkable()` counts the
+ *   door and the house as open, so a chasing ghost could wander back in.
+ *   Only eyes go in, by the ENTERING descent.
+ *
  * This predictable behavior allows skilled players to manipulate ghost paths.
  *
  * @abstract This class must be extended by specific ghost implementations
  */
 
-import { Entity } from './Entity';
+import { Entity, EntitySaveData } from './Entity';
 import {
   Direction,
   DirectionType,
@@ -50,12 +60,47 @@ import {
   GHOST_TUNNEL_SPEED,
   GHOST_FRIGHT_SPEED,
   GHOST_EATEN_SPEED,
+  MAX_SPEED,
+  FRIGHT_FLASH_TICKS,
   GhostMode,
   GhostModeType,
 } from '../constants';
 import { TilePosition } from '../types';
-import { MAZE_DATA, isWalkable, isInTunnel, GHOST_HOUSE } from '../utils/MazeData';
+import {
+  CLASSIC_MAZE,
+  GhostId,
+  MazeDefinition,
+  isWalkable,
+  isInTunnel,
+  isInGhostHouse,
+  isNoUpwardTile,
+} from '../utils/MazeData';
 import { PacMan } from './PacMan';
+import { Random, RandomSource } from '../utils/Random';
+import { LevelConfig } from '../systems/LevelConfig';
+import { GhostBrain, closestToTarget } from '../ai/GhostBrain';
+import { houseEntrance, houseEntranceDistances, distanceAt } from '../utils/Pathfinding';
+
+/** Pixels per frame while passing through the ghost house door */
+const DOOR_SPEED = 2;
+
+/** X of a maze's door centre line (between its two tiles) */
+function doorX(maze: MazeDefinition): number {
+  return maze.ghostHouse.centerCol * SCALED_TILE + SCALED_TILE / 2;
+}
+
+/** Y just above a maze's door, where ghosts leave and eyes arrive */
+function doorExitY(maze: MazeDefinition): number {
+  return maze.ghostHouse.exitRow * SCALED_TILE + SCALED_TILE / 2;
+}
+
+/** Y of a maze's house centre, where eyes revive */
+function houseCenterY(maze: MazeDefinition): number {
+  return maze.ghostHouse.centerRow * SCALED_TILE + SCALED_TILE / 2;
+}
+
+/** Stand-in random stream for previews, so they never advance the real one */
+const PREVIEW_RANDOM: RandomSource = { next: () => 0 };
 
 /**
  * Configuration for a specific ghost type
@@ -68,14 +113,35 @@ export interface GhostConfig {
   /** Body color in hex format */
   color: string;
 
-  /** Corner to head toward during Scatter mode */
-  scatterTarget: TilePosition;
+  /** Key of this ghost's start tile and scatter corner in a maze */
+  id: GhostId;
+
+  /**
+   * Pellets this ghost's personal counter needs before it leaves the house,
+   * per level (index 0 is level 1; the last entry covers every later level)
+   */
+  dotLimits: readonly number[];
 
-  /** Starting tile position */
-  startPosition: TilePosition;
+  /** Chase targeting and path choice (see GhostBrain) */
+  brain: GhostBrain;
+}
 
-  /** Number of pellets that must be eaten before this ghost leaves the house */
+/**
+ * Serializable ghost state (mode, timers, house bounce, release counter)
+ */
+export interface GhostSaveData extends EntitySaveData {
+  name: string;
+  mode: GhostModeType;
+  targetTile: TilePosition;
+  isInHouse: boolean;
   dotLimit: number;
+  dotCounter: number;
+  ghostAnimFrame: number;
+  frightenedTimer: number;
+  frightenedDuration: number;
+  frightenedFlashing: boolean;
+  houseOffset: number;
+  houseBounceDir: number;
 }
 
 export abstract class Ghost extends Entity {
@@ -91,18 +157,27 @@ export abstract class Ghost extends Entity {
   /** Target tile the ghost is trying to reach */
   public targetTile: TilePosition = { col: 0, row: 0 };
 
-  /** Fixed corner target for Scatter mode */
-  public readonly scatterTarget: TilePosition;
-
-  /** Starting position for reset */
-  private readonly startPosition: TilePosition;
+  /** Key of this ghost's start tile and scatter corner in a maze */
+  public readonly id: GhostId;
 
   /** Is this ghost currently inside the ghost house? */
   public isInHouse: boolean = true;
 
-  /** Pellet counter - ghost exits house when global count exceeds this */
+  /** Personal dot limit for the current level (see GhostHouse) */
   public dotLimit: number;
 
+  /** Personal dot counter - pellets counted while this ghost was next out */
+  public dotCounter: number = 0;
+
+  /** Personal dot limit for every level */
+  private readonly dotLimits: readonly number[];
+
+  /** The brain this ghost was built with (its classic personality) */
+  public readonly defaultBrain: GhostBrain;
+
+  /** Brain currently making chase and path decisions */
+  private brain: GhostBrain;
+
   /** Animation frame for alternating ghost sprites */
   protected ghostAnimFrame: number = 0;
 
@@ -112,6 +187,9 @@ export abstract class Ghost extends Entity {
   /** How long frightened mode lasts (in frames) */
   private frightenedDuration: number = 360; // 6 seconds at 60fps
 
+  /** White flashes at the end of frightened mode (set per level) */
+  private frightenedFlashes: number = 5;
+
   /** Whether to flash white (ending frightened mode soon) */
   public frightenedFlashing: boolean = false;
 
@@ -121,6 +199,14 @@ export abstract class Ghost extends Entity {
   /** Direction of bounce in ghost house */
   private houseBounceDir: number = 1;
 
+  /** Speeds for the current level (pixels per frame) */
+  private normalSpeed: number = GHOST_SPEED;
+  private tunnelSpeed: number = GHOST_TUNNEL_SPEED;
+  private frightSpeed: number = GHOST_FRIGHT_SPEED;
+
+  /** Gameplay random stream for frightened turns (shared via setRandom) */
+  private random: RandomSource = new Random();
+
   /**
    * Create a new ghost
    *
@@ -129,15 +215,17 @@ export abstract class Ghost extends Entity {
   constructor(config: GhostConfig) {
     // Initialize at starting position (center of tile)
     super(
-      config.startPosition.col * SCALED_TILE + SCALED_TILE / 2,
-      config.startPosition.row * SCALED_TILE + SCALED_TILE / 2
+      CLASSIC_MAZE.startPositions[config.id].col * SCALED_TILE + SCALED_TILE / 2,
+      CLASSIC_MAZE.startPositions[config.id].row * SCALED_TILE + SCALED_TILE / 2
     );
 
     this.name = config.name;
     this.color = config.color;
-    this.scatterTarget = config.scatterTarget;
-    this.startPosition = config.startPosition;
-    this.dotLimit = config.dotLimit;
+    this.id = config.id;
+    this.dotLimits = config.dotLimits;
+    this.dotLimit = config.dotLimits[0];
+    this.defaultBrain = config.brain;
+    this.brain = config.brain;
 
     // Set initial speed
     this.speed = GHOST_SPEED;
@@ -149,10 +237,25 @@ export abstract class Ghost extends Entity {
     this.direction = Direction.NONE;
   }
 
+  /**
+   * Fixed corner target for Scatter mode (from the maze)
+   */
+  get scatterTarget(): TilePosition {
+    return this.maze.scatterTargets[this.id];
+  }
+
+  /**
+   * Starting tile for reset (from the maze)
+   */
+  private get startPosition(): TilePosition {
+    return this.maze.startPositions[this.id];
+  }
+
   /**
    * Calculate the target tile for this ghost
    *
-   * This is the core of ghost AI - each ghost type implements this differently:
+   * This is the core of ghost AI, delegated to the brain. The classic
+   * brains (see ClassicBrains):
    * - Blinky: Directly targets Pac-Man's current tile
    * - Pinky: Targets 4 tiles ahead of Pac-Man
    * - Inky: Complex calculation involving Blinky's position
@@ -162,7 +265,23 @@ export abstract class Ghost extends Entity {
    * @param blinky - Reference to Blinky (needed for Inky's calculation)
    * @returns The tile this ghost should path toward
    */
-  abstract calculateChaseTarget(pacman: PacMan, blinky?: Ghost): TilePosition;
+  calculateChaseTarget(pacman: PacMan, blinky?: Ghost): TilePosition {
+    return this.brain.chooseTarget(this, { pacman, blinky });
+  }
+
+  /**
+   * Swap in another personality (takes effect at the next decision)
+   */
+  setBrain(brain: GhostBrain): void {
+    this.brain = brain;
+  }
+
+  /**
+   * Brain currently in charge
+   */
+  getBrain(): GhostBrain {
+    return this.brain;
+  }
 
   /**
    * Update ghost state each frame
@@ -186,6 +305,10 @@ export abstract class Ghost extends Entity {
         this.updateExitingMode();
         return;
 
+      case GhostMode.ENTERING:
+        this.updateEnteringMode();
+        return;
+
       case GhostMode.FRIGHTENED:
         this.updateFrightenedMode();
         break;
@@ -198,14 +321,22 @@ export abstract class Ghost extends Entity {
     // Update speed based on current state
     this.updateSpeed();
 
-    // At tile center, make direction decisions
+    // At tile center, make direction decisions (snapping first, see the
+    // module notes)
     if (this.isAtTileCenter(this.speed)) {
+      this.snapToTileCenter();
       this.chooseDirection();
     }
 
     // Move in current direction
     this.move();
 
+    // Eyes above the door start their descent
+    if (this.mode === GhostMode.EATEN && this.isAboveDoor()) {
+      this.mode = GhostMode.ENTERING;
+      this.isInHouse = true;
+    }
+
     // Update animation
     this.updateAnimation();
   }
@@ -230,30 +361,57 @@ export abstract class Ghost extends Entity {
    * Move to center, then up through the door
    */
   private updateExitingMode(): void {
-    const doorX = GHOST_HOUSE.centerCol * SCALED_TILE + SCALED_TILE / 2;
-    const doorY = GHOST_HOUSE.exitRow * SCALED_TILE + SCALED_TILE / 2;
-    const exitSpeed = 2;  // Pixels per frame for exiting
+    const doorCenterX = doorX(this.maze);
+    const exitY = doorExitY(this.maze);
 
     // First, center horizontally
-    if (Math.abs(this.position.x - doorX) > exitSpeed) {
-      this.position.x += this.position.x < doorX ? exitSpeed : -exitSpeed;
+    if (Math.abs(this.position.x - doorCenterX) > DOOR_SPEED) {
+      this.position.x += this.position.x < doorCenterX ? DOOR_SPEED : -DOOR_SPEED;
       return;
     }
 
     // Then move up to exit
-    this.position.x = doorX;
-    if (this.position.y > doorY + exitSpeed) {
-      this.position.y -= exitSpeed;
+    this.position.x = doorCenterX;
+    if (this.position.y > exitY + DOOR_SPEED) {
+      this.position.y -= DOOR_SPEED;
       return;
     }
 
     // Exit complete - switch to scatter/chase mode
-    this.position.y = doorY;
+    this.position.y = exitY;
     this.isInHouse = false;
     this.mode = GhostMode.SCATTER;
     this.direction = Direction.LEFT;
   }
 
+  /**
+   * Update when eyes are entering the ghost house
+   * Line up with the door, then sink to the centre (checkReachedHouse
+   * revives the ghost there)
+   */
+  private updateEnteringMode(): void {
+    const doorCenterX = doorX(this.maze);
+
+    if (Math.abs(this.position.x - doorCenterX) > DOOR_SPEED) {
+      this.direction = this.position.x < doorCenterX ? Direction.RIGHT : Direction.LEFT;
+      this.position.x += this.position.x < doorCenterX ? DOOR_SPEED : -DOOR_SPEED;
+      return;
+    }
+
+    this.position.x = doorCenterX;
+    this.direction = Direction.DOWN;
+    this.position.y = Math.min(this.position.y + DOOR_SPEED, houseCenterY(this.maze));
+  }
+
+  /**
+   * Are the eyes on one of the two tiles just above the door?
+   */
+  private isAboveDoor(): boolean {
+    const tile = this.getTile();
+    const house = this.maze.ghostHouse;
+    return tile.row === house.exitRow && tile.col >= house.doorLeftCol && tile.col <= house.doorRightCol;
+  }
+
   /**
    * Update frightened mode timer
    * Counts down and triggers flashing before expiry
@@ -261,10 +419,11 @@ export abstract class Ghost extends Entity {
   private updateFrightenedMode(): void {
     this.frightenedTimer--;
 
-    // Start flashing when almost done (last 2 seconds)
-    if (this.frightenedTimer < 120 && this.frightenedTimer > 0) {
-      // Flash every 15 frames
-      this.frightenedFlashing = Math.floor(this.frightenedTimer / 15) % 2 === 0;
+    // Flash for the level's number of flashes before the end, white first
+    const flashingTicks = this.frightenedFlashes * FRIGHT_FLASH_TICKS;
+    if (this.frightenedTimer <= flashingTicks && this.frightenedTimer > 0) {
+      const elapsed = flashingTicks - this.frightenedTimer;
+      this.frightenedFlashing = elapsed % FRIGHT_FLASH_TICKS < FRIGHT_FLASH_TICKS / 2;
     }
 
     // Timer expired - return to normal mode
@@ -277,26 +436,42 @@ export abstract class Ghost extends Entity {
   /**
    * Update movement speed based on current mode and position
    *
-   * Speed rules:
-   * - Tunnel: 40% (prevents ghosts camping the tunnel)
-   * - Frightened: 50% (makes them catchable)
-   * - Eaten: 150% (rush back to regenerate)
-   * - Normal: 75%
+   * Speed rules (level speeds come from LevelConfig via setLevelSpeeds):
+   * - Eaten: fixed fast speed (rush back to regenerate)
+   * - Tunnel: level tunnel speed (prevents ghosts camping the tunnel)
+   * - Frightened: level fright speed (makes them catchable)
+   * - Otherwise: getBaseSpeed()
    */
   private updateSpeed(): void {
     const tile = this.getTile();
 
     if (this.mode === GhostMode.EATEN) {
       this.speed = GHOST_EATEN_SPEED;
-    } else if (isInTunnel(tile.col, tile.row)) {
-      this.speed = GHOST_TUNNEL_SPEED;
+    } else if (isInTunnel(this.maze, tile.col, tile.row)) {
+      this.speed = this.tunnelSpeed;
     } else if (this.mode === GhostMode.FRIGHTENED) {
-      this.speed = GHOST_FRIGHT_SPEED;
+      this.speed = this.frightSpeed;
     } else {
-      this.speed = GHOST_SPEED;
+      this.speed = this.getBaseSpeed();
     }
   }
 
+  /**
+   * Speed while chasing or scattering (Blinky speeds up in Cruise Elroy)
+   */
+  protected getBaseSpeed(): number {
+    return this.normalSpeed;
+  }
+
+  /**
+   * Use a level's speed multipliers (normal, tunnel, frightened)
+   */
+  setLevelSpeeds(config: LevelConfig): void {
+    this.normalSpeed = config.ghostSpeed * MAX_SPEED;
+    this.tunnelSpeed = config.ghostTunnelSpeed * MAX_SPEED;
+    this.frightSpeed = config.ghostFrightSpeed * MAX_SPEED;
+  }
+
   /**
    * Choose direction at an intersection
    *
@@ -306,13 +481,46 @@ export abstract class Ghost extends Entity {
    * 3. Pick the direction with minimum distance
    * 4. Tie-break in order: UP, LEFT, DOWN, RIGHT
    *
-   * For frightened mode: pick randomly instead
+   * Steps 2-4 are the brain's path choice in scatter and chase. Frightened
+   * ghosts pick randomly and eaten ghosts follow the shortest path home,
+   * whatever their brain.
    */
   private chooseDirection(): void {
+    this.direction = this.decideAt(this.getTile(), this.direction, this.random);
+  }
+
+  /**
+   * The direction this ghost will take at its next tile, if it can be
+   * known yet (for debug views)
+   *
+   * Decided like `chooseDirection()` against the current target. Returns
+   * null where the choice will be random (frightened) or the ghost is not
+   * in the maze. Brains that pick at random get a stand-in stream, so
+   * their preview is only a guess; the real random stream is untouched.
+   */
+  planNextDirection(): DirectionType | null {
+    const movingInMaze = this.mode === GhostMode.SCATTER || this.mode === GhostMode.CHASE || this.mode === GhostMode.EATEN;
+    if (!movingInMaze || this.isInHouse || this.direction === Direction.NONE) return null;
+
     const tile = this.getTile();
+    const vector = DIRECTION_VECTORS[this.direction];
+    return this.decideAt({ col: tile.col + vector.x, row: tile.row + vector.y }, this.direction, PREVIEW_RANDOM);
+  }
+
+  /**
+   * Can a ghost choose to walk onto a tile? (Open, and outside the house:
+   * the house is only entered through updateEnteringMode())
+   */
+  private isCorridor(col: number, row: number): boolean {
+    return isWalkable(this.maze, col, row) && !isInGhostHouse(this.maze, col, row);
+  }
 
+  /**
+   * Pick the direction to leave a tile by, arriving in a direction
+   */
+  private decideAt(tile: TilePosition, arriving: DirectionType, random: RandomSource): DirectionType {
     // Get available directions (can't reverse)
-    const reverseDir = OPPOSITE_DIRECTION[this.direction] ?? -1;
+    const reverseDir = OPPOSITE_DIRECTION[arriving] ?? -1;
     const options: DirectionType[] = [];
 
     // Check each direction (in tie-break order)
@@ -327,57 +535,49 @@ export abstract class Ghost extends Entity {
 
       // Special case: ghosts can't go up in certain tiles (original game quirk)
       // Exception: eaten ghosts (eyes) can go anywhere to return home
-      if (dir === Direction.UP && this.mode !== GhostMode.EATEN && this.isNoUpwardsTile(tile.col, tile.row)) {
+      if (dir === Direction.UP && this.mode !== GhostMode.EATEN && isNoUpwardTile(this.maze, tile.col, tile.row)) {
         continue;
       }
 
-      if (isWalkable(MAZE_DATA, nextCol, nextRow)) {
+      if (this.isCorridor(nextCol, nextRow)) {
         options.push(dir);
       }
     }
 
     // If no options, we must reverse (dead end)
     if (options.length === 0) {
-      this.direction = reverseDir as DirectionType;
-      return;
+      return reverseDir as DirectionType;
     }
 
     // Single option - take it
     if (options.length === 1) {
-      this.direction = options[0];
-      return;
+      return options[0];
     }
 
     // Multiple options - choose based on mode
     if (this.mode === GhostMode.FRIGHTENED) {
       // Random choice when frightened
-      this.direction = options[Math.floor(Math.random() * options.length)];
-    } else {
-      // Choose direction that minimizes distance to target
-      this.direction = this.chooseByDistance(tile, options);
+      return options[Math.floor(random.next() * options.length)];
+    }
+    if (this.mode === GhostMode.EATEN) {
+      return this.chooseHomeDirection(tile, options);
     }
+    return this.brain.chooseDirection(this, tile, options, random);
   }
 
   /**
-   * Choose the direction that gets closest to the target tile
-   *
-   * @param currentTile - Ghost's current tile
-   * @param options - Available direction choices
-   * @returns Best direction toward target
+   * Step onto the option with the shortest corridor path to the house
+   * entrance (straight-line guess if none can reach it)
    */
-  private chooseByDistance(currentTile: TilePosition, options: DirectionType[]): DirectionType {
-    let bestDir = options[0];
+  private chooseHomeDirection(tile: TilePosition, options: readonly DirectionType[]): DirectionType {
+    const distances = houseEntranceDistances(this.maze);
+
+    let bestDir: DirectionType | null = null;
     let bestDist = Infinity;
 
     for (const dir of options) {
       const vector = DIRECTION_VECTORS[dir];
-      const nextCol = currentTile.col + vector.x;
-      const nextRow = currentTile.row + vector.y;
-
-      // Calculate squared distance to target (no sqrt needed for comparison)
-      const dx = this.targetTile.col - nextCol;
-      const dy = this.targetTile.row - nextRow;
-      const dist = dx * dx + dy * dy;
+      const dist = distanceAt(distances, { col: tile.col + vector.x, row: tile.row + vector.y }, this.maze);
 
       if (dist < bestDist) {
         bestDist = dist;
@@ -385,28 +585,7 @@ export abstract class Ghost extends Entity {
       }
     }
 
-    return bestDir;
-  }
-
-  /**
-   * Check if this is a tile where ghosts cannot turn upward
-   *
-   * In the original Pac-Man, certain tiles prevent ghosts from turning up.
-   * This creates exploitable "safe zones" that advanced players use.
-   *
-   * @param col - Tile column
-   * @param row - Tile row
-   * @returns True if ghosts cannot turn up here
-   */
-  private isNoUpwardsTile(col: number, row: number): boolean {
-    // The original has specific tiles where ghosts can't turn up
-    // These are at rows 11 and 23, columns 12 and 15
-    if (row === 11 || row === 23) {
-      if (col === 12 || col === 15) {
-        return true;
-      }
-    }
-    return false;
+    return bestDir ?? closestToTarget(tile, this.targetTile, options);
   }
 
   /**
@@ -453,8 +632,8 @@ export abstract class Ghost extends Entity {
         break;
 
       case GhostMode.EATEN:
-        // Target the ghost house door
-        this.targetTile = { col: Math.floor(GHOST_HOUSE.centerCol), row: GHOST_HOUSE.doorRow };
+        // Target the tile above the ghost house door
+        this.targetTile = houseEntrance(this.maze);
         break;
     }
   }
@@ -486,25 +665,20 @@ export abstract class Ghost extends Entity {
   }
 
   /**
-   * Check if ghost has reached the ghost house (when eaten)
+   * Check if eaten eyes have finished descending into the ghost house
+   *
+   * The ghost revives at the house centre; the caller sends it out again.
+   *
+   * @returns True on the tick the ghost revives
    */
   checkReachedHouse(): boolean {
-    if (this.mode !== GhostMode.EATEN) return false;
-
-    const tile = this.getTile();
-    if (tile.col === Math.floor(GHOST_HOUSE.centerCol) && tile.row === GHOST_HOUSE.doorRow) {
-      // Enter the house
-      this.mode = GhostMode.HOUSE;
-      this.isInHouse = true;
-      this.setTilePosition(GHOST_HOUSE.centerCol, GHOST_HOUSE.centerRow);
-      this.direction = Direction.NONE;
+    if (this.mode !== GhostMode.ENTERING) return false;
+    if (this.position.x !== doorX(this.maze) || this.position.y < houseCenterY(this.maze)) return false;
 
-      // Will exit again after a short delay
-      setTimeout(() => this.exitHouse(), 1000);
-      return true;
-    }
-
-    return false;
+    this.mode = GhostMode.HOUSE;
+    this.direction = Direction.NONE;
+    this.houseOffset = 0;
+    return true;
   }
 
   /**
@@ -525,7 +699,7 @@ export abstract class Ghost extends Entity {
     this.direction = Direction.NONE;
     this.mode = GhostMode.HOUSE;
     this.isInHouse = true;
-    this.speed = GHOST_SPEED;
+    this.speed = this.normalSpeed;
     this.frightenedTimer = 0;
     this.frightenedFlashing = false;
     this.houseOffset = 0;
@@ -533,9 +707,68 @@ export abstract class Ghost extends Entity {
   }
 
   /**
-   * Set frightened mode duration (changes per level)
+   * Start a level: pick its personal dot limit and clear the counter
+   */
+  startLevel(level: number): void {
+    this.dotLimit = this.dotLimits[Math.min(level, this.dotLimits.length) - 1];
+    this.dotCounter = 0;
+  }
+
+  /**
+   * Set frightened mode duration and warning flashes (change per level)
    */
-  setFrightenedDuration(frames: number): void {
+  setFrightenedDuration(frames: number, flashes: number = this.frightenedFlashes): void {
     this.frightenedDuration = frames;
+    this.frightenedFlashes = flashes;
+  }
+
+  /**
+   * Capture full state for a save
+   */
+  override save(): GhostSaveData {
+    return {
+      ...super.save(),
+      name: this.name,
+      mode: this.mode,
+      targetTile: { ...this.targetTile },
+      isInHouse: this.isInHouse,
+      dotLimit: this.dotLimit,
+      dotCounter: this.dotCounter,
+      ghostAnimFrame: this.ghostAnimFrame,
+      frightenedTimer: this.frightenedTimer,
+      frightenedDuration: this.frightenedDuration,
+      frightenedFlashing: this.frightenedFlashing,
+      houseOffset: this.houseOffset,
+      houseBounceDir: this.houseBounceDir,
+    };
+  }
+
+  /**
+   * Restore state captured by save()
+   */
+  override load(data: GhostSaveData): void {
+    if (data.name !== this.name) {
+      throw new Error(`Cannot load ${data.name} save data into ${this.name}`);
+    }
+
+    super.load(data);
+    this.mode = data.mode;
+    this.targetTile = { ...data.targetTile };
+    this.isInHouse = data.isInHouse;
+    this.dotLimit = data.dotLimit;
+    this.dotCounter = data.dotCounter;
+    this.ghostAnimFrame = data.ghostAnimFrame;
+    this.frightenedTimer = data.frightenedTimer;
+    this.frightenedDuration = data.frightenedDuration;
+    this.frightenedFlashing = data.frightenedFlashing;
+    this.houseOffset = data.houseOffset;
+    this.houseBounceDir = data.houseBounceDir;
+  }
+
+  /**
+   * Use a shared gameplay random stream (so runs are reproducible by seed)
+   */
+  setRandom(random: RandomSource): void {
+    this.random = random;
   }
 }
@@ -30,14 +30,14 @@
  * changes based on where Blinky is. This forces players to keep track
  * of multiple ghosts simultaneously.
  *
+ * Targeting: `InkyBrain` (ai/ClassicBrains).
+ *
  * @extends Ghost
  */
 
 import { Ghost, GhostConfig } from './Ghost';
-import { TilePosition } from '../types';
-import { PacMan } from './PacMan';
-import { Colors, Direction, DIRECTION_VECTORS } from '../constants';
-import { SCATTER_TARGETS, START_POSITIONS } from '../utils/MazeData';
+import { Colors } from '../constants';
+import { InkyBrain } from '../ai/ClassicBrains';
 
 /**
  * Configuration specific to Inky
@@ -45,9 +45,9 @@ import { SCATTER_TARGETS, START_POSITIONS } from '../utils/MazeData';
 const INKY_CONFIG: GhostConfig = {
   name: 'Inky',
   color: Colors.INKY,
-  scatterTarget: SCATTER_TARGETS.INKY,
-  startPosition: START_POSITIONS.INKY,
-  dotLimit: 30,  // Inky exits after 30 pellets are eaten
+  id: 'inky',
+  dotLimits: [30, 0],  // Inky waits for 30 pellets on level 1 only
+  brain: new InkyBrain(),
 };
 
 export class Inky extends Ghost {
@@ -58,55 +58,4 @@ export class Inky extends Ghost {
   constructor() {
     super(INKY_CONFIG);
   }
-
-  /**
-   * Calculate Inky's chase target
-   *
-   * This is the most complex targeting in the game:
-   * 1. Get tile 2 ahead of Pac-Man (including overflow bug when facing UP)
-   * 2. Calculate vector from Blinky to this tile
-   * 3. Double the vector to get final target
-   *
-   * If Blinky reference is not available, fall back to Pac-Man's position.
-   *
-   * @param pacman - Reference to Pac-Man entity
-   * @param blinky - Reference to Blinky (required for proper targeting)
-   * @returns Calculated target tile
-   */
-  calculateChaseTarget(pacman: PacMan, blinky?: Ghost): TilePosition {
-    const pacmanTile = pacman.getTile();
-    const direction = pacman.direction === Direction.NONE ? Direction.RIGHT : pacman.direction;
-    const vector = DIRECTION_VECTORS[direction];
-
-    // Step 1: Find tile 2 spaces ahead of Pac-Man
-    let aheadCol = pacmanTile.col + vector.x * 2;
-    let aheadRow = pacmanTile.row + vector.y * 2;
-
-    // Reproduce overflow bug when Pac-Man faces up (same as Pinky but 2 tiles)
-    if (direction === Direction.UP) {
-      aheadCol -= 2;
-    }
-
-    // Step 2 & 3: If we have Blinky, calculate vector and double it
-    if (blinky) {
-      const blinkyTile = blinky.getTile();
-
-      // Vector from Blinky to 2-ahead point
-      const vectorCol = aheadCol - blinkyTile.col;
-      const vectorRow = aheadRow - blinkyTile.row;
-
-      // Double the vector and add to Blinky's position
-      // (same as: aheadCol + vectorCol, aheadRow + vectorRow)
-      return {
-        col: blinkyTile.col + vectorCol * 2,
-        row: blinkyTile.row + vectorRow * 2,
-      };
-    }
-
-    // Fallback if no Blinky reference: just use the ahead tile
-    return {
-      col: aheadCol,
-      row: aheadRow,
-    };
-  }
 }
@@ -3,7 +3,7 @@
  * The player-controlled character
  */
 
-import { Entity } from './Entity';
+import { Entity, EntitySaveData } from './Entity';
 import {
   Direction,
   DirectionType,
@@ -12,12 +12,34 @@ import {
   PACMAN_SPEED,
   PACMAN_EATING_SPEED,
   PACMAN_FRIGHT_SPEED,
+  MAX_SPEED,
   PACMAN_ANIMATION_SPEED,
   DEATH_ANIMATION_FRAMES,
   DEATH_ANIMATION_SPEED,
   Colors,
 } from '../constants';
-import { START_POSITIONS } from '../utils/MazeData';
+import { CLASSIC_MAZE } from '../utils/MazeData';
+import { LevelConfig } from '../systems/LevelConfig';
+
+/**
+ * Serializable Pac-Man state (lives, eating, death and victory animations)
+ */
+export interface PacManSaveData extends EntitySaveData {
+  lives: number;
+  isEating: boolean;
+  isDying: boolean;
+  deathAnimationFrame: number;
+  deathAnimationTimer: number;
+  deathAnimationComplete: boolean;
+  frightenedModeActive: boolean;
+  isVictory: boolean;
+  victoryAnimationFrame: number;
+  victoryAnimationTimer: number;
+  victoryAnimationComplete: boolean;
+  victoryRotation: number;
+  victoryJump: number;
+  victoryScale: number;
+}
 
 export class PacMan extends Entity {
   public lives: number = 3;
@@ -38,8 +60,13 @@ export class PacMan extends Entity {
   private victoryAnimationComplete: boolean = false;
   private corneringBuffer: number = 4; // Pixels of "pre-turn" allowed
 
+  /** Speeds for the current level (pixels per frame) */
+  private normalSpeed: number = PACMAN_SPEED;
+  private eatingSpeed: number = PACMAN_EATING_SPEED;
+  private frightSpeed: number = PACMAN_FRIGHT_SPEED;
+
   constructor() {
-    const startPos = START_POSITIONS.PACMAN;
+    const startPos = CLASSIC_MAZE.startPositions.pacman;
     super(
       startPos.col * SCALED_TILE + SCALED_TILE / 2,
       startPos.row * SCALED_TILE + SCALED_TILE / 2
@@ -91,14 +118,23 @@ export class PacMan extends Entity {
    */
   private updateSpeed(): void {
     if (this.frightenedModeActive) {
-      this.speed = PACMAN_FRIGHT_SPEED;
+      this.speed = this.frightSpeed;
     } else if (this.isEating) {
-      this.speed = PACMAN_EATING_SPEED;
+      this.speed = this.eatingSpeed;
     } else {
-      this.speed = PACMAN_SPEED;
+      this.speed = this.normalSpeed;
     }
   }
 
+  /**
+   * Use a level's speed multipliers (normal, eating dots, ghosts frightened)
+   */
+  setLevelSpeeds(config: LevelConfig): void {
+    this.normalSpeed = config.pacmanSpeed * MAX_SPEED;
+    this.eatingSpeed = config.pacmanDotsSpeed * MAX_SPEED;
+    this.frightSpeed = config.pacmanFrightSpeed * MAX_SPEED;
+  }
+
   /**
    * Try to change direction based on queued input
    * Implements "cornering" - Pac-Man can turn slightly early
@@ -332,20 +368,65 @@ export class PacMan extends Entity {
    * Reset Pac-Man to starting position
    */
   reset(): void {
-    const startPos = START_POSITIONS.PACMAN;
+    const startPos = this.maze.startPositions.pacman;
     this.position.x = startPos.col * SCALED_TILE + SCALED_TILE / 2;
     this.position.y = startPos.row * SCALED_TILE + SCALED_TILE / 2;
     this.direction = Direction.NONE;
     this.nextDirection = Direction.NONE;
-    this.speed = PACMAN_SPEED;
+    this.speed = this.normalSpeed;
     this.isDying = false;
     this.isEating = false;
+    this.frightenedModeActive = false;
     this.deathAnimationFrame = 0;
     this.deathAnimationTimer = 0;
     this.deathAnimationComplete = false;
     this.resetAnimation();
   }
 
+  /**
+   * Capture full state for a save
+   */
+  override save(): PacManSaveData {
+    return {
+      ...super.save(),
+      lives: this.lives,
+      isEating: this.isEating,
+      isDying: this.isDying,
+      deathAnimationFrame: this.deathAnimationFrame,
+      deathAnimationTimer: this.deathAnimationTimer,
+      deathAnimationComplete: this.deathAnimationComplete,
+      frightenedModeActive: this.frightenedModeActive,
+      isVictory: this.isVictory,
+      victoryAnimationFrame: this.victoryAnimationFrame,
+      victoryAnimationTimer: this.victoryAnimationTimer,
+      victoryAnimationComplete: this.victoryAnimationComplete,
+      victoryRotation: this.victoryRotation,
+      victoryJump: this.victoryJump,
+      victoryScale: this.victoryScale,
+    };
+  }
+
+  /**
+   * Restore state captured by save()
+   */
+  override load(data: PacManSaveData): void {
+    super.load(data);
+    this.lives = data.lives;
+    this.isEating = data.isEating;
+    this.isDying = data.isDying;
+    this.deathAnimationFrame = data.deathAnimationFrame;
+    this.deathAnimationTimer = data.deathAnimationTimer;
+    this.deathAnimationComplete = data.deathAnimationComplete;
+    this.frightenedModeActive = data.frightenedModeActive;
+    this.isVictory = data.isVictory;
+    this.victoryAnimationFrame = data.victoryAnimationFrame;
+    this.victoryAnimationTimer = data.victoryAnimationTimer;
+    this.victoryAnimationComplete = data.victoryAnimationComplete;
+    this.victoryRotation = data.victoryRotation;
+    this.victoryJump = data.victoryJump;
+    this.victoryScale = data.victoryScale;
+  }
+
   /**
    * Full reset including lives
    */
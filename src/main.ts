@@ -7,6 +7,12 @@
  * 3. Wait for player input to start
  * 4. Create the game instance and start
  *
+ * Left idle, the splash gives way to the attract mode loop (roll call,
+ * scoring table, demo game); any key brings the splash back.
+ *
+ * E on the splash opens the maze editor. Its test play runs the layout in
+ * the game, and E goes back to editing.
+ *
  * ## 2025 Visual Overhaul
  *
  * The splash screen features:
@@ -19,11 +25,28 @@
  */
 
 import { Game } from './Game';
+import { RENDERER_PREFERENCES, RendererPreference } from './systems/GameRenderer';
+import { MazeEditorView } from './systems/MazeEditorView';
+import { MazeDefinition, MazeSelector } from './utils/MazeData';
+import { randomMazes } from './utils/MazeGenerator';
+import { Random } from './utils/Random';
 import './styles.css';
 
 /** Game instance (created after splash) */
 let game: Game | null = null;
 
+/** Maze editor (created on first use) */
+let editor: MazeEditorView | null = null;
+
+/** Is the game playing a layout from the editor? */
+let testPlaying = false;
+
+/** Idle time on the splash before attract mode starts */
+const ATTRACT_DELAY_MS = 15000;
+
+/** Pending attract mode start (cleared when a game starts) */
+let attractTimer: ReturnType<typeof setTimeout> | null = null;
+
 /**
  * Load high score from localStorage
  */
@@ -32,6 +55,66 @@ function loadHighScore(): number {
   return saved ? parseInt(saved, 10) : 0;
 }
 
+/**
+ * Read a pinned gameplay seed from the URL (`?seed=1234`), if any
+ */
+function loadSeed(): number | undefined {
+  const seed = new URLSearchParams(window.location.search).get('seed');
+  return seed !== null && /^\d+$/.test(seed) ? parseInt(seed, 10) : undefined;
+}
+
+/**
+ * Read the renderer override (`?renderer=canvas2d`, remembered for later
+ * visits; `?renderer=auto` forgets it)
+ */
+function loadRendererPreference(): RendererPreference {
+  const isPreference = (value: string | null): value is RendererPreference =>
+    RENDERER_PREFERENCES.includes(value as RendererPreference);
+
+  const requested = new URLSearchParams(window.location.search).get('renderer');
+  if (isPreference(requested)) {
+    localStorage.setItem('pacman-renderer', requested);
+    return requested;
+  }
+
+  const saved = localStorage.getItem('pacman-renderer');
+  return isPreference(saved) ? saved : 'auto';
+}
+
+/**
+ * Check for practice mode in the URL (`?practice`)
+ */
+function loadPractice(): boolean {
+  return new URLSearchParams(window.location.search).has('practice');
+}
+
+/**
+ * Check for the autopilot in the URL (`?autopilot`)
+ */
+function loadAutopilot(): boolean {
+  return new URLSearchParams(window.location.search).has('autopilot');
+}
+
+/**
+ * Check for endless random mazes in the URL (`?randommazes`, or
+ * `?randommazes=1234` to play a given run of mazes again)
+ */
+function loadRandomMazes(): MazeSelector | undefined {
+  const requested = new URLSearchParams(window.location.search).get('randommazes');
+  if (requested === null) return undefined;
+
+  const seed = /^\d+$/.test(requested) ? parseInt(requested, 10) : Random.generateSeed();
+  console.log(`Random mazes from seed ${seed} (?randommazes=${seed} plays them again)`);
+  return randomMazes(seed);
+}
+
+/**
+ * Check for attract mode demo sound in the URL (`?attractsound`)
+ */
+function loadAttractSound(): boolean {
+  return new URLSearchParams(window.location.search).has('attractsound');
+}
+
 /**
  * Update splash screen high score display
  */
@@ -43,10 +126,18 @@ function updateSplashHighScore(): void {
   }
 }
 
+/**
+ * Is the splash up and waiting for input?
+ */
+function isSplashShowing(): boolean {
+  const splashScreen = document.getElementById('splash-screen');
+  return splashScreen !== null && !splashScreen.classList.contains('hidden');
+}
+
 /**
  * Transition from splash screen to game
  */
-function startGameFromSplash(): void {
+function startGameFromSplash(resume: boolean = false): void {
   const splashScreen = document.getElementById('splash-screen');
   const gameContainer = document.getElementById('game-container');
 
@@ -60,27 +151,156 @@ function startGameFromSplash(): void {
     splashScreen.style.display = 'none';
     gameContainer.classList.remove('hidden');
 
-    // Create and start the game if not already created
-    if (!game) {
-      try {
-        game = new Game({
-          canvasId: 'game-canvas',
-          sound: true,
-        });
-
-        // Expose for debugging
-        (window as unknown as { game: Game }).game = game;
-      } catch (error) {
-        console.error('Failed to initialize game:', error);
-        showError(error);
-        return;
-      }
-    }
+    getGame()?.start(resume);
+  }, 500); // Match CSS transition duration
+}
+
+/**
+ * Create the game on first use
+ *
+ * @returns The game, or null if it failed to start (the error is shown)
+ */
+function getGame(): Game | null {
+  if (game) return game;
 
-    game.start();
+  try {
+    game = new Game({
+      canvasId: 'game-canvas',
+      sound: true,
+      seed: loadSeed(),
+      practice: loadPractice(),
+      renderer: loadRendererPreference(),
+      autopilot: loadAutopilot(),
+      attractSound: loadAttractSound(),
+      mazes: loadRandomMazes(),
+    });
+
+    // Expose for debugging
+    (window as unknown as { game: Game }).game = game;
+  } catch (error) {
+    console.error('Failed to initialize game:', error);
+    showError(error);
+  }
+  return game;
+}
+
+/**
+ * Start attract mode after the splash has sat idle for a while
+ */
+function scheduleAttract(): void {
+  cancelAttract();
+  attractTimer = setTimeout(startAttractFromSplash, ATTRACT_DELAY_MS);
+}
+
+/**
+ * Forget a pending attract mode start
+ */
+function cancelAttract(): void {
+  if (attractTimer !== null) {
+    clearTimeout(attractTimer);
+    attractTimer = null;
+  }
+}
+
+/**
+ * Swap the idle splash for the attract mode loop
+ */
+function startAttractFromSplash(): void {
+  attractTimer = null;
+
+  const splashScreen = document.getElementById('splash-screen');
+  const gameContainer = document.getElementById('game-container');
+  if (!splashScreen || !gameContainer || splashScreen.classList.contains('hidden')) return;
+
+  splashScreen.classList.add('hidden');
+  splashScreen.style.display = 'none';
+  gameContainer.classList.remove('hidden');
+
+  getGame()?.startAttract();
+}
+
+/**
+ * Leave attract mode and bring the splash prompt back
+ */
+function returnToSplash(): void {
+  game?.stopAttract();
+
+  const splashScreen = document.getElementById('splash-screen');
+  const gameContainer = document.getElementById('game-container');
+  if (!splashScreen || !gameContainer) return;
+
+  gameContainer.classList.add('hidden');
+  splashScreen.style.display = '';
+  splashScreen.classList.remove('hidden');
+  updateSplashHighScore();
+  scheduleAttract();
+}
+
+/**
+ * Create the maze editor on first use
+ */
+function getEditor(): MazeEditorView {
+  editor ??= new MazeEditorView({ onTestPlay: testPlayMaze, onClose: closeEditor });
+  return editor;
+}
+
+/**
+ * Swap the splash for the maze editor
+ */
+function openEditorFromSplash(): void {
+  const splashScreen = document.getElementById('splash-screen');
+  if (!splashScreen) return;
+
+  cancelAttract();
+  splashScreen.classList.add('hidden');
+
+  setTimeout(() => {
+    splashScreen.style.display = 'none';
+    getEditor().open();
   }, 500); // Match CSS transition duration
 }
 
+/**
+ * Leave the editor for the splash
+ */
+function closeEditor(): void {
+  editor?.close();
+
+  const splashScreen = document.getElementById('splash-screen');
+  if (!splashScreen) return;
+
+  splashScreen.style.display = '';
+  splashScreen.classList.remove('hidden');
+  updateSplashHighScore();
+  scheduleAttract();
+}
+
+/**
+ * Play a layout from the editor until E is pressed
+ */
+function testPlayMaze(maze: MazeDefinition): void {
+  const gameContainer = document.getElementById('game-container');
+  const current = getGame();
+  if (!gameContainer || !current) return;
+
+  editor?.close();
+  gameContainer.classList.remove('hidden');
+  testPlaying = true;
+  current.setMazes(() => maze);
+  current.start();
+}
+
+/**
+ * End a test play and go back to editing
+ */
+function returnToEditor(): void {
+  testPlaying = false;
+  game?.suspend();
+  game?.setMazes(null);
+  document.getElementById('game-container')?.classList.add('hidden');
+  getEditor().open();
+}
+
 /**
  * Show error message
  */
@@ -92,7 +312,7 @@ function showError(error: unknown): void {
       <div style="color: #f00; font-family: 'Press Start 2P', monospace; padding: 20px; text-align: center;">
         <h2 style="margin-bottom: 20px;">GAME ERROR</h2>
         <p style="margin-bottom: 10px;">${error instanceof Error ? error.message : 'Unknown error'}</p>
-        <p>Make sure WebGL is enabled</p>
+        <p>Try adding ?renderer=canvas2d to the address</p>
       </div>
     `;
   }
@@ -109,13 +329,24 @@ function init(): void {
   console.log('  Arrow Keys / WASD - Move');
   console.log('  Space / Enter     - Start');
   console.log('  P / Escape        - Pause');
+  console.log('  Q (paused)        - Save & Quit');
+  console.log('  C (splash)        - Continue saved game');
+  console.log('  R (game over)     - Watch replay of the last game');
+  console.log('  [ / ]             - Replay speed down / up');
+  console.log('  Backspace (hold)  - Rewind (?practice only)');
+  console.log('  B                 - Autopilot take over / hand back');
+  console.log('  F3                - Ghost AI debug overlay');
+  console.log('  F4 / .            - Step debugger on/off / step one tick');
+  console.log('  Any key (attract) - Back to the start screen');
+  console.log('  E (splash)        - Maze editor');
+  console.log('  E (test play)     - Back to the maze editor');
   console.log('');
 
   // Update splash high score
   updateSplashHighScore();
 
   // Handle input on splash screen
-  const handleStart = (e: Event): void => {
+  const handleStart = (e: Event, resume: boolean = false): void => {
     // Prevent default space scrolling
     if (e instanceof KeyboardEvent && e.code === 'Space') {
       e.preventDefault();
@@ -124,17 +355,64 @@ function init(): void {
     // Only start if splash is visible
     const splashScreen = document.getElementById('splash-screen');
     if (splashScreen && !splashScreen.classList.contains('hidden')) {
-      startGameFromSplash();
+      cancelAttract();
+      startGameFromSplash(resume);
     }
   };
 
-  // Listen for keyboard
+  // Offer to continue a Save & Quit game
+  const hasSave = Game.hasSavedGame();
+  const continuePrompt = document.getElementById('splash-continue');
+  if (hasSave && continuePrompt) {
+    continuePrompt.classList.remove('hidden');
+
+    // Don't let the splash's own click handler start a new game
+    const handleContinue = (e: Event): void => {
+      e.stopPropagation();
+      handleStart(e, true);
+    };
+    continuePrompt.addEventListener('click', handleContinue);
+    continuePrompt.addEventListener('touchstart', handleContinue);
+  }
+
+  // Listen for keyboard (any key leaves attract mode, and nothing else
+  // sees that key press; the same goes for keys in the editor)
   document.addEventListener('keydown', (e) => {
+    if (editor?.isOpen()) {
+      if (editor.handleKey(e)) e.preventDefault();
+      e.stopImmediatePropagation();
+      return;
+    }
+
+    if (testPlaying && e.code === 'KeyE') {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      returnToEditor();
+      return;
+    }
+
+    if (game?.isAttractActive()) {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      returnToSplash();
+      return;
+    }
+
     if (e.code === 'Space' || e.code === 'Enter') {
       handleStart(e);
+    } else if (e.code === 'KeyC' && hasSave) {
+      handleStart(e, true);
+    } else if (e.code === 'KeyE' && isSplashShowing()) {
+      openEditorFromSplash();
     }
   });
 
+  // The editor prompt is clickable too (without starting a game)
+  document.getElementById('splash-editor')?.addEventListener('click', (e) => {
+    e.stopPropagation();
+    if (isSplashShowing()) openEditorFromSplash();
+  });
+
   // Listen for click/touch on splash
   const splashScreen = document.getElementById('splash-screen');
   if (splashScreen) {
@@ -142,6 +420,15 @@ function init(): void {
     splashScreen.addEventListener('touchstart', handleStart);
   }
 
+  // A click or touch also leaves attract mode
+  const handleAttractTap = (): void => {
+    if (game?.isAttractActive()) returnToSplash();
+  };
+  document.getElementById('game-container')?.addEventListener('click', handleAttractTap);
+  document.getElementById('game-container')?.addEventListener('touchstart', handleAttractTap);
+
+  scheduleAttract();
+
   // Handle page visibility
   document.addEventListener('visibilitychange', () => {
     if (document.hidden && game) {
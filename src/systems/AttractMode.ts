@@ -0,0 +1,338 @@
+/**
+ * Attract Mode
+ *
+ * The loop an idle arcade cabinet plays to draw players in. It cycles
+ * through three pages until someone presses a key:
+ *
+ * ```
+ * ROLL_CALL ──► SCORING ──► DEMO ──┐
+ *     ▲                            │
+ *     └────────────────────────────┘
+ * ```
+ *
+ * - **Roll call**: the four ghosts introduced one by one, character name
+ *   and nickname, in their colours.
+ * - **Scoring**: what pellets, power pellets and ghosts are worth.
+ * - **Demo**: a live game in its own `GameSimulation`, played by the
+ *   autopilot or - on alternate loops, when one is given - a recorded
+ *   replay. It ends when Pac-Man loses a life, the replay runs out or
+ *   after a minute, whichever comes first.
+ *
+ * Like the simulation it is headless: `update()` advances one fixed tick
+ * and `getScreen()` describes what to draw. The demo game is separate
+ * from the player's, so it never touches their score, high score or save.
+ *
+ * @module AttractMode
+ */
+
+import { GameSimulation, SimulationInputs } from '../GameSimulation';
+import { Autopilot } from '../ai/Autopilot';
+import { ReplayFile, ReplayPlayer } from './Replay';
+import { GameEventBus } from './EventBus';
+import { CutsceneSprite } from './Intermission';
+import { Random } from '../utils/Random';
+import { Colors, Direction, SCORE_GHOST, SCORE_PELLET, SCORE_POWER_PELLET } from '../constants';
+
+/**
+ * Attract loop pages
+ */
+export const AttractPage = {
+  ROLL_CALL: 'rollCall',
+  SCORING: 'scoring',
+  DEMO: 'demo',
+} as const;
+
+export type AttractPageType = typeof AttractPage[keyof typeof AttractPage];
+
+/** Ticks the roll call stays up (one row appears every ROW_REVEAL_TICKS) */
+export const ROLL_CALL_TICKS = 360;
+
+/** Ticks the scoring table stays up */
+export const SCORING_TICKS = 300;
+
+/** Longest a demo game runs before the loop starts over */
+export const DEMO_MAX_TICKS = 3600;
+
+/** Ticks between rows appearing */
+export const ROW_REVEAL_TICKS = 60;
+
+/** Prompt shown on every page */
+const PROMPT = 'PRESS ANY KEY';
+
+/**
+ * One line of an attract page
+ */
+export interface AttractRow {
+  /** Sprite drawn left of the text */
+  icon?: CutsceneSprite;
+
+  text: string;
+  color: string;
+}
+
+/**
+ * What to draw for the current page
+ */
+export interface AttractScreen {
+  page: AttractPageType;
+  title: string;
+
+  /** Rows revealed so far */
+  rows: AttractRow[];
+
+  prompt: string;
+
+  /** Cover the maze (title pages) or draw over the demo game */
+  backdrop: boolean;
+}
+
+/**
+ * Attract loop options
+ */
+export interface AttractModeOptions {
+  /** Bus the demo games raise their events on (for renderer and sound) */
+  events?: GameEventBus;
+
+  /** Recorded game shown on alternate demos */
+  replay?: ReplayFile | null;
+
+  /** Seed for autopilot demos (a fresh one per demo if omitted) */
+  seed?: number;
+
+  /** High score shown during autopilot demos */
+  highScore?: number;
+}
+
+/** Ghost introductions, in arcade order */
+const ROLL_CALL: readonly { character: string; nickname: string; color: string }[] = [
+  { character: 'SHADOW', nickname: 'BLINKY', color: Colors.BLINKY },
+  { character: 'SPEEDY', nickname: 'PINKY', color: Colors.PINKY },
+  { character: 'BASHFUL', nickname: 'INKY', color: Colors.INKY },
+  { character: 'POKEY', nickname: 'CLYDE', color: Colors.CLYDE },
+];
+
+/**
+ * Sequencer for the attract loop
+ */
+export class AttractMode {
+  /** Page being shown */
+  private page: AttractPageType = AttractPage.ROLL_CALL;
+
+  /** Ticks spent on the current page */
+  private pageTimer: number = 0;
+
+  /** Demo games started so far (picks autopilot or replay) */
+  private demosPlayed: number = 0;
+
+  /** Game running on the demo page (null on the title pages) */
+  private demo: GameSimulation | null = null;
+
+  /** Feeds the demo its inputs */
+  private driver: (() => SimulationInputs) | null = null;
+
+  /** Is the replay driving the current demo? */
+  private replayPlayer: ReplayPlayer | null = null;
+
+  /** Set when the demo Pac-Man loses a life or the game ends */
+  private demoOver: boolean = false;
+
+  /** Removes the demo's end-of-demo listeners from the bus */
+  private unsubscribeDemo: (() => void)[] = [];
+
+  private readonly events: GameEventBus | undefined;
+  private readonly replay: ReplayFile | null;
+  private readonly seed: number | undefined;
+  private readonly highScore: number;
+
+  constructor(options: AttractModeOptions = {}) {
+    this.events = options.events;
+    this.replay = options.replay ?? null;
+    this.seed = options.seed;
+    this.highScore = options.highScore ?? 0;
+  }
+
+  /**
+   * Advance the loop one tick
+   */
+  update(): void {
+    this.pageTimer++;
+
+    switch (this.page) {
+      case AttractPage.ROLL_CALL:
+        if (this.pageTimer >= ROLL_CALL_TICKS) this.showPage(AttractPage.SCORING);
+        break;
+
+      case AttractPage.SCORING:
+        if (this.pageTimer >= SCORING_TICKS) this.startDemo();
+        break;
+
+      case AttractPage.DEMO:
+        this.updateDemo();
+        break;
+    }
+  }
+
+  /**
+   * Current page
+   */
+  getPage(): AttractPageType {
+    return this.page;
+  }
+
+  /**
+   * Demo game in progress (null on the title pages)
+   */
+  getDemo(): GameSimulation | null {
+    return this.demo;
+  }
+
+  /**
+   * Is the demo being played from a replay rather than by the autopilot?
+   */
+  isDemoReplay(): boolean {
+    return this.replayPlayer !== null;
+  }
+
+  /**
+   * Describe the current page for the renderer
+   */
+  getScreen(): AttractScreen {
+    switch (this.page) {
+      case AttractPage.ROLL_CALL:
+        return {
+          page: this.page,
+          title: 'CHARACTER / NICKNAME',
+          rows: this.revealed(
+            ROLL_CALL.map(({ character, nickname, color }) => ({
+              icon: this.ghostIcon(color, false),
+              text: `${character.padEnd(8)} "${nickname}"`,
+              color,
+            }))
+          ),
+          prompt: PROMPT,
+          backdrop: true,
+        };
+
+      case AttractPage.SCORING:
+        return {
+          page: this.page,
+          title: 'SCORING',
+          rows: this.revealed([
+            { text: `•  ${SCORE_PELLET} PTS`, color: Colors.PELLET },
+            { text: `●  ${SCORE_POWER_PELLET} PTS`, color: Colors.POWER_PELLET },
+            {
+              icon: this.ghostIcon(Colors.BLINKY, true),
+              text: SCORE_GHOST.join(' ') + ' PTS',
+              color: Colors.INKY,
+            },
+          ]),
+          prompt: PROMPT,
+          backdrop: true,
+        };
+
+      case AttractPage.DEMO:
+        return {
+          page: this.page,
+          title: this.replayPlayer ? 'REPLAY' : 'DEMO',
+          rows: [],
+          prompt: PROMPT,
+          backdrop: false,
+        };
+    }
+  }
+
+  /**
+   * Switch pages (the demo is dropped on leaving it)
+   */
+  private showPage(page: AttractPageType): void {
+    this.page = page;
+    this.pageTimer = 0;
+
+    if (page !== AttractPage.DEMO) {
+      this.unsubscribeDemo.forEach((unsubscribe) => unsubscribe());
+      this.unsubscribeDemo = [];
+      this.demo = null;
+      this.driver = null;
+      this.replayPlayer = null;
+    }
+  }
+
+  /**
+   * Start a demo game, alternating autopilot and replay
+   */
+  private startDemo(): void {
+    const useReplay = this.replay !== null && this.demosPlayed % 2 === 1;
+    this.demosPlayed++;
+    this.demoOver = false;
+
+    this.showPage(AttractPage.DEMO);
+
+    if (useReplay && this.replay) {
+      const player = new ReplayPlayer(this.replay);
+      this.replayPlayer = player;
+      this.driver = () => player.nextInputs();
+      this.demo = this.createDemo(this.replay.highScore);
+      this.demo.startNewGame(this.replay.seed);
+    } else {
+      const autopilot = new Autopilot();
+      const demo = this.createDemo(this.highScore);
+      this.driver = () => autopilot.nextInputs(demo);
+      this.demo = demo;
+      demo.startNewGame(this.seed ?? Random.generateSeed());
+    }
+  }
+
+  /**
+   * Fresh simulation for a demo, flagging its end on the shared bus
+   */
+  private createDemo(highScore: number): GameSimulation {
+    const demo = new GameSimulation({ events: this.events, highScore });
+    const end = (): void => {
+      this.demoOver = true;
+    };
+
+    this.unsubscribeDemo = [
+      demo.events.on('pacmanDied', end),
+      demo.events.on('gameOver', end),
+      demo.events.on('gameWon', end),
+    ];
+    return demo;
+  }
+
+  /**
+   * Step the demo game and loop back to the roll call when it ends
+   */
+  private updateDemo(): void {
+    if (!this.demo || !this.driver) return;
+
+    this.demo.step(this.driver());
+
+    const replayFinished = this.replayPlayer?.isFinished() ?? false;
+    if (this.demoOver || replayFinished || this.pageTimer >= DEMO_MAX_TICKS) {
+      this.showPage(AttractPage.ROLL_CALL);
+    }
+  }
+
+  /**
+   * The rows that have appeared so far on a title page
+   */
+  private revealed(rows: AttractRow[]): AttractRow[] {
+    return rows.slice(0, Math.floor(this.pageTimer / ROW_REVEAL_TICKS));
+  }
+
+  /**
+   * Small ghost sprite for a row, wiggling with the page timer
+   */
+  private ghostIcon(color: string, frightened: boolean): CutsceneSprite {
+    return {
+      x: 0,
+      y: 0,
+      type: 'ghost',
+      color,
+      direction: Direction.RIGHT,
+      scale: 1,
+      frightened,
+      animFrame: Math.floor(this.pageTimer / 8) % 2,
+    };
+  }
+}
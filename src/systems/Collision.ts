@@ -40,7 +40,7 @@ import {
   SCORE_POWER_PELLET,
   SCORE_GHOST,
 } from '../constants';
-import { MAZE_DATA } from '../utils/MazeData';
+import { CLASSIC_MAZE, MazeDefinition } from '../utils/MazeData';
 import { TileType } from '../types';
 
 /**
@@ -60,10 +60,24 @@ export interface CollisionResult {
   ghost?: Ghost;
 }
 
+/**
+ * Serializable pellet and multiplier state
+ */
+export interface CollisionSaveData {
+  /** One string per maze row, '1' where a pellet remains */
+  pellets: string[];
+
+  /** Ghosts eaten during the current power pellet */
+  ghostsEatenThisPowerPellet: number;
+}
+
 /**
  * Collision Detection System
  */
 export class Collision {
+  /** Maze whose pellets are tracked */
+  private maze: MazeDefinition;
+
   /** Tracks which pellets have been eaten */
   private pelletGrid: boolean[][];
 
@@ -75,12 +89,23 @@ export class Collision {
 
   /**
    * Initialize the collision system
+   *
+   * @param maze - Maze to track pellets in
    */
-  constructor() {
+  constructor(maze: MazeDefinition = CLASSIC_MAZE) {
+    this.maze = maze;
     this.pelletGrid = [];
     this.initializePellets();
   }
 
+  /**
+   * Track pellets in another maze (takes effect at the next resetPellets()
+   * or load())
+   */
+  setMaze(maze: MazeDefinition): void {
+    this.maze = maze;
+  }
+
   /**
    * Initialize the pellet tracking grid
    * Sets up which tiles contain pellets based on maze data
@@ -89,10 +114,11 @@ export class Collision {
     this.pelletGrid = [];
     this.pelletsRemaining = 0;
 
-    for (let row = 0; row < MAZE_DATA.length; row++) {
+    const { grid } = this.maze;
+    for (let row = 0; row < grid.length; row++) {
       this.pelletGrid[row] = [];
-      for (let col = 0; col < MAZE_DATA[row].length; col++) {
-        const tile = MAZE_DATA[row][col];
+      for (let col = 0; col < grid[row].length; col++) {
+        const tile = grid[row][col];
         const hasPellet = tile === TileType.PELLET || tile === TileType.POWER_PELLET;
         this.pelletGrid[row][col] = hasPellet;
 
@@ -161,7 +187,7 @@ export class Collision {
     this.pelletsRemaining--;
 
     // Determine pellet type from original maze data
-    const originalTile = MAZE_DATA[tile.row][tile.col];
+    const originalTile = this.maze.grid[tile.row][tile.col];
     const isPowerPellet = originalTile === TileType.POWER_PELLET;
 
     if (isPowerPellet) {
@@ -187,7 +213,7 @@ export class Collision {
    *
    * Outcomes depend on ghost mode:
    * - FRIGHTENED: Pac-Man eats ghost (points!)
-   * - EATEN: No collision (ghost is just eyes)
+   * - EATEN/ENTERING: No collision (ghost is just eyes)
    * - HOUSE/EXITING: No collision (ghost not in play)
    * - CHASE/SCATTER: Ghost kills Pac-Man
    *
@@ -199,7 +225,8 @@ export class Collision {
     // Skip ghosts that aren't in play
     if (ghost.mode === GhostMode.HOUSE ||
         ghost.mode === GhostMode.EXITING ||
-        ghost.mode === GhostMode.EATEN) {
+        ghost.mode === GhostMode.EATEN ||
+        ghost.mode === GhostMode.ENTERING) {
       return { type: 'none', points: 0 };
     }
 
@@ -280,6 +307,32 @@ export class Collision {
     return this.pelletGrid[row][col];
   }
 
+  /**
+   * Capture the pellet grid and ghost multiplier for a save
+   */
+  save(): CollisionSaveData {
+    return {
+      pellets: this.pelletGrid.map((row) => row.map((pellet) => (pellet ? '1' : '0')).join('')),
+      ghostsEatenThisPowerPellet: this.ghostsEatenThisPowerPellet,
+    };
+  }
+
+  /**
+   * Restore state captured by save()
+   */
+  load(data: CollisionSaveData): void {
+    if (data.pellets.length !== this.maze.height) {
+      throw new Error(`Saved pellet grid has ${data.pellets.length} rows, expected ${this.maze.height}`);
+    }
+
+    this.pelletGrid = data.pellets.map((row) => [...row].map((cell) => cell === '1'));
+    this.pelletsRemaining = this.pelletGrid.reduce(
+      (total, row) => total + row.filter(Boolean).length,
+      0
+    );
+    this.ghostsEatenThisPowerPellet = data.ghostsEatenThisPowerPellet;
+  }
+
   /**
    * Skip to end of level - clear all pellets except 3 adjacent ones
    * Used for testing/cheat mode
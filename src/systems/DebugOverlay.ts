@@ -0,0 +1,158 @@
+/**
+ * Ghost AI Debug Overlay
+ *
+ * Makes the ghosts' decisions visible over the live game (F3 in the
+ * browser):
+ *
+ * - each ghost's current target tile as a crosshair in its colour, its
+ *   scatter corner, and the turn it will take at its next tile
+ * - Inky's flanking geometry: Blinky → 2 tiles ahead of Pac-Man → target
+ * - the 8-tile circle around Clyde that sends him back to his corner
+ * - the tiles where ghosts may not turn upward
+ * - the scatter/chase phase and frightened timers
+ *
+ * `buildDebugView()` turns a snapshot into plain data, like the attract
+ * mode pages; the renderers only draw it. Targets outside the maze (the
+ * scatter corners, Pinky and Inky overshooting) are pulled in to its
+ * edge so they stay on screen.
+ *
+ * @module DebugOverlay
+ */
+
+import type { GameSnapshot, GhostSnapshot } from '../GameSimulation';
+import { CLYDE_RETREAT_DISTANCE, tileAhead } from '../ai/ClassicBrains';
+import { DirectionType, GhostMode, TARGET_FPS } from '../constants';
+import { MazeDefinition } from '../utils/MazeData';
+import { Position, TilePosition } from '../types';
+
+/**
+ * What to draw for one ghost
+ */
+export interface GhostDebugView {
+  readonly name: string;
+  readonly color: string;
+  readonly position: Readonly<Position>;
+  readonly tile: Readonly<TilePosition>;
+  /** Target tile, on the grid (null while it means nothing: in the house or frightened) */
+  readonly target: Readonly<TilePosition> | null;
+  /** Scatter corner, on the grid */
+  readonly scatterTarget: Readonly<TilePosition>;
+  /** Turn it will take at its next tile (null when random or unknown) */
+  readonly nextDirection: DirectionType | null;
+  /** Mode (and brain, when not its classic one) */
+  readonly label: string;
+}
+
+/**
+ * Inky's target construction: Blinky to the pivot, doubled to the target
+ */
+export interface InkyDebugLine {
+  readonly color: string;
+  readonly from: Readonly<TilePosition>;
+  readonly pivot: Readonly<TilePosition>;
+  readonly to: Readonly<TilePosition>;
+}
+
+/**
+ * Clyde's retreat radius around him
+ */
+export interface ClydeDebugCircle {
+  readonly color: string;
+  readonly center: Readonly<TilePosition>;
+  /** In tiles */
+  readonly radius: number;
+}
+
+/**
+ * Everything the debug overlay draws for a frame
+ */
+export interface DebugView {
+  readonly ghosts: readonly GhostDebugView[];
+  /** Shown while Inky chases with his classic brain */
+  readonly inkyLine: InkyDebugLine | null;
+  /** Shown while Clyde chases with his classic brain */
+  readonly clydeCircle: ClydeDebugCircle | null;
+  readonly noUpwardTiles: readonly TilePosition[];
+  /** Mode and timer lines for the corner of the screen */
+  readonly status: readonly string[];
+}
+
+/**
+ * Describe a snapshot's ghost AI for the debug overlay
+ */
+export function buildDebugView(snapshot: GameSnapshot): DebugView {
+  const { maze } = snapshot;
+  const ghosts = snapshot.ghosts.map((ghost) => ghostView(ghost, maze));
+  const blinky = snapshot.ghosts.find((ghost) => ghost.name === 'Blinky');
+  const inky = snapshot.ghosts.find((ghost) => ghost.brain === 'inky');
+  const clyde = snapshot.ghosts.find((ghost) => ghost.brain === 'clyde');
+
+  let inkyLine: InkyDebugLine | null = null;
+  if (inky && blinky && isChasing(inky)) {
+    inkyLine = {
+      color: inky.color,
+      from: blinky.tile,
+      pivot: clampToGrid(tileAhead(snapshot.pacman.tile, snapshot.pacman.direction, 2), maze),
+      to: clampToGrid(inky.targetTile, maze),
+    };
+  }
+
+  const clydeCircle: ClydeDebugCircle | null = clyde && isChasing(clyde)
+    ? { color: clyde.color, center: clyde.tile, radius: CLYDE_RETREAT_DISTANCE }
+    : null;
+
+  return {
+    ghosts,
+    inkyLine,
+    clydeCircle,
+    noUpwardTiles: maze.noUpwardTiles,
+    status: statusLines(snapshot),
+  };
+}
+
+/**
+ * Pull a tile onto the nearest edge of the maze
+ */
+export function clampToGrid(tile: TilePosition, maze: MazeDefinition): TilePosition {
+  return {
+    col: Math.min(Math.max(tile.col, 0), maze.width - 1),
+    row: Math.min(Math.max(tile.row, 0), maze.height - 1),
+  };
+}
+
+function ghostView(ghost: GhostSnapshot, maze: MazeDefinition): GhostDebugView {
+  const targeting = !ghost.isInHouse && ghost.mode !== GhostMode.FRIGHTENED;
+  // The classic brains are named after their ghost
+  const brain = ghost.brain === ghost.name.toLowerCase() ? '' : ` (${ghost.brain})`;
+
+  return {
+    name: ghost.name,
+    color: ghost.color,
+    position: ghost.position,
+    tile: ghost.tile,
+    target: targeting ? clampToGrid(ghost.targetTile, maze) : null,
+    scatterTarget: clampToGrid(ghost.scatterTarget, maze),
+    nextDirection: ghost.nextDirection,
+    label: `${ghost.mode.toUpperCase()}${brain}`,
+  };
+}
+
+function isChasing(ghost: GhostSnapshot): boolean {
+  return ghost.mode === GhostMode.CHASE && !ghost.isInHouse;
+}
+
+function statusLines(snapshot: GameSnapshot): string[] {
+  const duration = snapshot.modeDuration === null ? 'forever' : seconds(snapshot.modeDuration);
+  const lines = [
+    `${snapshot.globalGhostMode.toUpperCase()} #${snapshot.modeIndex + 1} ${seconds(snapshot.modeTimer)} / ${duration}`,
+  ];
+  if (snapshot.frightenedTimer > 0) {
+    lines.push(`FRIGHTENED ${seconds(snapshot.frightenedTimer)} left`);
+  }
+  return lines;
+}
+
+/** Ticks as seconds, e.g. "3.5s" */
+function seconds(ticks: number): string {
+  return `${(ticks / TARGET_FPS).toFixed(1)}s`;
+}
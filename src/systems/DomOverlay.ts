@@ -0,0 +1,783 @@
+/**
+ * DOM Overlays
+ *
+ * The parts of the screen that live in the page rather than on the game
+ * canvas: the level counter, fruit history, high score flash, victory
+ * screen, intermission cutscenes, attract mode pages, score popups, the
+ * ghost AI debug overlay and the step debugger's inspector.
+ * They look the same whichever renderer draws the maze, so both
+ * renderers delegate here.
+ *
+ * @module DomOverlay
+ */
+
+import { CutsceneSprite } from './Intermission';
+import type { AttractScreen } from './AttractMode';
+import type { DebugView } from './DebugOverlay';
+import type { InspectorSection } from './StepInspector';
+import { DIRECTION_VECTORS, SCALED_TILE } from '../constants';
+import { TilePosition } from '../types';
+import { Random, RandomSource } from '../utils/Random';
+
+/** Centre of a tile in canvas pixels */
+function tileCenter(tile: TilePosition): { x: number; y: number } {
+  return { x: (tile.col + 0.5) * SCALED_TILE, y: (tile.row + 0.5) * SCALED_TILE };
+}
+
+/**
+ * HTML overlays shared by the WebGL and Canvas 2D renderers
+ */
+export class DomOverlay {
+  /** Game canvas (flashed on level complete) */
+  private canvas: HTMLCanvasElement;
+
+  /** Cosmetic random stream (never the gameplay one) */
+  private random: RandomSource;
+
+  /**
+   * @param canvas - Game canvas
+   * @param random - Cosmetic random stream for the victory fireworks and confetti
+   */
+  constructor(canvas: HTMLCanvasElement, random: RandomSource = new Random()) {
+    this.canvas = canvas;
+    this.random = random;
+  }
+
+  /**
+   * Render current level display
+   */
+  renderLevel(level: number): void {
+    const levelEl = document.getElementById('level');
+    if (levelEl) {
+      levelEl.textContent = level.toString();
+    }
+  }
+
+  /**
+   * Render epic 2025 victory screen
+   */
+  renderGameWonText(score?: number): void {
+    const existing = document.getElementById('victory-overlay');
+    if (!existing) {
+      const overlay = document.createElement('div');
+      overlay.id = 'victory-overlay';
+
+      // Radial rays background
+      const rays = document.createElement('div');
+      rays.className = 'victory-rays';
+      overlay.appendChild(rays);
+
+      // Expanding rings
+      for (let i = 0; i < 3; i++) {
+        const ring = document.createElement('div');
+        ring.className = 'victory-ring';
+        ring.style.animationDelay = `${i * 0.6}s`;
+        overlay.appendChild(ring);
+      }
+
+      // Fireworks
+      const fireworkColors = ['#ff0000', '#ffff00', '#00ff00', '#00ffff', '#ff00ff', '#ff8800'];
+      for (let i = 0; i < 8; i++) {
+        const firework = document.createElement('div');
+        firework.className = 'firework';
+        firework.style.color = fireworkColors[i % fireworkColors.length];
+        firework.style.left = `${10 + this.random.next() * 80}%`;
+        firework.style.top = `${10 + this.random.next() * 80}%`;
+        firework.style.animationDelay = `${this.random.next() * 2}s`;
+        overlay.appendChild(firework);
+      }
+
+      // Confetti
+      const confettiColors = ['#ff0000', '#ffff00', '#00ff00', '#00ffff', '#ff00ff', '#ff8800', '#ffffff'];
+      for (let i = 0; i < 30; i++) {
+        const confetti = document.createElement('div');
+        confetti.className = 'confetti';
+        confetti.style.background = confettiColors[i % confettiColors.length];
+        confetti.style.left = `${this.random.next() * 100}%`;
+        confetti.style.animationDelay = `${this.random.next() * 3}s`;
+        confetti.style.animationDuration = `${2 + this.random.next() * 2}s`;
+        const shapes = ['50%', '0%', '50% 0 50% 50%'];
+        confetti.style.borderRadius = shapes[Math.floor(this.random.next() * shapes.length)];
+        overlay.appendChild(confetti);
+      }
+
+      // Victory title with animated letters
+      const title = document.createElement('div');
+      title.className = 'victory-title';
+      const titleText = 'VICTORY!';
+      titleText.split('').forEach((char, i) => {
+        const letter = document.createElement('span');
+        letter.className = 'letter';
+        letter.style.setProperty('--i', i.toString());
+        letter.textContent = char;
+        title.appendChild(letter);
+      });
+      overlay.appendChild(title);
+
+      // 2025 Edition badge
+      const badge = document.createElement('div');
+      badge.className = 'victory-badge';
+      badge.textContent = '2025 EDITION';
+      overlay.appendChild(badge);
+
+      // Pac-Man celebration
+      const pacman = document.createElement('div');
+      pacman.className = 'victory-pacman';
+      overlay.appendChild(pacman);
+
+      // Score display
+      if (score !== undefined) {
+        const scoreDisplay = document.createElement('div');
+        scoreDisplay.className = 'victory-score';
+        scoreDisplay.innerHTML = `
+          <span class="label">FINAL SCORE</span>
+          <span class="value">${score.toLocaleString()}</span>
+        `;
+        overlay.appendChild(scoreDisplay);
+      }
+
+      // Play again prompt
+      const prompt = document.createElement('div');
+      prompt.className = 'victory-prompt';
+      prompt.textContent = 'PRESS SPACE TO PLAY AGAIN';
+      overlay.appendChild(prompt);
+
+      document.body.appendChild(overlay);
+    }
+  }
+
+  /**
+   * Clear game won text
+   */
+  clearGameWonText(): void {
+    const overlay = document.getElementById('victory-overlay');
+    if (overlay) overlay.remove();
+    // Also clear old-style elements if they exist
+    const text = document.getElementById('gamewon-text');
+    const subtitle = document.getElementById('gamewon-subtitle');
+    if (text) text.remove();
+    if (subtitle) subtitle.remove();
+  }
+
+  /**
+   * Trigger maze flash animation on level complete
+   */
+  flashMaze(): void {
+    this.canvas.classList.add('level-complete');
+    setTimeout(() => {
+      this.canvas.classList.remove('level-complete');
+    }, 800); // 4 flashes at 0.2s each
+  }
+
+  /**
+   * Add fruit to history display
+   */
+  addFruitToHistory(fruitType: number): void {
+    const fruitHistory = document.getElementById('fruit-history');
+    if (!fruitHistory) return;
+
+    // Max 7 fruits shown
+    const icons = fruitHistory.querySelectorAll('.fruit-icon');
+    if (icons.length >= 7) {
+      icons[0].remove();
+    }
+
+    const icon = document.createElement('div');
+    icon.className = 'fruit-icon';
+
+    // Fruit colors based on type
+    const fruitColors = [
+      '#ff0000', // Cherry
+      '#ff6666', // Strawberry
+      '#ff8800', // Orange
+      '#ff0000', // Apple
+      '#00ff00', // Melon
+      '#00ffff', // Galaxian
+      '#ffff00', // Bell
+      '#ffffff', // Key
+    ];
+
+    icon.style.backgroundColor = fruitColors[fruitType] || '#ff0000';
+    icon.style.color = fruitColors[fruitType] || '#ff0000';
+    fruitHistory.appendChild(icon);
+  }
+
+  /**
+   * Clear fruit history (on new game)
+   */
+  clearFruitHistory(): void {
+    const fruitHistory = document.getElementById('fruit-history');
+    if (fruitHistory) {
+      fruitHistory.innerHTML = '';
+    }
+  }
+
+  /**
+   * Flash high score when beaten
+   */
+  flashHighScore(isNew: boolean): void {
+    const highScoreEl = document.getElementById('high-score');
+    if (highScoreEl) {
+      if (isNew) {
+        highScoreEl.classList.add('new-high');
+      } else {
+        highScoreEl.classList.remove('new-high');
+      }
+    }
+  }
+
+  /**
+   * Render intermission screen with animated cutscene
+   */
+  renderIntermission(title: string, message: string, progress: number, sprites?: CutsceneSprite[]): void {
+    let container = document.getElementById('intermission-container');
+    if (!container) {
+      container = document.createElement('div');
+      container.id = 'intermission-container';
+      container.style.cssText = `
+        position: absolute;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        display: flex;
+        flex-direction: column;
+        justify-content: flex-start;
+        align-items: center;
+        background: #000;
+        z-index: 100;
+        overflow: hidden;
+      `;
+
+      // Title at top
+      const titleEl = document.createElement('div');
+      titleEl.id = 'intermission-title';
+      titleEl.style.cssText = `
+        color: #00ffff;
+        font-family: 'Press Start 2P', monospace;
+        font-size: 32px;
+        margin-top: 60px;
+        margin-bottom: 10px;
+        text-shadow: 0 0 20px #00ffff, 0 0 40px #00ffff;
+      `;
+      container.appendChild(titleEl);
+
+      // Message below title
+      const messageEl = document.createElement('div');
+      messageEl.id = 'intermission-message';
+      messageEl.style.cssText = `
+        color: #ffff00;
+        font-family: 'Press Start 2P', monospace;
+        font-size: 16px;
+        margin-bottom: 20px;
+        text-shadow: 0 0 10px #ffff00;
+      `;
+      container.appendChild(messageEl);
+
+      // Canvas for animated sprites
+      const cutsceneCanvas = document.createElement('canvas');
+      cutsceneCanvas.id = 'cutscene-canvas';
+      cutsceneCanvas.width = 672;
+      cutsceneCanvas.height = 400;
+      cutsceneCanvas.style.cssText = `
+        margin-top: 20px;
+      `;
+      container.appendChild(cutsceneCanvas);
+
+      // Skip text at bottom
+      const skipEl = document.createElement('div');
+      skipEl.id = 'intermission-skip';
+      skipEl.style.cssText = `
+        color: #666666;
+        font-family: 'Press Start 2P', monospace;
+        font-size: 10px;
+        position: absolute;
+        bottom: 40px;
+      `;
+      skipEl.textContent = 'PRESS SPACE TO SKIP';
+      container.appendChild(skipEl);
+
+      document.getElementById('game-container')?.appendChild(container);
+    }
+
+    // Update content
+    const titleEl = document.getElementById('intermission-title');
+    const messageEl = document.getElementById('intermission-message');
+    if (titleEl) titleEl.textContent = title;
+    if (messageEl) messageEl.textContent = message;
+
+    // Render sprites on canvas
+    const canvas = document.getElementById('cutscene-canvas') as HTMLCanvasElement;
+    if (canvas && sprites && sprites.length > 0) {
+      const ctx = canvas.getContext('2d');
+      if (ctx) {
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        for (const sprite of sprites) {
+          this.renderCutsceneSprite(ctx, sprite);
+        }
+      }
+    }
+
+    // Fade effect based on progress
+    if (progress < 0.1) {
+      container.style.opacity = String(progress * 10);
+    } else if (progress > 0.9) {
+      container.style.opacity = String((1 - progress) * 10);
+    } else {
+      container.style.opacity = '1';
+    }
+  }
+
+  /**
+   * Render a single cutscene sprite on canvas
+   */
+  private renderCutsceneSprite(ctx: CanvasRenderingContext2D, sprite: CutsceneSprite): void {
+    ctx.save();
+    ctx.translate(sprite.x, sprite.y);
+
+    const baseSize = 24 * sprite.scale;
+
+    if (sprite.type === 'pacman' || sprite.type === 'bigpacman') {
+      // Draw Pac-Man
+      ctx.fillStyle = '#ffff00';
+
+      const mouthOpenings = [0, 0.15, 0.35, 0.15];
+      const mouthAngle = Math.PI * mouthOpenings[sprite.animFrame % 4];
+
+      let startAngle: number, endAngle: number;
+
+      switch (sprite.direction) {
+        case 3: // RIGHT
+          startAngle = mouthAngle;
+          endAngle = Math.PI * 2 - mouthAngle;
+          break;
+        case 2: // LEFT
+          startAngle = Math.PI + mouthAngle;
+          endAngle = Math.PI - mouthAngle;
+          break;
+        case 0: // UP
+          startAngle = -Math.PI / 2 + mouthAngle;
+          endAngle = -Math.PI / 2 - mouthAngle + Math.PI * 2;
+          break;
+        case 1: // DOWN
+          startAngle = Math.PI / 2 + mouthAngle;
+          endAngle = Math.PI / 2 - mouthAngle + Math.PI * 2;
+          break;
+        default:
+          startAngle = mouthAngle;
+          endAngle = Math.PI * 2 - mouthAngle;
+      }
+
+      ctx.beginPath();
+      ctx.arc(0, 0, baseSize / 2, startAngle, endAngle);
+      ctx.lineTo(0, 0);
+      ctx.closePath();
+      ctx.fill();
+
+      // Add glow
+      ctx.shadowColor = '#ffff00';
+      ctx.shadowBlur = 15 * sprite.scale;
+      ctx.fill();
+    } else {
+      // Draw Ghost
+      const ghostColor = sprite.frightened ? '#2121de' : (sprite.color || '#ff0000');
+      ctx.fillStyle = ghostColor;
+
+      const radius = baseSize / 2;
+      const waveOffset = (sprite.animFrame % 2) * 3;
+
+      // Ghost body (rounded top)
+      ctx.beginPath();
+      ctx.arc(0, -radius / 4, radius, Math.PI, 0, false);
+
+      // Wavy bottom
+      const waveCount = 3;
+      const waveWidth = (radius * 2) / waveCount;
+      const waveHeight = radius / 3;
+
+      ctx.lineTo(radius, radius / 2);
+      for (let i = waveCount; i > 0; i--) {
+        const wx = radius - (waveCount - i + 0.5) * waveWidth;
+        const wy = radius / 2 + ((i + waveOffset) % 2 === 0 ? waveHeight : 0);
+        ctx.lineTo(wx, wy);
+      }
+      ctx.lineTo(-radius, radius / 2);
+      ctx.closePath();
+      ctx.fill();
+
+      // Add glow
+      ctx.shadowColor = ghostColor;
+      ctx.shadowBlur = 10 * sprite.scale;
+      ctx.fill();
+
+      // Eyes
+      ctx.shadowBlur = 0;
+      const eyeRadius = radius / 4;
+      const eyeY = -radius / 4;
+      const pupilRadius = eyeRadius / 2;
+
+      // Frightened mode - different eyes
+      if (sprite.frightened) {
+        ctx.fillStyle = '#ffffff';
+        // Worried expression - small dots
+        ctx.beginPath();
+        ctx.arc(-radius / 3, eyeY, eyeRadius / 2, 0, Math.PI * 2);
+        ctx.arc(radius / 3, eyeY, eyeRadius / 2, 0, Math.PI * 2);
+        ctx.fill();
+      } else {
+        // Normal eyes - white with pupils
+        ctx.fillStyle = '#ffffff';
+        ctx.beginPath();
+        ctx.arc(-radius / 3, eyeY, eyeRadius, 0, Math.PI * 2);
+        ctx.arc(radius / 3, eyeY, eyeRadius, 0, Math.PI * 2);
+        ctx.fill();
+
+        // Pupils - direction based
+        ctx.fillStyle = '#0000ff';
+        let pupilOffsetX = 0, pupilOffsetY = 0;
+        switch (sprite.direction) {
+          case 2: pupilOffsetX = -pupilRadius / 2; break; // LEFT
+          case 3: pupilOffsetX = pupilRadius / 2; break; // RIGHT
+          case 0: pupilOffsetY = -pupilRadius / 2; break; // UP
+          case 1: pupilOffsetY = pupilRadius / 2; break; // DOWN
+        }
+        ctx.beginPath();
+        ctx.arc(-radius / 3 + pupilOffsetX, eyeY + pupilOffsetY, pupilRadius, 0, Math.PI * 2);
+        ctx.arc(radius / 3 + pupilOffsetX, eyeY + pupilOffsetY, pupilRadius, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+
+    ctx.restore();
+  }
+
+  /**
+   * Clear intermission screen
+   */
+  clearIntermission(): void {
+    const container = document.getElementById('intermission-container');
+    if (container) container.remove();
+  }
+
+  /**
+   * Render an attract mode page
+   *
+   * Title pages cover the maze; the demo page only adds its title and
+   * prompt over the game. Rows are rebuilt only when one is revealed,
+   * their ghost icons are redrawn every frame so they wiggle.
+   */
+  renderAttractScreen(screen: AttractScreen): void {
+    let container = document.getElementById('attract-container');
+    if (!container) {
+      container = document.createElement('div');
+      container.id = 'attract-container';
+      container.style.cssText = `
+        position: absolute;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        font-family: 'Press Start 2P', monospace;
+        z-index: 90;
+        pointer-events: none;
+      `;
+
+      const titleEl = document.createElement('div');
+      titleEl.id = 'attract-title';
+      titleEl.style.cssText = `
+        color: #ffffff;
+        font-size: 18px;
+        margin-top: 80px;
+        margin-bottom: 40px;
+      `;
+      container.appendChild(titleEl);
+
+      const rowsEl = document.createElement('div');
+      rowsEl.id = 'attract-rows';
+      container.appendChild(rowsEl);
+
+      const promptEl = document.createElement('div');
+      promptEl.id = 'attract-prompt';
+      promptEl.style.cssText = `
+        color: #ffff00;
+        font-size: 12px;
+        position: absolute;
+        bottom: 40px;
+        text-shadow: 0 0 10px #ffff00;
+      `;
+      container.appendChild(promptEl);
+
+      document.getElementById('game-container')?.appendChild(container);
+    }
+
+    container.style.background = screen.backdrop ? '#000' : 'transparent';
+
+    const titleEl = document.getElementById('attract-title');
+    const promptEl = document.getElementById('attract-prompt');
+    if (titleEl) titleEl.textContent = screen.title;
+    if (promptEl) promptEl.textContent = screen.prompt;
+
+    const rowsEl = document.getElementById('attract-rows');
+    if (!rowsEl) return;
+
+    const key = `${screen.page}:${screen.rows.length}`;
+    if (rowsEl.dataset.key !== key) {
+      rowsEl.dataset.key = key;
+      rowsEl.innerHTML = '';
+
+      for (const row of screen.rows) {
+        const rowEl = document.createElement('div');
+        rowEl.style.cssText = `
+          display: flex;
+          align-items: center;
+          gap: 24px;
+          height: 48px;
+          color: ${row.color};
+          font-size: 14px;
+          white-space: pre;
+        `;
+
+        const icon = document.createElement('canvas');
+        icon.width = 36;
+        icon.height = 36;
+        rowEl.appendChild(icon);
+
+        const text = document.createElement('span');
+        text.textContent = row.text;
+        rowEl.appendChild(text);
+
+        rowsEl.appendChild(rowEl);
+      }
+    }
+
+    // Redraw the icons (their animation frame moves on)
+    screen.rows.forEach((row, i) => {
+      const icon = rowsEl.children[i]?.querySelector('canvas');
+      const ctx = icon?.getContext('2d');
+      if (!icon || !ctx) return;
+
+      ctx.clearRect(0, 0, icon.width, icon.height);
+      if (row.icon) {
+        this.renderCutsceneSprite(ctx, { ...row.icon, x: icon.width / 2, y: icon.height / 2 });
+      }
+    });
+  }
+
+  /**
+   * Clear the attract mode page
+   */
+  clearAttractScreen(): void {
+    const container = document.getElementById('attract-container');
+    if (container) container.remove();
+  }
+
+  /**
+   * Draw the ghost AI debug overlay
+   *
+   * Drawn on its own transparent canvas laid exactly over the game
+   * canvas, at the same resolution, so tile coordinates line up whatever
+   * the page layout or renderer.
+   */
+  renderDebugOverlay(view: DebugView): void {
+    let overlay = document.getElementById('debug-overlay') as HTMLCanvasElement | null;
+    if (!overlay) {
+      overlay = document.createElement('canvas');
+      overlay.id = 'debug-overlay';
+      overlay.style.cssText = `
+        position: absolute;
+        z-index: 15;
+        pointer-events: none;
+      `;
+      this.canvas.parentElement?.appendChild(overlay);
+    }
+
+    // Follow the game canvas (it moves with the layout and screen shake)
+    overlay.width = this.canvas.width;
+    overlay.height = this.canvas.height;
+    overlay.style.left = `${this.canvas.offsetLeft + this.canvas.clientLeft}px`;
+    overlay.style.top = `${this.canvas.offsetTop + this.canvas.clientTop}px`;
+    overlay.style.width = `${this.canvas.clientWidth}px`;
+    overlay.style.height = `${this.canvas.clientHeight}px`;
+    overlay.style.transform = this.canvas.style.transform;
+
+    const ctx = overlay.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, overlay.width, overlay.height);
+    ctx.lineWidth = 2;
+    ctx.font = "8px 'Press Start 2P', monospace";
+    ctx.textAlign = 'center';
+
+    // No-upward tiles
+    ctx.setLineDash([3, 3]);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+    for (const tile of view.noUpwardTiles) {
+      ctx.strokeRect(tile.col * SCALED_TILE + 1, tile.row * SCALED_TILE + 1, SCALED_TILE - 2, SCALED_TILE - 2);
+    }
+
+    // Clyde's retreat radius
+    if (view.clydeCircle) {
+      const center = tileCenter(view.clydeCircle.center);
+      ctx.strokeStyle = view.clydeCircle.color;
+      ctx.beginPath();
+      ctx.arc(center.x, center.y, view.clydeCircle.radius * SCALED_TILE, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+    ctx.setLineDash([]);
+
+    // Inky: Blinky → pivot → target
+    if (view.inkyLine) {
+      const points = [view.inkyLine.from, view.inkyLine.pivot, view.inkyLine.to].map(tileCenter);
+      ctx.strokeStyle = view.inkyLine.color;
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      ctx.lineTo(points[1].x, points[1].y);
+      ctx.lineTo(points[2].x, points[2].y);
+      ctx.stroke();
+      ctx.fillStyle = view.inkyLine.color;
+      ctx.fillRect(points[1].x - 3, points[1].y - 3, 6, 6);
+    }
+
+    for (const ghost of view.ghosts) {
+      ctx.strokeStyle = ghost.color;
+      ctx.fillStyle = ghost.color;
+
+      // Scatter corner: a hollow square
+      const corner = tileCenter(ghost.scatterTarget);
+      ctx.strokeRect(corner.x - 6, corner.y - 6, 12, 12);
+
+      // Target: a crosshair
+      if (ghost.target) {
+        const target = tileCenter(ghost.target);
+        const arm = SCALED_TILE / 2;
+        ctx.beginPath();
+        ctx.moveTo(target.x - arm, target.y);
+        ctx.lineTo(target.x + arm, target.y);
+        ctx.moveTo(target.x, target.y - arm);
+        ctx.lineTo(target.x, target.y + arm);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.arc(target.x, target.y, arm / 2, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+
+      // Next turn: an arrow out of the ghost
+      if (ghost.nextDirection !== null) {
+        const vector = DIRECTION_VECTORS[ghost.nextDirection];
+        const tipX = ghost.position.x + vector.x * SCALED_TILE;
+        const tipY = ghost.position.y + vector.y * SCALED_TILE;
+        ctx.beginPath();
+        ctx.moveTo(ghost.position.x, ghost.position.y);
+        ctx.lineTo(tipX, tipY);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.moveTo(tipX, tipY);
+        ctx.lineTo(tipX - vector.x * 6 - vector.y * 4, tipY - vector.y * 6 - vector.x * 4);
+        ctx.lineTo(tipX - vector.x * 6 + vector.y * 4, tipY - vector.y * 6 + vector.x * 4);
+        ctx.closePath();
+        ctx.fill();
+      }
+
+      ctx.fillText(ghost.label, ghost.position.x, ghost.position.y - SCALED_TILE);
+    }
+
+    // Mode timers in the top left corner
+    ctx.textAlign = 'left';
+    ctx.fillStyle = '#ffffff';
+    view.status.forEach((line, i) => ctx.fillText(line, 4, 12 + i * 12));
+  }
+
+  /**
+   * Remove the ghost AI debug overlay
+   */
+  clearDebugOverlay(): void {
+    document.getElementById('debug-overlay')?.remove();
+  }
+
+  /**
+   * Show the step debugger's inspector panel
+   */
+  renderInspector(sections: readonly InspectorSection[]): void {
+    let panel = document.getElementById('inspector-panel');
+    if (!panel) {
+      panel = document.createElement('pre');
+      panel.id = 'inspector-panel';
+      panel.style.cssText = `
+        position: fixed;
+        top: 10px;
+        right: 10px;
+        margin: 0;
+        padding: 10px 12px;
+        background: rgba(0, 0, 0, 0.85);
+        border: 1px solid #00ffff;
+        color: #ffffff;
+        font-family: monospace;
+        font-size: 12px;
+        line-height: 1.4;
+        z-index: 200;
+        pointer-events: none;
+      `;
+      document.body.appendChild(panel);
+    }
+
+    panel.textContent = [
+      'STEP DEBUGGER  (. = one tick, F4 = resume)',
+      ...sections.map((section) => [section.title, ...section.lines.map((line) => `  ${line}`)].join('\n')),
+    ].join('\n\n');
+  }
+
+  /**
+   * Remove the step debugger's inspector panel
+   */
+  clearInspector(): void {
+    document.getElementById('inspector-panel')?.remove();
+  }
+
+  /**
+   * Render ghost score popup
+   */
+  renderGhostScore(x: number, y: number, score: number): void {
+    // Use DOM for text
+    const popup = document.createElement('div');
+    popup.className = 'ghost-score-popup';
+    popup.style.cssText = `
+      position: absolute;
+      left: ${x - 20}px;
+      top: ${y - 10}px;
+      color: #0ff;
+      font-family: 'Press Start 2P', monospace;
+      font-size: 8px;
+      z-index: 20;
+      animation: fadeUp 1s ease-out forwards;
+    `;
+    popup.textContent = score.toString();
+    document.getElementById('game-container')?.appendChild(popup);
+
+    setTimeout(() => popup.remove(), 1000);
+  }
+
+  /**
+   * Render fruit score popup
+   */
+  renderFruitScore(x: number, y: number, score: number): void {
+    const popup = document.createElement('div');
+    popup.className = 'fruit-score-popup';
+    popup.style.cssText = `
+      position: absolute;
+      left: ${x - 20}px;
+      top: ${y - 10}px;
+      color: #ff0;
+      font-family: 'Press Start 2P', monospace;
+      font-size: 10px;
+      z-index: 20;
+      animation: fadeUp 1.5s ease-out forwards;
+      text-shadow: 0 0 5px #ff0;
+    `;
+    popup.textContent = score.toString();
+    document.getElementById('game-container')?.appendChild(popup);
+
+    setTimeout(() => popup.remove(), 1500);
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Typed Event Bus
+ *
+ * A small publish/subscribe hub where every event name maps to its own
+ * payload type. The game simulation raises events at each gameplay point
+ * (pellet eaten, ghost eaten, Pac-Man died, ...) and any number of
+ * subscribers react: sound, particles, post-processing, stats or external
+ * plugins.
+ *
+ * ## Type Safety
+ *
+ * The bus is parameterized by an event map:
+ *
+ * ```ts
+ * interface Events {
+ *   scoreChanged: { score: number; delta: number };
+ *   levelSkipped: undefined;
+ * }
+ *
+ * const bus = new EventBus<Events>();
+ * bus.on('scoreChanged', (e) => console.log(e.data.score)); // typed payload
+ * bus.emit('scoreChanged', { score: 10, delta: 10 });
+ * bus.emit('levelSkipped');                                   // no payload
+ * ```
+ *
+ * ## Error Isolation
+ *
+ * A throwing subscriber is logged and skipped, so one broken plugin cannot
+ * stop the game loop or starve the other subscribers.
+ *
+ * @module EventBus
+ */
+
+import { GameEventMap } from '../types';
+
+/**
+ * Event delivered to subscribers
+ */
+export interface BusEvent<TEvents, K extends keyof TEvents = keyof TEvents> {
+  type: K;
+  data: TEvents[K];
+}
+
+/**
+ * Subscriber callback for a single event type
+ */
+export type BusHandler<TEvents, K extends keyof TEvents = keyof TEvents> = (
+  event: BusEvent<TEvents, K>
+) => void;
+
+/**
+ * Payload arguments for emit() - omitted entirely for `undefined` payloads
+ */
+type EmitArgs<T> = T extends undefined ? [] : [data: T];
+
+/**
+ * Typed publish/subscribe hub
+ */
+export class EventBus<TEvents> {
+  /** Subscribers per event type */
+  private handlers: Map<keyof TEvents, Set<BusHandler<TEvents, never>>> = new Map();
+
+  /** Subscribers to every event */
+  private anyHandlers: Set<BusHandler<TEvents>> = new Set();
+
+  /**
+   * Subscribe to one event type
+   *
+   * @returns Function that removes this subscription
+   */
+  on<K extends keyof TEvents>(type: K, handler: BusHandler<TEvents, K>): () => void {
+    let set = this.handlers.get(type);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(type, set);
+    }
+    set.add(handler as BusHandler<TEvents, never>);
+
+    return () => this.off(type, handler);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event type only
+   *
+   * @returns Function that removes this subscription
+   */
+  once<K extends keyof TEvents>(type: K, handler: BusHandler<TEvents, K>): () => void {
+    const off = this.on(type, (event) => {
+      off();
+      handler(event);
+    });
+    return off;
+  }
+
+  /**
+   * Subscribe to every event (logging, stats, replay recording)
+   *
+   * @returns Function that removes this subscription
+   */
+  onAny(handler: BusHandler<TEvents>): () => void {
+    this.anyHandlers.add(handler);
+    return () => {
+      this.anyHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Remove a subscription
+   */
+  off<K extends keyof TEvents>(type: K, handler: BusHandler<TEvents, K>): void {
+    this.handlers.get(type)?.delete(handler as BusHandler<TEvents, never>);
+  }
+
+  /**
+   * Publish an event to all subscribers
+   */
+  emit<K extends keyof TEvents>(type: K, ...args: EmitArgs<TEvents[K]>): void {
+    const event = { type, data: args[0] } as BusEvent<TEvents, K>;
+
+    // Copy so handlers can unsubscribe while being called
+    const handlers = this.handlers.get(type);
+    if (handlers) {
+      for (const handler of [...handlers]) {
+        this.deliver(handler as BusHandler<TEvents, K>, event);
+      }
+    }
+
+    for (const handler of [...this.anyHandlers]) {
+      this.deliver(handler as BusHandler<TEvents>, event);
+    }
+  }
+
+  /**
+   * Count subscribers for an event type
+   */
+  listenerCount(type: keyof TEvents): number {
+    return this.handlers.get(type)?.size ?? 0;
+  }
+
+  /**
+   * Remove every subscription
+   */
+  clear(): void {
+    this.handlers.clear();
+    this.anyHandlers.clear();
+  }
+
+  /**
+   * Call one handler, isolating failures
+   */
+  private deliver<K extends keyof TEvents>(handler: BusHandler<TEvents, K>, event: BusEvent<TEvents, K>): void {
+    try {
+      handler(event);
+    } catch (error) {
+      console.error(`Event handler for '${String(event.type)}' failed:`, error);
+    }
+  }
+}
+
+/**
+ * Event bus carrying the game's events
+ */
+export type GameEventBus = EventBus<GameEventMap>;
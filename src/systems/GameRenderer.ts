@@ -0,0 +1,157 @@
+/**
+ * Game Renderer Interface and Selection
+ *
+ * Game draws through `IGameRenderer`, so it does not care which backend
+ * is behind it:
+ *
+ * - **WebGL** (`WebGLRenderer`): the full look - level themes, glow,
+ *   batched particles. Preferred whenever the browser allows it.
+ * - **Canvas 2D** (`Renderer`): plain canvas drawing that works where
+ *   WebGL is disabled (locked-down machines, some VMs, old drivers).
+ *
+ * `createRenderer()` picks one:
+ *
+ * ```
+ * 'auto'     → WebGL, falling back to Canvas 2D if it cannot start
+ * 'webgl'    → WebGL only (throws if unavailable)
+ * 'canvas2d' → Canvas 2D only (never touches WebGL)
+ * ```
+ *
+ * @module GameRenderer
+ */
+
+import { WebGLRenderer } from './WebGLRenderer';
+import { Renderer } from './Renderer';
+import { CutsceneSprite } from './Intermission';
+import type { AttractScreen } from './AttractMode';
+import type { DebugView } from './DebugOverlay';
+import type { InspectorSection } from './StepInspector';
+import { ParticleRenderData } from './ParticleSystem';
+import type { MazeDefinition } from '../utils/MazeData';
+import { Random, RandomSource } from '../utils/Random';
+
+/** Available rendering backends */
+export type RendererType = 'webgl' | 'canvas2d';
+
+/** Backend requested by the player */
+export type RendererPreference = RendererType | 'auto';
+
+/** Every accepted preference (for validating user input) */
+export const RENDERER_PREFERENCES: readonly RendererPreference[] = ['auto', 'webgl', 'canvas2d'];
+
+/**
+ * Everything Game needs from a renderer
+ *
+ * Per frame, Game calls `clear()`, the `render*` methods for the maze,
+ * pellets and entities, `renderParticles()`, then `present()`. Text
+ * overlays (`renderReadyText()` etc.) are called once when they should
+ * appear and stay up until the matching `clear*` call.
+ */
+export interface IGameRenderer {
+  /** Which backend this is */
+  readonly type: RendererType;
+
+  // Frame
+  clear(): void;
+  present(): void;
+  getCanvas(): HTMLCanvasElement;
+
+  // Maze and pellets
+  setMaze(maze: MazeDefinition): void;
+  setLevel(level: number): void;
+  renderMaze(): void;
+  renderPellets(): void;
+  eatPellet(col: number, row: number): void;
+  resetPellets(): void;
+  updatePowerPelletBlink(): void;
+  setMazeFlashing(enabled: boolean): void;
+  updateMazeFlash(): void;
+  flashMaze(): void;
+
+  // Entities and effects
+  renderPacMan(
+    x: number,
+    y: number,
+    direction: number,
+    animationFrame: number,
+    isDying?: boolean,
+    deathFrame?: number,
+    isVictory?: boolean,
+    victoryRotation?: number,
+    victoryJump?: number
+  ): void;
+  renderGhost(
+    x: number,
+    y: number,
+    color: string,
+    direction: number,
+    mode: string,
+    animationFrame: number,
+    frightenedFlash?: boolean
+  ): void;
+  renderFruit(x: number, y: number, color: string, fruitType: number): void;
+  renderParticles(renderData: Pick<ParticleRenderData, 'positions' | 'colors'>): void;
+
+  // HUD
+  renderScore(score: number, highScore: number): void;
+  renderLevel(level: number): void;
+  renderLives(lives: number): void;
+  flashHighScore(isNew: boolean): void;
+  addFruitToHistory(fruitType: number): void;
+  clearFruitHistory(): void;
+  renderGhostScore(x: number, y: number, score: number): void;
+  renderFruitScore(x: number, y: number, score: number): void;
+
+  // Text overlays and cutscenes
+  renderReadyText(): void;
+  clearReadyText(): void;
+  renderGameOverText(): void;
+  clearGameOverText(): void;
+  renderGameWonText(score?: number): void;
+  clearGameWonText(): void;
+  renderIntermission(title: string, message: string, progress: number, sprites?: CutsceneSprite[]): void;
+  clearIntermission(): void;
+  renderAttractScreen(screen: AttractScreen): void;
+  clearAttractScreen(): void;
+
+  // Developer tools
+  renderDebugOverlay(view: DebugView): void;
+  clearDebugOverlay(): void;
+  renderInspector(sections: readonly InspectorSection[]): void;
+  clearInspector(): void;
+}
+
+/**
+ * Create the renderer for a canvas
+ *
+ * In 'auto' mode a WebGL failure is logged and Canvas 2D is used instead.
+ * A canvas that already handed out a WebGL context cannot give a 2D one,
+ * so the fallback draws on a fresh copy of the canvas element.
+ *
+ * @param canvasId - ID of the game canvas
+ * @param preference - Backend to use ('auto' tries WebGL first)
+ * @param random - Cosmetic random stream for the overlays
+ * @throws Error if the canvas is missing or the requested backend fails
+ */
+export function createRenderer(
+  canvasId: string,
+  preference: RendererPreference = 'auto',
+  random: RandomSource = new Random()
+): IGameRenderer {
+  if (preference === 'canvas2d') {
+    return new Renderer(canvasId, random);
+  }
+
+  try {
+    return new WebGLRenderer(canvasId, random);
+  } catch (error) {
+    if (preference === 'webgl') throw error;
+
+    const canvas = document.getElementById(canvasId);
+    if (!canvas) throw error;
+
+    console.warn('WebGL unavailable, falling back to Canvas 2D:', error);
+    canvas.replaceWith(canvas.cloneNode(false));
+    return new Renderer(canvasId, random);
+  }
+}
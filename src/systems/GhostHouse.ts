@@ -0,0 +1,216 @@
+/**
+ * Ghost House Release Logic
+ *
+ * Decides when Pinky, Inky and Clyde leave the ghost house, following the
+ * original arcade rules. Everything is counted in pellets and ticks, so a
+ * seed and an input sequence always release the same ghosts at the same
+ * moment.
+ *
+ * ## Personal Dot Counters
+ *
+ * Each ghost has its own counter and a per-level limit (`Ghost.dotLimit`).
+ * Only the *preferred* ghost counts: the first of Pinky, Inky, Clyde still
+ * waiting in the house. It leaves once its counter reaches its limit, and
+ * the next ghost in line starts counting.
+ *
+ * ```
+ *            Pinky  Inky  Clyde
+ * Level 1      0     30    60
+ * Level 2      0      0    50
+ * Level 3+     0      0     0
+ * ```
+ *
+ * ## Global Dot Counter
+ *
+ * Losing a life switches the personal counters off (they keep their
+ * values) and starts a single global counter instead. It releases Pinky
+ * at 7 pellets, Inky at 17 and Clyde at 32. If Clyde is still inside when
+ * it reaches 32, the global counter switches off and the personal counters
+ * take over again. A new level always starts on personal counters.
+ *
+ * ## Idle Timer
+ *
+ * A player who stops eating would keep the ghosts locked up forever. If
+ * no pellet is eaten for 4 seconds (3 from level 5), the preferred ghost
+ * is forced out and the timer starts again.
+ *
+ * Eaten ghosts are not held: their eyes re-enter the house and leave
+ * straight away.
+ *
+ * @module GhostHouse
+ */
+
+import { Ghost } from '../entities/Ghost';
+import { GhostMode, TARGET_FPS } from '../constants';
+
+/** Global counter values that release each ghost (Pinky, Inky, Clyde) */
+export const GLOBAL_DOT_LIMITS: readonly number[] = [7, 17, 32];
+
+/**
+ * Ticks without eating before the next ghost is forced out
+ */
+export function getIdleReleaseTicks(level: number): number {
+  return (level < 5 ? 4 : 3) * TARGET_FPS;
+}
+
+/**
+ * Serializable release state (personal counters are saved by each ghost)
+ */
+export interface GhostHouseSaveData {
+  globalActive: boolean;
+  globalCounter: number;
+  idleTimer: number;
+  idleLimit: number;
+}
+
+/**
+ * Tracks the dot counters and idle timer that release ghosts
+ */
+export class GhostHouse {
+  /** House ghosts in release order (Pinky, Inky, Clyde) */
+  private readonly ghosts: readonly Ghost[];
+
+  /** Is the global counter in use (after a life was lost)? */
+  private globalActive: boolean = false;
+
+  /** Pellets eaten since the global counter started */
+  private globalCounter: number = 0;
+
+  /** Ticks since the last pellet was eaten */
+  private idleTimer: number = 0;
+
+  /** Idle ticks that force a release on this level */
+  private idleLimit: number = getIdleReleaseTicks(1);
+
+  /**
+   * @param ghosts - House ghosts in release order (Pinky, Inky, Clyde)
+   */
+  constructor(ghosts: readonly Ghost[]) {
+    this.ghosts = ghosts;
+  }
+
+  /**
+   * Start a level: fresh personal counters, no global counter
+   */
+  startLevel(level: number): void {
+    for (const ghost of this.ghosts) {
+      ghost.startLevel(level);
+    }
+
+    this.globalActive = false;
+    this.globalCounter = 0;
+    this.idleTimer = 0;
+    this.idleLimit = getIdleReleaseTicks(level);
+  }
+
+  /**
+   * Pac-Man died: switch to the global counter for the rest of the level
+   */
+  lifeLost(): void {
+    this.globalActive = true;
+    this.globalCounter = 0;
+    this.idleTimer = 0;
+  }
+
+  /**
+   * Count a pellet (or power pellet) eaten
+   */
+  pelletEaten(): void {
+    this.idleTimer = 0;
+
+    if (this.globalActive) {
+      this.globalCounter++;
+      return;
+    }
+
+    const preferred = this.getPreferredGhost();
+    if (preferred) {
+      preferred.dotCounter++;
+    }
+  }
+
+  /**
+   * Release any ghost that is due (call once per PLAYING tick)
+   */
+  update(): void {
+    // Idle timer: a player who stops eating still gets chased
+    this.idleTimer++;
+    if (this.idleTimer >= this.idleLimit) {
+      this.idleTimer = 0;
+      this.getPreferredGhost()?.exitHouse();
+      return;
+    }
+
+    if (this.globalActive) {
+      this.updateGlobalCounter();
+      return;
+    }
+
+    const preferred = this.getPreferredGhost();
+    if (preferred && preferred.dotCounter >= preferred.dotLimit) {
+      preferred.exitHouse();
+    }
+  }
+
+  /**
+   * Release by global counter, or hand back to the personal counters
+   */
+  private updateGlobalCounter(): void {
+    const last = this.ghosts.length - 1;
+
+    this.ghosts.forEach((ghost, i) => {
+      if (this.globalCounter !== GLOBAL_DOT_LIMITS[i] || !this.isWaiting(ghost)) return;
+
+      if (i === last) {
+        // Clyde still inside at 32: back to personal counters
+        this.globalActive = false;
+        this.globalCounter = 0;
+      } else {
+        ghost.exitHouse();
+      }
+    });
+  }
+
+  /**
+   * First ghost, in release order, still waiting in the house
+   */
+  getPreferredGhost(): Ghost | null {
+    return this.ghosts.find((ghost) => this.isWaiting(ghost)) ?? null;
+  }
+
+  /**
+   * Is the global counter in use?
+   */
+  isGlobalCounterActive(): boolean {
+    return this.globalActive;
+  }
+
+  /**
+   * Is a ghost sitting in the house waiting for release?
+   */
+  private isWaiting(ghost: Ghost): boolean {
+    return ghost.isInHouse && ghost.mode === GhostMode.HOUSE;
+  }
+
+  /**
+   * Capture the release state for a save
+   */
+  save(): GhostHouseSaveData {
+    return {
+      globalActive: this.globalActive,
+      globalCounter: this.globalCounter,
+      idleTimer: this.idleTimer,
+      idleLimit: this.idleLimit,
+    };
+  }
+
+  /**
+   * Restore state captured by save()
+   */
+  load(data: GhostHouseSaveData): void {
+    this.globalActive = data.globalActive;
+    this.globalCounter = data.globalCounter;
+    this.idleTimer = data.idleTimer;
+    this.idleLimit = data.idleLimit;
+  }
+}
@@ -14,6 +14,7 @@ export class Input {
     right: false,
     pause: false,
     start: false,
+    rewind: false,
   };
 
   private queuedDirection: DirectionType = Direction.NONE;
@@ -154,6 +155,11 @@ export class Input {
         this.state.start = true;
         e.preventDefault();
         break;
+
+      case 'Backspace':
+        this.state.rewind = true;
+        e.preventDefault();
+        break;
     }
 
     // Track cheat codes (any printable character)
@@ -210,6 +216,10 @@ export class Input {
       case 'Enter':
         this.state.start = false;
         break;
+
+      case 'Backspace':
+        this.state.rewind = false;
+        break;
     }
   }
 
@@ -265,6 +275,13 @@ export class Input {
     return pressed;
   }
 
+  /**
+   * Check if the rewind key is being held (practice mode)
+   */
+  isRewindHeld(): boolean {
+    return this.state.rewind;
+  }
+
   /**
    * Check if skip level cheat was activated
    */
@@ -300,6 +317,7 @@ export class Input {
       right: false,
       pause: false,
       start: false,
+      rewind: false,
     };
     this.queuedDirection = Direction.NONE;
   }
@@ -19,6 +19,15 @@ export interface CutsceneSprite {
   animFrame: number;
 }
 
+/** Serializable cutscene progress */
+export interface IntermissionSaveData {
+  isPlaying: boolean;
+  currentScene: number;
+  sceneTimer: number;
+  animCounter: number;
+  sprites: CutsceneSprite[];
+}
+
 /** Scene configuration */
 interface SceneConfig {
   title: string;
@@ -257,6 +266,39 @@ export class Intermission {
     return this.sprites;
   }
 
+  /**
+   * Capture cutscene progress for a save
+   */
+  save(): IntermissionSaveData {
+    return {
+      isPlaying: this.isPlaying,
+      currentScene: this.currentScene,
+      sceneTimer: this.sceneTimer,
+      animCounter: this.animCounter,
+      sprites: this.sprites.map((sprite) => ({ ...sprite })),
+    };
+  }
+
+  /**
+   * Restore progress captured by save()
+   *
+   * @param onComplete - Called when the restored scene finishes
+   */
+  load(data: IntermissionSaveData, onComplete: () => void): void {
+    this.disableSkip();
+
+    this.isPlaying = data.isPlaying;
+    this.currentScene = data.currentScene;
+    this.sceneTimer = data.sceneTimer;
+    this.animCounter = data.animCounter;
+    this.sprites = data.sprites.map((sprite) => ({ ...sprite }));
+    this.onComplete = data.isPlaying ? onComplete : null;
+
+    if (data.isPlaying) {
+      this.enableSkip();
+    }
+  }
+
   /**
    * Enable keyboard skip - only Space or Enter
    */
@@ -3,7 +3,8 @@
  *
  * Defines per-level settings for:
  * - Ghost and Pac-Man speeds
- * - Frightened mode duration
+ * - Scatter/chase schedule
+ * - Frightened mode duration and flash count
  * - Fruit type
  * - Maze colors
  * - Elroy mode triggers (Blinky speed boost)
@@ -20,14 +21,20 @@ import { Fruit, FruitTypeValue } from '../entities/Fruit';
 export interface LevelConfig {
   level: number;
 
-  // Speed multipliers (0.0 to 1.0, where 1.0 = maximum speed)
+  // Speed multipliers (0.0 to 1.0, where 1.0 = MAX_SPEED)
   pacmanSpeed: number;
   pacmanDotsSpeed: number;  // Speed while eating dots
   ghostSpeed: number;
   ghostTunnelSpeed: number;
 
+  // Scatter/chase schedule: scatterTimes[i] seconds of scatter, then
+  // chaseTimes[i] of chase, for each i in turn (the last chase is endless)
+  scatterTimes: readonly number[];
+  chaseTimes: readonly number[];
+
   // Frightened mode
   frightenedDuration: number;  // Seconds (0 = no frightened mode)
+  frightenedFlashes: number;   // White flashes before frightened mode ends
   pacmanFrightSpeed: number;
   ghostFrightSpeed: number;
 
@@ -67,6 +74,26 @@ function getMazeColors(level: number): { main: string; light: string } {
   return MAZE_COLORS[index];
 }
 
+/**
+ * Arcade scatter/chase schedules (seconds) for level 1, levels 2-4 and 5+
+ *
+ * From level 2 the third chase runs for over 17 minutes and the last
+ * scatter lasts a single tick - in practice the ghosts never scatter again.
+ */
+const MODE_SCHEDULES = [
+  { scatterTimes: [7, 7, 5, 5], chaseTimes: [20, 20, 20, Infinity] },
+  { scatterTimes: [7, 7, 5, 1 / 60], chaseTimes: [20, 20, 1033, Infinity] },
+  { scatterTimes: [5, 5, 5, 1 / 60], chaseTimes: [20, 20, 1037, Infinity] },
+];
+
+/**
+ * Get the scatter/chase schedule band for a level
+ */
+function getModeSchedule(level: number): { scatterTimes: number[]; chaseTimes: number[] } {
+  if (level === 1) return MODE_SCHEDULES[0];
+  return level < 5 ? MODE_SCHEDULES[1] : MODE_SCHEDULES[2];
+}
+
 /**
  * Pre-calculated level configurations
  * Based on original Pac-Man with adjustments for modern feel
@@ -88,6 +115,9 @@ for (let level = 1; level <= 21; level++) {
   const frightenedDurations = [6, 5, 4, 3, 2, 5, 2, 2, 1, 5, 2, 1, 1, 3, 1, 1, 0, 1, 0, 0, 0];
   const frightenedDuration = frightenedDurations[Math.min(level - 1, frightenedDurations.length - 1)];
 
+  // One-second frights only get 3 warning flashes
+  const frightenedFlashes = frightenedDuration === 0 ? 0 : frightenedDuration === 1 ? 3 : 5;
+
   // Elroy triggers (more aggressive on higher levels)
   const elroyDotsLeft1 = 20 + Math.floor(level * 2);
   const elroyDotsLeft2 = 10 + Math.floor(level * 1);
@@ -105,8 +135,12 @@ for (let level = 1; level <= 21; level++) {
     ghostTunnelSpeed: ghostSpeed * 0.45,   // Much slower in tunnel
     ghostFrightSpeed: ghostSpeed * 0.55,   // Slower when frightened
 
+    // Scatter/chase schedule
+    ...getModeSchedule(level),
+
     // Frightened mode
     frightenedDuration,
+    frightenedFlashes,
 
     // Fruit
     fruitType: Fruit.getFruitTypeForLevel(level),
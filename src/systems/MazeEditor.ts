@@ -0,0 +1,438 @@
+/**
+ * Maze Editor Model
+ *
+ * The headless half of the in-browser maze editor: a draft layout, the
+ * tools that change it, undo/redo and live validation. `MazeEditorView`
+ * puts a canvas, a tool palette and the issue list around it.
+ *
+ * The draft is the tile grid plus the start tiles. Everything else is
+ * worked out from the grid, exactly as the text format does it:
+ *
+ * - the ghost house and door from the `H` and `=` tiles
+ * - the fruit spot from the `F` tiles
+ * - a tunnel on every row with `~` tiles at both ends
+ *
+ * Scatter corners and no-upward tiles are kept from the maze the draft
+ * was loaded from.
+ *
+ * Every change is one undo step. A stroke (`beginStroke()` ...
+ * `endStroke()`, e.g. one mouse drag) groups its changes into one step.
+ *
+ * @module MazeEditor
+ */
+
+import { TilePosition, TileType } from '../types';
+import { CLASSIC_MAZE, GhostId, MazeDefinition, TunnelLayout } from '../utils/MazeData';
+import { GridProblem, edgeTunnel, findFruitSpawn, findGhostHouse, parseMaze, serializeMaze } from '../utils/MazeFormat';
+import { MazeIssue, validateMaze } from '../utils/MazeValidator';
+
+/** Who a start tile belongs to */
+export type StartId = 'pacman' | GhostId;
+
+/** Editing tools */
+export type EditorTool =
+  | 'wall'
+  | 'pellet'
+  | 'power'
+  | 'empty'
+  | 'house'
+  | 'door'
+  | 'tunnel'
+  | 'fruit'
+  | StartId;
+
+/**
+ * A tool as the palette shows it
+ */
+export interface EditorToolInfo {
+  readonly tool: EditorTool;
+  readonly label: string;
+  /** Keyboard shortcut (`KeyboardEvent.key`, lower case) */
+  readonly key: string;
+}
+
+/** Every tool, in palette order */
+export const EDITOR_TOOLS: readonly EditorToolInfo[] = [
+  { tool: 'wall', label: 'Wall', key: '1' },
+  { tool: 'pellet', label: 'Pellet', key: '2' },
+  { tool: 'power', label: 'Power pellet', key: '3' },
+  { tool: 'empty', label: 'Empty', key: '4' },
+  { tool: 'house', label: 'Ghost house', key: '5' },
+  { tool: 'door', label: 'Door', key: '6' },
+  { tool: 'tunnel', label: 'Tunnel pair', key: '7' },
+  { tool: 'fruit', label: 'Fruit spot', key: '8' },
+  { tool: 'pacman', label: 'Pac-Man start', key: 'p' },
+  { tool: 'blinky', label: 'Blinky start', key: 'b' },
+  { tool: 'pinky', label: 'Pinky start', key: 'k' },
+  { tool: 'inky', label: 'Inky start', key: 'i' },
+  { tool: 'clyde', label: 'Clyde start', key: 'c' },
+];
+
+/** Tile each painting tool lays */
+const PAINT_TILES: Record<Exclude<EditorTool, 'tunnel' | 'fruit' | StartId>, TileType> = {
+  wall: TileType.WALL,
+  pellet: TileType.PELLET,
+  power: TileType.POWER_PELLET,
+  empty: TileType.EMPTY,
+  house: TileType.GHOST_HOUSE,
+  door: TileType.GHOST_DOOR,
+};
+
+/** Start tools, in header order */
+const START_IDS: readonly StartId[] = ['pacman', 'blinky', 'pinky', 'inky', 'clyde'];
+
+/** Undo steps kept */
+const MAX_HISTORY = 100;
+
+/**
+ * The part of the draft undo/redo restores
+ */
+interface DraftState {
+  readonly grid: number[][];
+  readonly starts: Record<StartId, TilePosition>;
+}
+
+/**
+ * Result of checking the draft
+ */
+export interface EditorCheck {
+  /** The draft as a maze (null if the grid has no usable house, door or fruit spot) */
+  readonly maze: MazeDefinition | null;
+  readonly issues: MazeIssue[];
+}
+
+/**
+ * Draft maze, tools and history
+ */
+export class MazeEditor {
+  /** Maze name */
+  name: string = '';
+
+  /** Tool applied by apply() */
+  tool: EditorTool = 'wall';
+
+  /** Paint tiles mirrored across the vertical centre line too */
+  mirror: boolean = false;
+
+  private state: DraftState = { grid: [], starts: copyStarts(CLASSIC_MAZE.startPositions) };
+
+  /** Kept from the loaded maze */
+  private base: MazeDefinition = CLASSIC_MAZE;
+
+  private undoStack: DraftState[] = [];
+  private redoStack: DraftState[] = [];
+
+  /** Is a stroke open? */
+  private stroking: boolean = false;
+
+  /** Has the open stroke saved its undo step yet? */
+  private strokeSaved: boolean = false;
+
+  /** Last check, until the draft changes */
+  private checked: EditorCheck | null = null;
+
+  constructor(maze: MazeDefinition = CLASSIC_MAZE) {
+    this.load(maze);
+  }
+
+  /**
+   * Start editing a maze (history is cleared)
+   */
+  load(maze: MazeDefinition): void {
+    this.base = maze;
+    this.name = maze.name;
+    this.state = { grid: maze.grid.map((row) => [...row]), starts: copyStarts(maze.startPositions) };
+    this.undoStack = [];
+    this.redoStack = [];
+    this.stroking = false;
+    this.checked = null;
+  }
+
+  /**
+   * Start editing a maze file
+   *
+   * @throws Error from parseMaze() (the draft is left as it was)
+   */
+  loadText(text: string): void {
+    this.load(parseMaze(text));
+  }
+
+  get width(): number {
+    return this.state.grid[0]?.length ?? 0;
+  }
+
+  get height(): number {
+    return this.state.grid.length;
+  }
+
+  /**
+   * Tile code at a tile
+   */
+  tileAt(tile: TilePosition): number {
+    return this.state.grid[tile.row][tile.col];
+  }
+
+  /**
+   * The draft's tile grid (read-only)
+   */
+  getGrid(): readonly (readonly number[])[] {
+    return this.state.grid;
+  }
+
+  /**
+   * Where each entity starts
+   */
+  getStarts(): Readonly<Record<StartId, TilePosition>> {
+    return this.state.starts;
+  }
+
+  /**
+   * Group the following changes into one undo step
+   */
+  beginStroke(): void {
+    this.stroking = true;
+    this.strokeSaved = false;
+  }
+
+  /**
+   * Close the open stroke
+   */
+  endStroke(): void {
+    this.stroking = false;
+  }
+
+  /**
+   * Use the current tool on a tile
+   *
+   * @returns True if the draft changed
+   */
+  apply(tile: TilePosition): boolean {
+    if (tile.col < 0 || tile.col >= this.width || tile.row < 0 || tile.row >= this.height) {
+      return false;
+    }
+
+    const tool = this.tool;
+    if (tool === 'tunnel') {
+      return this.setTiles([{ col: 0, row: tile.row }, { col: this.width - 1, row: tile.row }], TileType.TUNNEL);
+    }
+    if (tool === 'fruit') {
+      return this.placeFruit(tile);
+    }
+    if (isStartTool(tool)) {
+      return this.placeStart(tool, tile);
+    }
+
+    const mirrored = { col: this.width - 1 - tile.col, row: tile.row };
+    return this.setTiles(this.mirror ? [tile, mirrored] : [tile], PAINT_TILES[tool]);
+  }
+
+  /**
+   * Undo the last step
+   *
+   * @returns False if there was nothing to undo
+   */
+  undo(): boolean {
+    const previous = this.undoStack.pop();
+    if (!previous) return false;
+
+    this.redoStack.push(this.state);
+    this.state = previous;
+    this.checked = null;
+    return true;
+  }
+
+  /**
+   * Redo the last undone step
+   *
+   * @returns False if there was nothing to redo
+   */
+  redo(): boolean {
+    const next = this.redoStack.pop();
+    if (!next) return false;
+
+    this.undoStack.push(this.state);
+    this.state = next;
+    this.checked = null;
+    return true;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Build the draft into a maze and validate it
+   *
+   * Grid problems the maze cannot be built without (no house, no door, no
+   * fruit spot) come back as `'layout'` errors with a null maze.
+   */
+  check(): EditorCheck {
+    if (this.checked) return this.checked;
+
+    const { grid, starts } = this.state;
+    const issues: MazeIssue[] = [];
+    const problem: GridProblem = (message, tile) => {
+      issues.push({ severity: 'error', code: 'layout', message, tile });
+      return new Error(message);
+    };
+
+    // A lone tunnel mouth wraps to nothing
+    grid.forEach((cells, row) => {
+      const left = cells[0] === TileType.TUNNEL;
+      const right = cells[cells.length - 1] === TileType.TUNNEL;
+      if (left !== right) {
+        const tile = { col: left ? 0 : cells.length - 1, row };
+        problem(`Tunnel on row ${row} has no '~' partner on the ${left ? 'right' : 'left'} edge`, tile);
+      }
+    });
+
+    // Each reports its own problem, so both are listed if both fail
+    const built = <T>(find: () => T): T | null => {
+      try {
+        return find();
+      } catch {
+        return null;
+      }
+    };
+    const ghostHouse = built(() => findGhostHouse(grid, problem));
+    const fruitSpawn = built(() => findFruitSpawn(grid, problem));
+
+    let maze: MazeDefinition | null = null;
+    if (ghostHouse && fruitSpawn) {
+      maze = {
+        name: this.name,
+        width: this.width,
+        height: this.height,
+        grid,
+        startPositions: starts,
+        scatterTargets: this.base.scatterTargets,
+        ghostHouse,
+        tunnels: this.tunnels(),
+        fruitSpawn,
+        noUpwardTiles: this.base.noUpwardTiles,
+      };
+      issues.push(...validateMaze(maze));
+    }
+
+    this.checked = { maze, issues };
+    return this.checked;
+  }
+
+  /**
+   * The draft in the text format
+   *
+   * @throws Error if the draft cannot be built into a maze yet
+   */
+  toText(): string {
+    const { maze, issues } = this.check();
+    if (!maze) {
+      throw new Error(`Maze cannot be saved yet: ${issues[0].message}`);
+    }
+    return serializeMaze(maze);
+  }
+
+  /**
+   * Tunnels on rows with `~` at both ends (keeping the loaded maze's slow
+   * zones where it had a tunnel on that row)
+   */
+  private tunnels(): TunnelLayout[] {
+    const tunnels: TunnelLayout[] = [];
+    for (let row = 0; row < this.height; row++) {
+      const tunnel = edgeTunnel(this.state.grid, row);
+      if (tunnel) {
+        tunnels.push(this.base.tunnels.find((kept) => kept.row === row) ?? tunnel);
+      }
+    }
+    return tunnels;
+  }
+
+  /**
+   * Set tiles to one tile code
+   */
+  private setTiles(tiles: readonly TilePosition[], code: number): boolean {
+    if (tiles.every((tile) => this.tileAt(tile) === code)) return false;
+
+    this.change((grid) => {
+      for (const tile of tiles) grid[tile.row][tile.col] = code;
+    });
+    return true;
+  }
+
+  /**
+   * Move the fruit spot to a tile, or widen a one-tile spot to a pair by
+   * clicking beside it (fruit appears between the two)
+   */
+  private placeFruit(tile: TilePosition): boolean {
+    if (this.tileAt(tile) === TileType.FRUIT_SPAWN) return false;
+
+    const fruit: TilePosition[] = [];
+    this.state.grid.forEach((cells, row) => {
+      cells.forEach((cell, col) => {
+        if (cell === TileType.FRUIT_SPAWN) fruit.push({ col, row });
+      });
+    });
+
+    const pairsWith = fruit.length === 1 && fruit[0].row === tile.row && Math.abs(fruit[0].col - tile.col) === 1;
+
+    this.change((grid) => {
+      if (!pairsWith) {
+        for (const old of fruit) grid[old.row][old.col] = TileType.EMPTY;
+      }
+      grid[tile.row][tile.col] = TileType.FRUIT_SPAWN;
+    });
+    return true;
+  }
+
+  /**
+   * Move an entity's start to a tile
+   */
+  private placeStart(id: StartId, tile: TilePosition): boolean {
+    const current = this.state.starts[id];
+    if (current.col === tile.col && current.row === tile.row) return false;
+
+    this.change((_grid, starts) => {
+      starts[id] = { col: tile.col, row: tile.row };
+    });
+    return true;
+  }
+
+  /**
+   * Change a copy of the draft, saving the old one as an undo step (once
+   * per stroke)
+   */
+  private change(edit: (grid: number[][], starts: Record<StartId, TilePosition>) => void): void {
+    if (!this.stroking || !this.strokeSaved) {
+      this.undoStack.push(this.state);
+      if (this.undoStack.length > MAX_HISTORY) this.undoStack.shift();
+      this.redoStack = [];
+      this.strokeSaved = true;
+    }
+
+    const next: DraftState = { grid: this.state.grid.map((row) => [...row]), starts: copyStarts(this.state.starts) };
+    edit(next.grid, next.starts);
+    this.state = next;
+    this.checked = null;
+  }
+}
+
+/**
+ * Does a tool place a start tile?
+ */
+function isStartTool(tool: EditorTool): tool is StartId {
+  return (START_IDS as readonly EditorTool[]).includes(tool);
+}
+
+/**
+ * A fresh copy of a set of start tiles
+ */
+function copyStarts(starts: Readonly<Record<StartId, TilePosition>>): Record<StartId, TilePosition> {
+  const copy = {} as Record<StartId, TilePosition>;
+  for (const id of START_IDS) {
+    copy[id] = { ...starts[id] };
+  }
+  return copy;
+}
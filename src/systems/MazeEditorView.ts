@@ -0,0 +1,494 @@
+/**
+ * Maze Editor Screen
+ *
+ * The browser side of the maze editor (see MazeEditor.ts for the model).
+ * It binds to the `#maze-editor` markup in index.html:
+ *
+ * - a canvas previewing the draft with the level 1 theme, drawn with the
+ *   same wall shapes as `WebGLRenderer.renderMaze()`
+ * - a tool palette, mirror switch and action buttons
+ * - the live validation issues (click one to put the cursor on its tile)
+ *
+ * Mouse: click or drag to use the current tool. Keyboard: arrows move the
+ * cursor, Space/Enter uses the tool, the palette keys pick tools, X
+ * mirrors, Ctrl+Z / Ctrl+Y undo and redo, Ctrl+S saves, T test-plays and
+ * Escape leaves.
+ *
+ * The draft is saved to localStorage in the text maze format and comes
+ * back the next time the editor opens.
+ *
+ * @module MazeEditorView
+ */
+
+import { Colors, SCALED_TILE } from '../constants';
+import { TilePosition, TileType } from '../types';
+import { CLASSIC_MAZE, MazeDefinition } from '../utils/MazeData';
+import { formatIssues, hasErrors } from '../utils/MazeValidator';
+import { EDITOR_TOOLS, MazeEditor, StartId } from './MazeEditor';
+import { MazeShape, cssColor, mazeWallShapes, themeForLevel } from './MazeTheme';
+
+/** localStorage key for the editor's draft */
+const DRAFT_KEY = 'pacman-editor-maze';
+
+/** Marker colour for each start */
+const START_COLORS: Record<StartId, string> = {
+  pacman: Colors.PACMAN,
+  blinky: Colors.BLINKY,
+  pinky: Colors.PINKY,
+  inky: Colors.INKY,
+  clyde: Colors.CLYDE,
+};
+
+/**
+ * What the editor hands back to the page
+ */
+export interface MazeEditorViewOptions {
+  /** Play a layout that passed validation */
+  onTestPlay: (maze: MazeDefinition) => void;
+  /** Leave the editor */
+  onClose: () => void;
+}
+
+/**
+ * Find an element of the editor markup
+ */
+function element<T extends HTMLElement>(id: string): T {
+  const found = document.getElementById(id);
+  if (!found) {
+    throw new Error(`Maze editor element "#${id}" not found`);
+  }
+  return found as T;
+}
+
+/**
+ * The editor screen
+ */
+export class MazeEditorView {
+  private readonly editor = new MazeEditor();
+  private readonly options: MazeEditorViewOptions;
+
+  private readonly root: HTMLElement;
+  private readonly canvas: HTMLCanvasElement;
+  private readonly ctx: CanvasRenderingContext2D;
+  private readonly nameInput: HTMLInputElement;
+  private readonly mirrorInput: HTMLInputElement;
+  private readonly importInput: HTMLInputElement;
+  private readonly status: HTMLElement;
+  private readonly issueList: HTMLElement;
+  private readonly toolButtons = new Map<string, HTMLButtonElement>();
+
+  /** Keyboard cursor */
+  private cursor: TilePosition = { col: 1, row: 1 };
+
+  /** Is the mouse painting? */
+  private dragging: boolean = false;
+
+  constructor(options: MazeEditorViewOptions) {
+    this.options = options;
+    this.root = element('maze-editor');
+    this.canvas = element('editor-canvas');
+    this.ctx = this.canvas.getContext('2d')!;
+    this.nameInput = element('editor-name');
+    this.mirrorInput = element('editor-mirror');
+    this.importInput = element('editor-import');
+    this.status = element('editor-status');
+    this.issueList = element('editor-issues');
+
+    this.loadDraft();
+    this.buildPalette();
+    this.bindControls();
+    this.bindPointer();
+  }
+
+  /**
+   * Show the editor
+   */
+  open(): void {
+    this.root.classList.remove('hidden');
+    this.refresh();
+  }
+
+  /**
+   * Hide the editor (the draft is kept)
+   */
+  close(): void {
+    this.root.classList.add('hidden');
+    this.dragging = false;
+    this.editor.endStroke();
+  }
+
+  /**
+   * Is the editor showing?
+   */
+  isOpen(): boolean {
+    return !this.root.classList.contains('hidden');
+  }
+
+  /**
+   * Handle a key press while the editor is open
+   *
+   * @returns True if the key was used (typing in the name field is not)
+   */
+  handleKey(e: KeyboardEvent): boolean {
+    if (e.target instanceof HTMLInputElement && e.target.type === 'text') {
+      if (e.key === 'Enter' || e.key === 'Escape') e.target.blur();
+      return false;
+    }
+
+    const key = e.key.toLowerCase();
+    const moves: Record<string, [number, number]> = {
+      arrowup: [0, -1],
+      arrowdown: [0, 1],
+      arrowleft: [-1, 0],
+      arrowright: [1, 0],
+    };
+
+    if (e.ctrlKey || e.metaKey) {
+      if (key === 'z') {
+        this.run(e.shiftKey ? 'redo' : 'undo');
+      } else if (key === 'y') {
+        this.run('redo');
+      } else if (key === 's') {
+        this.run('save');
+      } else {
+        return false;
+      }
+    } else if (moves[key]) {
+      const [dx, dy] = moves[key];
+      this.cursor = {
+        col: Math.min(this.editor.width - 1, Math.max(0, this.cursor.col + dx)),
+        row: Math.min(this.editor.height - 1, Math.max(0, this.cursor.row + dy)),
+      };
+      this.render();
+    } else if (key === ' ' || key === 'enter') {
+      if (this.editor.apply(this.cursor)) this.refresh();
+    } else if (key === 'x') {
+      this.setMirror(!this.editor.mirror);
+    } else if (key === 't') {
+      this.run('play');
+    } else if (key === 'escape') {
+      this.run('back');
+    } else {
+      const info = EDITOR_TOOLS.find((candidate) => candidate.key === key);
+      if (!info) return false;
+      this.editor.tool = info.tool;
+      this.refresh();
+    }
+    return true;
+  }
+
+  /**
+   * Carry out a toolbar action
+   */
+  private run(action: string): void {
+    switch (action) {
+      case 'undo':
+        this.editor.undo();
+        break;
+      case 'redo':
+        this.editor.redo();
+        break;
+      case 'play':
+        this.testPlay();
+        return;
+      case 'save':
+        this.saveDraft();
+        return;
+      case 'export':
+        this.exportFile();
+        return;
+      case 'import':
+        this.importInput.click();
+        return;
+      case 'classic':
+        this.editor.load(CLASSIC_MAZE);
+        this.nameInput.value = this.editor.name;
+        break;
+      case 'back':
+        this.options.onClose();
+        return;
+    }
+    this.refresh();
+  }
+
+  /**
+   * Play the draft if it has no errors
+   */
+  private testPlay(): void {
+    const { maze, issues } = this.editor.check();
+    if (!maze || hasErrors(issues)) {
+      this.setStatus('Fix the errors before playing', true);
+      return;
+    }
+    this.options.onTestPlay(maze);
+  }
+
+  /**
+   * Keep the draft in localStorage
+   */
+  private saveDraft(): void {
+    try {
+      localStorage.setItem(DRAFT_KEY, this.editor.toText());
+      this.setStatus('Saved');
+    } catch (error) {
+      this.setStatus(error instanceof Error ? error.message : 'Could not save', true);
+    }
+  }
+
+  /**
+   * Start from the saved draft, if there is a readable one
+   */
+  private loadDraft(): void {
+    const text = localStorage.getItem(DRAFT_KEY);
+    if (text !== null) {
+      try {
+        this.editor.loadText(text);
+      } catch (error) {
+        console.error('Failed to load the saved maze:', error);
+      }
+    }
+    this.nameInput.value = this.editor.name;
+  }
+
+  /**
+   * Download the draft as a .maze file
+   */
+  private exportFile(): void {
+    let text: string;
+    try {
+      text = this.editor.toText();
+    } catch (error) {
+      this.setStatus(error instanceof Error ? error.message : 'Could not export', true);
+      return;
+    }
+
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+    link.download = `${this.editor.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'maze'}.maze`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  /**
+   * Open a chosen .maze file
+   */
+  private async importFile(file: File): Promise<void> {
+    try {
+      this.editor.loadText(await file.text());
+      this.nameInput.value = this.editor.name;
+      this.refresh();
+      this.setStatus(`Opened ${file.name}`);
+    } catch (error) {
+      this.setStatus(`${file.name}: ${error instanceof Error ? error.message : 'unreadable'}`, true);
+    }
+  }
+
+  /**
+   * One button per tool
+   */
+  private buildPalette(): void {
+    const palette = element('editor-tools');
+    for (const info of EDITOR_TOOLS) {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = `${info.key.toUpperCase()} ${info.label}`;
+      button.addEventListener('click', () => {
+        this.editor.tool = info.tool;
+        this.refresh();
+      });
+      palette.appendChild(button);
+      this.toolButtons.set(info.tool, button);
+    }
+  }
+
+  /**
+   * Wire the buttons and inputs in the panel
+   */
+  private bindControls(): void {
+    for (const button of this.root.querySelectorAll<HTMLButtonElement>('[data-action]')) {
+      button.addEventListener('click', () => this.run(button.dataset.action ?? ''));
+    }
+
+    this.nameInput.addEventListener('input', () => {
+      this.editor.name = this.nameInput.value.trim() || 'Custom';
+      this.refresh();
+    });
+    this.mirrorInput.addEventListener('change', () => this.setMirror(this.mirrorInput.checked));
+    this.importInput.addEventListener('change', () => {
+      const file = this.importInput.files?.[0];
+      this.importInput.value = '';
+      if (file) void this.importFile(file);
+    });
+  }
+
+  /**
+   * Click or drag on the canvas to use the tool
+   */
+  private bindPointer(): void {
+    const tileAt = (e: MouseEvent): TilePosition => {
+      const rect = this.canvas.getBoundingClientRect();
+      const x = ((e.clientX - rect.left) * this.canvas.width) / rect.width;
+      const y = ((e.clientY - rect.top) * this.canvas.height) / rect.height;
+      return { col: Math.floor(x / SCALED_TILE), row: Math.floor(y / SCALED_TILE) };
+    };
+
+    this.canvas.addEventListener('mousedown', (e) => {
+      e.preventDefault();
+      this.dragging = true;
+      this.cursor = tileAt(e);
+      this.editor.beginStroke();
+      this.editor.apply(this.cursor);
+      this.refresh();
+    });
+    this.canvas.addEventListener('mousemove', (e) => {
+      const tile = tileAt(e);
+      if (tile.col === this.cursor.col && tile.row === this.cursor.row) return;
+
+      this.cursor = tile;
+      if (this.dragging && this.editor.apply(tile)) {
+        this.refresh();
+      } else {
+        this.render();
+      }
+    });
+    window.addEventListener('mouseup', () => {
+      if (!this.dragging) return;
+      this.dragging = false;
+      this.editor.endStroke();
+    });
+  }
+
+  /**
+   * Switch mirrored painting on or off
+   */
+  private setMirror(on: boolean): void {
+    this.editor.mirror = on;
+    this.mirrorInput.checked = on;
+  }
+
+  /**
+   * Redraw everything after the draft or tool changed
+   */
+  private refresh(): void {
+    for (const [tool, button] of this.toolButtons) {
+      button.classList.toggle('active', tool === this.editor.tool);
+    }
+    this.root.querySelector<HTMLButtonElement>('[data-action="undo"]')!.disabled = !this.editor.canUndo();
+    this.root.querySelector<HTMLButtonElement>('[data-action="redo"]')!.disabled = !this.editor.canRedo();
+
+    this.renderIssues();
+    this.render();
+  }
+
+  /**
+   * List the validation issues, and sum them up in the status line
+   */
+  private renderIssues(): void {
+    const { issues } = this.editor.check();
+    const errors = issues.filter((issue) => issue.severity === 'error').length;
+    const warnings = issues.length - errors;
+
+    this.issueList.replaceChildren(
+      ...issues.map((issue) => {
+        const item = document.createElement('li');
+        item.className = issue.severity;
+        item.textContent = formatIssues([issue]);
+        item.addEventListener('click', () => {
+          if (!issue.tile) return;
+          this.cursor = { col: issue.tile.col, row: issue.tile.row };
+          this.render();
+        });
+        return item;
+      })
+    );
+
+    if (errors > 0) {
+      this.setStatus(`${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}`, true);
+    } else {
+      this.setStatus(warnings > 0 ? `Playable (${warnings} warning${warnings === 1 ? '' : 's'})` : 'Playable');
+    }
+  }
+
+  private setStatus(text: string, problem: boolean = false): void {
+    this.status.textContent = text;
+    this.status.classList.toggle('problem', problem);
+  }
+
+  /**
+   * Draw the draft, its issues and the cursor
+   */
+  private render(): void {
+    const { ctx, editor } = this;
+    const grid = editor.getGrid();
+    const theme = themeForLevel(1);
+    const half = SCALED_TILE / 2;
+
+    this.canvas.width = editor.width * SCALED_TILE;
+    this.canvas.height = editor.height * SCALED_TILE;
+    ctx.fillStyle = cssColor(theme.floorColor1);
+    ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+    // Tiles the game draws nothing for, tinted so they can be seen
+    const tints: Partial<Record<number, string>> = {
+      [TileType.GHOST_HOUSE]: cssColor([theme.doorColor[0], theme.doorColor[1], theme.doorColor[2], 0.15]),
+      [TileType.TUNNEL]: 'rgba(255, 255, 255, 0.12)',
+    };
+
+    grid.forEach((cells, row) => {
+      cells.forEach((cell, col) => {
+        const x = col * SCALED_TILE;
+        const y = row * SCALED_TILE;
+        const tint = tints[cell];
+
+        if (tint) {
+          ctx.fillStyle = tint;
+          ctx.fillRect(x, y, SCALED_TILE, SCALED_TILE);
+        } else if (cell === TileType.PELLET || cell === TileType.POWER_PELLET) {
+          this.fillCircle(x + half, y + half, cell === TileType.PELLET ? 2 : 6, Colors.PELLET);
+        } else if (cell === TileType.FRUIT_SPAWN) {
+          this.fillCircle(x + half, y + half, 5, '#ff0000');
+        }
+      });
+    });
+
+    // Walls and door exactly as the game draws them
+    for (const shape of mazeWallShapes({ grid, width: editor.width, height: editor.height }, theme.wallColor, theme.doorColor)) {
+      this.drawShape(shape);
+    }
+
+    // Starts (half columns sit between two tiles, as in game)
+    const starts = editor.getStarts();
+    for (const id of Object.keys(START_COLORS) as StartId[]) {
+      this.fillCircle(starts[id].col * SCALED_TILE + half, starts[id].row * SCALED_TILE + half, half - 1, START_COLORS[id]);
+    }
+
+    // Issues, then the cursor on top
+    ctx.lineWidth = 2;
+    for (const issue of editor.check().issues) {
+      if (!issue.tile) continue;
+      ctx.strokeStyle = issue.severity === 'error' ? '#ff3030' : '#ffd000';
+      ctx.strokeRect(issue.tile.col * SCALED_TILE + 1, issue.tile.row * SCALED_TILE + 1, SCALED_TILE - 2, SCALED_TILE - 2);
+    }
+    ctx.strokeStyle = '#ffffff';
+    ctx.strokeRect(this.cursor.col * SCALED_TILE, this.cursor.row * SCALED_TILE, SCALED_TILE, SCALED_TILE);
+  }
+
+  /**
+   * Fill one wall shape (centred, like the WebGL renderer's quads)
+   */
+  private drawShape(shape: MazeShape): void {
+    if (shape.kind === 'circle') {
+      this.fillCircle(shape.x, shape.y, shape.radius, cssColor(shape.color));
+      return;
+    }
+    this.ctx.fillStyle = cssColor(shape.color);
+    this.ctx.fillRect(shape.x - shape.width / 2, shape.y - shape.height / 2, shape.width, shape.height);
+  }
+
+  private fillCircle(x: number, y: number, radius: number, color: string): void {
+    this.ctx.fillStyle = color;
+    this.ctx.beginPath();
+    this.ctx.arc(x, y, radius, 0, Math.PI * 2);
+    this.ctx.fill();
+  }
+}
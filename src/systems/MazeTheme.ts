@@ -0,0 +1,142 @@
+/**
+ * Maze Themes and Wall Shapes
+ *
+ * The per-level wall colours and the shapes the walls are drawn with.
+ * `WebGLRenderer.renderMaze()` batches these shapes into its vertex
+ * buffer; the maze editor draws the very same shapes on a 2D canvas, so
+ * a layout previews exactly as it will look in game.
+ *
+ * Each wall tile is a small dot with an arm towards every neighbouring
+ * wall, which joins walls into the thin connected lines of the arcade.
+ *
+ * @module MazeTheme
+ */
+
+import { SCALED_TILE } from '../constants';
+import { TileType } from '../types';
+import { MazeDefinition } from '../utils/MazeData';
+
+/** RGBA colour, each channel 0-1 */
+export type ThemeColor = readonly [number, number, number, number];
+
+/**
+ * Colours for one level's maze
+ */
+export interface MazeTheme {
+  readonly name: string;
+  readonly wallColor: ThemeColor;
+  readonly wallGlow: ThemeColor;
+  readonly wallHighlight: ThemeColor;
+  readonly floorColor1: ThemeColor;
+  readonly floorColor2: ThemeColor;
+  readonly doorColor: ThemeColor;
+  readonly doorGlow: ThemeColor;
+}
+
+/** Level themes, in the order levels cycle through them */
+export const LEVEL_THEMES: readonly MazeTheme[] = [
+  // Level 1: Classic Blue - The original arcade look
+  {
+    name: 'Classic Blue',
+    wallColor: [0.13, 0.13, 0.87, 1.0],      // #2121de
+    wallGlow: [0.15, 0.15, 0.55, 1.0],
+    wallHighlight: [0.4, 0.4, 1.0, 1.0],
+    floorColor1: [0.02, 0.02, 0.05, 1.0],
+    floorColor2: [0.04, 0.04, 0.08, 1.0],
+    doorColor: [1.0, 0.72, 0.87, 1.0],       // Pink
+    doorGlow: [0.6, 0.45, 0.55, 0.5],
+  },
+  // Level 2: Forest Green - Softer, more retro green
+  {
+    name: 'Forest Green',
+    wallColor: [0.15, 0.55, 0.35, 1.0],      // Softer forest green
+    wallGlow: [0.08, 0.3, 0.18, 1.0],
+    wallHighlight: [0.3, 0.7, 0.45, 1.0],
+    floorColor1: [0.01, 0.04, 0.02, 1.0],
+    floorColor2: [0.02, 0.06, 0.03, 1.0],
+    doorColor: [0.6, 0.8, 0.3, 1.0],         // Muted yellow-green
+    doorGlow: [0.3, 0.5, 0.15, 0.5],
+  },
+  // Level 3: Muted Red - Softer danger zone
+  {
+    name: 'Muted Red',
+    wallColor: [0.8, 0.27, 0.27, 1.0],       // Muted red (#cc4444)
+    wallGlow: [0.4, 0.13, 0.13, 1.0],
+    wallHighlight: [0.87, 0.47, 0.47, 1.0],
+    floorColor1: [0.04, 0.01, 0.01, 1.0],
+    floorColor2: [0.06, 0.02, 0.02, 1.0],
+    doorColor: [1.0, 0.6, 0.2, 1.0],         // Orange
+    doorGlow: [0.6, 0.3, 0.1, 0.5],
+  },
+];
+
+/** Wall line thickness in pixels */
+const WALL_LINE_WIDTH = 2;
+
+/** Door bar thickness in pixels */
+const DOOR_THICKNESS = 4;
+
+/**
+ * A filled shape, centred on (x, y) in canvas pixels
+ */
+export type MazeShape =
+  | { readonly kind: 'rect'; readonly x: number; readonly y: number; readonly width: number; readonly height: number; readonly color: ThemeColor }
+  | { readonly kind: 'circle'; readonly x: number; readonly y: number; readonly radius: number; readonly segments: number; readonly color: ThemeColor };
+
+/**
+ * The theme for a level (levels past the last theme cycle back to the first)
+ */
+export function themeForLevel(level: number): MazeTheme {
+  return LEVEL_THEMES[(Math.max(1, level) - 1) % LEVEL_THEMES.length];
+}
+
+/**
+ * The shapes that draw a maze's walls and ghost house door
+ */
+export function mazeWallShapes(
+  maze: Pick<MazeDefinition, 'grid' | 'width' | 'height'>,
+  wallColor: ThemeColor,
+  doorColor: ThemeColor
+): MazeShape[] {
+  const shapes: MazeShape[] = [];
+  const isWall = (col: number, row: number): boolean => maze.grid[row]?.[col] === TileType.WALL;
+
+  for (let row = 0; row < maze.height; row++) {
+    for (let col = 0; col < maze.width; col++) {
+      const tile = maze.grid[row]?.[col];
+      const x = col * SCALED_TILE + SCALED_TILE / 2;
+      const y = row * SCALED_TILE + SCALED_TILE / 2;
+
+      if (tile === TileType.WALL) {
+        // Solid wall connections
+        const arm = (dx: number, dy: number): MazeShape => ({
+          kind: 'rect',
+          x: x + (dx * SCALED_TILE) / 4,
+          y: y + (dy * SCALED_TILE) / 4,
+          width: dx === 0 ? WALL_LINE_WIDTH : SCALED_TILE / 2,
+          height: dx === 0 ? SCALED_TILE / 2 : WALL_LINE_WIDTH,
+          color: wallColor,
+        });
+        if (isWall(col, row - 1)) shapes.push(arm(0, -1));
+        if (isWall(col, row + 1)) shapes.push(arm(0, 1));
+        if (isWall(col - 1, row)) shapes.push(arm(-1, 0));
+        if (isWall(col + 1, row)) shapes.push(arm(1, 0));
+
+        // Center point
+        shapes.push({ kind: 'circle', x, y, radius: WALL_LINE_WIDTH, segments: 6, color: wallColor });
+      } else if (tile === TileType.GHOST_DOOR) {
+        shapes.push({ kind: 'rect', x, y, width: SCALED_TILE, height: DOOR_THICKNESS, color: doorColor });
+      }
+    }
+  }
+
+  return shapes;
+}
+
+/**
+ * A theme colour as a CSS colour string
+ */
+export function cssColor(color: ThemeColor): string {
+  const [r, g, b, a] = color;
+  return `rgba(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)}, ${a})`;
+}
@@ -23,6 +23,8 @@
  * @module ParticleSystem
  */
 
+import { Random, RandomSource } from '../utils/Random';
+
 /**
  * Individual particle with physics properties
  *
@@ -310,13 +312,18 @@ export class ParticleSystem {
   /** Index of next free particle in pool */
   private nextFree: number = 0;
 
+  /** Cosmetic random stream (never the gameplay one) */
+  private random: RandomSource;
+
   /**
    * Create a new particle system
    *
    * @param maxParticles - Maximum concurrent particles (pool size)
+   * @param random - Cosmetic random stream for emission variance
    */
-  constructor(maxParticles: number = 1000) {
+  constructor(maxParticles: number = 1000, random: RandomSource = new Random()) {
     this.maxParticles = maxParticles;
+    this.random = random;
 
     // Pre-allocate particle pool
     for (let i = 0; i < maxParticles; i++) {
@@ -362,11 +369,11 @@ export class ParticleSystem {
       if (!particle) break; // Pool exhausted
 
       // Calculate emission angle with spread
-      const angle = baseAngle + (Math.random() - 0.5) * config.spread;
+      const angle = baseAngle + (this.random.next() - 0.5) * config.spread;
 
       // Calculate speed with variance
       const speed =
-        config.speed + (Math.random() - 0.5) * 2 * config.speedVariance;
+        config.speed + (this.random.next() - 0.5) * 2 * config.speedVariance;
 
       // Calculate velocity from angle and speed
       const vx = Math.cos(angle) * speed;
@@ -374,11 +381,11 @@ export class ParticleSystem {
 
       // Calculate size with variance
       const size =
-        config.size + (Math.random() - 0.5) * 2 * config.sizeVariance;
+        config.size + (this.random.next() - 0.5) * 2 * config.sizeVariance;
 
       // Calculate life with variance
       const life =
-        config.life + (Math.random() - 0.5) * 2 * config.lifeVariance;
+        config.life + (this.random.next() - 0.5) * 2 * config.lifeVariance;
 
       // Calculate color with variance
       const color = [...config.color];
@@ -386,7 +393,7 @@ export class ParticleSystem {
         for (let c = 0; c < 3; c++) {
           color[c] = Math.max(
             0,
-            Math.min(1, color[c] + (Math.random() - 0.5) * 2 * config.colorVariance[c])
+            Math.min(1, color[c] + (this.random.next() - 0.5) * 2 * config.colorVariance[c])
           );
         }
       }
@@ -1,41 +1,64 @@
 /**
  * Game Renderer System
  * Handles all canvas rendering for the game
+ *
+ * Canvas 2D backend of IGameRenderer, used when WebGL is unavailable or
+ * the player asks for it. HTML overlays are shared with the WebGL
+ * renderer through DomOverlay.
  */
 
 import {
-  CANVAS_WIDTH,
-  CANVAS_HEIGHT,
   SCALED_TILE,
-  GRID_WIDTH,
-  GRID_HEIGHT,
   Colors,
   Direction,
   GhostMode,
 } from '../constants';
-import { MAZE_DATA } from '../utils/MazeData';
+import { CLASSIC_MAZE, MazeDefinition } from '../utils/MazeData';
 import { TileType } from '../types';
-
-export class Renderer {
+import { CutsceneSprite } from './Intermission';
+import type { AttractScreen } from './AttractMode';
+import type { DebugView } from './DebugOverlay';
+import type { InspectorSection } from './StepInspector';
+import { DomOverlay } from './DomOverlay';
+import { IGameRenderer } from './GameRenderer';
+import { ParticleRenderData } from './ParticleSystem';
+import { Random, RandomSource } from '../utils/Random';
+
+/** Ticks per maze flash phase (level complete) */
+const MAZE_FLASH_PHASE = 12;
+
+export class Renderer implements IGameRenderer {
+  readonly type = 'canvas2d' as const;
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private pelletsCanvas: HTMLCanvasElement;
   private pelletsCtx: CanvasRenderingContext2D;
   private mazeCanvas: HTMLCanvasElement;
   private mazeCtx: CanvasRenderingContext2D;
+  private mazeFlashCanvas: HTMLCanvasElement;
+  private overlay: DomOverlay;
+  private maze: MazeDefinition = CLASSIC_MAZE;
   private pelletState: boolean[][] = [];
+  /** Pellet buffer needs redrawing (batched until the next frame) */
+  private pelletsDirty = false;
   private powerPelletVisible = true;
   private powerPelletTimer = 0;
+  private mazeFlashing = false;
+  private mazeFlashTimer = 0;
+  private readyTextVisible = false;
+  private gameOverTextVisible = false;
 
-  constructor(canvasId: string) {
+  /**
+   * @param canvasId - ID of the canvas element to render to
+   * @param random - Cosmetic random stream for the overlays
+   */
+  constructor(canvasId: string, random: RandomSource = new Random()) {
     const canvas = document.getElementById(canvasId) as HTMLCanvasElement;
     if (!canvas) {
       throw new Error(`Canvas element with id "${canvasId}" not found`);
     }
 
     this.canvas = canvas;
-    this.canvas.width = CANVAS_WIDTH;
-    this.canvas.height = CANVAS_HEIGHT;
 
     const ctx = this.canvas.getContext('2d');
     if (!ctx) {
@@ -45,30 +68,55 @@ export class Renderer {
 
     // Create offscreen canvas for pellets
     this.pelletsCanvas = document.createElement('canvas');
-    this.pelletsCanvas.width = CANVAS_WIDTH;
-    this.pelletsCanvas.height = CANVAS_HEIGHT;
     this.pelletsCtx = this.pelletsCanvas.getContext('2d')!;
 
     // Create offscreen canvas for maze
     this.mazeCanvas = document.createElement('canvas');
-    this.mazeCanvas.width = CANVAS_WIDTH;
-    this.mazeCanvas.height = CANVAS_HEIGHT;
     this.mazeCtx = this.mazeCanvas.getContext('2d')!;
 
+    // White copy of the maze for the level complete flash
+    this.mazeFlashCanvas = document.createElement('canvas');
+
+    this.overlay = new DomOverlay(canvas, random);
+
+    this.buildMaze();
+  }
+
+  /**
+   * Size the canvases to the maze and redraw its walls and pellets
+   */
+  private buildMaze(): void {
+    const width = this.maze.width * SCALED_TILE;
+    const height = this.maze.height * SCALED_TILE;
+    for (const canvas of [this.canvas, this.pelletsCanvas, this.mazeCanvas, this.mazeFlashCanvas]) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+
     this.initPelletState();
-    this.renderMazeToBuffer();
+    this.renderMazeToBuffer(this.mazeCtx, Colors.MAZE_WALL);
+    this.renderMazeToBuffer(this.mazeFlashCanvas.getContext('2d')!, '#fff');
     this.renderPelletsToBuffer();
   }
 
+  /**
+   * Switch to another maze layout (a no-op if it is already shown)
+   */
+  setMaze(maze: MazeDefinition): void {
+    if (maze === this.maze) return;
+    this.maze = maze;
+    this.buildMaze();
+  }
+
   /**
    * Initialize pellet state tracking
    */
   private initPelletState(): void {
     this.pelletState = [];
-    for (let row = 0; row < GRID_HEIGHT; row++) {
+    for (let row = 0; row < this.maze.height; row++) {
       this.pelletState[row] = [];
-      for (let col = 0; col < GRID_WIDTH; col++) {
-        const tile = MAZE_DATA[row]?.[col];
+      for (let col = 0; col < this.maze.width; col++) {
+        const tile = this.maze.grid[row]?.[col];
         this.pelletState[row][col] = tile === TileType.PELLET || tile === TileType.POWER_PELLET;
       }
     }
@@ -77,16 +125,15 @@ export class Renderer {
   /**
    * Render maze walls to buffer
    */
-  private renderMazeToBuffer(): void {
-    const ctx = this.mazeCtx;
-    ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  private renderMazeToBuffer(ctx: CanvasRenderingContext2D, wallColor: string): void {
+    ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
 
     // Draw maze walls with neon glow effect
-    for (let row = 0; row < GRID_HEIGHT; row++) {
-      for (let col = 0; col < GRID_WIDTH; col++) {
-        const tile = MAZE_DATA[row]?.[col];
+    for (let row = 0; row < this.maze.height; row++) {
+      for (let col = 0; col < this.maze.width; col++) {
+        const tile = this.maze.grid[row]?.[col];
         if (tile === TileType.WALL) {
-          this.renderWallTile(ctx, col, row);
+          this.renderWallTile(ctx, col, row, wallColor);
         } else if (tile === TileType.GHOST_DOOR) {
           this.renderGhostDoor(ctx, col, row);
         }
@@ -97,7 +144,7 @@ export class Renderer {
   /**
    * Render a wall tile with proper connections
    */
-  private renderWallTile(ctx: CanvasRenderingContext2D, col: number, row: number): void {
+  private renderWallTile(ctx: CanvasRenderingContext2D, col: number, row: number, color: string): void {
     const x = col * SCALED_TILE;
     const y = row * SCALED_TILE;
 
@@ -107,7 +154,7 @@ export class Renderer {
     const hasLeft = this.isWall(col - 1, row);
     const hasRight = this.isWall(col + 1, row);
 
-    ctx.strokeStyle = Colors.MAZE_WALL;
+    ctx.strokeStyle = color;
     ctx.lineWidth = 2;
     ctx.lineCap = 'round';
 
@@ -159,10 +206,10 @@ export class Renderer {
    * Check if tile is a wall
    */
   private isWall(col: number, row: number): boolean {
-    if (col < 0 || col >= GRID_WIDTH || row < 0 || row >= GRID_HEIGHT) {
+    if (col < 0 || col >= this.maze.width || row < 0 || row >= this.maze.height) {
       return false;
     }
-    return MAZE_DATA[row][col] === TileType.WALL;
+    return this.maze.grid[row][col] === TileType.WALL;
   }
 
   /**
@@ -181,13 +228,13 @@ export class Renderer {
    */
   private renderPelletsToBuffer(): void {
     const ctx = this.pelletsCtx;
-    ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.clearRect(0, 0, this.pelletsCanvas.width, this.pelletsCanvas.height);
 
-    for (let row = 0; row < GRID_HEIGHT; row++) {
-      for (let col = 0; col < GRID_WIDTH; col++) {
+    for (let row = 0; row < this.maze.height; row++) {
+      for (let col = 0; col < this.maze.width; col++) {
         if (!this.pelletState[row][col]) continue;
 
-        const tile = MAZE_DATA[row]?.[col];
+        const tile = this.maze.grid[row]?.[col];
         const x = col * SCALED_TILE + SCALED_TILE / 2;
         const y = row * SCALED_TILE + SCALED_TILE / 2;
 
@@ -226,7 +273,7 @@ export class Renderer {
   eatPellet(col: number, row: number): void {
     if (this.pelletState[row]?.[col]) {
       this.pelletState[row][col] = false;
-      this.renderPelletsToBuffer();
+      this.pelletsDirty = true;
     }
   }
 
@@ -235,7 +282,7 @@ export class Renderer {
    */
   resetPellets(): void {
     this.initPelletState();
-    this.renderPelletsToBuffer();
+    this.pelletsDirty = true;
   }
 
   /**
@@ -254,30 +301,69 @@ export class Renderer {
    */
   clear(): void {
     this.ctx.fillStyle = '#000';
-    this.ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+  }
+
+  /**
+   * Set the current level (Canvas 2D keeps the classic blue maze on
+   * every level - the themes are WebGL only)
+   */
+  setLevel(_level: number): void {}
+
+  /**
+   * Enable/disable maze flashing (for level complete)
+   */
+  setMazeFlashing(enabled: boolean): void {
+    this.mazeFlashing = enabled;
+    if (enabled) {
+      this.mazeFlashTimer = 0;
+    }
+  }
+
+  /**
+   * Update maze flash timer (call each frame during level complete)
+   */
+  updateMazeFlash(): void {
+    if (this.mazeFlashing) {
+      this.mazeFlashTimer++;
+    }
+  }
+
+  /**
+   * Trigger maze flash animation on level complete
+   */
+  flashMaze(): void {
+    this.overlay.flashMaze();
   }
 
   /**
-   * Render the maze
+   * Render the maze (alternating blue and white while flashing)
    */
   renderMaze(): void {
-    this.ctx.drawImage(this.mazeCanvas, 0, 0);
+    const white = this.mazeFlashing && Math.floor(this.mazeFlashTimer / MAZE_FLASH_PHASE) % 2 === 1;
+    this.ctx.drawImage(white ? this.mazeFlashCanvas : this.mazeCanvas, 0, 0);
   }
 
   /**
    * Render pellets
    */
   renderPellets(): void {
+    // A whole-grid resync eats pellets one by one - redraw once per frame
+    if (this.pelletsDirty) {
+      this.pelletsDirty = false;
+      this.renderPelletsToBuffer();
+    }
+
     // Draw from buffer but handle power pellet blinking
     if (this.powerPelletVisible) {
       this.ctx.drawImage(this.pelletsCanvas, 0, 0);
     } else {
       // Draw only regular pellets when power pellets are hidden
-      for (let row = 0; row < GRID_HEIGHT; row++) {
-        for (let col = 0; col < GRID_WIDTH; col++) {
+      for (let row = 0; row < this.maze.height; row++) {
+        for (let col = 0; col < this.maze.width; col++) {
           if (!this.pelletState[row][col]) continue;
 
-          const tile = MAZE_DATA[row]?.[col];
+          const tile = this.maze.grid[row]?.[col];
           if (tile === TileType.PELLET) {
             const x = col * SCALED_TILE + SCALED_TILE / 2;
             const y = row * SCALED_TILE + SCALED_TILE / 2;
@@ -297,13 +383,26 @@ export class Renderer {
     direction: number,
     animationFrame: number,
     isDying: boolean = false,
-    deathFrame: number = 0
+    deathFrame: number = 0,
+    isVictory: boolean = false,
+    victoryRotation: number = 0,
+    victoryJump: number = 0
   ): void {
     const ctx = this.ctx;
     const centerX = x;
     const centerY = y;
     const radius = SCALED_TILE / 2 - 1;
 
+    if (isVictory) {
+      // Victory animation - spin in place while jumping
+      ctx.save();
+      ctx.translate(x, y - victoryJump);
+      ctx.rotate(victoryRotation);
+      this.renderPacMan(0, 0, Direction.RIGHT, animationFrame * 2);
+      ctx.restore();
+      return;
+    }
+
     ctx.fillStyle = Colors.PACMAN;
     ctx.beginPath();
 
@@ -380,7 +479,7 @@ export class Renderer {
     if (mode === GhostMode.FRIGHTENED) {
       bodyColor = frightenedFlash ? Colors.FRIGHTENED_FLASH : Colors.FRIGHTENED;
       eyeColor = frightenedFlash ? '#f00' : '#ffb8de';
-    } else if (mode === GhostMode.EATEN) {
+    } else if (mode === GhostMode.EATEN || mode === GhostMode.ENTERING) {
       // Only draw eyes when eaten
       this.renderGhostEyes(ctx, x, y, direction);
       return;
@@ -538,33 +637,73 @@ export class Renderer {
   }
 
   /**
-   * Render "READY!" text
+   * Render current level display
+   */
+  renderLevel(level: number): void {
+    this.overlay.renderLevel(level);
+  }
+
+  /**
+   * Render "READY!" text (redrawn every frame until cleared)
    */
   renderReadyText(): void {
-    this.ctx.fillStyle = Colors.READY_TEXT;
-    this.ctx.font = '14px "Press Start 2P", monospace';
-    this.ctx.textAlign = 'center';
-    this.ctx.fillText('READY!', CANVAS_WIDTH / 2, 17 * SCALED_TILE + SCALED_TILE / 2);
+    this.readyTextVisible = true;
+    this.renderCenterText('READY!', Colors.READY_TEXT);
+  }
+
+  /**
+   * Clear ready text
+   */
+  clearReadyText(): void {
+    this.readyTextVisible = false;
   }
 
   /**
-   * Render "GAME OVER" text
+   * Render "GAME OVER" text (redrawn every frame until cleared)
    */
   renderGameOverText(): void {
-    this.ctx.fillStyle = Colors.GAME_OVER_TEXT;
+    this.gameOverTextVisible = true;
+    this.renderCenterText('GAME  OVER', Colors.GAME_OVER_TEXT);
+  }
+
+  /**
+   * Clear game over text
+   */
+  clearGameOverText(): void {
+    this.gameOverTextVisible = false;
+  }
+
+  /**
+   * Draw a message below the ghost house (on the fruit row)
+   */
+  private renderCenterText(text: string, color: string): void {
+    this.ctx.fillStyle = color;
     this.ctx.font = '14px "Press Start 2P", monospace';
     this.ctx.textAlign = 'center';
-    this.ctx.fillText('GAME  OVER', CANVAS_WIDTH / 2, 17 * SCALED_TILE + SCALED_TILE / 2);
+    this.ctx.fillText(text, this.canvas.width / 2, this.maze.fruitSpawn.row * SCALED_TILE + SCALED_TILE / 2);
+  }
+
+  /**
+   * Render epic 2025 victory screen
+   */
+  renderGameWonText(score?: number): void {
+    this.overlay.renderGameWonText(score);
+  }
+
+  /**
+   * Clear game won text
+   */
+  clearGameWonText(): void {
+    this.overlay.clearGameWonText();
   }
 
   /**
    * Render fruit
    */
-  renderFruit(x: number, y: number, type: number): void {
+  renderFruit(x: number, y: number, color: string, type: number): void {
     const ctx = this.ctx;
-    const fruitColors = ['#f00', '#f00', '#ffa500', '#f00', '#0f0', '#ff0', '#ff0', '#0ff'];
 
-    ctx.fillStyle = fruitColors[type] || '#f00';
+    ctx.fillStyle = color;
     ctx.beginPath();
     ctx.arc(x, y, 6, 0, Math.PI * 2);
     ctx.fill();
@@ -580,10 +719,125 @@ export class Renderer {
    * Render ghost score popup
    */
   renderGhostScore(x: number, y: number, score: number): void {
-    this.ctx.fillStyle = '#0ff';
-    this.ctx.font = '8px "Press Start 2P", monospace';
-    this.ctx.textAlign = 'center';
-    this.ctx.fillText(score.toString(), x, y);
+    this.overlay.renderGhostScore(x, y, score);
+  }
+
+  /**
+   * Render fruit score popup
+   */
+  renderFruitScore(x: number, y: number, score: number): void {
+    this.overlay.renderFruitScore(x, y, score);
+  }
+
+  /**
+   * Add fruit to history display
+   */
+  addFruitToHistory(fruitType: number): void {
+    this.overlay.addFruitToHistory(fruitType);
+  }
+
+  /**
+   * Clear fruit history (on new game)
+   */
+  clearFruitHistory(): void {
+    this.overlay.clearFruitHistory();
+  }
+
+  /**
+   * Flash high score when beaten
+   */
+  flashHighScore(isNew: boolean): void {
+    this.overlay.flashHighScore(isNew);
+  }
+
+  /**
+   * Render intermission screen with animated cutscene
+   */
+  renderIntermission(title: string, message: string, progress: number, sprites?: CutsceneSprite[]): void {
+    this.overlay.renderIntermission(title, message, progress, sprites);
+  }
+
+  /**
+   * Clear intermission screen
+   */
+  clearIntermission(): void {
+    this.overlay.clearIntermission();
+  }
+
+  /**
+   * Render the current attract mode page
+   */
+  renderAttractScreen(screen: AttractScreen): void {
+    this.overlay.renderAttractScreen(screen);
+  }
+
+  /**
+   * Clear the attract mode page
+   */
+  clearAttractScreen(): void {
+    this.overlay.clearAttractScreen();
+  }
+
+  /**
+   * Draw the ghost AI debug overlay
+   */
+  renderDebugOverlay(view: DebugView): void {
+    this.overlay.renderDebugOverlay(view);
+  }
+
+  /**
+   * Remove the ghost AI debug overlay
+   */
+  clearDebugOverlay(): void {
+    this.overlay.clearDebugOverlay();
+  }
+
+  /**
+   * Show the step debugger's inspector panel
+   */
+  renderInspector(sections: readonly InspectorSection[]): void {
+    this.overlay.renderInspector(sections);
+  }
+
+  /**
+   * Remove the step debugger's inspector panel
+   */
+  clearInspector(): void {
+    this.overlay.clearInspector();
+  }
+
+  /**
+   * Render particles from a ParticleSystem
+   *
+   * The render data is built for WebGL (two triangles per particle);
+   * each 6-vertex quad is drawn here as one filled square.
+   */
+  renderParticles(renderData: Pick<ParticleRenderData, 'positions' | 'colors'>): void {
+    const { positions, colors } = renderData;
+
+    for (let quad = 0; quad * 12 < positions.length; quad++) {
+      const p = quad * 12; // 6 vertices * (x, y)
+      const c = quad * 24; // 6 vertices * (r, g, b, a)
+      const left = positions[p];
+      const top = positions[p + 1];
+      const right = positions[p + 2];
+      const bottom = positions[p + 5];
+
+      this.ctx.fillStyle = `rgba(${colors[c] * 255}, ${colors[c + 1] * 255}, ${colors[c + 2] * 255}, ${colors[c + 3]})`;
+      this.ctx.fillRect(left, top, right - left, bottom - top);
+    }
+  }
+
+  /**
+   * Complete the frame - draw text overlays on top
+   */
+  present(): void {
+    if (this.readyTextVisible) {
+      this.renderCenterText('READY!', Colors.READY_TEXT);
+    }
+    if (this.gameOverTextVisible) {
+      this.renderCenterText('GAME  OVER', Colors.GAME_OVER_TEXT);
+    }
   }
 
   /**
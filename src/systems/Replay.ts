@@ -0,0 +1,315 @@
+/**
+ * Input Recording and Replay
+ *
+ * A game is fully determined by its seed (entry 12 of the diary) and the
+ * inputs fed to each tick, so a replay only needs to store those - not
+ * positions or snapshots. A long game fits in a few kilobytes.
+ *
+ * ## Format
+ *
+ * ```json
+ * {
+ *   "version": 1, "gameVersion": "1.0.0", "seed": 123, "highScore": 0,
+ *   "length": 5400,
+ *   "inputs": ["0L", "95U", "180R", "2400P", "2460P"],
+ *   "final": { "score": 2310, "state": "game_over", "level": 1 }
+ * }
+ * ```
+ *
+ * Each input entry is `<tick><codes>`: `U`/`D`/`L`/`R` queue a direction,
+ * `P` toggles pause, `S` presses start, `K` is the skip-level cheat.
+ * Directions are only stored when they change - the player re-sends the
+ * current one every tick, exactly like the browser shell does.
+ *
+ * ## Desync Detection
+ *
+ * `final` records how the game ended. Playing the inputs back into a fresh
+ * simulation must end the same way; if the score, state or level differ the
+ * replay is flagged as desynced (a rules change or a determinism bug).
+ *
+ * @module Replay
+ */
+
+import { GameSimulation, GameSnapshot, SimulationInputs } from '../GameSimulation';
+import { Direction, DirectionType, GameStateType } from '../constants';
+import { version as GAME_VERSION } from '../../package.json';
+
+/** Current replay format version */
+export const REPLAY_VERSION = 1;
+
+/** Slowest and fastest playback speeds */
+export const MIN_PLAYBACK_SPEED = 0.25;
+export const MAX_PLAYBACK_SPEED = 8;
+
+/**
+ * How a recorded game ended
+ */
+export interface ReplayOutcome {
+  score: number;
+  state: GameStateType;
+  level: number;
+}
+
+/**
+ * A recorded game
+ */
+export interface ReplayFile {
+  version: number;
+
+  /** package.json version of the game that recorded it */
+  gameVersion: string;
+
+  /** Gameplay seed the game was started with */
+  seed: number;
+
+  /** High score at the start (only affects newHighScore events) */
+  highScore: number;
+
+  /** Number of ticks recorded */
+  length: number;
+
+  /** Input changes, `<tick><codes>` */
+  inputs: string[];
+
+  /** How the game ended */
+  final: ReplayOutcome;
+}
+
+/**
+ * Result of checking a played-back game against its recording
+ */
+export interface ReplayVerification {
+  desynced: boolean;
+  expected: ReplayOutcome;
+  actual: ReplayOutcome;
+}
+
+/** Direction to single-letter code */
+const DIRECTION_CODES: Record<number, string> = {
+  [Direction.UP]: 'U',
+  [Direction.DOWN]: 'D',
+  [Direction.LEFT]: 'L',
+  [Direction.RIGHT]: 'R',
+};
+
+/** Single-letter code to direction */
+const CODE_DIRECTIONS: Record<string, DirectionType> = {
+  U: Direction.UP,
+  D: Direction.DOWN,
+  L: Direction.LEFT,
+  R: Direction.RIGHT,
+};
+
+/** Pattern of one input entry */
+const ENTRY_PATTERN = /^(\d+)([UDLRPSK]+)$/;
+
+/**
+ * Records the inputs of one game, tick by tick
+ *
+ * Call `record()` with the inputs of every tick, right before they are
+ * passed to `GameSimulation.step()`, starting with the first tick after
+ * `startNewGame(seed)`.
+ */
+export class ReplayRecorder {
+  /** Seed the game was started with */
+  private readonly seed: number;
+
+  /** High score at the start */
+  private readonly highScore: number;
+
+  /** Encoded input changes */
+  private inputs: string[] = [];
+
+  /** Ticks recorded so far */
+  private tick: number = 0;
+
+  /** Last direction written (only changes are stored) */
+  private lastDirection: DirectionType = Direction.NONE;
+
+  constructor(seed: number, highScore: number = 0) {
+    this.seed = seed;
+    this.highScore = highScore;
+  }
+
+  /**
+   * Record one tick's inputs
+   */
+  record(inputs: SimulationInputs): void {
+    let codes = '';
+
+    const direction = inputs.direction;
+    if (direction !== undefined && direction !== Direction.NONE && direction !== this.lastDirection) {
+      codes += DIRECTION_CODES[direction];
+      this.lastDirection = direction;
+    }
+    if (inputs.pause) codes += 'P';
+    if (inputs.start) codes += 'S';
+    if (inputs.skipLevel) codes += 'K';
+
+    if (codes) {
+      this.inputs.push(`${this.tick}${codes}`);
+    }
+    this.tick++;
+  }
+
+  /**
+   * Number of ticks recorded so far
+   */
+  getLength(): number {
+    return this.tick;
+  }
+
+  /**
+   * Close the recording with the game's final snapshot
+   */
+  finish(snapshot: GameSnapshot): ReplayFile {
+    return {
+      version: REPLAY_VERSION,
+      gameVersion: GAME_VERSION,
+      seed: this.seed,
+      highScore: this.highScore,
+      length: this.tick,
+      inputs: [...this.inputs],
+      final: { score: snapshot.score, state: snapshot.state, level: snapshot.level },
+    };
+  }
+}
+
+/**
+ * Feeds a recording back one tick at a time
+ */
+export class ReplayPlayer {
+  /** Recording being played */
+  public readonly replay: ReplayFile;
+
+  /** Decoded inputs by tick */
+  private inputsByTick: Map<number, string> = new Map();
+
+  /** Next tick to play */
+  private tick: number = 0;
+
+  /** Sticky direction, re-sent every tick */
+  private direction: DirectionType | undefined = undefined;
+
+  constructor(replay: ReplayFile) {
+    this.replay = replay;
+
+    for (const entry of replay.inputs) {
+      const match = ENTRY_PATTERN.exec(entry);
+      if (!match) {
+        throw new Error(`Invalid replay input '${entry}'`);
+      }
+      this.inputsByTick.set(Number(match[1]), match[2]);
+    }
+  }
+
+  /**
+   * Inputs for the next tick (advances the player)
+   */
+  nextInputs(): SimulationInputs {
+    const codes = this.inputsByTick.get(this.tick) ?? '';
+    this.tick++;
+
+    const inputs: SimulationInputs = {};
+    for (const code of codes) {
+      if (code in CODE_DIRECTIONS) this.direction = CODE_DIRECTIONS[code];
+      if (code === 'P') inputs.pause = true;
+      if (code === 'S') inputs.start = true;
+      if (code === 'K') inputs.skipLevel = true;
+    }
+    if (this.direction !== undefined) {
+      inputs.direction = this.direction;
+    }
+
+    return inputs;
+  }
+
+  /**
+   * Ticks played so far
+   */
+  getTick(): number {
+    return this.tick;
+  }
+
+  /**
+   * Have all recorded ticks been played?
+   */
+  isFinished(): boolean {
+    return this.tick >= this.replay.length;
+  }
+}
+
+/**
+ * Compare a played-back game's snapshot with the recorded outcome
+ */
+export function verifyReplay(replay: ReplayFile, snapshot: GameSnapshot): ReplayVerification {
+  const actual: ReplayOutcome = { score: snapshot.score, state: snapshot.state, level: snapshot.level };
+  const expected = replay.final;
+
+  return {
+    desynced:
+      actual.score !== expected.score ||
+      actual.state !== expected.state ||
+      actual.level !== expected.level,
+    expected: { ...expected },
+    actual,
+  };
+}
+
+/**
+ * Play a replay headlessly, as fast as possible, and verify it
+ */
+export function runReplay(replay: ReplayFile): ReplayVerification {
+  const sim = new GameSimulation({ seed: replay.seed, highScore: replay.highScore });
+  const player = new ReplayPlayer(replay);
+
+  sim.startNewGame(replay.seed);
+  while (!player.isFinished()) {
+    sim.step(player.nextInputs());
+  }
+
+  return verifyReplay(replay, sim.getSnapshot());
+}
+
+/**
+ * Serialize a replay to a JSON string
+ */
+export function serializeReplay(replay: ReplayFile): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse a JSON string produced by serializeReplay()
+ *
+ * @throws Error if the text is not a replay or has another format version
+ */
+export function parseReplay(json: string): ReplayFile {
+  let replay: Partial<ReplayFile>;
+  try {
+    replay = JSON.parse(json);
+  } catch {
+    throw new Error('Replay is not valid JSON');
+  }
+
+  if (typeof replay !== 'object' || replay === null) {
+    throw new Error('Replay is not an object');
+  }
+
+  if (replay.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version ${String(replay.version)} (expected ${REPLAY_VERSION})`);
+  }
+
+  if (typeof replay.seed !== 'number' || typeof replay.length !== 'number' ||
+      !Array.isArray(replay.inputs) || typeof replay.final !== 'object' || replay.final === null) {
+    throw new Error('Replay is missing its seed, length, inputs or outcome');
+  }
+
+  return replay as ReplayFile;
+}
+
+/**
+ * Clamp a playback speed to the supported range
+ */
+export function clampPlaybackSpeed(speed: number): number {
+  return Math.min(MAX_PLAYBACK_SPEED, Math.max(MIN_PLAYBACK_SPEED, speed));
+}
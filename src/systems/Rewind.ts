@@ -0,0 +1,135 @@
+/**
+ * Practice Rewind Buffer
+ *
+ * Keeps the last few seconds of play as full save states (the same data
+ * Save & Quit writes) in a fixed-size ring buffer. Holding the rewind key
+ * loads them back one at a time, newest first, so a player drilling ghost
+ * patterns can undo a mistake instead of restarting the game.
+ *
+ * ```
+ * capacity = 180, interval = 10 ticks  →  the last 30 seconds
+ *
+ *   [ s0 s1 s2 ... s179 ]   ← oldest entry is overwritten when full
+ *                   ↑ newest (rewind() pops this one first)
+ * ```
+ *
+ * Because each entry is a complete `SimulationSaveData`, loading one
+ * restores positions, pellets, ghost modes, score, fruit and the RNG
+ * together; `GameSimulation.load()` raises the events that resync the
+ * renderer.
+ *
+ * @module Rewind
+ */
+
+import { GameSimulation, SimulationSaveData } from '../GameSimulation';
+import { GameState, TARGET_FPS } from '../constants';
+
+/** Ticks between captured states */
+export const REWIND_INTERVAL = 10;
+
+/** Seconds of play kept */
+export const REWIND_SECONDS = 30;
+
+/**
+ * Ring buffer of recent save states
+ */
+export class RewindBuffer {
+  /** Ticks between captures */
+  private readonly interval: number;
+
+  /** Captured states (slots are reused once full) */
+  private entries: SimulationSaveData[] = [];
+
+  /** Maximum number of entries */
+  private readonly capacity: number;
+
+  /** Slot the next capture goes into */
+  private head: number = 0;
+
+  /** Number of entries currently held */
+  private count: number = 0;
+
+  /** Ticks of play since the last capture */
+  private ticksSinceCapture: number = 0;
+
+  /**
+   * @param interval - Ticks between captures
+   * @param seconds - How much play to keep
+   */
+  constructor(interval: number = REWIND_INTERVAL, seconds: number = REWIND_SECONDS) {
+    this.interval = interval;
+    this.capacity = Math.max(1, Math.floor((seconds * TARGET_FPS) / interval));
+  }
+
+  /**
+   * Count one tick and capture the game every `interval` ticks of play
+   *
+   * Call after each `step()`. Only PLAYING ticks count, so READY pauses,
+   * death animations and cutscenes do not use up the buffer.
+   */
+  record(sim: GameSimulation): void {
+    if (sim.getState() !== GameState.PLAYING) return;
+
+    this.ticksSinceCapture++;
+    if (this.ticksSinceCapture < this.interval) return;
+
+    this.ticksSinceCapture = 0;
+    this.entries[this.head] = sim.save();
+    this.head = (this.head + 1) % this.capacity;
+    this.count = Math.min(this.count + 1, this.capacity);
+  }
+
+  /**
+   * Can this game be rewound now?
+   *
+   * Only during play, or the death animation being undone. A paused or
+   * finished game (and any cutscene) stays where it is rather than
+   * jumping back into PLAYING.
+   */
+  inPlay(sim: GameSimulation): boolean {
+    const state = sim.getState();
+    return state === GameState.PLAYING || state === GameState.DYING;
+  }
+
+  /**
+   * Step back to the newest captured state
+   *
+   * @returns False if there was nothing left to rewind to, or the game is
+   *          not in play (see `inPlay()`)
+   */
+  rewind(sim: GameSimulation): boolean {
+    if (!this.inPlay(sim) || this.count === 0) return false;
+
+    this.head = (this.head - 1 + this.capacity) % this.capacity;
+    this.count--;
+    sim.load(this.entries[this.head]);
+
+    // Resume capturing a full interval after the restored point
+    this.ticksSinceCapture = 0;
+    return true;
+  }
+
+  /**
+   * Forget everything (new game, loaded save, replay)
+   */
+  clear(): void {
+    this.entries = [];
+    this.head = 0;
+    this.count = 0;
+    this.ticksSinceCapture = 0;
+  }
+
+  /**
+   * Number of states that can be rewound to
+   */
+  get length(): number {
+    return this.count;
+  }
+
+  /**
+   * Maximum number of states kept
+   */
+  getCapacity(): number {
+    return this.capacity;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Save Game File Format
+ *
+ * Wraps `GameSimulation.save()` data in a small versioned JSON envelope:
+ *
+ * ```json
+ * { "version": 1, "savedAt": "2026-10-19T12:00:00.000Z", "game": { ... } }
+ * ```
+ *
+ * The version is bumped whenever `SimulationSaveData` changes shape. Older
+ * or newer files are rejected rather than half-loaded - a resumed game
+ * that behaves differently from the one that was saved is worse than no
+ * save at all.
+ *
+ * @module SaveGame
+ */
+
+import { SimulationSaveData } from '../GameSimulation';
+
+/** Current save format version */
+export const SAVE_VERSION = 2;
+
+/**
+ * Versioned save file
+ */
+export interface SaveFile {
+  version: number;
+
+  /** ISO timestamp (informational only) */
+  savedAt: string;
+
+  game: SimulationSaveData;
+}
+
+/** Fields every saved game must have */
+const REQUIRED_FIELDS: readonly (keyof SimulationSaveData)[] = [
+  'state',
+  'score',
+  'level',
+  'collision',
+  'pacman',
+  'ghosts',
+  'random',
+  'scheduled',
+  'ghostHouse',
+  'intermission',
+];
+
+/**
+ * Serialize saved game data to a JSON string
+ */
+export function serializeSave(game: SimulationSaveData, savedAt: Date = new Date()): string {
+  const file: SaveFile = {
+    version: SAVE_VERSION,
+    savedAt: savedAt.toISOString(),
+    game,
+  };
+  return JSON.stringify(file);
+}
+
+/**
+ * Parse a JSON string produced by serializeSave()
+ *
+ * @throws Error if the text is not a save file or has another version
+ */
+export function parseSave(json: string): SimulationSaveData {
+  let file: Partial<SaveFile>;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error('Save file is not valid JSON');
+  }
+
+  if (typeof file !== 'object' || file === null) {
+    throw new Error('Save file is not an object');
+  }
+
+  if (file.version !== SAVE_VERSION) {
+    throw new Error(`Unsupported save version ${String(file.version)} (expected ${SAVE_VERSION})`);
+  }
+
+  const game = file.game;
+  if (typeof game !== 'object' || game === null) {
+    throw new Error('Save file has no game data');
+  }
+
+  for (const field of REQUIRED_FIELDS) {
+    if (!(field in game)) {
+      throw new Error(`Save file is missing '${field}'`);
+    }
+  }
+
+  return game;
+}
@@ -0,0 +1,154 @@
+/**
+ * Frame Scheduler
+ *
+ * Delayed gameplay actions measured in simulation ticks instead of
+ * milliseconds. `setTimeout` keeps running while the game is paused, knows
+ * nothing about the fixed timestep, and fires at a different point in the
+ * tick on every run - so it can never be replayed.
+ *
+ * The scheduler only advances when its owner calls `update()`, once per
+ * gameplay tick. If the owner stops calling it (PAUSED), every pending
+ * action freezes. `clear()` drops everything at once (death, level end).
+ *
+ * ## Usage
+ *
+ * ```ts
+ * const scheduler = new FrameScheduler();
+ * const cancel = scheduler.after(120, () => pinky.exitHouse());
+ *
+ * // Each tick
+ * scheduler.update();
+ *
+ * // Changed our mind
+ * cancel();
+ * ```
+ *
+ * ## Saving
+ *
+ * Closures cannot be serialized, so an action that must survive a save
+ * is given a key. `save()` records keys and remaining ticks; `load()` asks
+ * the owner to turn each key back into an action.
+ *
+ * @module Scheduler
+ */
+
+/**
+ * A pending delayed action
+ */
+interface ScheduledAction {
+  /** Ticks left before it runs */
+  remaining: number;
+
+  /** What to run */
+  action: () => void;
+
+  /** Name the owner can rebuild the action from after a load */
+  key: string;
+}
+
+/**
+ * Serializable pending action
+ */
+export interface ScheduledActionSaveData {
+  key: string;
+  remaining: number;
+}
+
+/**
+ * Tick-driven timer queue
+ */
+export class FrameScheduler {
+  /** Pending actions, in the order they were scheduled */
+  private actions: ScheduledAction[] = [];
+
+  /** Bumped by clear() so due actions stop once one of them clears */
+  private generation: number = 0;
+
+  /**
+   * Run an action after a number of ticks
+   *
+   * A delay of 1 runs on the next `update()`; 0 or less is treated as 1.
+   *
+   * @param key - Name to rebuild the action from after a load (required
+   *              for `save()`)
+   * @returns Function that cancels the action if it has not run yet
+   */
+  after(frames: number, action: () => void, key: string = ''): () => void {
+    const scheduled: ScheduledAction = { remaining: Math.max(1, Math.ceil(frames)), action, key };
+    this.actions.push(scheduled);
+
+    return () => {
+      const index = this.actions.indexOf(scheduled);
+      if (index !== -1) {
+        this.actions.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Advance one tick and run every action that is now due
+   *
+   * Due actions run in the order they were scheduled. Actions scheduled
+   * while running wait for a later tick; if one calls `clear()`, the rest
+   * of this tick's due actions are dropped too.
+   */
+  update(): void {
+    const due: ScheduledAction[] = [];
+
+    for (const scheduled of this.actions) {
+      scheduled.remaining--;
+      if (scheduled.remaining <= 0) {
+        due.push(scheduled);
+      }
+    }
+
+    if (due.length === 0) return;
+
+    this.actions = this.actions.filter((scheduled) => scheduled.remaining > 0);
+
+    const generation = this.generation;
+    for (const scheduled of due) {
+      if (this.generation !== generation) break;
+      scheduled.action();
+    }
+  }
+
+  /**
+   * Cancel every pending action
+   */
+  clear(): void {
+    this.actions = [];
+    this.generation++;
+  }
+
+  /**
+   * Capture pending actions for a save
+   */
+  save(): ScheduledActionSaveData[] {
+    return this.actions.map(({ key, remaining }) => {
+      if (!key) {
+        throw new Error('Cannot save a scheduled action without a key');
+      }
+      return { key, remaining };
+    });
+  }
+
+  /**
+   * Replace pending actions with ones captured by save()
+   *
+   * @param resolve - Turns a saved key back into its action
+   */
+  load(data: ScheduledActionSaveData[], resolve: (key: string) => () => void): void {
+    this.clear();
+    for (const { key, remaining } of data) {
+      this.after(remaining, resolve(key), key);
+    }
+  }
+
+  /**
+   * Number of pending actions
+   */
+  get pending(): number {
+    return this.actions.length;
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Finite State Machine
+ *
+ * A small table-driven state machine. Which states may follow which is
+ * declared once, up front; everything else (timers, animations, cleanup)
+ * hangs off per-state hooks:
+ *
+ * ```ts
+ * const machine = new StateMachine('idle', {
+ *   idle: ['running'],
+ *   running: ['idle', 'done'],
+ *   done: [],
+ * }, {
+ *   running: {
+ *     enter: () => startTimer(),
+ *     exit: () => stopTimer(),
+ *     update: () => tickTimer(),
+ *   },
+ * });
+ *
+ * machine.transition('running'); // true - enter hook runs
+ * machine.transition('idle');    // true - exit hook runs
+ * machine.transition('done');    // false - not allowed from idle
+ * ```
+ *
+ * A transition runs `exit` on the old state, switches, runs `enter` on the
+ * new one, then notifies `onTransition`. Anything not in the table is
+ * rejected before any hook runs and reported to `onRejected`.
+ *
+ * `reset()` jumps straight to a state without checks or hooks. It is for
+ * restoring a state from outside - a new game or a loaded save - not for
+ * normal play.
+ *
+ * @module StateMachine
+ */
+
+/**
+ * Optional behaviour attached to one state
+ */
+export interface StateHandlers<S extends string> {
+  /** Runs after the machine has switched into this state */
+  enter?(from: S): void;
+
+  /** Runs before the machine switches out of this state */
+  exit?(to: S): void;
+
+  /** Runs on every update() while this state is current */
+  update?(): void;
+}
+
+/**
+ * Callbacks for observing the machine
+ */
+export interface StateMachineListeners<S extends string> {
+  /** A transition completed */
+  onTransition?(to: S, from: S): void;
+
+  /** A transition was refused */
+  onRejected?(to: S, from: S): void;
+}
+
+/**
+ * Table-driven finite state machine
+ */
+export class StateMachine<S extends string> {
+  /** Current state */
+  private current: S;
+
+  /** Allowed next states for each state */
+  private readonly transitions: Readonly<Record<S, readonly S[]>>;
+
+  /** Enter/exit/update hooks per state */
+  private readonly handlers: Partial<Record<S, StateHandlers<S>>>;
+
+  /** Transition observers */
+  private readonly listeners: StateMachineListeners<S>;
+
+  /**
+   * @param initial - Starting state (its enter hook does not run)
+   * @param transitions - Allowed next states for every state
+   * @param handlers - Hooks for the states that need them
+   * @param listeners - Transition observers
+   */
+  constructor(
+    initial: S,
+    transitions: Readonly<Record<S, readonly S[]>>,
+    handlers: Partial<Record<S, StateHandlers<S>>> = {},
+    listeners: StateMachineListeners<S> = {}
+  ) {
+    this.current = initial;
+    this.transitions = transitions;
+    this.handlers = handlers;
+    this.listeners = listeners;
+  }
+
+  /**
+   * Current state
+   */
+  get state(): S {
+    return this.current;
+  }
+
+  /**
+   * Is a transition from the current state allowed?
+   */
+  canTransition(to: S): boolean {
+    return this.transitions[this.current].includes(to);
+  }
+
+  /**
+   * Move to another state if the table allows it
+   *
+   * @returns False (and nothing changes) if the transition is not allowed
+   */
+  transition(to: S): boolean {
+    const from = this.current;
+
+    if (!this.canTransition(to)) {
+      this.listeners.onRejected?.(to, from);
+      return false;
+    }
+
+    this.handlers[from]?.exit?.(to);
+    this.current = to;
+    this.handlers[to]?.enter?.(from);
+    this.listeners.onTransition?.(to, from);
+    return true;
+  }
+
+  /**
+   * Jump to a state without checking the table or running hooks
+   */
+  reset(state: S): void {
+    this.current = state;
+  }
+
+  /**
+   * Run the current state's update hook
+   */
+  update(): void {
+    this.handlers[this.current]?.update?.();
+  }
+}
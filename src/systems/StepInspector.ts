@@ -0,0 +1,94 @@
+/**
+ * Step Debugger Inspector
+ *
+ * The panel shown while the step debugger (F4) has the game frozen. Each
+ * press of `.` runs exactly one fixed tick, and the panel lists what that
+ * tick left behind:
+ *
+ * - Pac-Man's position, tile, direction and queued direction
+ * - each ghost's mode, target tile and speed
+ * - the scatter/chase phase, its timer, the frightened timer and pellets
+ * - the collisions handled in the tick
+ *
+ * Cornering and collisions are decided within a single tick, so this is
+ * where to look when one goes wrong. Like the debug overlay, the panel is
+ * built from a snapshot as plain text and the renderers only draw it.
+ *
+ * @module StepInspector
+ */
+
+import type { CollisionSnapshot, GameSnapshot } from '../GameSimulation';
+import { Direction, DirectionType } from '../constants';
+import { Position, TilePosition } from '../types';
+
+/**
+ * A titled block of lines in the inspector panel
+ */
+export interface InspectorSection {
+  readonly title: string;
+  readonly lines: readonly string[];
+}
+
+/** Direction names for display */
+const DIRECTION_NAMES: Record<DirectionType, string> = {
+  [Direction.NONE]: 'NONE',
+  [Direction.UP]: 'UP',
+  [Direction.DOWN]: 'DOWN',
+  [Direction.LEFT]: 'LEFT',
+  [Direction.RIGHT]: 'RIGHT',
+};
+
+/**
+ * Describe a snapshot for the inspector panel
+ */
+export function buildInspector(snapshot: GameSnapshot): InspectorSection[] {
+  const { pacman } = snapshot;
+
+  return [
+    {
+      title: `TICK ${snapshot.tick}`,
+      lines: [`${snapshot.state.toUpperCase()} (${snapshot.stateTimer})  LEVEL ${snapshot.level}`],
+    },
+    {
+      title: 'PAC-MAN',
+      lines: [
+        `pos ${position(pacman.position)}  tile ${tile(pacman.tile)}`,
+        `dir ${DIRECTION_NAMES[pacman.direction]}  queued ${DIRECTION_NAMES[pacman.nextDirection]}`,
+      ],
+    },
+    {
+      title: 'GHOSTS',
+      lines: snapshot.ghosts.map((ghost) =>
+        `${ghost.name.padEnd(6)} ${ghost.mode.toUpperCase().padEnd(10)} ` +
+        `target ${tile(ghost.targetTile)}  speed ${ghost.speed.toFixed(3)}`
+      ),
+    },
+    {
+      title: 'TIMERS',
+      lines: [
+        `mode ${snapshot.globalGhostMode.toUpperCase()}  modeIndex ${snapshot.modeIndex}  modeTimer ${snapshot.modeTimer}`,
+        `frightenedTimer ${snapshot.frightenedTimer}  pelletsEaten ${snapshot.pelletsEaten}`,
+      ],
+    },
+    {
+      title: 'COLLISIONS',
+      lines: snapshot.collisions.length > 0 ? snapshot.collisions.map(collision) : ['none'],
+    },
+  ];
+}
+
+function collision(result: CollisionSnapshot): string {
+  const parts: string[] = [result.type];
+  if (result.ghost) parts.push(result.ghost);
+  if (result.tile) parts.push(`at ${tile(result.tile)}`);
+  if (result.points > 0) parts.push(`+${result.points}`);
+  return parts.join(' ');
+}
+
+function position(pos: Position): string {
+  return `${pos.x.toFixed(2)},${pos.y.toFixed(2)}`;
+}
+
+function tile(t: TilePosition): string {
+  return `${t.col},${t.row}`;
+}
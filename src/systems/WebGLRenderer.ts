@@ -18,18 +18,21 @@
  */
 
 import {
-  CANVAS_WIDTH,
-  CANVAS_HEIGHT,
   SCALED_TILE,
-  GRID_WIDTH,
-  GRID_HEIGHT,
   Colors,
   Direction,
   GhostMode,
 } from '../constants';
-import { MAZE_DATA } from '../utils/MazeData';
+import { CLASSIC_MAZE, MazeDefinition } from '../utils/MazeData';
 import { TileType } from '../types';
 import { CutsceneSprite } from './Intermission';
+import type { AttractScreen } from './AttractMode';
+import type { DebugView } from './DebugOverlay';
+import type { InspectorSection } from './StepInspector';
+import { DomOverlay } from './DomOverlay';
+import { MazeTheme, ThemeColor, mazeWallShapes, themeForLevel } from './MazeTheme';
+import { IGameRenderer } from './GameRenderer';
+import { Random, RandomSource } from '../utils/Random';
 
 /**
  * Vertex shader source code
@@ -126,13 +129,19 @@ const FRAGMENT_SHADER_SOURCE = `
  * Provides efficient 2D rendering using WebGL.
  * Uses sprite batching to minimize draw calls.
  */
-export class WebGLRenderer {
+export class WebGLRenderer implements IGameRenderer {
+  /** Backend identifier */
+  readonly type = 'webgl' as const;
+
   /** The WebGL rendering context */
   private gl: WebGLRenderingContext;
 
   /** The canvas element we're rendering to */
   private canvas: HTMLCanvasElement;
 
+  /** HUD, popups and cutscenes drawn as HTML over the canvas */
+  private overlay: DomOverlay;
+
   /** Compiled and linked shader program */
   private program: WebGLProgram;
 
@@ -172,6 +181,9 @@ export class WebGLRenderer {
   /** Pre-rendered maze as a texture */
   private mazeTexture: WebGLTexture | null = null;
 
+  /** Maze layout being drawn */
+  private maze: MazeDefinition = CLASSIC_MAZE;
+
   /** Pre-rendered pellets state */
   private pelletState: boolean[][] = [];
 
@@ -190,50 +202,14 @@ export class WebGLRenderer {
   /** Timer for maze flashing animation */
   private mazeFlashTimer: number = 0;
 
-  /** Level theme configurations */
-  private readonly levelThemes = {
-    // Level 1: Classic Blue - The original arcade look
-    1: {
-      name: 'Classic Blue',
-      wallColor: [0.13, 0.13, 0.87, 1.0],      // #2121de
-      wallGlow: [0.15, 0.15, 0.55, 1.0],
-      wallHighlight: [0.4, 0.4, 1.0, 1.0],
-      floorColor1: [0.02, 0.02, 0.05, 1.0],
-      floorColor2: [0.04, 0.04, 0.08, 1.0],
-      doorColor: [1.0, 0.72, 0.87, 1.0],       // Pink
-      doorGlow: [0.6, 0.45, 0.55, 0.5],
-    },
-    // Level 2: Forest Green - Softer, more retro green
-    2: {
-      name: 'Forest Green',
-      wallColor: [0.15, 0.55, 0.35, 1.0],      // Softer forest green
-      wallGlow: [0.08, 0.3, 0.18, 1.0],
-      wallHighlight: [0.3, 0.7, 0.45, 1.0],
-      floorColor1: [0.01, 0.04, 0.02, 1.0],
-      floorColor2: [0.02, 0.06, 0.03, 1.0],
-      doorColor: [0.6, 0.8, 0.3, 1.0],         // Muted yellow-green
-      doorGlow: [0.3, 0.5, 0.15, 0.5],
-    },
-    // Level 3: Muted Red - Softer danger zone
-    3: {
-      name: 'Muted Red',
-      wallColor: [0.8, 0.27, 0.27, 1.0],       // Muted red (#cc4444)
-      wallGlow: [0.4, 0.13, 0.13, 1.0],
-      wallHighlight: [0.87, 0.47, 0.47, 1.0],
-      floorColor1: [0.04, 0.01, 0.01, 1.0],
-      floorColor2: [0.06, 0.02, 0.02, 1.0],
-      doorColor: [1.0, 0.6, 0.2, 1.0],         // Orange
-      doorGlow: [0.6, 0.3, 0.1, 0.5],
-    },
-  } as const;
-
   /**
    * Constructor - Initialize WebGL context and shaders
    *
    * @param canvasId - The ID of the canvas element to render to
+   * @param random - Cosmetic random stream for the overlays
    * @throws Error if canvas not found or WebGL not supported
    */
-  constructor(canvasId: string) {
+  constructor(canvasId: string, random: RandomSource = new Random()) {
     // Find the canvas element
     const canvas = document.getElementById(canvasId) as HTMLCanvasElement;
     if (!canvas) {
@@ -241,8 +217,7 @@ export class WebGLRenderer {
     }
 
     this.canvas = canvas;
-    this.canvas.width = CANVAS_WIDTH;
-    this.canvas.height = CANVAS_HEIGHT;
+    this.overlay = new DomOverlay(canvas, random);
 
     // Try to get WebGL context (try WebGL 1 for broader compatibility)
     const gl = this.canvas.getContext('webgl', {
@@ -277,13 +252,38 @@ export class WebGLRenderer {
     // Initialize OpenGL state
     this.initGL();
 
-    // Initialize pellet tracking
+    // Size the canvas to the maze and initialize pellet tracking
+    this.fitMaze();
+  }
+
+  /**
+   * Switch to another maze layout (a no-op if it is already shown)
+   */
+  setMaze(maze: MazeDefinition): void {
+    if (maze === this.maze) return;
+    this.maze = maze;
+    this.fitMaze();
+  }
+
+  /**
+   * Size the canvas, viewport and resolution uniform to the maze and
+   * reset pellet tracking
+   */
+  private fitMaze(): void {
+    const width = this.maze.width * SCALED_TILE;
+    const height = this.maze.height * SCALED_TILE;
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.gl.viewport(0, 0, width, height);
+    this.gl.uniform2f(this.resolutionLocation, width, height);
+
     this.initPelletState();
   }
 
   /**
    * Initialize WebGL state
-   * Sets up blending, clear color, and viewport
+   * Sets up blending, clear color and shader defaults (the viewport and
+   * resolution follow the maze, see fitMaze())
    */
   private initGL(): void {
     const gl = this.gl;
@@ -292,18 +292,12 @@ export class WebGLRenderer {
     gl.enable(gl.BLEND);
     gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
 
-    // Set the viewport to match canvas size
-    gl.viewport(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-
     // Set clear color to black
     gl.clearColor(0, 0, 0, 1);
 
     // Use our shader program
     gl.useProgram(this.program);
 
-    // Set the resolution uniform
-    gl.uniform2f(this.resolutionLocation, CANVAS_WIDTH, CANVAS_HEIGHT);
-
     // Don't use textures by default
     gl.uniform1i(this.useTextureLocation, 0);
   }
@@ -378,10 +372,10 @@ export class WebGLRenderer {
    */
   private initPelletState(): void {
     this.pelletState = [];
-    for (let row = 0; row < GRID_HEIGHT; row++) {
+    for (let row = 0; row < this.maze.height; row++) {
       this.pelletState[row] = [];
-      for (let col = 0; col < GRID_WIDTH; col++) {
-        const tile = MAZE_DATA[row]?.[col];
+      for (let col = 0; col < this.maze.width; col++) {
+        const tile = this.maze.grid[row]?.[col];
         // Pellets exist where maze data has pellet or power pellet tiles
         this.pelletState[row][col] = tile === TileType.PELLET || tile === TileType.POWER_PELLET;
       }
@@ -418,10 +412,9 @@ export class WebGLRenderer {
   /**
    * Get the current level's theme, cycling through themes for levels > 3
    */
-  private getTheme() {
+  private getTheme(): MazeTheme {
     // Cycle through themes: 1->1, 2->2, 3->3, 4->1, 5->2, 6->3, etc.
-    const themeIndex = ((this.currentLevel - 1) % 3) + 1;
-    return this.levelThemes[themeIndex as 1 | 2 | 3];
+    return themeForLevel(this.currentLevel);
   }
 
   /**
@@ -741,14 +734,7 @@ export class WebGLRenderer {
   renderMaze(): void {
     // Get theme colors for current level
     const theme = this.getTheme();
-    let wallColor: [number, number, number, number] = [
-      theme.wallColor[0],
-      theme.wallColor[1],
-      theme.wallColor[2],
-      theme.wallColor[3]
-    ];
-    const doorColor = [...theme.doorColor];
-    const lineWidth = 2;
+    let wallColor: ThemeColor = theme.wallColor;
 
     // Gentle pulse effect during level complete (no harsh flashing)
     if (this.mazeFlashing) {
@@ -763,66 +749,27 @@ export class WebGLRenderer {
       ];
     }
 
-    for (let row = 0; row < GRID_HEIGHT; row++) {
-      for (let col = 0; col < GRID_WIDTH; col++) {
-        const tile = MAZE_DATA[row]?.[col];
-
-        if (tile === TileType.WALL) {
-          const x = col * SCALED_TILE + SCALED_TILE / 2;
-          const y = row * SCALED_TILE + SCALED_TILE / 2;
-
-          const hasTop = this.isWall(col, row - 1);
-          const hasBottom = this.isWall(col, row + 1);
-          const hasLeft = this.isWall(col - 1, row);
-          const hasRight = this.isWall(col + 1, row);
-
-          // Draw solid wall connections
-          if (hasTop) {
-            this.addRect(x, y - SCALED_TILE / 4, lineWidth, SCALED_TILE / 2, wallColor);
-          }
-          if (hasBottom) {
-            this.addRect(x, y + SCALED_TILE / 4, lineWidth, SCALED_TILE / 2, wallColor);
-          }
-          if (hasLeft) {
-            this.addRect(x - SCALED_TILE / 4, y, SCALED_TILE / 2, lineWidth, wallColor);
-          }
-          if (hasRight) {
-            this.addRect(x + SCALED_TILE / 4, y, SCALED_TILE / 2, lineWidth, wallColor);
-          }
-
-          // Draw center point
-          this.addCircle(x, y, lineWidth, wallColor, 6);
-        } else if (tile === TileType.GHOST_DOOR) {
-          // Ghost house door (themed)
-          const x = col * SCALED_TILE + SCALED_TILE / 2;
-          const y = row * SCALED_TILE + SCALED_TILE / 2;
-          this.addRect(x, y, SCALED_TILE, 4, doorColor);
-        }
+    // The same shapes the maze editor previews with
+    for (const shape of mazeWallShapes(this.maze, wallColor, theme.doorColor)) {
+      if (shape.kind === 'rect') {
+        this.addRect(shape.x, shape.y, shape.width, shape.height, [...shape.color]);
+      } else {
+        this.addCircle(shape.x, shape.y, shape.radius, [...shape.color], shape.segments);
       }
     }
   }
 
-  /**
-   * Check if a tile position contains a wall
-   */
-  private isWall(col: number, row: number): boolean {
-    if (col < 0 || col >= GRID_WIDTH || row < 0 || row >= GRID_HEIGHT) {
-      return false;
-    }
-    return MAZE_DATA[row][col] === TileType.WALL;
-  }
-
   /**
    * Render all pellets with glow effect
    */
   renderPellets(): void {
     const pelletColor = this.hexToRGBA(Colors.PELLET);
 
-    for (let row = 0; row < GRID_HEIGHT; row++) {
-      for (let col = 0; col < GRID_WIDTH; col++) {
+    for (let row = 0; row < this.maze.height; row++) {
+      for (let col = 0; col < this.maze.width; col++) {
         if (!this.pelletState[row][col]) continue;
 
-        const tile = MAZE_DATA[row]?.[col];
+        const tile = this.maze.grid[row]?.[col];
         const x = col * SCALED_TILE + SCALED_TILE / 2;
         const y = row * SCALED_TILE + SCALED_TILE / 2;
 
@@ -955,7 +902,7 @@ export class WebGLRenderer {
       bodyColor = frightenedFlash
         ? this.hexToRGBA(Colors.FRIGHTENED_FLASH)
         : this.hexToRGBA(Colors.FRIGHTENED);
-    } else if (mode === GhostMode.EATEN) {
+    } else if (mode === GhostMode.EATEN || mode === GhostMode.ENTERING) {
       // Only draw eyes when eaten
       this.addGhostEyes(x, y, direction);
       return;
@@ -997,10 +944,7 @@ export class WebGLRenderer {
    * Render current level display
    */
   renderLevel(level: number): void {
-    const levelEl = document.getElementById('level');
-    if (levelEl) {
-      levelEl.textContent = level.toString();
-    }
+    this.overlay.renderLevel(level);
   }
 
   /**
@@ -1150,452 +1094,112 @@ export class WebGLRenderer {
    * Render epic 2025 victory screen
    */
   renderGameWonText(score?: number): void {
-    const existing = document.getElementById('victory-overlay');
-    if (!existing) {
-      const overlay = document.createElement('div');
-      overlay.id = 'victory-overlay';
-
-      // Radial rays background
-      const rays = document.createElement('div');
-      rays.className = 'victory-rays';
-      overlay.appendChild(rays);
-
-      // Expanding rings
-      for (let i = 0; i < 3; i++) {
-        const ring = document.createElement('div');
-        ring.className = 'victory-ring';
-        ring.style.animationDelay = `${i * 0.6}s`;
-        overlay.appendChild(ring);
-      }
-
-      // Fireworks
-      const fireworkColors = ['#ff0000', '#ffff00', '#00ff00', '#00ffff', '#ff00ff', '#ff8800'];
-      for (let i = 0; i < 8; i++) {
-        const firework = document.createElement('div');
-        firework.className = 'firework';
-        firework.style.color = fireworkColors[i % fireworkColors.length];
-        firework.style.left = `${10 + Math.random() * 80}%`;
-        firework.style.top = `${10 + Math.random() * 80}%`;
-        firework.style.animationDelay = `${Math.random() * 2}s`;
-        overlay.appendChild(firework);
-      }
-
-      // Confetti
-      const confettiColors = ['#ff0000', '#ffff00', '#00ff00', '#00ffff', '#ff00ff', '#ff8800', '#ffffff'];
-      for (let i = 0; i < 30; i++) {
-        const confetti = document.createElement('div');
-        confetti.className = 'confetti';
-        confetti.style.background = confettiColors[i % confettiColors.length];
-        confetti.style.left = `${Math.random() * 100}%`;
-        confetti.style.animationDelay = `${Math.random() * 3}s`;
-        confetti.style.animationDuration = `${2 + Math.random() * 2}s`;
-        const shapes = ['50%', '0%', '50% 0 50% 50%'];
-        confetti.style.borderRadius = shapes[Math.floor(Math.random() * shapes.length)];
-        overlay.appendChild(confetti);
-      }
-
-      // Victory title with animated letters
-      const title = document.createElement('div');
-      title.className = 'victory-title';
-      const titleText = 'VICTORY!';
-      titleText.split('').forEach((char, i) => {
-        const letter = document.createElement('span');
-        letter.className = 'letter';
-        letter.style.setProperty('--i', i.toString());
-        letter.textContent = char;
-        title.appendChild(letter);
-      });
-      overlay.appendChild(title);
-
-      // 2025 Edition badge
-      const badge = document.createElement('div');
-      badge.className = 'victory-badge';
-      badge.textContent = '2025 EDITION';
-      overlay.appendChild(badge);
-
-      // Pac-Man celebration
-      const pacman = document.createElement('div');
-      pacman.className = 'victory-pacman';
-      overlay.appendChild(pacman);
-
-      // Score display
-      if (score !== undefined) {
-        const scoreDisplay = document.createElement('div');
-        scoreDisplay.className = 'victory-score';
-        scoreDisplay.innerHTML = `
-          <span class="label">FINAL SCORE</span>
-          <span class="value">${score.toLocaleString()}</span>
-        `;
-        overlay.appendChild(scoreDisplay);
-      }
-
-      // Play again prompt
-      const prompt = document.createElement('div');
-      prompt.className = 'victory-prompt';
-      prompt.textContent = 'PRESS SPACE TO PLAY AGAIN';
-      overlay.appendChild(prompt);
-
-      document.body.appendChild(overlay);
-    }
+    this.overlay.renderGameWonText(score);
   }
 
   /**
    * Clear game won text
    */
   clearGameWonText(): void {
-    const overlay = document.getElementById('victory-overlay');
-    if (overlay) overlay.remove();
-    // Also clear old-style elements if they exist
-    const text = document.getElementById('gamewon-text');
-    const subtitle = document.getElementById('gamewon-subtitle');
-    if (text) text.remove();
-    if (subtitle) subtitle.remove();
+    this.overlay.clearGameWonText();
   }
 
   /**
    * Trigger maze flash animation on level complete
    */
   flashMaze(): void {
-    this.canvas.classList.add('level-complete');
-    setTimeout(() => {
-      this.canvas.classList.remove('level-complete');
-    }, 800); // 4 flashes at 0.2s each
+    this.overlay.flashMaze();
   }
 
   /**
    * Add fruit to history display
    */
   addFruitToHistory(fruitType: number): void {
-    const fruitHistory = document.getElementById('fruit-history');
-    if (!fruitHistory) return;
-
-    // Max 7 fruits shown
-    const icons = fruitHistory.querySelectorAll('.fruit-icon');
-    if (icons.length >= 7) {
-      icons[0].remove();
-    }
-
-    const icon = document.createElement('div');
-    icon.className = 'fruit-icon';
-
-    // Fruit colors based on type
-    const fruitColors = [
-      '#ff0000', // Cherry
-      '#ff6666', // Strawberry
-      '#ff8800', // Orange
-      '#ff0000', // Apple
-      '#00ff00', // Melon
-      '#00ffff', // Galaxian
-      '#ffff00', // Bell
-      '#ffffff', // Key
-    ];
-
-    icon.style.backgroundColor = fruitColors[fruitType] || '#ff0000';
-    icon.style.color = fruitColors[fruitType] || '#ff0000';
-    fruitHistory.appendChild(icon);
+    this.overlay.addFruitToHistory(fruitType);
   }
 
   /**
    * Clear fruit history (on new game)
    */
   clearFruitHistory(): void {
-    const fruitHistory = document.getElementById('fruit-history');
-    if (fruitHistory) {
-      fruitHistory.innerHTML = '';
-    }
+    this.overlay.clearFruitHistory();
   }
 
   /**
    * Flash high score when beaten
    */
   flashHighScore(isNew: boolean): void {
-    const highScoreEl = document.getElementById('high-score');
-    if (highScoreEl) {
-      if (isNew) {
-        highScoreEl.classList.add('new-high');
-      } else {
-        highScoreEl.classList.remove('new-high');
-      }
-    }
+    this.overlay.flashHighScore(isNew);
   }
 
   /**
    * Render intermission screen with animated cutscene
    */
   renderIntermission(title: string, message: string, progress: number, sprites?: CutsceneSprite[]): void {
-    let container = document.getElementById('intermission-container');
-    if (!container) {
-      container = document.createElement('div');
-      container.id = 'intermission-container';
-      container.style.cssText = `
-        position: absolute;
-        top: 0;
-        left: 0;
-        width: 100%;
-        height: 100%;
-        display: flex;
-        flex-direction: column;
-        justify-content: flex-start;
-        align-items: center;
-        background: #000;
-        z-index: 100;
-        overflow: hidden;
-      `;
-
-      // Title at top
-      const titleEl = document.createElement('div');
-      titleEl.id = 'intermission-title';
-      titleEl.style.cssText = `
-        color: #00ffff;
-        font-family: 'Press Start 2P', monospace;
-        font-size: 32px;
-        margin-top: 60px;
-        margin-bottom: 10px;
-        text-shadow: 0 0 20px #00ffff, 0 0 40px #00ffff;
-      `;
-      container.appendChild(titleEl);
-
-      // Message below title
-      const messageEl = document.createElement('div');
-      messageEl.id = 'intermission-message';
-      messageEl.style.cssText = `
-        color: #ffff00;
-        font-family: 'Press Start 2P', monospace;
-        font-size: 16px;
-        margin-bottom: 20px;
-        text-shadow: 0 0 10px #ffff00;
-      `;
-      container.appendChild(messageEl);
-
-      // Canvas for animated sprites
-      const cutsceneCanvas = document.createElement('canvas');
-      cutsceneCanvas.id = 'cutscene-canvas';
-      cutsceneCanvas.width = 672;
-      cutsceneCanvas.height = 400;
-      cutsceneCanvas.style.cssText = `
-        margin-top: 20px;
-      `;
-      container.appendChild(cutsceneCanvas);
-
-      // Skip text at bottom
-      const skipEl = document.createElement('div');
-      skipEl.id = 'intermission-skip';
-      skipEl.style.cssText = `
-        color: #666666;
-        font-family: 'Press Start 2P', monospace;
-        font-size: 10px;
-        position: absolute;
-        bottom: 40px;
-      `;
-      skipEl.textContent = 'PRESS SPACE TO SKIP';
-      container.appendChild(skipEl);
-
-      document.getElementById('game-container')?.appendChild(container);
-    }
-
-    // Update content
-    const titleEl = document.getElementById('intermission-title');
-    const messageEl = document.getElementById('intermission-message');
-    if (titleEl) titleEl.textContent = title;
-    if (messageEl) messageEl.textContent = message;
-
-    // Render sprites on canvas
-    const canvas = document.getElementById('cutscene-canvas') as HTMLCanvasElement;
-    if (canvas && sprites && sprites.length > 0) {
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        for (const sprite of sprites) {
-          this.renderCutsceneSprite(ctx, sprite);
-        }
-      }
-    }
-
-    // Fade effect based on progress
-    if (progress < 0.1) {
-      container.style.opacity = String(progress * 10);
-    } else if (progress > 0.9) {
-      container.style.opacity = String((1 - progress) * 10);
-    } else {
-      container.style.opacity = '1';
-    }
+    this.overlay.renderIntermission(title, message, progress, sprites);
   }
 
   /**
-   * Render a single cutscene sprite on canvas
+   * Clear intermission screen
    */
-  private renderCutsceneSprite(ctx: CanvasRenderingContext2D, sprite: CutsceneSprite): void {
-    ctx.save();
-    ctx.translate(sprite.x, sprite.y);
-
-    const baseSize = 24 * sprite.scale;
+  clearIntermission(): void {
+    this.overlay.clearIntermission();
+  }
 
-    if (sprite.type === 'pacman' || sprite.type === 'bigpacman') {
-      // Draw Pac-Man
-      ctx.fillStyle = '#ffff00';
+  /**
+   * Render the current attract mode page
+   */
+  renderAttractScreen(screen: AttractScreen): void {
+    this.overlay.renderAttractScreen(screen);
+  }
 
-      const mouthOpenings = [0, 0.15, 0.35, 0.15];
-      const mouthAngle = Math.PI * mouthOpenings[sprite.animFrame % 4];
-
-      let startAngle: number, endAngle: number;
-
-      switch (sprite.direction) {
-        case 3: // RIGHT
-          startAngle = mouthAngle;
-          endAngle = Math.PI * 2 - mouthAngle;
-          break;
-        case 2: // LEFT
-          startAngle = Math.PI + mouthAngle;
-          endAngle = Math.PI - mouthAngle;
-          break;
-        case 0: // UP
-          startAngle = -Math.PI / 2 + mouthAngle;
-          endAngle = -Math.PI / 2 - mouthAngle + Math.PI * 2;
-          break;
-        case 1: // DOWN
-          startAngle = Math.PI / 2 + mouthAngle;
-          endAngle = Math.PI / 2 - mouthAngle + Math.PI * 2;
-          break;
-        default:
-          startAngle = mouthAngle;
-          endAngle = Math.PI * 2 - mouthAngle;
-      }
+  /**
+   * Clear the attract mode page
+   */
+  clearAttractScreen(): void {
+    this.overlay.clearAttractScreen();
+  }
 
-      ctx.beginPath();
-      ctx.arc(0, 0, baseSize / 2, startAngle, endAngle);
-      ctx.lineTo(0, 0);
-      ctx.closePath();
-      ctx.fill();
+  /**
+   * Draw the ghost AI debug overlay
+   */
+  renderDebugOverlay(view: DebugView): void {
+    this.overlay.renderDebugOverlay(view);
+  }
 
-      // Add glow
-      ctx.shadowColor = '#ffff00';
-      ctx.shadowBlur = 15 * sprite.scale;
-      ctx.fill();
-    } else {
-      // Draw Ghost
-      const ghostColor = sprite.frightened ? '#2121de' : (sprite.color || '#ff0000');
-      ctx.fillStyle = ghostColor;
-
-      const radius = baseSize / 2;
-      const waveOffset = (sprite.animFrame % 2) * 3;
-
-      // Ghost body (rounded top)
-      ctx.beginPath();
-      ctx.arc(0, -radius / 4, radius, Math.PI, 0, false);
-
-      // Wavy bottom
-      const waveCount = 3;
-      const waveWidth = (radius * 2) / waveCount;
-      const waveHeight = radius / 3;
-
-      ctx.lineTo(radius, radius / 2);
-      for (let i = waveCount; i > 0; i--) {
-        const wx = radius - (waveCount - i + 0.5) * waveWidth;
-        const wy = radius / 2 + ((i + waveOffset) % 2 === 0 ? waveHeight : 0);
-        ctx.lineTo(wx, wy);
-      }
-      ctx.lineTo(-radius, radius / 2);
-      ctx.closePath();
-      ctx.fill();
-
-      // Add glow
-      ctx.shadowColor = ghostColor;
-      ctx.shadowBlur = 10 * sprite.scale;
-      ctx.fill();
-
-      // Eyes
-      ctx.shadowBlur = 0;
-      const eyeRadius = radius / 4;
-      const eyeY = -radius / 4;
-      const pupilRadius = eyeRadius / 2;
-
-      // Frightened mode - different eyes
-      if (sprite.frightened) {
-        ctx.fillStyle = '#ffffff';
-        // Worried expression - small dots
-        ctx.beginPath();
-        ctx.arc(-radius / 3, eyeY, eyeRadius / 2, 0, Math.PI * 2);
-        ctx.arc(radius / 3, eyeY, eyeRadius / 2, 0, Math.PI * 2);
-        ctx.fill();
-      } else {
-        // Normal eyes - white with pupils
-        ctx.fillStyle = '#ffffff';
-        ctx.beginPath();
-        ctx.arc(-radius / 3, eyeY, eyeRadius, 0, Math.PI * 2);
-        ctx.arc(radius / 3, eyeY, eyeRadius, 0, Math.PI * 2);
-        ctx.fill();
-
-        // Pupils - direction based
-        ctx.fillStyle = '#0000ff';
-        let pupilOffsetX = 0, pupilOffsetY = 0;
-        switch (sprite.direction) {
-          case 2: pupilOffsetX = -pupilRadius / 2; break; // LEFT
-          case 3: pupilOffsetX = pupilRadius / 2; break; // RIGHT
-          case 0: pupilOffsetY = -pupilRadius / 2; break; // UP
-          case 1: pupilOffsetY = pupilRadius / 2; break; // DOWN
-        }
-        ctx.beginPath();
-        ctx.arc(-radius / 3 + pupilOffsetX, eyeY + pupilOffsetY, pupilRadius, 0, Math.PI * 2);
-        ctx.arc(radius / 3 + pupilOffsetX, eyeY + pupilOffsetY, pupilRadius, 0, Math.PI * 2);
-        ctx.fill();
-      }
-    }
+  /**
+   * Remove the ghost AI debug overlay
+   */
+  clearDebugOverlay(): void {
+    this.overlay.clearDebugOverlay();
+  }
 
-    ctx.restore();
+  /**
+   * Show the step debugger's inspector panel
+   */
+  renderInspector(sections: readonly InspectorSection[]): void {
+    this.overlay.renderInspector(sections);
   }
 
   /**
-   * Clear intermission screen
+   * Remove the step debugger's inspector panel
    */
-  clearIntermission(): void {
-    const container = document.getElementById('intermission-container');
-    if (container) container.remove();
+  clearInspector(): void {
+    this.overlay.clearInspector();
   }
 
   /**
    * Render ghost score popup
    */
   renderGhostScore(x: number, y: number, score: number): void {
-    // Use DOM for text
-    const popup = document.createElement('div');
-    popup.className = 'ghost-score-popup';
-    popup.style.cssText = `
-      position: absolute;
-      left: ${x - 20}px;
-      top: ${y - 10}px;
-      color: #0ff;
-      font-family: 'Press Start 2P', monospace;
-      font-size: 8px;
-      z-index: 20;
-      animation: fadeUp 1s ease-out forwards;
-    `;
-    popup.textContent = score.toString();
-    document.getElementById('game-container')?.appendChild(popup);
-
-    setTimeout(() => popup.remove(), 1000);
+    this.overlay.renderGhostScore(x, y, score);
   }
 
   /**
    * Render fruit score popup
    */
   renderFruitScore(x: number, y: number, score: number): void {
-    const popup = document.createElement('div');
-    popup.className = 'fruit-score-popup';
-    popup.style.cssText = `
-      position: absolute;
-      left: ${x - 20}px;
-      top: ${y - 10}px;
-      color: #ff0;
-      font-family: 'Press Start 2P', monospace;
-      font-size: 10px;
-      z-index: 20;
-      animation: fadeUp 1.5s ease-out forwards;
-      text-shadow: 0 0 5px #ff0;
-    `;
-    popup.textContent = score.toString();
-    document.getElementById('game-container')?.appendChild(popup);
-
-    setTimeout(() => popup.remove(), 1500);
+    this.overlay.renderFruitScore(x, y, score);
   }
 
   /**
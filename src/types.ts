@@ -2,7 +2,7 @@
  * PAC-MAN Type Definitions
  */
 
-import { DirectionType, GhostModeType } from './constants';
+import { DirectionType, GhostModeType, GameStateType } from './constants';
 
 // 2D Position
 export interface Position {
@@ -99,6 +99,8 @@ export interface InputState {
   right: boolean;
   pause: boolean;
   start: boolean;
+  /** Practice rewind (held, not consumed) */
+  rewind: boolean;
 }
 
 // Sound types
@@ -137,22 +139,37 @@ export interface SpriteData {
   height: number;
 }
 
+// Event payloads, keyed by event type
+export interface GameEventMap {
+  stateChanged: { state: GameStateType; previous: GameStateType };
+  stateRejected: { state: GameStateType; current: GameStateType };  // Illegal transition refused
+  pelletEaten: { tile: TilePosition; points: number };
+  powerPelletEaten: { tile: TilePosition; points: number };
+  pelletsChanged: { pelletsRemaining: number };  // Bulk change: new level, new game, cheat
+  frightenedStarted: { duration: number };
+  frightenedEnded: undefined;
+  ghostEaten: { ghostName: string; ghostColor: string; tile: TilePosition; points: number };
+  pacmanCaught: { ghostName: string; position: Position };
+  pacmanDied: { livesLeft: number };
+  fruitSpawned: { fruitType: number; position: Position };
+  fruitEaten: { fruitType: number; position: Position; points: number };
+  levelComplete: { level: number };
+  levelSkipped: undefined;
+  gameOver: { score: number; level: number };
+  gameWon: { score: number };
+  extraLife: { lives: number };
+  scoreChanged: { score: number; delta: number };
+  newHighScore: { score: number };
+  gameLoaded: { fruitHistory: number[] };  // A saved game was restored
+}
+
 // Event types
-export type GameEventType =
-  | 'pelletEaten'
-  | 'powerPelletEaten'
-  | 'ghostEaten'
-  | 'fruitEaten'
-  | 'pacmanDied'
-  | 'levelComplete'
-  | 'gameOver'
-  | 'extraLife'
-  | 'scoreChanged';
-
-export interface GameEvent {
-  type: GameEventType;
-  data?: unknown;
+export type GameEventType = keyof GameEventMap;
+
+export interface GameEvent<K extends GameEventType = GameEventType> {
+  type: K;
+  data: GameEventMap[K];
 }
 
 // Event handler
-export type GameEventHandler = (event: GameEvent) => void;
+export type GameEventHandler<K extends GameEventType = GameEventType> = (event: GameEvent<K>) => void;
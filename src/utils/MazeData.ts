@@ -1,7 +1,14 @@
 /**
- * Original Pac-Man Maze Layout
+ * Maze Definitions
  *
- * Legend:
+ * A maze is data: a `MazeDefinition` bundles the tile grid with the
+ * positions the rules need (start tiles, scatter corners, the ghost
+ * house, tunnels, the fruit spot and the no-upward tiles). Nothing else
+ * in the game hard-codes a layout - the simulation picks a definition
+ * per level and hands it to the entities, collision and renderers, so
+ * the game can ship and play more than one.
+ *
+ * Grid legend (`TileType`):
  * 0 = Empty (no pellet, walkable)
  * 1 = Wall
  * 2 = Pellet
@@ -10,9 +17,97 @@
  * 5 = Ghost House Door
  * 6 = Tunnel
  * 7 = Fruit spawn point (no pellet)
+ *
+ * @module MazeData
+ */
+
+import { TilePosition } from '../types';
+
+/**
+ * Ghost house geometry (columns and rows are inclusive)
+ */
+export interface GhostHouseLayout {
+  readonly leftCol: number;
+  readonly rightCol: number;
+  readonly topRow: number;
+  readonly bottomRow: number;
+  readonly doorRow: number;
+  readonly doorLeftCol: number;
+  readonly doorRightCol: number;
+  /** Column between the two door tiles, where ghosts pass through */
+  readonly centerCol: number;
+  /** Row ghosts revive on */
+  readonly centerRow: number;
+  /** Row just above the door, where ghosts leave and eyes arrive */
+  readonly exitRow: number;
+}
+
+/**
+ * A wrap-around tunnel along one row
+ *
+ * Leaving either end of the row comes back in at the other. Ghosts slow
+ * down in the slow zones (columns inclusive).
+ */
+export interface TunnelLayout {
+  readonly row: number;
+  readonly slowZoneLeft: { readonly startCol: number; readonly endCol: number };
+  readonly slowZoneRight: { readonly startCol: number; readonly endCol: number };
+}
+
+/**
+ * One tile position per ghost
  */
+export interface GhostTiles {
+  readonly blinky: TilePosition;
+  readonly pinky: TilePosition;
+  readonly inky: TilePosition;
+  readonly clyde: TilePosition;
+}
 
-export const MAZE_DATA: number[][] = [
+/** Which ghost a per-ghost maze entry belongs to */
+export type GhostId = keyof GhostTiles;
+
+/**
+ * Everything the game needs to know about a maze layout
+ */
+export interface MazeDefinition {
+  /** Display name */
+  readonly name: string;
+
+  /** Size in tiles */
+  readonly width: number;
+  readonly height: number;
+
+  /** Tile codes (`TileType`), `height` rows of `width` */
+  readonly grid: readonly (readonly number[])[];
+
+  /** Start tiles (half columns sit between two tiles) */
+  readonly startPositions: GhostTiles & { readonly pacman: TilePosition };
+
+  /** Corners ghosts head for in scatter mode (may lie off the grid) */
+  readonly scatterTargets: GhostTiles;
+
+  readonly ghostHouse: GhostHouseLayout;
+
+  /** Wrap-around tunnels (none is fine) */
+  readonly tunnels: readonly TunnelLayout[];
+
+  /** Where bonus fruit appears */
+  readonly fruitSpawn: TilePosition;
+
+  /** Tiles where ghosts may not turn upward (except as eyes) */
+  readonly noUpwardTiles: readonly TilePosition[];
+}
+
+/**
+ * Picks the maze for a level
+ */
+export type MazeSelector = (level: number) => MazeDefinition;
+
+/**
+ * Original Pac-Man maze layout
+ */
+const CLASSIC_GRID: number[][] = [
   // Row 0 - top border
   [1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1],
   // Row 1
@@ -47,8 +142,8 @@ export const MAZE_DATA: number[][] = [
   [0,0,0,0,0,1,2,1,1,0,1,4,4,4,4,4,4,1,0,1,1,2,1,0,0,0,0,0],
   // Row 16
   [0,0,0,0,0,1,2,1,1,0,1,1,1,1,1,1,1,1,0,1,1,2,1,0,0,0,0,0],
-  // Row 17
-  [0,0,0,0,0,1,2,1,1,0,0,0,0,7,0,0,0,0,0,1,1,2,1,0,0,0,0,0],
+  // Row 17 - fruit appears between the two fruit tiles
+  [0,0,0,0,0,1,2,1,1,0,0,0,0,7,7,0,0,0,0,1,1,2,1,0,0,0,0,0],
   // Row 18
   [1,1,1,1,1,1,2,1,1,0,1,1,1,1,1,1,1,1,0,1,1,2,1,1,1,1,1,1],
   // Row 19
@@ -78,65 +173,60 @@ export const MAZE_DATA: number[][] = [
 ];
 
 /**
- * Ghost scatter targets (corners)
- */
-export const SCATTER_TARGETS = {
-  BLINKY: { col: 25, row: 0 },   // Top-right
-  PINKY: { col: 2, row: 0 },     // Top-left
-  INKY: { col: 27, row: 30 },    // Bottom-right
-  CLYDE: { col: 0, row: 30 },    // Bottom-left
-};
-
-/**
- * Starting positions
- */
-export const START_POSITIONS = {
-  PACMAN: { col: 13.5, row: 22 },  // Row 22 has empty space at center
-  BLINKY: { col: 13.5, row: 11 },
-  PINKY: { col: 13.5, row: 14 },
-  INKY: { col: 11.5, row: 14 },
-  CLYDE: { col: 15.5, row: 14 },
-};
-
-/**
- * Ghost house configuration
- */
-export const GHOST_HOUSE = {
-  leftCol: 10,
-  rightCol: 17,
-  topRow: 12,
-  bottomRow: 16,
-  doorRow: 12,
-  doorLeftCol: 13,
-  doorRightCol: 14,
-  centerCol: 13.5,
-  centerRow: 14,
-  exitRow: 11,
-};
-
-/**
- * Tunnel configuration
+ * The arcade maze
  */
-export const TUNNELS = {
-  leftExit: { col: -1, row: 13 },
-  rightExit: { col: 28, row: 13 },
-  slowZoneLeft: { startCol: 0, endCol: 5 },
-  slowZoneRight: { startCol: 22, endCol: 27 },
+export const CLASSIC_MAZE: MazeDefinition = {
+  name: 'Classic',
+  width: 28,
+  height: 31,
+  grid: CLASSIC_GRID,
+  startPositions: {
+    pacman: { col: 13.5, row: 22 },  // Row 22 has empty space at center
+    blinky: { col: 13.5, row: 11 },
+    pinky: { col: 13.5, row: 14 },
+    inky: { col: 11.5, row: 14 },
+    clyde: { col: 15.5, row: 14 },
+  },
+  scatterTargets: {
+    blinky: { col: 25, row: 0 },   // Top-right
+    pinky: { col: 2, row: 0 },     // Top-left
+    inky: { col: 27, row: 30 },    // Bottom-right
+    clyde: { col: 0, row: 30 },    // Bottom-left
+  },
+  ghostHouse: {
+    leftCol: 10,
+    rightCol: 17,
+    topRow: 12,
+    bottomRow: 16,
+    doorRow: 12,
+    doorLeftCol: 13,
+    doorRightCol: 14,
+    centerCol: 13.5,
+    centerRow: 14,
+    exitRow: 11,
+  },
+  tunnels: [
+    { row: 13, slowZoneLeft: { startCol: 0, endCol: 5 }, slowZoneRight: { startCol: 22, endCol: 27 } },
+  ],
+  fruitSpawn: { col: 13.5, row: 17 },
+  // Either side of the ghost house and above Pac-Man's start: the
+  // arcade's exploitable "safe zones"
+  noUpwardTiles: [
+    { col: 12, row: 11 },
+    { col: 15, row: 11 },
+    { col: 12, row: 23 },
+    { col: 15, row: 23 },
+  ],
 };
 
 /**
- * Fruit spawn location
+ * Count pellets in a grid
  */
-export const FRUIT_SPAWN = { col: 13.5, row: 17 };
-
-/**
- * Count pellets in maze
- */
-export function countPellets(maze: number[][]): { regular: number; power: number } {
+export function countPellets(grid: readonly (readonly number[])[]): { regular: number; power: number } {
   let regular = 0;
   let power = 0;
 
-  for (const row of maze) {
+  for (const row of grid) {
     for (const cell of row) {
       if (cell === 2) regular++;
       if (cell === 3) power++;
@@ -146,44 +236,68 @@ export function countPellets(maze: number[][]): { regular: number; power: number
   return { regular, power };
 }
 
+/**
+ * The tunnel along a row, if there is one
+ */
+export function tunnelAt(maze: MazeDefinition, row: number): TunnelLayout | undefined {
+  return maze.tunnels.find((tunnel) => tunnel.row === row);
+}
+
+/**
+ * Wrap a column through a row's tunnel (unchanged on other rows)
+ */
+export function wrapColumn(maze: MazeDefinition, col: number, row: number): number {
+  if (!tunnelAt(maze, row)) return col;
+  return ((col % maze.width) + maze.width) % maze.width;
+}
+
 /**
  * Check if a tile is walkable
  */
-export function isWalkable(maze: number[][], col: number, row: number): boolean {
+export function isWalkable(maze: MazeDefinition, col: number, row: number): boolean {
   // Handle tunnel wrapping
-  if (row === 13 && (col < 0 || col >= 28)) {
+  if ((col < 0 || col >= maze.width) && tunnelAt(maze, row)) {
     return true;
   }
 
   // Out of bounds
-  if (col < 0 || col >= 28 || row < 0 || row >= 31) {
+  if (col < 0 || col >= maze.width || row < 0 || row >= maze.height) {
     return false;
   }
 
-  const tile = maze[row][col];
+  const tile = maze.grid[row][col];
   return tile !== 1; // Not a wall
 }
 
 /**
- * Check if position is in tunnel slow zone
+ * Check if position is in a tunnel slow zone
+ */
+export function isInTunnel(maze: MazeDefinition, col: number, row: number): boolean {
+  const tunnel = tunnelAt(maze, row);
+  if (!tunnel) return false;
+  return col <= tunnel.slowZoneLeft.endCol || col >= tunnel.slowZoneRight.startCol;
+}
+
+/**
+ * Check if position is in the ghost house
  */
-export function isInTunnel(col: number, row: number): boolean {
-  if (row !== 13) return false;
-  return col < 6 || col > 21;
+export function isInGhostHouse(maze: MazeDefinition, col: number, row: number): boolean {
+  const house = maze.ghostHouse;
+  return col >= house.leftCol && col <= house.rightCol && row >= house.topRow && row <= house.bottomRow;
 }
 
 /**
- * Check if position is in ghost house
+ * Check if ghosts are barred from turning up on a tile
  */
-export function isInGhostHouse(col: number, row: number): boolean {
-  return col >= 10 && col <= 17 && row >= 12 && row <= 16;
+export function isNoUpwardTile(maze: MazeDefinition, col: number, row: number): boolean {
+  return maze.noUpwardTiles.some((tile) => tile.col === col && tile.row === row);
 }
 
 /**
  * Get available directions from a tile
  */
 export function getAvailableDirections(
-  maze: number[][],
+  maze: MazeDefinition,
   col: number,
   row: number,
   excludeReverse: number = -1
@@ -0,0 +1,420 @@
+/**
+ * Text Maze Format
+ *
+ * A human-readable file format for `MazeDefinition`s, so layouts can be
+ * drawn in a text editor and checked in next to MazeData.ts (see
+ * `mazes/classic.maze`).
+ *
+ * ## Format
+ *
+ * ```
+ * ; Comments start with a semicolon
+ * name: Classic
+ * pacman: 13.5,22
+ * blinky: 13.5,11
+ * pinky: 13.5,14
+ * inky: 11.5,14
+ * clyde: 15.5,14
+ * blinky-scatter: 25,0
+ * pinky-scatter: 2,0
+ * inky-scatter: 27,30
+ * clyde-scatter: 0,30
+ * tunnel: 13 0-5 22-27
+ * no-upward: 12,11 15,11 12,23 15,23
+ *
+ * ############################
+ * #............##............#
+ * ...
+ * ```
+ *
+ * The header is `key: value` lines, ended by the first blank line.
+ * Positions are `col,row`, and half columns put a start between two
+ * tiles. Each `tunnel` line names a row and, optionally, its left and
+ * right slow zones. Without zones, the `~` tiles at each end of the row
+ * are used. `no-upward` is optional.
+ *
+ * The grid follows, one character per tile:
+ *
+ * | Char | Tile         | Char | Tile                |
+ * |------|--------------|------|---------------------|
+ * | `#`  | wall         | `H`  | ghost house         |
+ * | `.`  | pellet       | `=`  | ghost house door    |
+ * | `o`  | power pellet | `~`  | tunnel              |
+ * | `_`  | empty        | `F`  | fruit spawn         |
+ *
+ * The ghost house layout and the fruit spot come from the grid. The house
+ * is the `H` tiles plus a one-tile wall around them. The door is the row
+ * of `=` tiles, and ghosts leave from the row above it. Fruit appears in
+ * the middle of the `F` tiles.
+ *
+ * Parse errors name the line and column they were found at. `parseMaze()`
+ * only checks the file is well formed; `loadMaze()` also rejects mazes
+ * that cannot be played (see MazeValidator.ts).
+ *
+ * @module MazeFormat
+ */
+
+import { TilePosition, TileType } from '../types';
+import { GhostHouseLayout, GhostId, MazeDefinition, TunnelLayout } from './MazeData';
+import { assertPlayable } from './MazeValidator';
+
+/** Grid character for each tile type */
+const TILE_CHARS: Record<TileType, string> = {
+  [TileType.EMPTY]: '_',
+  [TileType.WALL]: '#',
+  [TileType.PELLET]: '.',
+  [TileType.POWER_PELLET]: 'o',
+  [TileType.GHOST_HOUSE]: 'H',
+  [TileType.GHOST_DOOR]: '=',
+  [TileType.TUNNEL]: '~',
+  [TileType.FRUIT_SPAWN]: 'F',
+};
+
+/** Tile type for each grid character */
+const CHAR_TILES: ReadonlyMap<string, TileType> = new Map(
+  Object.entries(TILE_CHARS).map(([tile, char]) => [char, Number(tile) as TileType])
+);
+
+/** Ghosts in header order */
+const GHOST_IDS: readonly GhostId[] = ['blinky', 'pinky', 'inky', 'clyde'];
+
+/** Header keys that may appear more than once */
+const REPEATABLE_KEYS: ReadonlySet<string> = new Set(['tunnel']);
+
+/** Header keys every maze must have */
+const REQUIRED_KEYS: readonly string[] = [
+  'name',
+  'pacman',
+  ...GHOST_IDS,
+  ...GHOST_IDS.map((id) => `${id}-scatter`),
+];
+
+/** Every header key understood */
+const KNOWN_KEYS: ReadonlySet<string> = new Set([...REQUIRED_KEYS, 'tunnel', 'no-upward']);
+
+/**
+ * A header value and where it was found
+ */
+interface HeaderEntry {
+  readonly value: string;
+  readonly line: number;
+  /** Column the value starts at */
+  readonly column: number;
+}
+
+/**
+ * Builds the error for a problem found in a grid (the tile is null when
+ * the problem is with the grid as a whole)
+ */
+export type GridProblem = (message: string, tile: TilePosition | null) => Error;
+
+/**
+ * An error at a place in the file
+ */
+function failAt(line: number, column: number, message: string): Error {
+  return new Error(`Line ${line}, column ${column}: ${message}`);
+}
+
+/**
+ * Parse a maze file produced by serializeMaze() or written by hand
+ *
+ * @throws Error naming the line and column of the first problem found
+ */
+export function parseMaze(text: string): MazeDefinition {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+
+  // Header: everything up to the first blank line
+  let index = 0;
+  const header = new Map<string, HeaderEntry[]>();
+  for (; index < lines.length && lines[index].trim() !== ''; index++) {
+    const line = lines[index];
+    if (line.trimStart().startsWith(';')) continue;
+
+    const colon = line.indexOf(':');
+    if (colon < 0) {
+      throw failAt(index + 1, 1, `expected 'key: value' in the header, got '${line.trim()}'`);
+    }
+
+    const key = line.slice(0, colon).trim();
+    if (!KNOWN_KEYS.has(key)) {
+      throw failAt(index + 1, 1, `unknown header key '${key}'`);
+    }
+    if (header.has(key) && !REPEATABLE_KEYS.has(key)) {
+      throw failAt(index + 1, 1, `'${key}' is given twice`);
+    }
+
+    const rest = line.slice(colon + 1);
+    const value = rest.trim();
+    const column = colon + 2 + (rest.length - rest.trimStart().length);
+    header.set(key, [...(header.get(key) ?? []), { value, line: index + 1, column }]);
+  }
+
+  // Grid: the non-blank lines after it
+  while (index < lines.length && lines[index].trim() === '') index++;
+  const gridStart = index;
+  const gridLines: string[] = [];
+  while (index < lines.length && lines[index].trim() !== '') {
+    gridLines.push(lines[index].trimEnd());
+    index++;
+  }
+  for (; index < lines.length; index++) {
+    if (lines[index].trim() !== '') {
+      throw failAt(index + 1, 1, 'unexpected text after the grid');
+    }
+  }
+
+  if (gridLines.length === 0) {
+    throw new Error('Maze has no grid (it must follow the header after a blank line)');
+  }
+  for (const key of REQUIRED_KEYS) {
+    if (!header.has(key)) {
+      throw new Error(`Maze header is missing '${key}'`);
+    }
+  }
+
+  const grid = parseGrid(gridLines, gridStart + 1);
+  const problem: GridProblem = (message, tile) =>
+    tile ? failAt(gridStart + 1 + tile.row, tile.col + 1, message) : new Error(message);
+  const width = grid[0].length;
+  const height = grid.length;
+  const entry = (key: string): HeaderEntry => header.get(key)![0];
+
+  const ghostTiles = (suffix: string) => ({
+    blinky: parsePosition(entry(`blinky${suffix}`)),
+    pinky: parsePosition(entry(`pinky${suffix}`)),
+    inky: parsePosition(entry(`inky${suffix}`)),
+    clyde: parsePosition(entry(`clyde${suffix}`)),
+  });
+
+  return {
+    name: entry('name').value,
+    width,
+    height,
+    grid,
+    startPositions: { pacman: parsePosition(entry('pacman')), ...ghostTiles('') },
+    scatterTargets: ghostTiles('-scatter'),
+    ghostHouse: findGhostHouse(grid, problem),
+    tunnels: (header.get('tunnel') ?? []).map((tunnel) => parseTunnel(tunnel, grid)),
+    fruitSpawn: findFruitSpawn(grid, problem),
+    noUpwardTiles: header.has('no-upward') ? parsePositionList(entry('no-upward')) : [],
+  };
+}
+
+/**
+ * Parse a maze file and check it can be played
+ *
+ * @throws Error from parseMaze(), or listing every validation error
+ */
+export function loadMaze(text: string): MazeDefinition {
+  const maze = parseMaze(text);
+  assertPlayable(maze);
+  return maze;
+}
+
+/**
+ * Write a maze in the text format
+ *
+ * The ghost house and fruit spot are not written: they are read back
+ * from the grid's `H`, `=` and `F` tiles.
+ */
+export function serializeMaze(maze: MazeDefinition): string {
+  const position = (tile: TilePosition): string => `${tile.col},${tile.row}`;
+  const lines = [`name: ${maze.name}`, `pacman: ${position(maze.startPositions.pacman)}`];
+
+  for (const id of GHOST_IDS) {
+    lines.push(`${id}: ${position(maze.startPositions[id])}`);
+  }
+  for (const id of GHOST_IDS) {
+    lines.push(`${id}-scatter: ${position(maze.scatterTargets[id])}`);
+  }
+  for (const tunnel of maze.tunnels) {
+    const { slowZoneLeft: left, slowZoneRight: right } = tunnel;
+    lines.push(`tunnel: ${tunnel.row} ${left.startCol}-${left.endCol} ${right.startCol}-${right.endCol}`);
+  }
+  if (maze.noUpwardTiles.length > 0) {
+    lines.push(`no-upward: ${maze.noUpwardTiles.map(position).join(' ')}`);
+  }
+
+  lines.push('');
+  for (const row of maze.grid) {
+    lines.push(row.map((tile) => TILE_CHARS[tile as TileType] ?? '?').join(''));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Tile codes from grid lines (all must be as wide as the first)
+ */
+function parseGrid(gridLines: readonly string[], firstLine: number): number[][] {
+  const width = gridLines[0].length;
+
+  return gridLines.map((text, row) => {
+    const line = firstLine + row;
+    if (text.length !== width) {
+      throw failAt(line, Math.min(text.length, width) + 1, `row is ${text.length} tiles wide, expected ${width}`);
+    }
+
+    return [...text].map((char, col) => {
+      const tile = CHAR_TILES.get(char);
+      if (tile === undefined) {
+        throw failAt(line, col + 1, `unknown tile '${char}'`);
+      }
+      return tile;
+    });
+  });
+}
+
+/**
+ * `col,row` (columns may be fractional)
+ */
+function parsePosition(entry: HeaderEntry, text: string = entry.value, offset: number = 0): TilePosition {
+  const match = /^(-?\d+(?:\.\d+)?),(-?\d+)$/.exec(text);
+  if (!match) {
+    throw failAt(entry.line, entry.column + offset, `expected a position 'col,row', got '${text}'`);
+  }
+  return { col: Number(match[1]), row: Number(match[2]) };
+}
+
+/**
+ * Space-separated `col,row` positions
+ */
+function parsePositionList(entry: HeaderEntry): TilePosition[] {
+  const positions: TilePosition[] = [];
+  const pattern = /\S+/g;
+  for (let match = pattern.exec(entry.value); match; match = pattern.exec(entry.value)) {
+    positions.push(parsePosition(entry, match[0], match.index));
+  }
+  return positions;
+}
+
+/**
+ * `row` or `row left-zone right-zone` (zones are `startCol-endCol`)
+ */
+function parseTunnel(entry: HeaderEntry, grid: readonly (readonly number[])[]): TunnelLayout {
+  const match = /^(\d+)(?:\s+(\d+)-(\d+)\s+(\d+)-(\d+))?$/.exec(entry.value);
+  if (!match) {
+    throw failAt(entry.line, entry.column, `expected 'row' or 'row start-end start-end', got '${entry.value}'`);
+  }
+
+  const row = Number(match[1]);
+  if (row >= grid.length) {
+    throw failAt(entry.line, entry.column, `tunnel row ${row} is outside the ${grid.length}-row grid`);
+  }
+
+  if (match[2] !== undefined) {
+    return {
+      row,
+      slowZoneLeft: { startCol: Number(match[2]), endCol: Number(match[3]) },
+      slowZoneRight: { startCol: Number(match[4]), endCol: Number(match[5]) },
+    };
+  }
+
+  // No zones given: the runs of tunnel tiles at each end of the row
+  const tunnel = edgeTunnel(grid, row);
+  if (!tunnel) {
+    throw failAt(entry.line, entry.column, `row ${row} needs '~' tiles at both ends (or give its slow zones)`);
+  }
+  return tunnel;
+}
+
+/**
+ * The tunnel along a row whose ends are `~` tiles, with the runs of
+ * tunnel tiles at each end as its slow zones (null unless both ends are)
+ */
+export function edgeTunnel(grid: readonly (readonly number[])[], row: number): TunnelLayout | null {
+  const cells = grid[row];
+  let left = -1;
+  while (cells[left + 1] === TileType.TUNNEL) left++;
+  let right = cells.length;
+  while (cells[right - 1] === TileType.TUNNEL) right--;
+
+  if (left < 0 || right >= cells.length) return null;
+
+  return {
+    row,
+    slowZoneLeft: { startCol: 0, endCol: left },
+    slowZoneRight: { startCol: right, endCol: cells.length - 1 },
+  };
+}
+
+/**
+ * Ghost house layout from the `H` and `=` tiles
+ *
+ * @throws the problem's Error if there is no house or door, or the door
+ *         is not one run of tiles with a row above it
+ */
+export function findGhostHouse(grid: readonly (readonly number[])[], problem: GridProblem): GhostHouseLayout {
+  const interior = findTiles(grid, TileType.GHOST_HOUSE);
+  const door = findTiles(grid, TileType.GHOST_DOOR);
+
+  if (interior.length === 0) {
+    throw problem("Maze has no ghost house (no 'H' tiles)", null);
+  }
+  if (door.length === 0) {
+    throw problem("Maze has no ghost house door (no '=' tiles)", null);
+  }
+
+  const doorRow = door[0].row;
+  const doorLeftCol = Math.min(...door.map((tile) => tile.col));
+  const doorRightCol = Math.max(...door.map((tile) => tile.col));
+  const stray = door.find((tile) => tile.row !== doorRow);
+  if (stray) {
+    throw problem('the door must be a single row of tiles', stray);
+  }
+  if (doorRightCol - doorLeftCol + 1 !== door.length) {
+    throw problem('the door must be one unbroken run of tiles', { col: doorLeftCol, row: doorRow });
+  }
+  if (doorRow === 0) {
+    throw problem('the door needs a row above it for ghosts to leave by', { col: doorLeftCol, row: 0 });
+  }
+
+  const topRow = Math.min(...interior.map((tile) => tile.row));
+  const bottomRow = Math.max(...interior.map((tile) => tile.row));
+
+  return {
+    leftCol: Math.min(...interior.map((tile) => tile.col)) - 1,
+    rightCol: Math.max(...interior.map((tile) => tile.col)) + 1,
+    topRow: topRow - 1,
+    bottomRow: bottomRow + 1,
+    doorRow,
+    doorLeftCol,
+    doorRightCol,
+    centerCol: (doorLeftCol + doorRightCol) / 2,
+    centerRow: Math.floor((topRow + bottomRow) / 2),
+    exitRow: doorRow - 1,
+  };
+}
+
+/**
+ * Middle of the `F` tiles (one tile, or two side by side)
+ *
+ * @throws the problem's Error if there are none, or they are apart
+ */
+export function findFruitSpawn(grid: readonly (readonly number[])[], problem: GridProblem): TilePosition {
+  const tiles = findTiles(grid, TileType.FRUIT_SPAWN);
+  if (tiles.length === 0) {
+    throw problem("Maze has no fruit spawn (no 'F' tiles)", null);
+  }
+
+  const [first, second] = tiles;
+  if (tiles.length > 2 || (second && (second.row !== first.row || second.col !== first.col + 1))) {
+    const extra = tiles[tiles.length > 2 ? 2 : 1];
+    throw problem("fruit spawn must be one 'F' tile or two side by side", extra);
+  }
+
+  return { col: second ? first.col + 0.5 : first.col, row: first.row };
+}
+
+/**
+ * Every tile of one type, in reading order
+ */
+function findTiles(grid: readonly (readonly number[])[], type: TileType): TilePosition[] {
+  const tiles: TilePosition[] = [];
+  grid.forEach((cells, row) => {
+    cells.forEach((cell, col) => {
+      if (cell === type) tiles.push({ col, row });
+    });
+  });
+  return tiles;
+}
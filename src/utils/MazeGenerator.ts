@@ -0,0 +1,396 @@
+/**
+ * Procedural Maze Generator
+ *
+ * Builds new arcade-style layouts from a seed, so long sessions need not
+ * play the classic board over and over. The same seed always gives the
+ * same maze.
+ *
+ * ## How a layout is built
+ *
+ * Corridors run along a lattice of junctions on the left half of the
+ * grid. The right half is its mirror image, as in the arcade.
+ *
+ * ```
+ *   cols 1  4-6   9   12 | 15 ...
+ *        +---+----+---+--|--+     rows 1, 4-5, 8, 11, 14,
+ *        |   |    |   |  |        17, 20, 23, 26, 29
+ *        +---+----+---+--|--+
+ * ```
+ *
+ * 1. Start with every corridor of the lattice open. The second column
+ *    sits at 4, 5 or 6 and the second row at 4 or 5, picked per maze.
+ * 2. Open one or two tunnels from the left edge to the second column.
+ * 3. Wall off corridors at random. A corridor only closes if both of its
+ *    junctions keep at least two ways out, and if the half stays
+ *    connected, so the result never has a dead end or a sealed pocket.
+ * 4. Close some of the bends left over (junctions with exactly two ways
+ *    out) the same way, which merges small wall blocks into larger ones.
+ *
+ * The ghost house, the ghost starts and the scatter corners are the
+ * classic maze's. A ring of empty corridor around the house joins the
+ * door to the lattice, and fruit appears on the ring below the house.
+ * Pac-Man starts on row 23 under the house, and the power pellets go on
+ * the corridor tiles nearest each corner.
+ *
+ * Every maze this produces passes `validateMaze()` with no issues.
+ *
+ * @module MazeGenerator
+ */
+
+import { GRID_HEIGHT, GRID_WIDTH } from '../constants';
+import { TilePosition, TileType } from '../types';
+import { CLASSIC_MAZE, MazeDefinition, MazeSelector, TunnelLayout } from './MazeData';
+import { edgeTunnel } from './MazeFormat';
+import { Random } from './Random';
+
+/** The house every generated maze shares */
+const HOUSE = CLASSIC_MAZE.ghostHouse;
+
+/** Last column of the left half */
+const CENTER_COL = GRID_WIDTH / 2 - 1;
+
+/** Column of the ring's sides and of the junctions beside the door */
+const RING_COL = HOUSE.leftCol - 1;
+const DOOR_SIDE_COL = HOUSE.doorLeftCol - 1;
+
+/** Rows of the ring above and below the house */
+const RING_TOP_ROW = HOUSE.topRow - 1;
+const RING_BOTTOM_ROW = HOUSE.bottomRow + 1;
+
+/** Row Pac-Man starts on */
+const PACMAN_ROW = 23;
+
+/** Second lattice column (picked per maze) */
+const SECOND_COL_CHOICES: readonly number[] = [4, 5, 6];
+
+/** Second lattice row (picked per maze) */
+const UPPER_ROW_CHOICES: readonly number[] = [4, 5];
+
+/** Lattice rows other than the second one */
+const FIXED_ROWS: readonly number[] = [1, 8, RING_TOP_ROW, HOUSE.centerRow, RING_BOTTOM_ROW, 20, PACMAN_ROW, 26, 29];
+
+/** Rows a tunnel may run along */
+const TUNNEL_ROWS: readonly number[] = [8, RING_TOP_ROW, HOUSE.centerRow, RING_BOTTOM_ROW, 20];
+
+/** Chance that a corridor the rules allow to close is closed */
+const CORRIDOR_CLOSE_CHANCE = 0.6;
+
+/** Chance that a bend the rules allow to close is closed */
+const BEND_CLOSE_CHANCE = 0.35;
+
+/** Corridor tiles nearest these get the (left half's) power pellets */
+const POWER_PELLET_SPOTS: readonly TilePosition[] = [
+  { col: 1, row: 3 },
+  { col: 1, row: 26 },
+];
+
+/**
+ * A straight corridor between two lattice tiles on the left half
+ *
+ * `ends` are the junctions it counts as a way out of. Corridors that
+ * cross the centre line or lead out to a tunnel only have one: the other
+ * end is a mirror image or the grid edge.
+ */
+interface Corridor {
+  readonly from: TilePosition;
+  readonly to: TilePosition;
+  readonly ends: readonly string[];
+  /** Kept open whatever the dice say */
+  readonly required: boolean;
+}
+
+/**
+ * Generate a maze from a seed
+ *
+ * @param seed - Any 32-bit number; the same seed gives the same maze
+ * @param name - Display name (`Random <seed>` if omitted)
+ */
+export function generateMaze(seed: number, name: string = `Random ${seed >>> 0}`): MazeDefinition {
+  const random = new Random(seed);
+
+  const cols = [1, random.pick(SECOND_COL_CHOICES), RING_COL, DOOR_SIDE_COL];
+  const rows = [...FIXED_ROWS, random.pick(UPPER_ROW_CHOICES)].sort((a, b) => a - b);
+  const tunnelRows = shuffle(random, TUNNEL_ROWS)
+    .slice(0, 1 + random.nextInt(2))
+    .sort((a, b) => a - b);
+
+  const open = new Set(latticeCorridors(cols, rows, tunnelRows));
+  closeCorridors(random, open);
+  closeBends(random, open);
+
+  const grid = paintGrid(open, tunnelRows, cols[1]);
+  const tunnels = tunnelRows.map((row) => edgeTunnel(grid, row)).filter((tunnel): tunnel is TunnelLayout => tunnel !== null);
+
+  return {
+    name,
+    width: GRID_WIDTH,
+    height: GRID_HEIGHT,
+    grid,
+    startPositions: { ...CLASSIC_MAZE.startPositions, pacman: { col: CENTER_COL + 0.5, row: PACMAN_ROW } },
+    scatterTargets: CLASSIC_MAZE.scatterTargets,
+    ghostHouse: HOUSE,
+    tunnels,
+    fruitSpawn: { col: CENTER_COL + 0.5, row: RING_BOTTOM_ROW },
+    noUpwardTiles: [
+      { col: DOOR_SIDE_COL, row: RING_TOP_ROW },
+      { col: GRID_WIDTH - 1 - DOOR_SIDE_COL, row: RING_TOP_ROW },
+      { col: DOOR_SIDE_COL, row: PACMAN_ROW },
+      { col: GRID_WIDTH - 1 - DOOR_SIDE_COL, row: PACMAN_ROW },
+    ],
+  };
+}
+
+/**
+ * A new random maze on every level (the same ones again for the same seed)
+ *
+ * Each level's maze is built once and then reused.
+ */
+export function randomMazes(seed: number): MazeSelector {
+  const built = new Map<number, MazeDefinition>();
+
+  return (level) => {
+    let maze = built.get(level);
+    if (!maze) {
+      maze = generateMaze((seed + Math.imul(level, 0x9e3779b9)) >>> 0, `Random ${seed >>> 0}-${level}`);
+      built.set(level, maze);
+    }
+    return maze;
+  };
+}
+
+/**
+ * Every corridor of the full lattice, without the ones through the house
+ * or across a tunnel's mouth, and with the bits that would be dead ends
+ * trimmed off
+ */
+function latticeCorridors(cols: readonly number[], rows: readonly number[], tunnelRows: readonly number[]): Corridor[] {
+  const edgeCol = cols[0];
+  const isJunction = (col: number, row: number): boolean =>
+    !(col === DOOR_SIDE_COL && row === HOUSE.centerRow) && !(col === edgeCol && tunnelRows.includes(row));
+
+  // The ring, the door's row and Pac-Man's row are always open
+  const isRequired = (from: TilePosition, to: TilePosition): boolean =>
+    (to.col === CENTER_COL && [RING_TOP_ROW, RING_BOTTOM_ROW, PACMAN_ROW].includes(to.row)) ||
+    (from.col === RING_COL && to.col === RING_COL && from.row >= RING_TOP_ROW && to.row <= RING_BOTTOM_ROW) ||
+    (from.col === RING_COL && to.col === DOOR_SIDE_COL && (from.row === RING_TOP_ROW || from.row === RING_BOTTOM_ROW));
+
+  const corridors: Corridor[] = [];
+  const add = (from: TilePosition, to: TilePosition, ends: readonly TilePosition[], required = isRequired(from, to)): void => {
+    corridors.push({ from, to, ends: ends.map(key), required });
+  };
+
+  rows.forEach((row, r) => {
+    cols.forEach((col, c) => {
+      if (!isJunction(col, row)) return;
+      const here = { col, row };
+
+      // Across: to the next junction, or over the centre line to the mirror
+      const nextCol = cols[c + 1];
+      if (nextCol === undefined) {
+        add(here, { col: CENTER_COL, row }, [here]);
+      } else if (isJunction(nextCol, row)) {
+        add(here, { col: nextCol, row }, [here, { col: nextCol, row }]);
+      }
+
+      // Down: to the junction below, unless that runs through the house
+      const nextRow = rows[r + 1];
+      const throughHouse = col === DOOR_SIDE_COL && nextRow > HOUSE.topRow && row < HOUSE.bottomRow;
+      if (nextRow !== undefined && isJunction(col, nextRow) && !throughHouse) {
+        add(here, { col, row: nextRow }, [here, { col, row: nextRow }]);
+      }
+    });
+  });
+
+  // Tunnels run in from the edge to the lattice's second column
+  for (const row of tunnelRows) {
+    add({ col: 0, row }, { col: cols[1], row }, [{ col: cols[1], row }], true);
+  }
+
+  // A junction left with one way out (e.g. between two tunnels) goes
+  const trimmed = new Set(corridors);
+  for (;;) {
+    const degrees = junctionDegrees(trimmed);
+    const stub = [...trimmed].find((corridor) => corridor.ends.some((end) => degrees.get(end) === 1));
+    if (!stub) break;
+    if (stub.required) {
+      throw new Error('Maze lattice has a dead end on a corridor that must stay open');
+    }
+    trimmed.delete(stub);
+  }
+
+  return [...trimmed];
+}
+
+/**
+ * Wall off corridors at random, keeping two ways out of every junction
+ */
+function closeCorridors(random: Random, open: Set<Corridor>): void {
+  for (const corridor of shuffle(random, [...open])) {
+    if (corridor.required || random.next() >= CORRIDOR_CLOSE_CHANCE) continue;
+
+    const degrees = junctionDegrees(open);
+    if (corridor.ends.some((end) => (degrees.get(end) ?? 0) < 3)) continue;
+
+    open.delete(corridor);
+    if (!isConnected(open)) open.add(corridor);
+  }
+}
+
+/**
+ * Wall off bends at random: both corridors through a junction with two
+ * ways out, where the junctions at their far ends keep two ways out
+ */
+function closeBends(random: Random, open: Set<Corridor>): void {
+  const junctions = [...junctionDegrees(open).keys()];
+
+  for (const junction of shuffle(random, junctions)) {
+    if (random.next() >= BEND_CLOSE_CHANCE) continue;
+
+    const degrees = junctionDegrees(open);
+    const through = [...open].filter((corridor) => corridor.ends.includes(junction));
+    if (through.length !== 2) continue;
+
+    const farEnds = through.map((corridor) => corridor.ends.find((end) => end !== junction));
+    const closable =
+      through.every((corridor) => !corridor.required && corridor.ends.length === 2) &&
+      farEnds.every((end) => end !== undefined && (degrees.get(end) ?? 0) >= 3);
+    if (!closable) continue;
+
+    through.forEach((corridor) => open.delete(corridor));
+    if (!isConnected(open)) through.forEach((corridor) => open.add(corridor));
+  }
+}
+
+/**
+ * Ways out of each junction
+ */
+function junctionDegrees(corridors: Iterable<Corridor>): Map<string, number> {
+  const degrees = new Map<string, number>();
+  for (const corridor of corridors) {
+    for (const end of corridor.ends) {
+      degrees.set(end, (degrees.get(end) ?? 0) + 1);
+    }
+  }
+  return degrees;
+}
+
+/**
+ * Can every junction on the left half reach every other without crossing
+ * the centre line? (The mirror half is then connected too.)
+ */
+function isConnected(corridors: ReadonlySet<Corridor>): boolean {
+  const links = new Map<string, string[]>();
+  for (const corridor of corridors) {
+    for (const end of corridor.ends) {
+      if (!links.has(end)) links.set(end, []);
+    }
+    if (corridor.ends.length === 2) {
+      const [a, b] = corridor.ends;
+      links.get(a)?.push(b);
+      links.get(b)?.push(a);
+    }
+  }
+
+  const [first] = links.keys();
+  if (first === undefined) return false;
+
+  const seen = new Set([first]);
+  const queue = [first];
+  for (let head = 0; head < queue.length; head++) {
+    for (const next of links.get(queue[head]) ?? []) {
+      if (seen.has(next)) continue;
+      seen.add(next);
+      queue.push(next);
+    }
+  }
+
+  return seen.size === links.size;
+}
+
+/**
+ * Lay the open corridors, house, tunnels, fruit and pellets on a grid
+ * and mirror it
+ */
+function paintGrid(open: ReadonlySet<Corridor>, tunnelRows: readonly number[], tunnelEndCol: number): number[][] {
+  const grid: number[][] = Array.from({ length: GRID_HEIGHT }, () => new Array<number>(GRID_WIDTH).fill(TileType.WALL));
+  const inRing = (col: number, row: number): boolean => col >= RING_COL && row >= RING_TOP_ROW && row <= RING_BOTTOM_ROW;
+
+  for (const { from, to } of open) {
+    for (let row = from.row; row <= to.row; row++) {
+      for (let col = from.col; col <= to.col; col++) {
+        grid[row][col] = inRing(col, row) ? TileType.EMPTY : TileType.PELLET;
+      }
+    }
+  }
+
+  // The house, walled all round with the door on top
+  for (let row = HOUSE.topRow; row <= HOUSE.bottomRow; row++) {
+    for (let col = HOUSE.leftCol; col <= CENTER_COL; col++) {
+      const edge = row === HOUSE.topRow || row === HOUSE.bottomRow || col === HOUSE.leftCol;
+      grid[row][col] = edge ? TileType.WALL : TileType.GHOST_HOUSE;
+    }
+  }
+  for (let col = HOUSE.doorLeftCol; col <= CENTER_COL; col++) {
+    grid[HOUSE.doorRow][col] = TileType.GHOST_DOOR;
+  }
+
+  // Tunnels up to the junction they lead to, no pellets
+  for (const row of tunnelRows) {
+    grid[row].fill(TileType.TUNNEL, 0, tunnelEndCol);
+  }
+
+  grid[RING_BOTTOM_ROW][CENTER_COL] = TileType.FRUIT_SPAWN;
+  grid[PACMAN_ROW][CENTER_COL] = TileType.EMPTY;
+
+  for (const spot of POWER_PELLET_SPOTS) {
+    const nearest = nearestPelletTile(grid, spot);
+    if (nearest) grid[nearest.row][nearest.col] = TileType.POWER_PELLET;
+  }
+
+  // Mirror the left half onto the right
+  for (const cells of grid) {
+    for (let col = 0; col <= CENTER_COL; col++) {
+      cells[GRID_WIDTH - 1 - col] = cells[col];
+    }
+  }
+
+  return grid;
+}
+
+/**
+ * The pellet tile on the left half closest to a spot (reading order breaks ties)
+ */
+function nearestPelletTile(grid: readonly (readonly number[])[], spot: TilePosition): TilePosition | null {
+  let nearest: TilePosition | null = null;
+  let nearestDistance = Infinity;
+
+  grid.forEach((cells, row) => {
+    for (let col = 0; col <= CENTER_COL; col++) {
+      if (cells[col] !== TileType.PELLET) continue;
+      const distance = Math.abs(col - spot.col) + Math.abs(row - spot.row);
+      if (distance < nearestDistance) {
+        nearest = { col, row };
+        nearestDistance = distance;
+      }
+    }
+  });
+
+  return nearest;
+}
+
+/**
+ * A shuffled copy of a list (Fisher-Yates)
+ */
+function shuffle<T>(random: Random, items: readonly T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = random.nextInt(i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/** Set key for a tile */
+function key(tile: TilePosition): string {
+  return `${tile.col},${tile.row}`;
+}
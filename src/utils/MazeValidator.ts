@@ -0,0 +1,311 @@
+/**
+ * Maze Validator
+ *
+ * Checks a `MazeDefinition` before it is played. The game trusts its maze:
+ * a ghost on a one-tile dead end has nowhere legal to turn, a pellet
+ * walled off from Pac-Man can never be eaten, and a blocked door keeps
+ * ghosts in the house forever. `validateMaze()` finds these up front and
+ * lists every problem with the tile it is on, so a loader can refuse the
+ * maze and an editor can mark the tiles.
+ *
+ * Issues come in two severities:
+ *
+ * - **error** - the maze would crash or soft-lock a level; do not play it
+ * - **warning** - playable, but probably not what the designer meant
+ *
+ * `assertPlayable()` is the gate: the simulation runs it on every maze it
+ * is given, and `loadMaze()` on every file it reads.
+ *
+ * Walking rules follow the game's: a tile is open if it is not a wall,
+ * and the ghost house (walls and door included) is off limits outside
+ * the exit and entry moves. Tunnels wrap.
+ *
+ * @module MazeValidator
+ */
+
+import { TilePosition, TileType } from '../types';
+import { GhostId, MazeDefinition, isInGhostHouse } from './MazeData';
+import { adjacentTiles } from './Pathfinding';
+
+/**
+ * One problem found in a maze
+ */
+export interface MazeIssue {
+  readonly severity: 'error' | 'warning';
+  /** Stable identifier for the kind of problem (e.g. `'dead-end'`) */
+  readonly code: string;
+  readonly message: string;
+  /** Tile the problem is on (null for problems with the whole maze) */
+  readonly tile: TilePosition | null;
+}
+
+/** Ghosts that start inside the house */
+const HOUSE_GHOSTS: readonly GhostId[] = ['pinky', 'inky', 'clyde'];
+
+/** Every tile code a grid may hold */
+const TILE_CODES: ReadonlySet<number> = new Set(
+  Object.values(TileType).filter((value): value is number => typeof value === 'number')
+);
+
+/**
+ * Check a maze, returning every problem found (empty when it is fine)
+ *
+ * Errors come before warnings; within each, issues are in the order the
+ * checks run.
+ */
+export function validateMaze(maze: MazeDefinition): MazeIssue[] {
+  const issues: MazeIssue[] = [];
+  const error = (code: string, message: string, tile: TilePosition | null = null): void => {
+    issues.push({ severity: 'error', code, message, tile });
+  };
+  const warn = (code: string, message: string, tile: TilePosition | null = null): void => {
+    issues.push({ severity: 'warning', code, message, tile });
+  };
+
+  // The shape comes first: every other check indexes the grid
+  if (!checkGrid(maze, error)) {
+    return issues;
+  }
+
+  const { grid, width, height, ghostHouse: house } = maze;
+  const onGrid = (tile: TilePosition): boolean =>
+    Number.isInteger(tile.col) && Number.isInteger(tile.row) &&
+    tile.col >= 0 && tile.col < width && tile.row >= 0 && tile.row < height;
+  const corridor = (tile: TilePosition): boolean =>
+    onGrid(tile) && grid[tile.row][tile.col] !== TileType.WALL && !isInGhostHouse(maze, tile.col, tile.row);
+
+  // The house is walled all round; ghosts outside treat its whole box as solid
+  for (let row = house.topRow; row <= house.bottomRow; row++) {
+    for (let col = house.leftCol; col <= house.rightCol; col++) {
+      const edge = row === house.topRow || row === house.bottomRow || col === house.leftCol || col === house.rightCol;
+      const cell = onGrid({ col, row }) ? grid[row][col] : TileType.EMPTY;
+      if (edge && cell !== TileType.WALL && cell !== TileType.GHOST_DOOR) {
+        error('house-open', 'Gap in the ghost house wall', { col, row });
+      }
+    }
+  }
+
+  // Pac-Man's start and everything he can reach from it
+  const pacmanStart = startTile(maze.startPositions.pacman);
+  if (!corridor(pacmanStart)) {
+    error('start-blocked', "Pac-Man's start is not on an open tile outside the ghost house", pacmanStart);
+    return sortIssues(issues);
+  }
+  const reachable = reachableFrom(pacmanStart, maze, corridor);
+  const canReach = (tile: TilePosition): boolean => reachable.has(key(tile));
+
+  // Pellets
+  let pellets = 0;
+  forEachTile(maze, (tile, cell) => {
+    if (cell !== TileType.PELLET && cell !== TileType.POWER_PELLET) return;
+    pellets++;
+    if (!canReach(tile)) {
+      error('pellet-unreachable', "Pellet cannot be reached from Pac-Man's start", tile);
+    }
+  });
+  if (pellets === 0) {
+    error('no-pellets', 'Maze has no pellets, so a level would end as soon as it began');
+  }
+
+  // Ghost starts: Blinky outside, the rest in the house
+  const blinkyStart = startTile(maze.startPositions.blinky);
+  if (!canReach(blinkyStart)) {
+    error('start-blocked', "Blinky's start is not on a tile Pac-Man can reach", blinkyStart);
+  }
+  for (const id of HOUSE_GHOSTS) {
+    const tile = startTile(maze.startPositions[id]);
+    if (!onGrid(tile) || grid[tile.row][tile.col] !== TileType.GHOST_HOUSE) {
+      error('start-outside-house', `${capitalize(id)}'s start is not inside the ghost house`, tile);
+    }
+  }
+
+  // The door and the tiles ghosts leave onto
+  for (let col = house.doorLeftCol; col <= house.doorRightCol; col++) {
+    const door = { col, row: house.doorRow };
+    if (!onGrid(door) || grid[door.row][door.col] !== TileType.GHOST_DOOR) {
+      error('no-door', 'Ghost house door tile is missing', door);
+    }
+
+    const exit = { col, row: house.exitRow };
+    if (!canReach(exit)) {
+      error('door-blocked', 'Ghosts leaving the house cannot reach the maze from here', exit);
+    }
+  }
+
+  // Tunnels: an opening on both edges, and slow zones on the grid
+  for (const tunnel of maze.tunnels) {
+    const { row } = tunnel;
+    if (row < 0 || row >= height) {
+      error('tunnel-off-grid', `Tunnel row ${row} is outside the grid`);
+      continue;
+    }
+
+    const left = { col: 0, row };
+    const right = { col: width - 1, row };
+    for (const [mouth, side] of [[left, 'left'], [right, 'right']] as const) {
+      if (grid[row][mouth.col] === TileType.WALL) {
+        error('tunnel-unpaired', `Tunnel on row ${row} has no opening on the ${side} edge to wrap to`, mouth);
+      }
+    }
+
+    const zones = [tunnel.slowZoneLeft, tunnel.slowZoneRight];
+    if (zones.some((zone) => zone.startCol < 0 || zone.endCol >= width || zone.startCol > zone.endCol)) {
+      error('tunnel-zone', `Tunnel on row ${row} has a slow zone outside the grid`, left);
+    } else if (!canReach(left) && !canReach(right)) {
+      warn('tunnel-unreachable', `Tunnel on row ${row} cannot be reached from Pac-Man's start`, left);
+    }
+  }
+
+  // Dead ends: ghosts never reverse by choice, so a tile with one way out traps them
+  forEachTile(maze, (tile) => {
+    if (!canReach(tile)) return;
+    const exits = adjacentTiles(tile, maze).filter((step) => corridor(step.tile));
+    if (exits.length <= 1) {
+      error('dead-end', 'Dead end: ghosts that enter cannot leave without reversing', tile);
+    }
+  });
+
+  // Scatter corners: anywhere but the ghost house
+  for (const id of ['blinky', ...HOUSE_GHOSTS] as const) {
+    const target = maze.scatterTargets[id];
+    if (isInGhostHouse(maze, target.col, target.row)) {
+      error('scatter-in-house', `${capitalize(id)}'s scatter target is inside the ghost house`, target);
+    }
+  }
+
+  // Fruit: on one tile, or between two, that Pac-Man can walk to
+  const fruit = maze.fruitSpawn;
+  const fruitTiles = [{ col: Math.floor(fruit.col), row: fruit.row }, { col: Math.ceil(fruit.col), row: fruit.row }];
+  if (fruitTiles.some((tile) => !canReach(tile))) {
+    error('fruit-unreachable', 'Fruit spawn is not on a tile Pac-Man can reach', fruitTiles[0]);
+  }
+
+  // No-upward tiles only matter where ghosts walk
+  for (const tile of maze.noUpwardTiles) {
+    if (!canReach(tile)) {
+      warn('no-upward-unused', 'No-upward tile is not on a corridor ghosts use', tile);
+    }
+  }
+
+  return sortIssues(issues);
+}
+
+/**
+ * Does a list of issues include an error?
+ */
+export function hasErrors(issues: readonly MazeIssue[]): boolean {
+  return issues.some((issue) => issue.severity === 'error');
+}
+
+/** Mazes assertPlayable() has already passed */
+const playableMazes = new WeakSet<MazeDefinition>();
+
+/**
+ * Throw if a maze has validation errors (warnings are allowed)
+ *
+ * Each maze is only checked once.
+ *
+ * @throws Error listing every error found
+ */
+export function assertPlayable(maze: MazeDefinition): void {
+  if (playableMazes.has(maze)) return;
+
+  const errors = validateMaze(maze).filter((issue) => issue.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(`Maze '${maze.name}' cannot be played:\n${formatIssues(errors)}`);
+  }
+  playableMazes.add(maze);
+}
+
+/**
+ * One line per issue, e.g. `error (13,4): Dead end: ...`
+ */
+export function formatIssues(issues: readonly MazeIssue[]): string {
+  return issues
+    .map((issue) => {
+      const place = issue.tile ? ` (${issue.tile.col},${issue.tile.row})` : '';
+      return `${issue.severity}${place}: ${issue.message}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Check the grid has the declared size and only known tiles
+ *
+ * @returns false if the grid is the wrong shape to check further
+ */
+function checkGrid(maze: MazeDefinition, error: (code: string, message: string, tile?: TilePosition) => void): boolean {
+  const { grid, width, height } = maze;
+
+  if (grid.length !== height) {
+    error('grid-size', `Grid has ${grid.length} rows, expected ${height}`);
+    return false;
+  }
+
+  let rectangular = true;
+  grid.forEach((cells, row) => {
+    if (cells.length !== width) {
+      error('grid-size', `Row ${row} is ${cells.length} tiles wide, expected ${width}`, { col: 0, row });
+      rectangular = false;
+      return;
+    }
+    cells.forEach((cell, col) => {
+      if (!TILE_CODES.has(cell)) {
+        error('unknown-tile', `Unknown tile code ${cell}`, { col, row });
+      }
+    });
+  });
+
+  return rectangular;
+}
+
+/**
+ * Tile an entity starts on (half columns round right, as entities do)
+ */
+function startTile(position: TilePosition): TilePosition {
+  return { col: Math.floor(position.col + 0.5), row: position.row };
+}
+
+/**
+ * Keys of every tile reachable from a start through passable tiles
+ */
+function reachableFrom(
+  start: TilePosition,
+  maze: MazeDefinition,
+  passable: (tile: TilePosition) => boolean
+): Set<string> {
+  const seen = new Set([key(start)]);
+  const queue = [start];
+
+  for (let head = 0; head < queue.length; head++) {
+    for (const { tile } of adjacentTiles(queue[head], maze)) {
+      if (seen.has(key(tile)) || !passable(tile)) continue;
+      seen.add(key(tile));
+      queue.push(tile);
+    }
+  }
+
+  return seen;
+}
+
+/**
+ * Call a function for every tile, in reading order
+ */
+function forEachTile(maze: MazeDefinition, visit: (tile: TilePosition, cell: number) => void): void {
+  maze.grid.forEach((cells, row) => cells.forEach((cell, col) => visit({ col, row }, cell)));
+}
+
+/** Set key for a tile */
+function key(tile: TilePosition): string {
+  return `${tile.col},${tile.row}`;
+}
+
+/** Errors first, keeping check order within each severity */
+function sortIssues(issues: MazeIssue[]): MazeIssue[] {
+  return [...issues.filter((issue) => issue.severity === 'error'), ...issues.filter((issue) => issue.severity === 'warning')];
+}
+
+/** `'blinky'` → `'Blinky'` */
+function capitalize(id: string): string {
+  return id.charAt(0).toUpperCase() + id.slice(1);
+}
@@ -0,0 +1,146 @@
+/**
+ * Maze Pathfinding
+ *
+ * Breadth-first search over the tile grid. Every move costs one tile, so
+ * BFS gives exact shortest paths without the bookkeeping of A*.
+ *
+ * Rather than one path, `distanceMap()` returns the distance from *every*
+ * tile to a target. A ghost at an intersection then just steps onto the
+ * neighbour with the smallest number - and the same map answers that
+ * question for every ghost heading to the same place.
+ *
+ * ```
+ *   target ──►  0  1  2  3
+ *               1  █  3  4      █ = wall (Infinity)
+ *               2  3  4  5
+ * ```
+ *
+ * Tunnels wrap: the first and last columns of a tunnel row are
+ * neighbours.
+ *
+ * Everything works on the `MazeDefinition` passed in.
+ * The field to the ghost house entrance never changes for a maze, so
+ * `houseEntranceDistances()` builds it once per maze and caches it.
+ *
+ * @module Pathfinding
+ */
+
+import { DIRECTION_VECTORS, Direction, DirectionType } from '../constants';
+import { TilePosition, TileType } from '../types';
+import { MazeDefinition, wrapColumn } from './MazeData';
+
+/**
+ * Can a ghost walk this maze cell outside the house? (walls and the ghost
+ * house are off limits)
+ */
+export function isCorridor(cell: number): boolean {
+  return cell !== TileType.WALL && cell !== TileType.GHOST_HOUSE && cell !== TileType.GHOST_DOOR;
+}
+
+/**
+ * Can a ghost walk this maze cell at all? (everything but walls)
+ */
+export function isOpen(cell: number): boolean {
+  return cell !== TileType.WALL;
+}
+
+/**
+ * Shortest distance in tiles from every tile to a target
+ *
+ * @param target - Tile the distances are measured to
+ * @param maze - Maze to search
+ * @param passable - Which maze cells a path may cross (default: corridors)
+ * @returns Grid of distances indexed [row][col]; Infinity where the target
+ *          cannot be reached (or the target itself is not passable)
+ */
+export function distanceMap(
+  target: TilePosition,
+  maze: MazeDefinition,
+  passable: (cell: number) => boolean = isCorridor
+): number[][] {
+  const grid = maze.grid;
+  const distances = grid.map((row) => row.map(() => Infinity));
+
+  const inBounds = target.row >= 0 && target.row < maze.height && target.col >= 0 && target.col < maze.width;
+  if (!inBounds || !passable(grid[target.row][target.col])) {
+    return distances;
+  }
+
+  distances[target.row][target.col] = 0;
+  const queue: TilePosition[] = [target];
+
+  for (let head = 0; head < queue.length; head++) {
+    const tile = queue[head];
+    const next = distances[tile.row][tile.col] + 1;
+
+    for (const { tile: neighbour } of adjacentTiles(tile, maze)) {
+      if (distances[neighbour.row][neighbour.col] !== Infinity) continue;
+      if (!passable(grid[neighbour.row][neighbour.col])) continue;
+
+      distances[neighbour.row][neighbour.col] = next;
+      queue.push(neighbour);
+    }
+  }
+
+  return distances;
+}
+
+/** Entrance distance fields, one per maze */
+const entranceFields = new WeakMap<MazeDefinition, number[][]>();
+
+/**
+ * Tile just above the ghost house door, where eyes start their descent
+ */
+export function houseEntrance(maze: MazeDefinition): TilePosition {
+  return { col: maze.ghostHouse.doorLeftCol, row: maze.ghostHouse.exitRow };
+}
+
+/**
+ * Corridor distances to the house entrance (built once per maze)
+ */
+export function houseEntranceDistances(maze: MazeDefinition): number[][] {
+  let distances = entranceFields.get(maze);
+  if (!distances) {
+    distances = distanceMap(houseEntrance(maze), maze);
+    entranceFields.set(maze, distances);
+  }
+  return distances;
+}
+
+/**
+ * Distance from a tile in a map (Infinity off the grid)
+ *
+ * Off-grid columns on a tunnel row wrap to the far side.
+ */
+export function distanceAt(distances: number[][], tile: TilePosition, maze: MazeDefinition): number {
+  const col = wrapColumn(maze, tile.col, tile.row);
+  return distances[tile.row]?.[col] ?? Infinity;
+}
+
+/**
+ * One step from a tile: the direction taken and the tile it lands on
+ */
+export interface TileStep {
+  direction: DirectionType;
+  tile: TilePosition;
+}
+
+/**
+ * The neighbours of a tile that lie on the grid, in the arcade tie-break
+ * order (UP, LEFT, DOWN, RIGHT); tunnels wrap
+ */
+export function adjacentTiles(tile: TilePosition, maze: MazeDefinition): TileStep[] {
+  const result: TileStep[] = [];
+
+  for (const direction of [Direction.UP, Direction.LEFT, Direction.DOWN, Direction.RIGHT]) {
+    const vector = DIRECTION_VECTORS[direction];
+    const row = tile.row + vector.y;
+    const col = wrapColumn(maze, tile.col + vector.x, row);
+
+    if (row >= 0 && row < maze.height && col >= 0 && col < maze.width) {
+      result.push({ direction, tile: { col, row } });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,120 @@
+/**
+ * Seedable Pseudo-Random Number Generator
+ *
+ * `Math.random()` cannot be seeded, so any run that used it could never be
+ * reproduced. This module provides a small deterministic generator
+ * (Mulberry32) that can be seeded, saved and restored.
+ *
+ * ## Gameplay vs Cosmetic Streams
+ *
+ * The game keeps two independent generators:
+ * - **Gameplay** (owned by GameSimulation): frightened ghost turns and
+ *   anything else that can change the outcome. Same seed + same inputs
+ *   = identical ghost paths and scores.
+ * - **Cosmetic** (owned by the browser shell): particles and confetti.
+ *
+ * Keeping them apart means a particle burst never shifts the gameplay
+ * sequence, so a replay stays in sync even if effects are turned off.
+ *
+ * @module Random
+ */
+
+/**
+ * Anything that produces uniform numbers in [0, 1)
+ */
+export interface RandomSource {
+  next(): number;
+}
+
+/**
+ * Seeded PRNG (Mulberry32)
+ *
+ * 32 bits of state, fast, and good enough statistically for games.
+ */
+export class Random implements RandomSource {
+  /** Seed this stream started from */
+  private seed: number;
+
+  /** Current internal state */
+  private state: number;
+
+  /**
+   * Create a generator
+   *
+   * @param seed - 32-bit seed (a random one is picked if omitted)
+   */
+  constructor(seed: number = Random.generateSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Pick a fresh seed for a new, unrepeatable run
+   */
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  /**
+   * Next number in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Next integer in [0, max)
+   */
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Next number in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Pick a random element from a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.nextInt(items.length)];
+  }
+
+  /**
+   * Get the seed this stream started from
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Restart the stream from a new seed
+   */
+  setSeed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Get the internal state (to resume a stream mid-sequence)
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  /**
+   * Restore an internal state saved with getState()
+   */
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
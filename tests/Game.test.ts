@@ -0,0 +1,160 @@
+/**
+ * Game shell tests
+ *
+ * The browser shell around GameSimulation, run on a stub 2D canvas with
+ * fake animation frames.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Game } from '../src/Game';
+import { GameSimulation } from '../src/GameSimulation';
+import { Direction, GameState, GameStateType } from '../src/constants';
+import { ReplayFile, ReplayRecorder } from '../src/systems/Replay';
+import { CLASSIC_MAZE } from '../src/utils/MazeData';
+import { generateMaze } from '../src/utils/MazeGenerator';
+
+/** 2D context stub: every method is a mock returning a gradient-like object */
+function createMock2DContext() {
+  return new Proxy({} as Record<string | symbol, unknown>, {
+    get: (target, prop) => {
+      if (!(prop in target)) target[prop] = vi.fn(() => ({ addColorStop: vi.fn(), width: 0 }));
+      return target[prop];
+    },
+  });
+}
+
+/** A classic-maze game: 600 ticks heading left from the start */
+function recordClassicReplay(): ReplayFile {
+  const sim = new GameSimulation({ seed: 5 });
+  const recorder = new ReplayRecorder(5);
+
+  sim.startNewGame(5);
+  for (let tick = 0; tick < 600; tick++) {
+    const inputs = { direction: Direction.LEFT };
+    recorder.record(inputs);
+    sim.step(inputs);
+  }
+
+  return recorder.finish(sim.getSnapshot());
+}
+
+/** Press a key for one frame */
+function press(key: string): void {
+  document.dispatchEvent(new KeyboardEvent('keydown', { key }));
+  vi.advanceTimersByTime(16);
+  document.dispatchEvent(new KeyboardEvent('keyup', { key }));
+}
+
+/** Run the game loop until it reaches a state (about 10 seconds at most) */
+function runUntil(game: Game, state: GameStateType): void {
+  for (let frame = 0; frame < 600 && game.getState() !== state; frame++) {
+    vi.advanceTimersByTime(16);
+  }
+}
+
+describe('Game', () => {
+  let game: Game;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['requestAnimationFrame', 'cancelAnimationFrame', 'performance'] });
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+      createMock2DContext as unknown as HTMLCanvasElement['getContext']
+    );
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    document.body.innerHTML = '<div id="game-container"><canvas id="game-canvas"></canvas></div>';
+    localStorage.clear();
+
+    game = new Game({ canvasId: 'game-canvas', renderer: 'canvas2d' });
+  });
+
+  afterEach(() => {
+    game.stop();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('save and quit', () => {
+    it('should not save a paused practice game', async () => {
+      game.stop();
+      game = new Game({ canvasId: 'game-canvas', renderer: 'canvas2d', practice: true });
+
+      game.start();
+      await vi.runOnlyPendingTimersAsync(); // let the (silent) intro finish
+      runUntil(game, GameState.PLAYING);
+      press('p');
+      runUntil(game, GameState.PAUSED);
+      expect(game.getState()).toBe(GameState.PAUSED);
+      press('q');
+
+      expect(localStorage.getItem('pacman-save')).toBeNull();
+      expect(game.getState()).toBe(GameState.PAUSED);
+    });
+
+    it('should not save a paused replay', () => {
+      const sim = new GameSimulation({ seed: 5 });
+      const recorder = new ReplayRecorder(5);
+      sim.startNewGame(5);
+      for (let tick = 0; tick < 300; tick++) {
+        const inputs = tick === 250 ? { pause: true } : {};
+        recorder.record(inputs);
+        sim.step(inputs);
+      }
+      expect(sim.getState()).toBe(GameState.PAUSED);
+
+      game.start();
+      game.playReplay(recorder.finish(sim.getSnapshot()));
+      runUntil(game, GameState.PAUSED);
+      expect(game.getState()).toBe(GameState.PAUSED);
+      press('q');
+
+      expect(localStorage.getItem('pacman-save')).toBeNull();
+      expect(game.isPlayingReplay()).toBe(true);
+    });
+  });
+
+  describe('practice rewind', () => {
+    it('should keep a paused game paused while rewind is held', async () => {
+      game.stop();
+      game = new Game({ canvasId: 'game-canvas', renderer: 'canvas2d', practice: true });
+
+      game.start();
+      await vi.runOnlyPendingTimersAsync(); // let the (silent) intro finish
+      runUntil(game, GameState.PLAYING);
+      vi.advanceTimersByTime(1000);
+      press('p');
+      expect(game.getState()).toBe(GameState.PAUSED);
+
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Backspace' }));
+      vi.advanceTimersByTime(500);
+      expect(game.getState()).toBe(GameState.PAUSED);
+
+      // Unpausing still works with the key held
+      press('p');
+      expect(game.getState()).toBe(GameState.PLAYING);
+      document.dispatchEvent(new KeyboardEvent('keyup', { key: 'Backspace' }));
+    });
+  });
+
+  describe('replays', () => {
+    it('should play a replay back on the classic maze while custom mazes are chosen', () => {
+      const custom = generateMaze(1);
+      game.setMazes(() => custom);
+      game.start();
+      expect(game.getMaze()).toBe(custom);
+
+      game.setPlaybackSpeed(8);
+      game.playReplay(recordClassicReplay());
+      expect(game.getMaze()).toBe(CLASSIC_MAZE);
+
+      vi.advanceTimersByTime(2000);
+      expect(game.isPlayingReplay()).toBe(false);
+      expect(console.log).toHaveBeenCalledWith('Replay finished in sync:', expect.anything());
+      expect(console.warn).not.toHaveBeenCalledWith('Replay desynced:', expect.anything(), expect.anything(), expect.anything());
+
+      // The next game is on the chosen maze again
+      game.start();
+      expect(game.getMaze()).toBe(custom);
+    });
+  });
+});
@@ -0,0 +1,653 @@
+// @vitest-environment node
+/**
+ * Headless Game Simulation tests
+ *
+ * Runs in the plain Node environment (no jsdom) to prove the rules
+ * have no browser dependencies:
+ * - State machine progression
+ * - Input handling through step()
+ * - Scoring and game events
+ * - Seeded, reproducible runs
+ * - Save and restore
+ * - Read-only snapshots
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GameSimulation } from '../src/GameSimulation';
+import { Direction, GameState, GhostMode, MAX_SPEED } from '../src/constants';
+import { EventBus } from '../src/systems/EventBus';
+import { GameEventMap } from '../src/types';
+import { Random } from '../src/utils/Random';
+import { getLevelConfig } from '../src/systems/LevelConfig';
+import { CLASSIC_MAZE, MazeDefinition, countPellets } from '../src/utils/MazeData';
+import { Autopilot } from '../src/ai/Autopilot';
+import { randomMazes } from '../src/utils/MazeGenerator';
+
+/** Step the simulation until a predicate holds (or give up) */
+function stepUntil(sim: GameSimulation, done: () => boolean, maxTicks: number = 10000): number {
+  let ticks = 0;
+  while (!done() && ticks < maxTicks) {
+    sim.step();
+    ticks++;
+  }
+  return ticks;
+}
+
+/**
+ * Scripted wandering input: a new direction every 30 ticks, drawn from
+ * its own fixed stream (independent of the game seed)
+ */
+const SCRIPT_DIRECTIONS = (() => {
+  const inputs = new Random(7);
+  const directions = [Direction.LEFT, Direction.UP, Direction.RIGHT, Direction.DOWN];
+  return Array.from({ length: 200 }, () => inputs.pick(directions));
+})();
+
+/** Step the scripted input from one script tick to another */
+function stepScripted(sim: GameSimulation, from: number, to: number): void {
+  for (let tick = from; tick < to; tick++) {
+    sim.step({ direction: SCRIPT_DIRECTIONS[Math.floor(tick / 30) % SCRIPT_DIRECTIONS.length] });
+  }
+}
+
+/** Play 3000 scripted ticks from a fresh game */
+function playScripted(seed: number): GameSimulation {
+  const sim = new GameSimulation({ seed });
+  sim.startNewGame();
+  stepScripted(sim, 0, 3000);
+  return sim;
+}
+
+/** Tile codes for the test maze's characters */
+const TILE_CODES: Record<string, number> = { ' ': 0, '#': 1, '.': 2, o: 3, H: 4, '=': 5 };
+
+/** A 12x11 maze: two loops around a small ghost house, no tunnels */
+const SMALL_MAZE: MazeDefinition = {
+  name: 'Small',
+  width: 12,
+  height: 11,
+  grid: [
+    '############',
+    '#o........o#',
+    '#.##.##.##.#',
+    '#....  ....#',
+    '#.###==###.#',
+    '#.#HHHHHH#.#',
+    '#.#HHHHHH#.#',
+    '#.########.#',
+    '#....  ....#',
+    '#o........o#',
+    '############',
+  ].map((row) => [...row].map((cell) => TILE_CODES[cell])),
+  startPositions: {
+    pacman: { col: 5.5, row: 8 },
+    blinky: { col: 5.5, row: 3 },
+    pinky: { col: 5.5, row: 5 },
+    inky: { col: 3.5, row: 5 },
+    clyde: { col: 7.5, row: 5 },
+  },
+  scatterTargets: {
+    blinky: { col: 10, row: -1 },
+    pinky: { col: 1, row: -1 },
+    inky: { col: 11, row: 11 },
+    clyde: { col: 0, row: 11 },
+  },
+  ghostHouse: {
+    leftCol: 2,
+    rightCol: 9,
+    topRow: 4,
+    bottomRow: 7,
+    doorRow: 4,
+    doorLeftCol: 5,
+    doorRightCol: 6,
+    centerCol: 5.5,
+    centerRow: 5,
+    exitRow: 3,
+  },
+  tunnels: [],
+  fruitSpawn: { col: 5.5, row: 3 },
+  noUpwardTiles: [],
+};
+
+describe('GameSimulation', () => {
+  let sim: GameSimulation;
+
+  beforeEach(() => {
+    sim = new GameSimulation();
+  });
+
+  describe('environment', () => {
+    it('should run without a DOM', () => {
+      expect(typeof document).toBe('undefined');
+      expect(() => sim.step()).not.toThrow();
+    });
+  });
+
+  describe('state machine', () => {
+    it('should start on the start screen', () => {
+      expect(sim.getState()).toBe(GameState.START_SCREEN);
+    });
+
+    it('should ignore directions on the start screen', () => {
+      sim.step({ direction: Direction.LEFT });
+      expect(sim.getState()).toBe(GameState.START_SCREEN);
+      expect(sim.getSnapshot().pacman.nextDirection).toBe(Direction.NONE);
+    });
+
+    it('should enter READY when start is pressed', () => {
+      sim.step({ start: true });
+      expect(sim.getState()).toBe(GameState.READY);
+    });
+
+    it('should begin PLAYING after the READY pause', () => {
+      sim.startNewGame();
+      const ticks = stepUntil(sim, () => sim.getState() === GameState.PLAYING);
+      expect(ticks).toBe(120);
+    });
+
+    it('should toggle pause during play', () => {
+      sim.startNewGame();
+      stepUntil(sim, () => sim.getState() === GameState.PLAYING);
+
+      sim.step({ pause: true });
+      expect(sim.getState()).toBe(GameState.PAUSED);
+
+      sim.step({ pause: true });
+      expect(sim.getState()).toBe(GameState.PLAYING);
+    });
+
+    it('should freeze entities while paused', () => {
+      sim.startNewGame();
+      stepUntil(sim, () => sim.getState() === GameState.PLAYING);
+      sim.step({ pause: true, direction: Direction.LEFT });
+
+      const before = sim.getSnapshot();
+      for (let i = 0; i < 30; i++) sim.step();
+      const after = sim.getSnapshot();
+
+      expect(after.ghosts[0].position).toEqual(before.ghosts[0].position);
+      expect(after.pacman.position).toEqual(before.pacman.position);
+    });
+
+    it('should reject pausing outside play', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const rejected = vi.fn();
+      sim.events.on('stateRejected', (e) => rejected(e.data));
+      sim.startNewGame();
+
+      sim.step({ pause: true });
+
+      expect(sim.getState()).toBe(GameState.READY);
+      expect(rejected).toHaveBeenCalledWith({ state: GameState.PAUSED, current: GameState.READY });
+      expect(warn).toHaveBeenCalledTimes(1);
+      warn.mockRestore();
+    });
+
+    it('should refuse a second READY once the game is under way', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      sim.newGame();
+
+      expect(sim.enterReady()).toBe(true);
+      expect(sim.enterReady()).toBe(false);
+      expect(sim.getState()).toBe(GameState.READY);
+      vi.restoreAllMocks();
+    });
+
+    it('should return to the start screen on a new game from any state', () => {
+      sim.startNewGame();
+      stepUntil(sim, () => sim.getState() === GameState.PLAYING);
+      const changes: string[] = [];
+      sim.events.on('stateChanged', (e) => changes.push(e.data.state));
+
+      sim.startNewGame();
+
+      expect(changes).toEqual([GameState.START_SCREEN, GameState.READY]);
+    });
+  });
+
+  describe('gameplay', () => {
+    beforeEach(() => {
+      sim.startNewGame();
+      stepUntil(sim, () => sim.getState() === GameState.PLAYING);
+    });
+
+    it('should move Pac-Man in the requested direction', () => {
+      const startX = sim.getSnapshot().pacman.position.x;
+      for (let i = 0; i < 10; i++) sim.step({ direction: Direction.LEFT });
+      expect(sim.getSnapshot().pacman.position.x).toBeLessThan(startX);
+    });
+
+    it('should score pellets as Pac-Man eats them', () => {
+      for (let i = 0; i < 60; i++) sim.step({ direction: Direction.LEFT });
+
+      const snapshot = sim.getSnapshot();
+      expect(snapshot.pelletsEaten).toBeGreaterThan(0);
+      expect(snapshot.score).toBe(snapshot.pelletsEaten * 10);
+    });
+
+    it('should not use wall-clock timers for gameplay', () => {
+      vi.useFakeTimers();
+      try {
+        sim = new GameSimulation();
+        sim.startNewGame();
+        sim.step({ direction: Direction.LEFT });
+        stepUntil(sim, () => sim.getScore() >= 50);
+
+        expect(sim.getScore()).toBeGreaterThanOrEqual(50);
+        expect(vi.getTimerCount()).toBe(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should clear all but three pellets with the skip cheat', () => {
+      sim.step({ skipLevel: true });
+      expect(sim.getSnapshot().pelletsRemaining).toBe(3);
+    });
+
+    it('should release Pinky at once and Inky when Pac-Man stops eating', () => {
+      sim.step();
+      expect(sim.getSnapshot().ghosts[1].mode).toBe(GhostMode.EXITING);
+
+      for (let i = 1; i < 239; i++) sim.step();
+      expect(sim.getSnapshot().ghosts[2].mode).toBe(GhostMode.HOUSE);
+
+      sim.step();
+      expect(sim.getSnapshot().ghosts[2].mode).toBe(GhostMode.EXITING);
+    });
+
+    it('should move at the level 1 speeds', () => {
+      const config = getLevelConfig(1);
+      sim.step();
+
+      const saved = sim.save();
+      expect(saved.pacman.speed).toBeCloseTo(config.pacmanSpeed * MAX_SPEED);
+      expect(saved.ghosts[0].speed).toBeCloseTo(config.ghostSpeed * MAX_SPEED);
+    });
+
+    it('should follow the level 5 scatter/chase schedule', () => {
+      sim.load({ ...sim.save(), level: 5 });
+
+      for (let i = 0; i < 5 * 60 - 1; i++) sim.step();
+      expect(sim.getSnapshot().ghosts[0].mode).toBe(GhostMode.SCATTER);
+
+      sim.step();
+      expect(sim.getSnapshot().ghosts[0].mode).toBe(GhostMode.CHASE);
+    });
+
+    it('should drop back to the normal speed when fright ends and on a new level', () => {
+      const config = getLevelConfig(1);
+      const pacmanSpeed = (): number => sim.save().pacman.speed;
+      let frightened = false;
+      sim = new GameSimulation({ seed: 1, mazes: () => SMALL_MAZE });
+      sim.events.on('frightenedStarted', () => (frightened = true));
+      sim.events.on('frightenedEnded', () => (frightened = false));
+      sim.startNewGame();
+      stepUntil(sim, () => sim.getState() === GameState.PLAYING);
+
+      // Along row 8 and down onto the power pellet in the corner
+      for (let i = 0; i < 80 && !frightened; i++) sim.step({ direction: Direction.LEFT });
+      for (let i = 0; i < 30 && !frightened; i++) sim.step({ direction: Direction.DOWN });
+      sim.step();
+      expect(pacmanSpeed()).toBeCloseTo(config.pacmanFrightSpeed * MAX_SPEED);
+
+      stepUntil(sim, () => !frightened, 1000);
+      sim.step();
+      expect(pacmanSpeed()).toBeCloseTo(config.pacmanSpeed * MAX_SPEED);
+
+      // Frightened again, then straight on to level 2
+      for (let i = 0; i < 200 && !frightened; i++) sim.step({ direction: Direction.RIGHT });
+      expect(frightened).toBe(true);
+      sim.step({ skipLevel: true });
+      const autopilot = new Autopilot();
+      let ticks = 0;
+      while (sim.getSnapshot().level === 1 && ticks++ < 5000) {
+        sim.step(autopilot.nextInputs(sim));
+      }
+      stepUntil(sim, () => sim.getState() === GameState.PLAYING);
+      sim.step();
+
+      expect(sim.getSnapshot().level).toBe(2);
+      expect(pacmanSpeed()).toBeCloseTo(getLevelConfig(2).pacmanSpeed * MAX_SPEED);
+    });
+
+    it('should apply the saved level speeds on load', () => {
+      const config = getLevelConfig(12);
+      sim.load({ ...sim.save(), level: 12 });
+      sim.step();
+
+      const saved = sim.save();
+      expect(saved.pacman.speed).toBeCloseTo(config.pacmanSpeed * MAX_SPEED);
+      expect(saved.ghosts[0].speed).toBeCloseTo(config.ghostSpeed * MAX_SPEED);
+    });
+  });
+
+  describe('events', () => {
+    it('should raise state changes', () => {
+      const handler = vi.fn();
+      sim.events.on('stateChanged', handler);
+
+      sim.step({ start: true });
+      expect(handler).toHaveBeenCalledWith({
+        type: 'stateChanged',
+        data: { state: GameState.READY, previous: GameState.START_SCREEN },
+      });
+    });
+
+    it('should raise each pellet eaten with its tile and points', () => {
+      const handler = vi.fn();
+      sim.events.on('pelletEaten', handler);
+      sim.startNewGame();
+      stepUntil(sim, () => sim.getState() === GameState.PLAYING);
+
+      for (let i = 0; i < 60; i++) sim.step({ direction: Direction.LEFT });
+
+      expect(handler).toHaveBeenCalledTimes(sim.getSnapshot().pelletsEaten);
+      expect(handler.mock.calls[0][0].data.tile).toHaveProperty('row', 22);
+      expect(handler.mock.calls[0][0].data.points).toBe(10);
+    });
+
+    it('should raise scoreChanged with the running total', () => {
+      const scores: number[] = [];
+      sim.events.on('scoreChanged', (e) => scores.push(e.data.score));
+      sim.startNewGame();
+      stepUntil(sim, () => sim.getState() === GameState.PLAYING);
+
+      for (let i = 0; i < 60; i++) sim.step({ direction: Direction.LEFT });
+
+      expect(scores.length).toBeGreaterThan(0);
+      expect(scores[scores.length - 1]).toBe(sim.getScore());
+    });
+
+    it('should raise a bulk pellet change on a new game', () => {
+      const handler = vi.fn();
+      sim.events.on('pelletsChanged', handler);
+
+      sim.startNewGame();
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0].data.pelletsRemaining).toBe(242);
+    });
+
+    it('should raise levelSkipped for the cheat', () => {
+      const handler = vi.fn();
+      sim.events.on('levelSkipped', handler);
+      sim.startNewGame();
+      stepUntil(sim, () => sim.getState() === GameState.PLAYING);
+
+      sim.step({ skipLevel: true });
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use a shared bus when one is passed in', () => {
+      const events = new EventBus<GameEventMap>();
+      const handler = vi.fn();
+      events.on('stateChanged', handler);
+
+      sim = new GameSimulation({ events });
+      sim.startNewGame();
+
+      expect(sim.events).toBe(events);
+      expect(handler).toHaveBeenCalled();
+    });
+  });
+
+  describe('seeded randomness', () => {
+    it('should expose the seed it was given', () => {
+      sim = new GameSimulation({ seed: 1234 });
+      expect(sim.getSeed()).toBe(1234);
+      expect(sim.getSnapshot().seed).toBe(1234);
+    });
+
+    it('should reproduce ghost paths and score for the same seed and inputs', () => {
+      const first = playScripted(1).getSnapshot();
+      const second = playScripted(1).getSnapshot();
+
+      expect(second.ghosts).toEqual(first.ghosts);
+      expect(second.score).toBe(first.score);
+    });
+
+    it('should diverge for a different seed', () => {
+      // The autopilot eats power pellets, so frightened ghosts turn at random.
+      // Compare every tick against seed 1 rather than one final snapshot
+      const play = (seed: number) => {
+        const game = new GameSimulation({ seed });
+        game.startNewGame();
+        return { game, autopilot: new Autopilot(), diverged: false };
+      };
+      const base = play(1);
+      const others = [2, 3, 4].map(play);
+
+      for (let tick = 0; tick < 3000; tick++) {
+        base.game.step(base.autopilot.nextInputs(base.game));
+        const ghosts = JSON.stringify(base.game.getSnapshot().ghosts);
+        for (const other of others) {
+          other.game.step(other.autopilot.nextInputs(other.game));
+          if (JSON.stringify(other.game.getSnapshot().ghosts) !== ghosts) other.diverged = true;
+        }
+      }
+
+      expect(others.map((other) => other.diverged)).toEqual([true, true, true]);
+    });
+
+    it('should let a new game override the seed', () => {
+      sim.startNewGame(99);
+      expect(sim.getSeed()).toBe(99);
+
+      sim.setSeed(42);
+      expect(sim.getSeed()).toBe(42);
+    });
+  });
+
+  describe('save/load', () => {
+    it('should resume exactly where a saved game left off', () => {
+      sim = new GameSimulation({ seed: 1 });
+      sim.startNewGame();
+      stepScripted(sim, 0, 1500);
+
+      const restored = new GameSimulation({ seed: 999 });
+      restored.load(JSON.parse(JSON.stringify(sim.save())));
+      expect(restored.getSnapshot()).toEqual(sim.getSnapshot());
+
+      stepScripted(sim, 1500, 3000);
+      stepScripted(restored, 1500, 3000);
+
+      expect(restored.getSnapshot()).toEqual(sim.getSnapshot());
+    });
+
+    it('should restore a paused game as paused', () => {
+      sim.startNewGame();
+      stepUntil(sim, () => sim.getState() === GameState.PLAYING);
+      sim.step({ pause: true });
+
+      const restored = new GameSimulation();
+      restored.load(sim.save());
+
+      expect(restored.getState()).toBe(GameState.PAUSED);
+    });
+
+    it('should raise events so presenters can rebuild their view', () => {
+      sim.startNewGame();
+      stepScripted(sim, 0, 200);
+      const save = sim.save();
+
+      const restored = new GameSimulation();
+      const pellets = vi.fn();
+      const loaded = vi.fn();
+      const state = vi.fn();
+      restored.events.on('pelletsChanged', pellets);
+      restored.events.on('gameLoaded', loaded);
+      restored.events.on('stateChanged', state);
+
+      restored.load(save);
+
+      expect(pellets.mock.calls[0][0].data.pelletsRemaining).toBe(242 - save.pelletsEaten);
+      expect(loaded).toHaveBeenCalledWith({ type: 'gameLoaded', data: { fruitHistory: [] } });
+      expect(state.mock.calls[0][0].data).toEqual({ state: save.state, previous: GameState.START_SCREEN });
+    });
+
+    it('should keep the higher high score', () => {
+      const save = sim.save();
+      const restored = new GameSimulation({ highScore: 5000 });
+
+      restored.load(save);
+
+      expect(restored.getSnapshot().highScore).toBe(5000);
+    });
+  });
+
+  describe('snapshot', () => {
+    it('should count ticks', () => {
+      sim.step();
+      sim.step();
+      expect(sim.getSnapshot().tick).toBe(2);
+    });
+
+    it('should carry the high score passed in', () => {
+      sim = new GameSimulation({ highScore: 5000 });
+      expect(sim.getSnapshot().highScore).toBe(5000);
+    });
+
+    it('should describe all four ghosts', () => {
+      const ghosts = sim.getSnapshot().ghosts;
+      expect(ghosts.map((g) => g.name)).toEqual(['Blinky', 'Pinky', 'Inky', 'Clyde']);
+      expect(ghosts[1].mode).toBe(GhostMode.HOUSE);
+    });
+
+    it('should be a copy that cannot change the simulation', () => {
+      const snapshot = sim.getSnapshot();
+      (snapshot.pacman.position as { x: number }).x = -100;
+
+      expect(sim.getSnapshot().pacman.position.x).not.toBe(-100);
+    });
+
+    it('should have no fruit or intermission at the start', () => {
+      const snapshot = sim.getSnapshot();
+      expect(snapshot.fruit).toBeNull();
+      expect(snapshot.intermission).toBeNull();
+    });
+
+    it('should time the scatter/chase phase', () => {
+      sim.startNewGame();
+      stepUntil(sim, () => sim.getState() === GameState.PLAYING);
+      for (let i = 0; i < 10; i++) sim.step();
+
+      const snapshot = sim.getSnapshot();
+      expect(snapshot.modeIndex).toBe(0);
+      expect(snapshot.modeTimer).toBe(10);
+      expect(snapshot.modeDuration).toBe(getLevelConfig(1).scatterTimes[0] * 60);
+    });
+
+    it('should list only the last tick\'s collisions', () => {
+      sim.startNewGame();
+      stepUntil(sim, () => sim.getState() === GameState.PLAYING);
+      expect(sim.getSnapshot().collisions).toEqual([]);
+
+      let ticks = 0;
+      while (sim.getSnapshot().collisions.length === 0 && ticks++ < 100) {
+        sim.step({ direction: Direction.LEFT });
+      }
+      expect(sim.getSnapshot().collisions).toEqual([
+        { type: 'pellet', points: 10, tile: sim.getSnapshot().pacman.tile, ghost: null },
+      ]);
+
+      // A paused tick runs into nothing
+      sim.step({ pause: true });
+      expect(sim.getSnapshot().collisions).toEqual([]);
+    });
+  });
+
+  describe('mazes', () => {
+    it('should play the classic maze by default', () => {
+      sim.startNewGame();
+      expect(sim.getMaze()).toBe(CLASSIC_MAZE);
+      expect(sim.getSnapshot().maze).toBe(CLASSIC_MAZE);
+    });
+
+    it('should lay the level out from the selected maze', () => {
+      sim = new GameSimulation({ mazes: () => SMALL_MAZE });
+      sim.startNewGame();
+
+      const snapshot = sim.getSnapshot();
+      const { regular, power } = countPellets(SMALL_MAZE.grid);
+      expect(snapshot.maze).toBe(SMALL_MAZE);
+      expect(snapshot.pelletsRemaining).toBe(regular + power);
+      expect(snapshot.pacman.tile).toEqual({ col: 6, row: 8 });
+      expect(snapshot.ghosts[0].tile).toEqual({ col: 6, row: 3 });
+      expect(snapshot.ghosts[0].scatterTarget).toEqual(SMALL_MAZE.scatterTargets.blinky);
+    });
+
+    it('should let ghosts leave a custom ghost house', () => {
+      sim = new GameSimulation({ mazes: () => SMALL_MAZE });
+      sim.startNewGame();
+      stepUntil(sim, () => sim.getSnapshot().ghosts[1].mode === GhostMode.SCATTER, 600);
+
+      const pinky = sim.getSnapshot().ghosts[1];
+      expect(pinky.isInHouse).toBe(false);
+      expect(pinky.tile.row).toBeLessThanOrEqual(SMALL_MAZE.ghostHouse.exitRow);
+    });
+
+    it('should switch mazes between levels', () => {
+      const mazes = vi.fn((level: number) => (level === 1 ? CLASSIC_MAZE : SMALL_MAZE));
+      sim = new GameSimulation({ seed: 1, mazes });
+      const autopilot = new Autopilot();
+      sim.startNewGame();
+      stepUntil(sim, () => sim.getState() === GameState.PLAYING);
+      sim.step({ skipLevel: true });
+
+      let ticks = 0;
+      while (sim.getSnapshot().level === 1 && ticks++ < 5000) {
+        sim.step(autopilot.nextInputs(sim));
+      }
+
+      expect(mazes).toHaveBeenCalledWith(2);
+      expect(sim.getSnapshot().maze).toBe(SMALL_MAZE);
+      expect(sim.getSnapshot().pelletsRemaining).toBe(countPellets(SMALL_MAZE.grid).regular + 4);
+    });
+
+    it('should play a generated maze', () => {
+      sim = new GameSimulation({ seed: 3, mazes: randomMazes(3) });
+      const autopilot = new Autopilot();
+      sim.startNewGame();
+      stepUntil(sim, () => sim.getState() === GameState.PLAYING);
+
+      const pellets = sim.getSnapshot().pelletsRemaining;
+      for (let tick = 0; tick < 1500 && sim.getState() === GameState.PLAYING; tick++) {
+        sim.step(autopilot.nextInputs(sim));
+      }
+
+      expect(sim.getMaze().name).toBe('Random 3-1');
+      expect(sim.getSnapshot().pelletsRemaining).toBeLessThan(pellets);
+      expect(sim.getSnapshot().ghosts.some((ghost) => ghost.name === 'Pinky' && !ghost.isInHouse)).toBe(true);
+    });
+
+    it("should load a save into the saved level's maze", () => {
+      const mazes = (level: number): MazeDefinition => (level === 3 ? SMALL_MAZE : CLASSIC_MAZE);
+      const small = new GameSimulation({ mazes: () => SMALL_MAZE });
+      small.startNewGame();
+
+      sim = new GameSimulation({ mazes });
+      sim.load({ ...small.save(), level: 3 });
+      expect(sim.getMaze()).toBe(SMALL_MAZE);
+
+      expect(() => sim.load({ ...small.save(), level: 1 })).toThrow('expected 31');
+    });
+
+    it('should take a new maze selector from the next game on', () => {
+      sim.startNewGame();
+      sim.setMazes(() => SMALL_MAZE);
+      expect(sim.getMaze()).toBe(CLASSIC_MAZE);
+
+      sim.startNewGame();
+      expect(sim.getMaze()).toBe(SMALL_MAZE);
+
+      sim.setMazes();
+      sim.startNewGame();
+      expect(sim.getMaze()).toBe(CLASSIC_MAZE);
+    });
+
+    it('should refuse a maze that fails validation', () => {
+      const walledIn: MazeDefinition = { ...SMALL_MAZE, startPositions: { ...SMALL_MAZE.startPositions, pacman: { col: 0, row: 0 } } };
+      expect(() => new GameSimulation({ mazes: () => walledIn }).startNewGame()).toThrow("Maze 'Small' cannot be played");
+    });
+  });
+});
@@ -0,0 +1,137 @@
+// @vitest-environment node
+/**
+ * JSON-lines agent protocol tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AgentServer, AgentReply } from '../../src/ai/AgentProtocol';
+import { GameState } from '../../src/constants';
+
+/** Send a message and parse the reply line */
+function send(server: AgentServer, message: unknown): AgentReply {
+  return JSON.parse(server.handleLine(JSON.stringify(message)));
+}
+
+describe('AgentServer', () => {
+  let server: AgentServer;
+
+  beforeEach(() => {
+    server = new AgentServer();
+  });
+
+  describe('Games', () => {
+    it('should start a game on reset and reply with its observation', () => {
+      const reply = send(server, { id: 'a', type: 'reset', seed: 1 });
+
+      expect(reply).toMatchObject({ id: 'a', type: 'observation', reward: 0, done: false, score: 0 });
+      if (reply.type !== 'observation') return;
+      expect(reply.info.state).toBe(GameState.PLAYING);
+      expect(reply.observation.grid.length).toBeGreaterThan(0);
+      expect(reply.observation.features.length).toBeGreaterThan(0);
+      expect(server.getInstanceCount()).toBe(1);
+    });
+
+    it('should step a game in the named direction', () => {
+      send(server, { id: 'a', type: 'reset', seed: 1 });
+
+      let score = 0;
+      for (let i = 0; i < 20; i++) {
+        const reply = send(server, { id: 'a', type: 'step', direction: 'left' });
+        if (reply.type === 'observation') score = reply.score;
+      }
+
+      expect(score).toBeGreaterThan(0);
+    });
+
+    it('should report the state without stepping', () => {
+      send(server, { id: 'a', type: 'reset', seed: 1 });
+      send(server, { id: 'a', type: 'step', direction: 'left' });
+
+      const first = send(server, { id: 'a', type: 'state' });
+      const second = send(server, { id: 'a', type: 'state' });
+
+      expect(first).toEqual(second);
+      expect(first).toMatchObject({ type: 'observation', reward: 0 });
+    });
+
+    it('should keep games with different ids independent', () => {
+      send(server, { id: 'a', type: 'reset', seed: 1 });
+      send(server, { id: 'b', type: 'reset', seed: 1, options: { frameSkip: 1 } });
+
+      for (let i = 0; i < 20; i++) {
+        send(server, { id: 'a', type: 'step', direction: 'left' });
+      }
+
+      const a = send(server, { id: 'a', type: 'state' });
+      const b = send(server, { id: 'b', type: 'state' });
+      expect(a.type === 'observation' && a.score).toBeGreaterThan(0);
+      expect(b).toMatchObject({ type: 'observation', score: 0 });
+      expect(server.getInstanceCount()).toBe(2);
+    });
+
+    it('should forget a game on close', () => {
+      send(server, { id: 'a', type: 'reset', seed: 1 });
+
+      expect(send(server, { id: 'a', type: 'close' })).toEqual({ id: 'a', type: 'closed' });
+      expect(server.getInstanceCount()).toBe(0);
+      expect(send(server, { id: 'a', type: 'state' })).toMatchObject({ id: 'a', type: 'error' });
+    });
+  });
+
+  describe('Errors', () => {
+    it('should reply with an error for lines that are not JSON', () => {
+      expect(JSON.parse(server.handleLine('{oops'))).toEqual({ id: null, type: 'error', message: 'Invalid JSON' });
+    });
+
+    it('should reply with an error for malformed requests', () => {
+      expect(send(server, [1, 2])).toMatchObject({ id: null, type: 'error' });
+      expect(send(server, { type: 'state' })).toMatchObject({ id: null, type: 'error' });
+      expect(send(server, { id: 'a', type: 'jump' })).toMatchObject({ id: 'a', type: 'error' });
+      expect(send(server, { id: 'a', type: 'reset', seed: -1 })).toMatchObject({ type: 'error' });
+      expect(send(server, { id: 'a', type: 'reset', options: { frameSkip: 0 } })).toMatchObject({ type: 'error' });
+    });
+
+    it('should reject bad episode lengths and reward weights', () => {
+      const reset = (options: unknown) => send(server, { id: 'a', type: 'reset', seed: 1, options });
+
+      expect(reset({ maxSteps: 'x' })).toMatchObject({
+        type: 'error',
+        message: 'maxSteps must be a positive integer, got x',
+      });
+      expect(reset({ maxSteps: 2.5 })).toMatchObject({ type: 'error' });
+      expect(reset({ rewards: { death: 'x' } })).toMatchObject({
+        type: 'error',
+        message: 'rewards.death must be a finite number, got x',
+      });
+      expect(reset({ rewards: { deaths: -100 } })).toMatchObject({ type: 'error', message: "Unknown reward 'deaths'" });
+      expect(reset({ rewards: { constructor: 1 } })).toMatchObject({ type: 'error' });
+      expect(reset({ rewards: [1] })).toMatchObject({ type: 'error', message: 'rewards must be an object' });
+      expect(server.getInstanceCount()).toBe(0);
+
+      expect(reset({ maxSteps: 10, rewards: { death: -100 } })).toMatchObject({ type: 'observation' });
+    });
+
+    it('should reject steps for unknown games and directions', () => {
+      expect(send(server, { id: 'a', type: 'step', direction: 'left' })).toMatchObject({
+        type: 'error',
+        message: "No game 'a' - send reset first",
+      });
+
+      send(server, { id: 'a', type: 'reset', seed: 1 });
+      expect(send(server, { id: 'a', type: 'step', direction: 'sideways' })).toMatchObject({ type: 'error' });
+      expect(send(server, { id: 'a', type: 'step', direction: 'constructor' })).toMatchObject({
+        type: 'error',
+        message: "Unknown direction 'constructor'",
+      });
+      expect(send(server, { id: 'a', type: 'step', direction: 'toString' })).toMatchObject({ type: 'error' });
+      expect(send(server, { id: 'a', type: 'step' })).toMatchObject({ type: 'error' });
+    });
+
+    it('should keep serving other games after an error', () => {
+      send(server, { id: 'a', type: 'reset', seed: 1 });
+      send(server, { id: 'b', type: 'step', direction: 'left' });
+
+      expect(send(server, { id: 'a', type: 'step', direction: 'left' })).toMatchObject({ type: 'observation' });
+    });
+  });
+});
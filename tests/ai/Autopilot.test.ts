@@ -0,0 +1,188 @@
+// @vitest-environment node
+/**
+ * Autopilot tests
+ *
+ * - Goes for pellets, fruit and frightened ghosts
+ * - Keeps away from ghosts and their predicted routes
+ * - Saves power pellets until a ghost closes in
+ * - Plays whole games through ordinary simulation inputs
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Autopilot, AutopilotView } from '../../src/ai/Autopilot';
+import {
+  GameSimulation,
+  GameSnapshot,
+  GhostSnapshot,
+  FruitSnapshot,
+  SimulationInputs,
+} from '../../src/GameSimulation';
+import { FruitType } from '../../src/entities/Fruit';
+import { Direction, DirectionType, GameState, GhostMode, GhostModeType } from '../../src/constants';
+import { TilePosition } from '../../src/types';
+import { CLASSIC_MAZE } from '../../src/utils/MazeData';
+import { isCorridor } from '../../src/utils/Pathfinding';
+import { playingSnapshot } from '../helpers';
+
+/** A PLAYING snapshot to build scenarios from */
+const base: GameSnapshot = playingSnapshot();
+
+/** A ghost outside the house */
+function ghostAt(
+  col: number,
+  row: number,
+  mode: GhostModeType,
+  direction: DirectionType,
+  targetTile: TilePosition = { col, row }
+): GhostSnapshot {
+  return { ...base.ghosts[0], tile: { col, row }, mode, direction, targetTile, isInHouse: false };
+}
+
+/** A cherry on a tile with some time left */
+function fruitAt(col: number, row: number, remainingTime: number): FruitSnapshot {
+  return {
+    position: { x: 0, y: 0 },
+    tile: { col, row },
+    type: FruitType.CHERRY,
+    points: 100,
+    color: '#f00',
+    remainingTime,
+  };
+}
+
+/** A game with Pac-Man on a tile, the given ghosts and pellets only where listed */
+function scenario(
+  pacman: TilePosition,
+  pellets: TilePosition[],
+  extra: Partial<GameSnapshot> = {}
+): { snapshot: GameSnapshot; view: AutopilotView } {
+  const snapshot: GameSnapshot = {
+    ...base,
+    pacman: { ...base.pacman, tile: pacman, direction: Direction.NONE },
+    ghosts: [],
+    fruit: null,
+    ...extra,
+  };
+  const view: AutopilotView = {
+    getSnapshot: () => snapshot,
+    hasPellet: (col, row) => pellets.some((p) => p.col === col && p.row === row),
+  };
+  return { snapshot, view };
+}
+
+describe('Autopilot', () => {
+  let bot: Autopilot;
+
+  beforeEach(() => {
+    bot = new Autopilot();
+  });
+
+  describe('goals', () => {
+    it('should head for the nearest pellet', () => {
+      const { snapshot, view } = scenario({ col: 3, row: 5 }, [{ col: 5, row: 5 }]);
+      expect(bot.chooseDirection(snapshot, view)).toBe(Direction.RIGHT);
+    });
+
+    it('should chase fruit it can reach in time', () => {
+      const { snapshot, view } = scenario({ col: 3, row: 5 }, [], { fruit: fruitAt(6, 5, 600) });
+
+      expect(bot.chooseDirection(snapshot, view)).toBe(Direction.RIGHT);
+    });
+
+    it('should ignore fruit that will be gone on arrival', () => {
+      const { snapshot, view } = scenario({ col: 3, row: 5 }, [], { fruit: fruitAt(6, 5, 5) });
+
+      expect(bot.chooseDirection(snapshot, view)).not.toBe(Direction.RIGHT);
+    });
+
+    it('should hunt frightened ghosts while the fright lasts', () => {
+      const ghosts = [ghostAt(6, 5, GhostMode.FRIGHTENED, Direction.LEFT)];
+      const { snapshot, view } = scenario({ col: 3, row: 5 }, [], { ghosts, frightenedTimer: 400 });
+
+      expect(bot.chooseDirection(snapshot, view)).toBe(Direction.RIGHT);
+    });
+
+    it('should run from frightened ghosts about to recover', () => {
+      const ghosts = [ghostAt(6, 5, GhostMode.FRIGHTENED, Direction.LEFT)];
+      const { snapshot, view } = scenario({ col: 3, row: 5 }, [], { ghosts, frightenedTimer: 60 });
+
+      expect(bot.chooseDirection(snapshot, view)).toBe(Direction.LEFT);
+    });
+  });
+
+  describe('danger', () => {
+    it('should turn away from a ghost coming down the corridor', () => {
+      const pellets = [{ col: 5, row: 5 }, { col: 1, row: 6 }];
+      const ghosts = [ghostAt(7, 5, GhostMode.CHASE, Direction.LEFT, { col: 3, row: 5 })];
+
+      const calm = scenario({ col: 3, row: 5 }, pellets);
+      expect(new Autopilot().chooseDirection(calm.snapshot, calm.view)).toBe(Direction.RIGHT);
+
+      const chased = scenario({ col: 3, row: 5 }, pellets, { ghosts });
+      expect(bot.chooseDirection(chased.snapshot, chased.view)).toBe(Direction.LEFT);
+    });
+
+    it('should save power pellets until a ghost closes in', () => {
+      const pellets = [{ col: 1, row: 3 }, { col: 1, row: 8 }];
+
+      const calm = scenario({ col: 1, row: 5 }, pellets);
+      expect(new Autopilot().chooseDirection(calm.snapshot, calm.view)).toBe(Direction.DOWN);
+
+      const ghosts = [ghostAt(9, 5, GhostMode.CHASE, Direction.LEFT, { col: 1, row: 5 })];
+      const chased = scenario({ col: 1, row: 5 }, pellets, { ghosts });
+      expect(bot.chooseDirection(chased.snapshot, chased.view)).toBe(Direction.UP);
+    });
+  });
+
+  describe('playing', () => {
+    /** Let the bot play a seeded game, recording its inputs */
+    const play = (seed: number, ticks: number) => {
+      const sim = new GameSimulation({ seed });
+      const autopilot = new Autopilot();
+      const inputs: SimulationInputs[] = [];
+      sim.startNewGame();
+
+      for (let i = 0; i < ticks; i++) {
+        const next = autopilot.nextInputs(sim);
+        inputs.push(next);
+        sim.step(next);
+      }
+      return { sim, inputs };
+    };
+
+    it('should send no inputs outside PLAYING', () => {
+      const sim = new GameSimulation({ seed: 1 });
+      sim.startNewGame();
+
+      expect(sim.getState()).toBe(GameState.READY);
+      expect(bot.nextInputs(sim)).toEqual({});
+    });
+
+    it('should clear pellets while staying in the corridors', () => {
+      const sim = new GameSimulation({ seed: 3 });
+      sim.startNewGame();
+
+      for (let i = 0; i < 2000; i++) {
+        sim.step(bot.nextInputs(sim));
+        const { col, row } = sim.getSnapshot().pacman.tile;
+        if (col >= 0 && col < CLASSIC_MAZE.width) {
+          expect(isCorridor(CLASSIC_MAZE.grid[row][col])).toBe(true);
+        }
+      }
+
+      expect(sim.getSnapshot().pelletsEaten).toBeGreaterThan(100);
+    });
+
+    it('should be replayable from its inputs alone', () => {
+      const { sim, inputs } = play(5, 1500);
+
+      const replayed = new GameSimulation({ seed: 5 });
+      replayed.startNewGame();
+      for (const next of inputs) {
+        replayed.step(next);
+      }
+
+      expect(replayed.getSnapshot()).toEqual(sim.getSnapshot());
+    });
+  });
+});
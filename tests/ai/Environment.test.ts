@@ -0,0 +1,159 @@
+// @vitest-environment node
+/**
+ * Reinforcement-learning environment tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  GameEnvironment,
+  ObservationCell,
+  FEATURE_NAMES,
+  StepResult,
+} from '../../src/ai/Environment';
+import { Direction, DirectionType, GameState, GRID_HEIGHT, GRID_WIDTH } from '../../src/constants';
+import { CLASSIC_MAZE } from '../../src/utils/MazeData';
+import { TileType } from '../../src/types';
+import { Random } from '../../src/utils/Random';
+
+/** Directions for random play */
+const MOVES: DirectionType[] = [Direction.UP, Direction.DOWN, Direction.LEFT, Direction.RIGHT];
+
+/** Step with seeded random actions until a condition holds (fails after a limit) */
+function stepUntil(env: GameEnvironment, done: (result: StepResult) => boolean): StepResult {
+  const random = new Random(11);
+  for (let i = 0; i < 20000; i++) {
+    const result = env.step(random.pick(MOVES));
+    if (done(result)) return result;
+  }
+  throw new Error('Condition never met');
+}
+
+/** Count the cells of a code in a grid */
+function countCells(grid: readonly (readonly number[])[], code: number): number {
+  return grid.flat().filter((cell) => cell === code).length;
+}
+
+describe('GameEnvironment', () => {
+  describe('reset', () => {
+    it('should start an episode with Pac-Man ready to move', () => {
+      const env = new GameEnvironment();
+      const result = env.reset(1);
+
+      expect(result.reward).toBe(0);
+      expect(result.done).toBe(false);
+      expect(result.info).toMatchObject({ score: 0, lives: 3, level: 1, state: GameState.PLAYING, truncated: false });
+    });
+
+    it('should describe the maze, pellets and entities in the grid', () => {
+      const { grid } = new GameEnvironment().reset(1).observation;
+
+      expect(grid).toHaveLength(GRID_HEIGHT);
+      expect(grid.every((row) => row.length === GRID_WIDTH)).toBe(true);
+      expect(countCells(grid, ObservationCell.WALL)).toBe(countCells(CLASSIC_MAZE.grid, TileType.WALL));
+      expect(countCells(grid, ObservationCell.POWER_PELLET)).toBe(4);
+      expect(countCells(grid, ObservationCell.PACMAN)).toBe(1);
+      expect(countCells(grid, ObservationCell.GHOST)).toBeGreaterThan(0);
+    });
+
+    it('should give one feature per name, all within [-1, 1]', () => {
+      const { features } = new GameEnvironment().reset(1).observation;
+
+      expect(features).toHaveLength(FEATURE_NAMES.length);
+      expect(features.every((value) => value >= -1 && value <= 1)).toBe(true);
+      // A fresh level has every pellet left
+      expect(features[FEATURE_NAMES.indexOf('pelletsRemaining')]).toBe(1);
+    });
+  });
+
+  describe('step', () => {
+    it('should hold the action for frameSkip ticks', () => {
+      const env = new GameEnvironment({ frameSkip: 3 });
+      const start = env.reset(1).info.tick;
+
+      expect(env.step(Direction.LEFT).info.tick).toBe(start + 3);
+    });
+
+    it('should reward the score gained by default', () => {
+      const env = new GameEnvironment();
+      env.reset(1);
+
+      let total = 0;
+      let result = env.step(Direction.LEFT);
+      for (let i = 0; i < 50; i++) {
+        total += result.reward;
+        result = env.step(Direction.LEFT);
+      }
+      total += result.reward;
+
+      expect(total).toBeGreaterThan(0);
+      expect(total).toBe(result.info.score);
+    });
+
+    it('should apply the configured reward weights', () => {
+      const env = new GameEnvironment({ rewards: { score: 0, pellet: 1, death: -100 } });
+      env.reset(1);
+
+      const eating = env.step(Direction.LEFT);
+      expect(eating.reward).toBeGreaterThanOrEqual(0);
+      expect(Number.isInteger(eating.reward)).toBe(true);
+
+      // Wandering at random, Pac-Man is caught sooner or later
+      const caught = stepUntil(env, (result) => result.info.lives < 3);
+      expect(caught.reward).toBe(-100);
+    });
+
+    it('should fast-forward through the death animation', () => {
+      const env = new GameEnvironment();
+      env.reset(1);
+
+      const caught = stepUntil(env, (result) => result.info.lives < 3);
+      expect(caught.info.state).toBe(GameState.PLAYING);
+    });
+
+    it('should end the episode on game over and refuse further steps', () => {
+      const env = new GameEnvironment({ frameSkip: 8 });
+      env.reset(1);
+
+      const last = stepUntil(env, (result) => result.done);
+      expect(last.info.state).toBe(GameState.GAME_OVER);
+      expect(last.info.truncated).toBe(false);
+      expect(() => env.step(Direction.LEFT)).toThrow('reset');
+    });
+
+    it('should truncate the episode after maxSteps', () => {
+      const env = new GameEnvironment({ maxSteps: 5 });
+      env.reset(1);
+
+      for (let i = 0; i < 4; i++) {
+        expect(env.step(Direction.LEFT).done).toBe(false);
+      }
+      const last = env.step(Direction.LEFT);
+      expect(last.done).toBe(true);
+      expect(last.info.truncated).toBe(true);
+    });
+
+    it('should replay an episode exactly from its seed and actions', () => {
+      const actions = (() => {
+        const random = new Random(3);
+        return Array.from({ length: 300 }, () => random.pick(MOVES));
+      })();
+      const run = (): StepResult[] => {
+        const env = new GameEnvironment();
+        env.reset(99);
+        return actions.map((action) => env.step(action));
+      };
+
+      expect(run()).toEqual(run());
+    });
+
+    it('should reject bad actions and options', () => {
+      const env = new GameEnvironment();
+      env.reset(1);
+
+      expect(() => env.step(7 as DirectionType)).toThrow('Invalid action');
+      expect(() => new GameEnvironment({ frameSkip: 0 })).toThrow('frameSkip');
+      expect(() => new GameEnvironment({ maxSteps: 0 })).toThrow('maxSteps');
+      expect(() => new GameEnvironment({ rewards: { death: NaN } })).toThrow('rewards.death');
+    });
+  });
+});
@@ -0,0 +1,127 @@
+// @vitest-environment node
+/**
+ * Ghost brain tests
+ *
+ * - Classic brains keep the arcade targeting
+ * - Hunter follows the maze, not the straight line
+ * - Wanderer turns at random from the gameplay stream
+ * - Brains can be swapped on a ghost and per level in the simulation
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BlinkyBrain, ClydeBrain } from '../../src/ai/ClassicBrains';
+import { HunterBrain, WandererBrain } from '../../src/ai/ExperimentalBrains';
+import { GhostBrainSelector } from '../../src/ai/GhostBrain';
+import { Blinky } from '../../src/entities/Blinky';
+import { Clyde } from '../../src/entities/Clyde';
+import { PacMan } from '../../src/entities/PacMan';
+import { GameSimulation } from '../../src/GameSimulation';
+import { Direction, DirectionType, GameState } from '../../src/constants';
+import { Random } from '../../src/utils/Random';
+
+describe('GhostBrain', () => {
+  let blinky: Blinky;
+  let pacman: PacMan;
+
+  beforeEach(() => {
+    blinky = new Blinky();
+    pacman = new PacMan();
+  });
+
+  describe('classic brains', () => {
+    it('should be the default for each ghost', () => {
+      expect(blinky.getBrain()).toBeInstanceOf(BlinkyBrain);
+      expect(new Clyde().getBrain()).toBeInstanceOf(ClydeBrain);
+    });
+
+    it('should steer by straight-line distance', () => {
+      // Moving right at (12, 5) toward (15, 1): up looks closer, but is a dead end
+      blinky.setTilePosition(12, 5);
+      blinky.targetTile = { col: 15, row: 1 };
+      const options: DirectionType[] = [Direction.UP, Direction.RIGHT];
+
+      expect(new BlinkyBrain().chooseDirection(blinky, blinky.getTile(), options)).toBe(Direction.UP);
+    });
+  });
+
+  describe('hunter', () => {
+    it('should target Pac-Man', () => {
+      pacman.setTilePosition(6, 20);
+      expect(new HunterBrain().chooseTarget(blinky, { pacman })).toEqual({ col: 6, row: 20 });
+    });
+
+    it('should take the shorter maze path around a wall', () => {
+      blinky.setTilePosition(12, 5);
+      blinky.targetTile = { col: 15, row: 1 };
+      const options: DirectionType[] = [Direction.UP, Direction.RIGHT];
+
+      expect(new HunterBrain().chooseDirection(blinky, blinky.getTile(), options)).toBe(Direction.RIGHT);
+    });
+
+    it('should fall back to straight-line steering for unreachable targets', () => {
+      blinky.setTilePosition(12, 5);
+      blinky.targetTile = { col: 25, row: -3 };
+      const options: DirectionType[] = [Direction.UP, Direction.RIGHT];
+
+      expect(new HunterBrain().chooseDirection(blinky, blinky.getTile(), options)).toBe(Direction.RIGHT);
+    });
+  });
+
+  describe('wanderer', () => {
+    it('should pick options with the gameplay random stream', () => {
+      const options: DirectionType[] = [Direction.UP, Direction.LEFT, Direction.DOWN];
+      const brain = new WandererBrain();
+
+      expect(brain.chooseDirection(blinky, blinky.getTile(), options, { next: () => 0 })).toBe(Direction.UP);
+      expect(brain.chooseDirection(blinky, blinky.getTile(), options, { next: () => 0.99 })).toBe(Direction.DOWN);
+    });
+
+    it('should be reproducible for a seed', () => {
+      const options: DirectionType[] = [Direction.UP, Direction.LEFT, Direction.DOWN];
+      const brain = new WandererBrain();
+      const pick = (seed: number) => {
+        const random = new Random(seed);
+        return Array.from({ length: 20 }, () => brain.chooseDirection(blinky, blinky.getTile(), options, random));
+      };
+
+      expect(pick(9)).toEqual(pick(9));
+    });
+  });
+
+  describe('swapping', () => {
+    it('should let a ghost change brains', () => {
+      pacman.setTilePosition(6, 20);
+      blinky.setTilePosition(3, 5);
+
+      blinky.setBrain(new WandererBrain());
+
+      expect(blinky.calculateChaseTarget(pacman)).toEqual({ col: 3, row: 5 });
+    });
+
+    it('should ask the simulation selector for every ghost on each level', () => {
+      const selector = vi.fn<Parameters<GhostBrainSelector>, ReturnType<GhostBrainSelector>>(() => null);
+      const sim = new GameSimulation({ seed: 1, ghostBrains: selector });
+
+      sim.startNewGame();
+      expect(selector).toHaveBeenCalledWith('Blinky', 1);
+      expect(selector).toHaveBeenCalledWith('Clyde', 1);
+
+      sim.load({ ...sim.save(), level: 3 });
+      expect(selector).toHaveBeenCalledWith('Pinky', 3);
+    });
+
+    it('should change how ghosts move', () => {
+      const play = (ghostBrains?: GhostBrainSelector) => {
+        const sim = new GameSimulation({ seed: 4, ghostBrains });
+        sim.startNewGame();
+        while (sim.getState() !== GameState.PLAYING) sim.step();
+        for (let i = 0; i < 600; i++) sim.step();
+        return sim.getSnapshot().ghosts.map((ghost) => ghost.position);
+      };
+
+      const wanderers = () => new WandererBrain();
+      expect(play(wanderers)).toEqual(play(wanderers));
+      expect(play(wanderers)).not.toEqual(play());
+    });
+  });
+});
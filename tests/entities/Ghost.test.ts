@@ -14,8 +14,20 @@ import { Pinky } from '../../src/entities/Pinky';
 import { Inky } from '../../src/entities/Inky';
 import { Clyde } from '../../src/entities/Clyde';
 import { PacMan } from '../../src/entities/PacMan';
-import { Direction, GhostMode } from '../../src/constants';
-import { SCATTER_TARGETS } from '../../src/utils/MazeData';
+import {
+  Direction,
+  DIRECTION_VECTORS,
+  GhostMode,
+  MAX_SPEED,
+  FRIGHT_FLASH_TICKS,
+  SCALED_TILE,
+  GHOST_EATEN_SPEED,
+} from '../../src/constants';
+import { getLevelConfig } from '../../src/systems/LevelConfig';
+import { CLASSIC_MAZE } from '../../src/utils/MazeData';
+import { houseEntrance, houseEntranceDistances } from '../../src/utils/Pathfinding';
+import { WandererBrain } from '../../src/ai/ExperimentalBrains';
+import { Random } from '../../src/utils/Random';
 
 describe('Blinky (Red Ghost)', () => {
   let blinky: Blinky;
@@ -44,7 +56,7 @@ describe('Blinky (Red Ghost)', () => {
     });
 
     it('should have correct scatter target (top-right)', () => {
-      expect(blinky.scatterTarget).toEqual(SCATTER_TARGETS.BLINKY);
+      expect(blinky.scatterTarget).toEqual(CLASSIC_MAZE.scatterTargets.blinky);
     });
   });
 
@@ -84,6 +96,38 @@ describe('Blinky (Red Ghost)', () => {
       blinky.setCruiseElroy(5);
       expect(blinky.getCruiseElroyLevel()).toBe(2);
     });
+
+    it('should use the level config thresholds', () => {
+      const config = getLevelConfig(5);
+      blinky.setLevelSpeeds(config);
+
+      blinky.updateElroyMode(config.elroyDotsLeft1 + 1);
+      expect(blinky.getCruiseElroyLevel()).toBe(0);
+
+      blinky.updateElroyMode(config.elroyDotsLeft1);
+      expect(blinky.getCruiseElroyLevel()).toBe(1);
+
+      blinky.updateElroyMode(config.elroyDotsLeft2);
+      expect(blinky.getCruiseElroyLevel()).toBe(2);
+    });
+
+    it('should move at the level config elroy speeds', () => {
+      const config = getLevelConfig(5);
+      blinky.setLevelSpeeds(config);
+      blinky.setTilePosition(6, 5);
+      blinky.direction = Direction.RIGHT;
+
+      blinky.update(16);
+      expect(blinky.speed).toBe(config.ghostSpeed * MAX_SPEED);
+
+      blinky.setCruiseElroy(1);
+      blinky.update(16);
+      expect(blinky.speed).toBe(config.elroySpeed1 * MAX_SPEED);
+
+      blinky.setCruiseElroy(2);
+      blinky.update(16);
+      expect(blinky.speed).toBe(config.elroySpeed2 * MAX_SPEED);
+    });
   });
 });
 
@@ -110,7 +154,7 @@ describe('Pinky (Pink Ghost)', () => {
     });
 
     it('should have correct scatter target (top-left)', () => {
-      expect(pinky.scatterTarget).toEqual(SCATTER_TARGETS.PINKY);
+      expect(pinky.scatterTarget).toEqual(CLASSIC_MAZE.scatterTargets.pinky);
     });
   });
 
@@ -269,7 +313,7 @@ describe('Clyde (Orange Ghost)', () => {
       pacman.setTilePosition(12, 15);
 
       const target = clyde.calculateChaseTarget(pacman);
-      expect(target).toEqual(SCATTER_TARGETS.CLYDE);
+      expect(target).toEqual(CLASSIC_MAZE.scatterTargets.clyde);
     });
 
     it('should switch behavior at exactly 8 tiles', () => {
@@ -278,7 +322,7 @@ describe('Clyde (Orange Ghost)', () => {
       pacman.setTilePosition(18, 15);
 
       const target = clyde.calculateChaseTarget(pacman);
-      expect(target).toEqual(SCATTER_TARGETS.CLYDE);
+      expect(target).toEqual(CLASSIC_MAZE.scatterTargets.clyde);
     });
 
     it('should chase at just over 8 tiles', () => {
@@ -316,6 +360,159 @@ describe('Ghost Mode Switching', () => {
     blinky.setMode(GhostMode.FRIGHTENED, 100);
     expect(blinky.frightenedFlashing).toBe(false);
   });
+
+  it('should flash the level number of times before fright ends', () => {
+    blinky.setFrightenedDuration(300, 3);
+    blinky.setTilePosition(6, 5);
+    blinky.setMode(GhostMode.FRIGHTENED);
+
+    // Count white flashes over the whole fright
+    let flashes = 0;
+    let wasFlashing = false;
+    let firstFlashTick = -1;
+    for (let tick = 1; tick <= 300; tick++) {
+      blinky.update(16);
+      if (blinky.frightenedFlashing && !wasFlashing) {
+        flashes++;
+        if (firstFlashTick < 0) firstFlashTick = tick;
+      }
+      wasFlashing = blinky.frightenedFlashing;
+    }
+
+    expect(flashes).toBe(3);
+    expect(firstFlashTick).toBe(300 - 3 * FRIGHT_FLASH_TICKS);
+    expect(blinky.mode).not.toBe(GhostMode.FRIGHTENED);
+  });
+});
+
+describe('Ghost Movement', () => {
+  it('should not turn into the ghost house door', () => {
+    const pinky = new Pinky();
+    pinky.exitHouse();
+    pinky.isInHouse = false;
+    pinky.mode = GhostMode.CHASE;
+    pinky.setTilePosition(13, 11);
+    pinky.direction = Direction.LEFT;
+    pinky.targetTile = { col: 13, row: 20 };
+
+    pinky.update(16.67);
+
+    expect(pinky.direction).toBe(Direction.LEFT);
+  });
+
+  it('should not turn into the door at random while frightened', () => {
+    const pinky = new Pinky();
+    pinky.exitHouse();
+    pinky.isInHouse = false;
+    pinky.setMode(GhostMode.FRIGHTENED, 600);
+    pinky.setRandom({ next: () => 0 }); // would pick the first option: down
+    pinky.setTilePosition(13, 11);
+    pinky.direction = Direction.RIGHT;
+
+    pinky.update(16.67);
+
+    expect(pinky.direction).toBe(Direction.RIGHT);
+  });
+
+  it('should still take eyes down through the door', () => {
+    const pinky = new Pinky();
+    pinky.exitHouse();
+    pinky.isInHouse = false;
+    pinky.mode = GhostMode.EATEN;
+    pinky.setTilePosition(13, 11);
+    pinky.position.x += SCALED_TILE / 2;
+    pinky.direction = Direction.RIGHT;
+
+    pinky.update(16.67);
+
+    expect(pinky.mode).toBe(GhostMode.ENTERING);
+  });
+
+  it('should snap to the tile centre before turning', () => {
+    const blinky = new Blinky();
+    blinky.setLevelSpeeds(getLevelConfig(1));
+    blinky.setTilePosition(6, 5);
+    blinky.position.x -= 0.5;
+    blinky.position.y += 0.5;
+    blinky.direction = Direction.RIGHT;
+    blinky.targetTile = { col: 6, row: 29 };
+
+    blinky.update(16.67);
+
+    expect(blinky.direction).toBe(Direction.DOWN);
+    expect(blinky.position.x).toBe(6 * SCALED_TILE + SCALED_TILE / 2);
+  });
+
+  it.each([1, 5, 21])('should stay on the corridor centre lines through turns at level %i speeds', (level) => {
+    const blinky = new Blinky();
+    blinky.setLevelSpeeds(getLevelConfig(level));
+    blinky.setTilePosition(1, 5);
+    blinky.direction = Direction.RIGHT;
+    blinky.targetTile = { col: 26, row: 29 };
+
+    for (let i = 0; i < 600; i++) {
+      blinky.update(16.67);
+
+      const tile = blinky.getTile();
+      const horizontal = DIRECTION_VECTORS[blinky.direction].y === 0;
+      const offset = horizontal
+        ? blinky.position.y - (tile.row * SCALED_TILE + SCALED_TILE / 2)
+        : blinky.position.x - (tile.col * SCALED_TILE + SCALED_TILE / 2);
+      expect(offset).toBe(0);
+    }
+  });
+});
+
+describe('Ghost Next Direction Preview', () => {
+  it('should predict the turn taken at the next tile', () => {
+    const blinky = new Blinky();
+    blinky.setLevelSpeeds(getLevelConfig(1));
+    blinky.setTilePosition(1, 5);
+    blinky.direction = Direction.RIGHT;
+    blinky.targetTile = { col: 26, row: 29 };
+
+    let tile = blinky.getTile();
+    let planned = blinky.planNextDirection();
+    let checked = 0;
+    for (let i = 0; i < 600; i++) {
+      const plan = blinky.planNextDirection();
+      blinky.update(16.67);
+
+      const next = blinky.getTile();
+      if (next.col !== tile.col || next.row !== tile.row) {
+        // Leaving a tile: the direction taken there was the one planned
+        expect(blinky.direction).toBe(planned);
+        planned = plan;
+        tile = next;
+        checked++;
+      }
+    }
+    expect(checked).toBeGreaterThan(20);
+  });
+
+  it('should not guess while frightened or in the house', () => {
+    const blinky = new Blinky();
+    blinky.direction = Direction.LEFT;
+    blinky.setMode(GhostMode.FRIGHTENED);
+    expect(blinky.planNextDirection()).toBeNull();
+
+    expect(new Pinky().planNextDirection()).toBeNull();
+  });
+
+  it('should leave the gameplay random stream alone', () => {
+    const blinky = new Blinky();
+    const random = new Random(5);
+    blinky.setBrain(new WandererBrain());
+    blinky.setRandom(random);
+    // Heading for the crossroads at (6, 5)
+    blinky.setTilePosition(5, 5);
+    blinky.direction = Direction.RIGHT;
+
+    for (let i = 0; i < 10; i++) {
+      expect(blinky.planNextDirection()).not.toBeNull();
+    }
+    expect(random.next()).toBe(new Random(5).next());
+  });
 });
 
 describe('Ghost Reset', () => {
@@ -337,3 +534,80 @@ describe('Ghost Reset', () => {
     expect(pinky.mode).toBe(GhostMode.HOUSE);
   });
 });
+
+describe('Eaten Ghost Return', () => {
+  let blinky: Blinky;
+
+  /** Update until the eyes reach the door (or give up) */
+  const runUntilEntering = (ghost: Blinky, limit = 2000): number => {
+    let ticks = 0;
+    while (ghost.mode === GhostMode.EATEN && ticks < limit) {
+      ghost.update(16.67);
+      ticks++;
+    }
+    return ticks;
+  };
+
+  beforeEach(() => {
+    blinky = new Blinky();
+  });
+
+  it('should target the tile above the door', () => {
+    blinky.eaten();
+    blinky.updateTarget(new PacMan());
+
+    expect(blinky.targetTile).toEqual(houseEntrance(CLASSIC_MAZE));
+  });
+
+  it.each([
+    [1, 1],
+    [26, 29],
+    [1, 29],
+    [21, 14],
+  ])('should take the shortest path home from (%i, %i)', (col, row) => {
+    blinky.setTilePosition(col, row);
+    blinky.direction = Direction.NONE;
+    blinky.eaten();
+
+    const ticks = runUntilEntering(blinky);
+
+    // One tile of slack for arriving part-way into the entrance tiles
+    const tiles = houseEntranceDistances(CLASSIC_MAZE)[row][col] + 1;
+    expect(blinky.mode).toBe(GhostMode.ENTERING);
+    expect(ticks).toBeLessThanOrEqual(Math.ceil((tiles * SCALED_TILE) / GHOST_EATEN_SPEED));
+  });
+
+  it('should descend into the house instead of teleporting', () => {
+    blinky.setTilePosition(1, 1);
+    blinky.direction = Direction.NONE;
+    blinky.eaten();
+    runUntilEntering(blinky);
+    expect(blinky.isInHouse).toBe(true);
+
+    let ticks = 0;
+    let previous = { ...blinky.position };
+    while (!blinky.checkReachedHouse() && ticks < 500) {
+      blinky.update(16.67);
+      const step = Math.abs(blinky.position.x - previous.x) + Math.abs(blinky.position.y - previous.y);
+      // Door speed on each axis at most (the tick that lines up with the door moves both)
+      expect(step).toBeLessThanOrEqual(4);
+      previous = { ...blinky.position };
+      ticks++;
+    }
+
+    expect(ticks).toBeGreaterThan(SCALED_TILE);
+    expect(blinky.mode).toBe(GhostMode.HOUSE);
+    expect(blinky.position.x).toBe(CLASSIC_MAZE.ghostHouse.centerCol * SCALED_TILE + SCALED_TILE / 2);
+    expect(blinky.getTile().row).toBe(CLASSIC_MAZE.ghostHouse.centerRow);
+  });
+
+  it('should not revive before the descent ends', () => {
+    blinky.setTilePosition(1, 1);
+    blinky.direction = Direction.NONE;
+    blinky.eaten();
+    runUntilEntering(blinky);
+
+    expect(blinky.checkReachedHouse()).toBe(false);
+    expect(blinky.mode).toBe(GhostMode.ENTERING);
+  });
+});
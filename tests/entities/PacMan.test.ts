@@ -4,8 +4,9 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { PacMan } from '../../src/entities/PacMan';
-import { Direction, SCALED_TILE, PACMAN_SPEED } from '../../src/constants';
-import { START_POSITIONS } from '../../src/utils/MazeData';
+import { Direction, SCALED_TILE, PACMAN_SPEED, MAX_SPEED } from '../../src/constants';
+import { getLevelConfig } from '../../src/systems/LevelConfig';
+import { CLASSIC_MAZE } from '../../src/utils/MazeData';
 
 describe('PacMan', () => {
   let pacman: PacMan;
@@ -16,8 +17,8 @@ describe('PacMan', () => {
 
   describe('initialization', () => {
     it('should start at correct position', () => {
-      const expectedX = START_POSITIONS.PACMAN.col * SCALED_TILE + SCALED_TILE / 2;
-      const expectedY = START_POSITIONS.PACMAN.row * SCALED_TILE + SCALED_TILE / 2;
+      const expectedX = CLASSIC_MAZE.startPositions.pacman.col * SCALED_TILE + SCALED_TILE / 2;
+      const expectedY = CLASSIC_MAZE.startPositions.pacman.row * SCALED_TILE + SCALED_TILE / 2;
 
       expect(pacman.position.x).toBe(expectedX);
       expect(pacman.position.y).toBe(expectedY);
@@ -157,8 +158,8 @@ describe('PacMan', () => {
       pacman.position.y = 100;
       pacman.reset();
 
-      const expectedX = START_POSITIONS.PACMAN.col * SCALED_TILE + SCALED_TILE / 2;
-      const expectedY = START_POSITIONS.PACMAN.row * SCALED_TILE + SCALED_TILE / 2;
+      const expectedX = CLASSIC_MAZE.startPositions.pacman.col * SCALED_TILE + SCALED_TILE / 2;
+      const expectedY = CLASSIC_MAZE.startPositions.pacman.row * SCALED_TILE + SCALED_TILE / 2;
 
       expect(pacman.position.x).toBe(expectedX);
       expect(pacman.position.y).toBe(expectedY);
@@ -253,5 +254,37 @@ describe('PacMan', () => {
 
       expect(pacman.speed).toBeGreaterThan(PACMAN_SPEED);
     });
+
+    it('should use the speeds of the level it is given', () => {
+      const config = getLevelConfig(21);
+      pacman.setLevelSpeeds(config);
+      pacman.setTilePosition(1, 5);
+      pacman.direction = Direction.RIGHT;
+
+      pacman.update(16);
+      expect(pacman.speed).toBe(config.pacmanSpeed * MAX_SPEED);
+
+      pacman.frightenedModeActive = true;
+      pacman.update(16);
+      expect(pacman.speed).toBe(config.pacmanFrightSpeed * MAX_SPEED);
+    });
+
+    it('should leave frightened speed on a reset', () => {
+      pacman.frightenedModeActive = true;
+
+      pacman.reset();
+
+      expect(pacman.frightenedModeActive).toBe(false);
+      expect(pacman.speed).toBe(PACMAN_SPEED);
+    });
+
+    it('should keep level speeds through a reset', () => {
+      const config = getLevelConfig(10);
+      pacman.setLevelSpeeds(config);
+
+      pacman.reset();
+
+      expect(pacman.speed).toBe(config.pacmanSpeed * MAX_SPEED);
+    });
   });
 });
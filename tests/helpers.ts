@@ -0,0 +1,22 @@
+/**
+ * Shared test fixtures
+ */
+
+import { GameSimulation, GameSnapshot } from '../src/GameSimulation';
+import { Direction, GameState } from '../src/constants';
+
+/**
+ * Snapshot of a seed 1 game once play has started, after Pac-Man has
+ * held LEFT for the given number of ticks
+ */
+export function playingSnapshot(steps: number = 0): GameSnapshot {
+  const sim = new GameSimulation({ seed: 1 });
+  sim.startNewGame();
+  while (sim.getState() !== GameState.PLAYING) {
+    sim.step({});
+  }
+  for (let i = 0; i < steps; i++) {
+    sim.step({ direction: Direction.LEFT });
+  }
+  return sim.getSnapshot();
+}
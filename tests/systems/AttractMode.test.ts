@@ -0,0 +1,173 @@
+// @vitest-environment node
+/**
+ * Attract mode loop tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AttractMode,
+  AttractPage,
+  DEMO_MAX_TICKS,
+  ROLL_CALL_TICKS,
+  ROW_REVEAL_TICKS,
+  SCORING_TICKS,
+} from '../../src/systems/AttractMode';
+import { EventBus } from '../../src/systems/EventBus';
+import { ReplayFile, ReplayRecorder } from '../../src/systems/Replay';
+import { GameSimulation } from '../../src/GameSimulation';
+import { Colors, Direction, GameState } from '../../src/constants';
+import { GameEventMap } from '../../src/types';
+
+/** Run the loop for some ticks */
+function advance(attract: AttractMode, ticks: number): void {
+  for (let i = 0; i < ticks; i++) {
+    attract.update();
+  }
+}
+
+/** Run until the demo ends and the roll call is back (fails if it never does) */
+function finishDemo(attract: AttractMode): number {
+  let ticks = 0;
+  while (attract.getPage() === AttractPage.DEMO) {
+    attract.update();
+    ticks++;
+    if (ticks > DEMO_MAX_TICKS) throw new Error('Demo never ended');
+  }
+  return ticks;
+}
+
+/** A short recorded game: 300 ticks heading left */
+function recordReplay(): ReplayFile {
+  const sim = new GameSimulation({ seed: 5 });
+  sim.startNewGame(5);
+  const recorder = new ReplayRecorder(5, 1234);
+  for (let i = 0; i < 300; i++) {
+    const inputs = { direction: Direction.LEFT };
+    recorder.record(inputs);
+    sim.step(inputs);
+  }
+  return recorder.finish(sim.getSnapshot());
+}
+
+describe('AttractMode', () => {
+  describe('Title Pages', () => {
+    it('should start on the roll call with no rows revealed', () => {
+      const attract = new AttractMode({ seed: 1 });
+
+      expect(attract.getPage()).toBe(AttractPage.ROLL_CALL);
+      expect(attract.getScreen().rows).toEqual([]);
+      expect(attract.getScreen().backdrop).toBe(true);
+      expect(attract.getDemo()).toBeNull();
+    });
+
+    it('should introduce the ghosts one at a time in arcade order', () => {
+      const attract = new AttractMode({ seed: 1 });
+
+      advance(attract, ROW_REVEAL_TICKS);
+      expect(attract.getScreen().rows).toHaveLength(1);
+
+      advance(attract, ROW_REVEAL_TICKS * 3);
+      const rows = attract.getScreen().rows;
+      expect(rows.map((row) => row.text)).toEqual([
+        'SHADOW   "BLINKY"',
+        'SPEEDY   "PINKY"',
+        'BASHFUL  "INKY"',
+        'POKEY    "CLYDE"',
+      ]);
+      expect(rows.map((row) => row.color)).toEqual([Colors.BLINKY, Colors.PINKY, Colors.INKY, Colors.CLYDE]);
+      expect(rows.every((row) => row.icon?.type === 'ghost')).toBe(true);
+    });
+
+    it('should show the scoring table after the roll call', () => {
+      const attract = new AttractMode({ seed: 1 });
+
+      advance(attract, ROLL_CALL_TICKS);
+      expect(attract.getPage()).toBe(AttractPage.SCORING);
+
+      advance(attract, SCORING_TICKS - 1);
+      const texts = attract.getScreen().rows.map((row) => row.text);
+      expect(texts[0]).toContain('10 PTS');
+      expect(texts[1]).toContain('50 PTS');
+      expect(texts[2]).toBe('200 400 800 1600 PTS');
+      expect(attract.getScreen().rows[2].icon?.frightened).toBe(true);
+    });
+  });
+
+  describe('Demo', () => {
+    it('should play a demo game with the autopilot after the scoring table', () => {
+      const attract = new AttractMode({ seed: 1, highScore: 4321 });
+
+      advance(attract, ROLL_CALL_TICKS + SCORING_TICKS);
+      expect(attract.getPage()).toBe(AttractPage.DEMO);
+      expect(attract.isDemoReplay()).toBe(false);
+      expect(attract.getScreen()).toMatchObject({ title: 'DEMO', rows: [], backdrop: false });
+
+      const demo = attract.getDemo();
+      expect(demo?.getState()).toBe(GameState.READY);
+
+      advance(attract, 600);
+      expect(demo?.getState()).toBe(GameState.PLAYING);
+      expect(demo?.getScore()).toBeGreaterThan(0);
+      expect(demo?.getSnapshot().highScore).toBe(4321);
+    });
+
+    it('should raise the demo game events on the given bus', () => {
+      const events = new EventBus<GameEventMap>();
+      let pellets = 0;
+      events.on('pelletEaten', () => pellets++);
+
+      const attract = new AttractMode({ seed: 1, events });
+      advance(attract, ROLL_CALL_TICKS + SCORING_TICKS + 600);
+
+      expect(pellets).toBeGreaterThan(0);
+      expect(attract.getDemo()?.events).toBe(events);
+    });
+
+    it('should loop back to the roll call when the demo ends', () => {
+      const events = new EventBus<GameEventMap>();
+      let deaths = 0;
+      events.on('pacmanDied', () => deaths++);
+
+      const attract = new AttractMode({ seed: 1, events });
+      advance(attract, ROLL_CALL_TICKS + SCORING_TICKS);
+      const ticks = finishDemo(attract);
+
+      expect(attract.getPage()).toBe(AttractPage.ROLL_CALL);
+      expect(attract.getDemo()).toBeNull();
+      // Ends on the first lost life, or at the time limit
+      expect(deaths === 1 || ticks === DEMO_MAX_TICKS).toBe(true);
+
+      // The finished demo's listeners are gone from the shared bus
+      expect(events.listenerCount('pacmanDied')).toBe(1);
+    });
+
+    it('should alternate the autopilot with the replay when one is given', () => {
+      const replay = recordReplay();
+      const attract = new AttractMode({ seed: 1, replay });
+
+      advance(attract, ROLL_CALL_TICKS + SCORING_TICKS);
+      expect(attract.isDemoReplay()).toBe(false);
+      finishDemo(attract);
+
+      advance(attract, ROLL_CALL_TICKS + SCORING_TICKS);
+      expect(attract.isDemoReplay()).toBe(true);
+      expect(attract.getScreen().title).toBe('REPLAY');
+      expect(attract.getDemo()?.getSeed()).toBe(replay.seed);
+      expect(attract.getDemo()?.getSnapshot().highScore).toBe(1234);
+
+      // A replay demo stops when the recording runs out
+      expect(finishDemo(attract)).toBeLessThanOrEqual(replay.length);
+    });
+
+    it('should always use the autopilot without a replay', () => {
+      const attract = new AttractMode({ seed: 1 });
+
+      advance(attract, ROLL_CALL_TICKS + SCORING_TICKS);
+      finishDemo(attract);
+
+      advance(attract, ROLL_CALL_TICKS + SCORING_TICKS);
+      expect(attract.getPage()).toBe(AttractPage.DEMO);
+      expect(attract.isDemoReplay()).toBe(false);
+    });
+  });
+});
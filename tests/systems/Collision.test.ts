@@ -158,6 +158,17 @@ describe('Collision System', () => {
       expect(ghostResult).toBeUndefined();
     });
 
+    it('should not collide with eyes entering the house', () => {
+      pacman.setTilePosition(13, 11);
+      blinky.setTilePosition(13, 11);
+      blinky.mode = GhostMode.ENTERING;
+
+      const results = collision.checkCollisions(pacman, [blinky]);
+      const ghostResult = results.find(r => r.type === 'ghost' || r.type === 'ghostEaten');
+
+      expect(ghostResult).toBeUndefined();
+    });
+
     it('should not detect collision when far apart', () => {
       pacman.setTilePosition(5, 5);
       blinky.setTilePosition(20, 20);
@@ -207,6 +218,23 @@ describe('Collision System', () => {
     });
   });
 
+  describe('save/load', () => {
+    it('should restore eaten pellets and the remaining count', () => {
+      collision.skipToEndOfLevel();
+      const save = collision.save();
+
+      const restored = new Collision();
+      restored.load(save);
+
+      expect(restored.getPelletsRemaining()).toBe(3);
+      expect(restored.save()).toEqual(save);
+    });
+
+    it('should reject a grid of the wrong size', () => {
+      expect(() => collision.load({ pellets: [], ghostsEatenThisPowerPellet: 0 })).toThrow('rows');
+    });
+  });
+
   describe('hasPellet query', () => {
     it('should return true for tile with pellet', () => {
       expect(collision.hasPellet(1, 1)).toBe(true);
@@ -0,0 +1,115 @@
+// @vitest-environment node
+/**
+ * Ghost AI debug overlay tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildDebugView, clampToGrid } from '../../src/systems/DebugOverlay';
+import { GameSnapshot, GhostSnapshot } from '../../src/GameSimulation';
+import { GhostMode } from '../../src/constants';
+import { CLASSIC_MAZE, MazeDefinition } from '../../src/utils/MazeData';
+import { playingSnapshot } from '../helpers';
+
+/** A game a few seconds into level 1 */
+const base: GameSnapshot = playingSnapshot(30);
+
+/** The base game with every ghost out of the house in one mode */
+function allGhosts(changes: Partial<GhostSnapshot>): GameSnapshot {
+  return {
+    ...base,
+    ghosts: base.ghosts.map((ghost) => ({ ...ghost, isInHouse: false, ...changes })),
+  };
+}
+
+describe('DebugOverlay', () => {
+  describe('ghosts', () => {
+    it('should describe every ghost with its scatter corner', () => {
+      const view = buildDebugView(base);
+
+      expect(view.ghosts.map((ghost) => ghost.name)).toEqual(['Blinky', 'Pinky', 'Inky', 'Clyde']);
+      expect(view.ghosts[0].scatterTarget).toEqual(CLASSIC_MAZE.scatterTargets.blinky);
+      expect(view.ghosts[0].label).toBe('SCATTER');
+    });
+
+    it('should show targets only for ghosts that are steering by them', () => {
+      const view = buildDebugView(base);
+      const blinky = base.ghosts[0];
+
+      expect(view.ghosts[0].target).toEqual(clampToGrid(blinky.targetTile, CLASSIC_MAZE));
+      expect(view.ghosts[0].nextDirection).toBe(blinky.nextDirection);
+      // Clyde waits in the house for 60 pellets
+      expect(view.ghosts[3].target).toBeNull();
+
+      const frightened = buildDebugView(allGhosts({ mode: GhostMode.FRIGHTENED }));
+      expect(frightened.ghosts.every((ghost) => ghost.target === null)).toBe(true);
+    });
+
+    it('should name brains other than the classic one', () => {
+      const snapshot: GameSnapshot = {
+        ...base,
+        ghosts: [{ ...base.ghosts[0], mode: GhostMode.CHASE, brain: 'hunter' }],
+      };
+
+      expect(buildDebugView(snapshot).ghosts[0].label).toBe('CHASE (hunter)');
+    });
+
+    it('should pull off-grid targets onto the maze edge', () => {
+      expect(clampToGrid({ col: -4, row: 12 }, CLASSIC_MAZE)).toEqual({ col: 0, row: 12 });
+      expect(clampToGrid({ col: 30, row: -3 }, CLASSIC_MAZE)).toEqual({ col: 27, row: 0 });
+      expect(clampToGrid({ col: 5, row: 40 }, CLASSIC_MAZE)).toEqual({ col: 5, row: 30 });
+
+      const small: MazeDefinition = { ...CLASSIC_MAZE, width: 10, height: 8 };
+      expect(clampToGrid({ col: 30, row: 40 }, small)).toEqual({ col: 9, row: 7 });
+    });
+  });
+
+  describe('personalities', () => {
+    it('should draw Inky from Blinky through the tile 2 ahead of Pac-Man while chasing', () => {
+      const snapshot = allGhosts({ mode: GhostMode.CHASE });
+      const { inkyLine } = buildDebugView(snapshot);
+      const pacman = snapshot.pacman.tile;
+
+      expect(inkyLine?.from).toEqual(snapshot.ghosts[0].tile);
+      // Pac-Man is heading left
+      expect(inkyLine?.pivot).toEqual({ col: pacman.col - 2, row: pacman.row });
+      expect(inkyLine?.to).toEqual(clampToGrid(snapshot.ghosts[2].targetTile, CLASSIC_MAZE));
+    });
+
+    it("should draw Clyde's retreat radius around him while chasing", () => {
+      const snapshot = allGhosts({ mode: GhostMode.CHASE });
+      const { clydeCircle } = buildDebugView(snapshot);
+
+      expect(clydeCircle).toEqual({ color: snapshot.ghosts[3].color, center: snapshot.ghosts[3].tile, radius: 8 });
+    });
+
+    it('should leave the personality geometry out in scatter', () => {
+      const view = buildDebugView(allGhosts({ mode: GhostMode.SCATTER }));
+
+      expect(view.inkyLine).toBeNull();
+      expect(view.clydeCircle).toBeNull();
+    });
+  });
+
+  describe('status', () => {
+    it("should mark the maze's no-upward tiles", () => {
+      expect(buildDebugView(base).noUpwardTiles).toEqual(CLASSIC_MAZE.noUpwardTiles);
+
+      const maze: MazeDefinition = { ...CLASSIC_MAZE, noUpwardTiles: [{ col: 1, row: 1 }] };
+      expect(buildDebugView({ ...base, maze }).noUpwardTiles).toEqual([{ col: 1, row: 1 }]);
+    });
+
+    it('should show the scatter/chase phase and its timer', () => {
+      expect(buildDebugView(base).status).toEqual([`SCATTER #1 ${(base.modeTimer / 60).toFixed(1)}s / 7.0s`]);
+
+      const final: GameSnapshot = { ...base, globalGhostMode: GhostMode.CHASE, modeIndex: 3, modeTimer: 90, modeDuration: null };
+      expect(buildDebugView(final).status).toEqual(['CHASE #4 1.5s / forever']);
+    });
+
+    it('should add the frightened countdown', () => {
+      const status = buildDebugView({ ...base, frightenedTimer: 150 }).status;
+
+      expect(status).toHaveLength(2);
+      expect(status[1]).toBe('FRIGHTENED 2.5s left');
+    });
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * DOM overlay tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { DomOverlay } from '../../src/systems/DomOverlay';
+
+describe('DomOverlay', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should scatter the victory fireworks and confetti from the cosmetic stream', () => {
+    const overlay = new DomOverlay(document.createElement('canvas'), { next: () => 0.5 });
+    overlay.renderGameWonText(1000);
+
+    const fireworks = Array.from(document.querySelectorAll<HTMLElement>('#victory-overlay .firework'));
+    const confetti = Array.from(document.querySelectorAll<HTMLElement>('#victory-overlay .confetti'));
+
+    expect(fireworks.map((firework) => firework.style.left)).toEqual(Array(8).fill('50%'));
+    expect(fireworks.map((firework) => firework.style.top)).toEqual(Array(8).fill('50%'));
+    expect(confetti.map((piece) => piece.style.left)).toEqual(Array(30).fill('50%'));
+    expect(confetti.map((piece) => piece.style.animationDuration)).toEqual(Array(30).fill('3s'));
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Event Bus TDD tests
+ *
+ * Tests for the typed publish/subscribe hub:
+ * - Subscribe, emit, unsubscribe
+ * - One-shot and wildcard subscribers
+ * - Error isolation between subscribers
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventBus } from '../../src/systems/EventBus';
+
+interface TestEvents {
+  scored: { points: number };
+  reset: undefined;
+}
+
+describe('EventBus', () => {
+  let bus: EventBus<TestEvents>;
+
+  beforeEach(() => {
+    bus = new EventBus<TestEvents>();
+  });
+
+  describe('on/emit', () => {
+    it('should deliver the typed payload', () => {
+      const handler = vi.fn();
+      bus.on('scored', handler);
+
+      bus.emit('scored', { points: 10 });
+
+      expect(handler).toHaveBeenCalledWith({ type: 'scored', data: { points: 10 } });
+    });
+
+    it('should allow events without a payload', () => {
+      const handler = vi.fn();
+      bus.on('reset', handler);
+
+      bus.emit('reset');
+
+      expect(handler).toHaveBeenCalledWith({ type: 'reset', data: undefined });
+    });
+
+    it('should only deliver to subscribers of that type', () => {
+      const handler = vi.fn();
+      bus.on('reset', handler);
+
+      bus.emit('scored', { points: 10 });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should call every subscriber in subscription order', () => {
+      const calls: string[] = [];
+      bus.on('reset', () => calls.push('first'));
+      bus.on('reset', () => calls.push('second'));
+
+      bus.emit('reset');
+
+      expect(calls).toEqual(['first', 'second']);
+    });
+  });
+
+  describe('unsubscribe', () => {
+    it('should stop delivery via the returned function', () => {
+      const handler = vi.fn();
+      const off = bus.on('reset', handler);
+
+      off();
+      bus.emit('reset');
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should stop delivery via off()', () => {
+      const handler = vi.fn();
+      bus.on('reset', handler);
+
+      bus.off('reset', handler);
+      bus.emit('reset');
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should let a handler unsubscribe itself during emit', () => {
+      const later = vi.fn();
+      const off = bus.on('reset', () => off());
+      bus.on('reset', later);
+
+      bus.emit('reset');
+
+      expect(later).toHaveBeenCalledTimes(1);
+      expect(bus.listenerCount('reset')).toBe(1);
+    });
+
+    it('should remove everything on clear()', () => {
+      bus.on('reset', vi.fn());
+      bus.on('scored', vi.fn());
+
+      bus.clear();
+
+      expect(bus.listenerCount('reset')).toBe(0);
+      expect(bus.listenerCount('scored')).toBe(0);
+    });
+  });
+
+  describe('once', () => {
+    it('should deliver only the next event', () => {
+      const handler = vi.fn();
+      bus.once('scored', handler);
+
+      bus.emit('scored', { points: 10 });
+      bus.emit('scored', { points: 20 });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0].data.points).toBe(10);
+    });
+  });
+
+  describe('onAny', () => {
+    it('should receive every event type', () => {
+      const types: string[] = [];
+      bus.onAny((e) => types.push(e.type));
+
+      bus.emit('scored', { points: 10 });
+      bus.emit('reset');
+
+      expect(types).toEqual(['scored', 'reset']);
+    });
+
+    it('should stop via the returned function', () => {
+      const handler = vi.fn();
+      const off = bus.onAny(handler);
+
+      off();
+      bus.emit('reset');
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('error isolation', () => {
+    it('should keep delivering after a handler throws', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const later = vi.fn();
+      bus.on('reset', () => {
+        throw new Error('broken plugin');
+      });
+      bus.on('reset', later);
+
+      expect(() => bus.emit('reset')).not.toThrow();
+      expect(later).toHaveBeenCalled();
+      expect(errorSpy).toHaveBeenCalled();
+
+      errorSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Renderer selection tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { createRenderer } from '../../src/systems/GameRenderer';
+
+/** Minimal 2D context - enough for the Canvas 2D renderer to start */
+function createMock2DContext() {
+  return new Proxy({} as Record<string, unknown>, {
+    get: (target, prop: string) => {
+      if (!(prop in target)) target[prop] = vi.fn();
+      return target[prop];
+    },
+  });
+}
+
+/**
+ * DOM whose canvases only hand out 2D contexts (WebGL disabled)
+ */
+function setupDOM() {
+  const dom = new JSDOM(`
+    <!DOCTYPE html>
+    <html>
+      <body>
+        <div id="game-container"><canvas id="game-canvas"></canvas></div>
+      </body>
+    </html>
+  `);
+
+  global.document = dom.window.document;
+  global.HTMLCanvasElement = dom.window.HTMLCanvasElement;
+
+  const getContext = vi.fn((type: string) => (type === '2d' ? createMock2DContext() : null));
+  HTMLCanvasElement.prototype.getContext = getContext as unknown as HTMLCanvasElement['getContext'];
+
+  return { getContext };
+}
+
+describe('createRenderer', () => {
+  let getContext: ReturnType<typeof setupDOM>['getContext'];
+
+  beforeEach(() => {
+    ({ getContext } = setupDOM());
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should use Canvas 2D without touching WebGL when asked to', () => {
+    const renderer = createRenderer('game-canvas', 'canvas2d');
+
+    expect(renderer.type).toBe('canvas2d');
+    expect(getContext).not.toHaveBeenCalledWith('webgl', expect.anything());
+  });
+
+  it('should fall back to Canvas 2D when WebGL is unavailable', () => {
+    const original = document.getElementById('game-canvas');
+
+    const renderer = createRenderer('game-canvas');
+
+    expect(renderer.type).toBe('canvas2d');
+    expect(console.warn).toHaveBeenCalled();
+    // The fallback draws on a fresh canvas in the same place
+    const canvas = document.getElementById('game-canvas');
+    expect(canvas).not.toBe(original);
+    expect(renderer.getCanvas()).toBe(canvas);
+    expect(canvas?.parentElement?.id).toBe('game-container');
+  });
+
+  it('should not fall back when WebGL is forced', () => {
+    expect(() => createRenderer('game-canvas', 'webgl')).toThrow('WebGL not supported');
+  });
+
+  it('should still report a missing canvas', () => {
+    expect(() => createRenderer('missing')).toThrow('Canvas element with id "missing" not found');
+  });
+});
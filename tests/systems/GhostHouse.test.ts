@@ -0,0 +1,190 @@
+// @vitest-environment node
+/**
+ * Ghost house release tests
+ *
+ * - Personal dot counters and per-level limits
+ * - Global dot counter after a life is lost
+ * - Idle timer release
+ * - Save and load
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GhostHouse, getIdleReleaseTicks } from '../../src/systems/GhostHouse';
+import { Pinky } from '../../src/entities/Pinky';
+import { Inky } from '../../src/entities/Inky';
+import { Clyde } from '../../src/entities/Clyde';
+import { GhostMode } from '../../src/constants';
+
+describe('GhostHouse', () => {
+  let pinky: Pinky;
+  let inky: Inky;
+  let clyde: Clyde;
+  let house: GhostHouse;
+
+  /** Eat pellets one per tick, the way play does */
+  function eat(count: number): void {
+    for (let i = 0; i < count; i++) {
+      house.pelletEaten();
+      house.update();
+    }
+  }
+
+  /** Has the ghost been sent out of the house? */
+  function released(ghost: Pinky | Inky | Clyde): boolean {
+    return ghost.mode === GhostMode.EXITING;
+  }
+
+  beforeEach(() => {
+    pinky = new Pinky();
+    inky = new Inky();
+    clyde = new Clyde();
+    house = new GhostHouse([pinky, inky, clyde]);
+    house.startLevel(1);
+  });
+
+  describe('personal dot counters', () => {
+    it('should release Pinky on the first tick of level 1', () => {
+      house.update();
+      expect(released(pinky)).toBe(true);
+      expect(released(inky)).toBe(false);
+    });
+
+    it('should only count pellets for the next ghost out', () => {
+      house.update();
+      eat(29);
+
+      expect(inky.dotCounter).toBe(29);
+      expect(clyde.dotCounter).toBe(0);
+      expect(released(inky)).toBe(false);
+
+      eat(1);
+      expect(released(inky)).toBe(true);
+    });
+
+    it('should release Clyde after 60 more pellets on level 1', () => {
+      house.update();
+      eat(30);
+      eat(59);
+      expect(released(clyde)).toBe(false);
+
+      eat(1);
+      expect(released(clyde)).toBe(true);
+    });
+
+    it('should use lower limits on later levels', () => {
+      house.startLevel(2);
+      expect([pinky.dotLimit, inky.dotLimit, clyde.dotLimit]).toEqual([0, 0, 50]);
+
+      house.startLevel(3);
+      expect([pinky.dotLimit, inky.dotLimit, clyde.dotLimit]).toEqual([0, 0, 0]);
+
+      house.startLevel(12);
+      expect(clyde.dotLimit).toBe(0);
+    });
+
+    it('should reset counters at the start of a level', () => {
+      house.update();
+      eat(10);
+
+      house.startLevel(2);
+
+      expect(inky.dotCounter).toBe(0);
+    });
+  });
+
+  describe('global dot counter', () => {
+    beforeEach(() => {
+      // Pinky and Inky got out; Pac-Man died with Clyde 20 pellets in
+      house.update();
+      eat(50);
+      expect(clyde.dotCounter).toBe(20);
+
+      pinky.reset();
+      inky.reset();
+      clyde.reset();
+      house.lifeLost();
+    });
+
+    it('should take over from the personal counters', () => {
+      expect(house.isGlobalCounterActive()).toBe(true);
+
+      eat(6);
+      expect(released(pinky)).toBe(false);
+      expect(clyde.dotCounter).toBe(20);
+    });
+
+    it('should release Pinky at 7 and Inky at 17', () => {
+      eat(7);
+      expect(released(pinky)).toBe(true);
+
+      eat(9);
+      expect(released(inky)).toBe(false);
+
+      eat(1);
+      expect(released(inky)).toBe(true);
+    });
+
+    it('should hand back to personal counters when Clyde is inside at 32', () => {
+      eat(32);
+
+      expect(house.isGlobalCounterActive()).toBe(false);
+      expect(released(clyde)).toBe(false);
+
+      // Clyde's personal counter kept its 20 pellets
+      eat(39);
+      expect(released(clyde)).toBe(false);
+      eat(1);
+      expect(released(clyde)).toBe(true);
+    });
+
+    it('should switch off at the start of the next level', () => {
+      house.startLevel(2);
+      expect(house.isGlobalCounterActive()).toBe(false);
+    });
+  });
+
+  describe('idle timer', () => {
+    it('should force the next ghost out when nothing is eaten', () => {
+      // Pinky leaves on the first tick, which also starts the idle count
+      house.update();
+      for (let i = 2; i < getIdleReleaseTicks(1); i++) house.update();
+      expect(released(inky)).toBe(false);
+
+      house.update();
+      expect(released(inky)).toBe(true);
+      expect(released(clyde)).toBe(false);
+    });
+
+    it('should restart whenever a pellet is eaten', () => {
+      // Pinky leaves on the first tick, which also starts the idle count
+      house.update();
+      for (let i = 2; i < getIdleReleaseTicks(1); i++) house.update();
+
+      house.pelletEaten();
+      house.update();
+
+      expect(released(inky)).toBe(false);
+    });
+
+    it('should be shorter from level 5', () => {
+      expect(getIdleReleaseTicks(4)).toBe(240);
+      expect(getIdleReleaseTicks(5)).toBe(180);
+    });
+  });
+
+  describe('save/load', () => {
+    it('should resume the global counter where it left off', () => {
+      house.update();
+      house.lifeLost();
+      pinky.reset();
+      eat(5);
+
+      const restored = new GhostHouse([pinky, inky, clyde]);
+      restored.load(house.save());
+      house = restored;
+      eat(2);
+
+      expect(released(pinky)).toBe(true);
+    });
+  });
+});
@@ -162,6 +162,24 @@ describe('Input', () => {
     });
   });
 
+  describe('rewind input', () => {
+    it('should report rewind while Backspace is held', () => {
+      (document as unknown as { _trigger: Function })._trigger('keydown', {
+        key: 'Backspace',
+        preventDefault: vi.fn(),
+      });
+
+      expect(input.isRewindHeld()).toBe(true);
+      expect(input.isRewindHeld()).toBe(true); // Not consumed
+
+      (document as unknown as { _trigger: Function })._trigger('keyup', {
+        key: 'Backspace',
+      });
+
+      expect(input.isRewindHeld()).toBe(false);
+    });
+  });
+
   describe('start input', () => {
     it('should detect space as start', () => {
       (document as unknown as { _trigger: Function })._trigger('keydown', {
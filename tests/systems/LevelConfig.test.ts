@@ -67,6 +67,34 @@ describe('LevelConfig', () => {
       const config19 = getLevelConfig(19);
       expect(config19.frightenedDuration).toBe(0);
     });
+
+    it('should flash 5 times, 3 for one-second frights and never without fright', () => {
+      expect(getLevelConfig(1).frightenedFlashes).toBe(5);
+      expect(getLevelConfig(9).frightenedDuration).toBe(1);
+      expect(getLevelConfig(9).frightenedFlashes).toBe(3);
+      expect(getLevelConfig(17).frightenedFlashes).toBe(0);
+    });
+  });
+
+  describe('scatter/chase schedule', () => {
+    it('should use the level 1 schedule on level 1', () => {
+      const config = getLevelConfig(1);
+      expect(config.scatterTimes).toEqual([7, 7, 5, 5]);
+      expect(config.chaseTimes).toEqual([20, 20, 20, Infinity]);
+    });
+
+    it('should share one schedule across levels 2-4', () => {
+      expect(getLevelConfig(2).chaseTimes).toEqual([20, 20, 1033, Infinity]);
+      expect(getLevelConfig(4).scatterTimes).toEqual(getLevelConfig(2).scatterTimes);
+    });
+
+    it('should shorten scatter from level 5 on', () => {
+      for (const level of [5, 21, 40]) {
+        const config = getLevelConfig(level);
+        expect(config.scatterTimes).toEqual([5, 5, 5, 1 / 60]);
+        expect(config.chaseTimes).toEqual([20, 20, 1037, Infinity]);
+      }
+    });
   });
 
   describe('fruit type per level', () => {
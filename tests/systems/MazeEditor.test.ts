@@ -0,0 +1,171 @@
+// @vitest-environment node
+/**
+ * Maze editor model tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MazeEditor } from '../../src/systems/MazeEditor';
+import { CLASSIC_MAZE } from '../../src/utils/MazeData';
+import { parseMaze } from '../../src/utils/MazeFormat';
+import { TileType } from '../../src/types';
+
+describe('MazeEditor', () => {
+  let editor: MazeEditor;
+
+  beforeEach(() => {
+    editor = new MazeEditor();
+  });
+
+  describe('building', () => {
+    it('should build the loaded maze back unchanged', () => {
+      const { maze, issues } = editor.check();
+
+      expect(maze).toEqual(CLASSIC_MAZE);
+      expect(issues.every((issue) => issue.severity === 'warning')).toBe(true);
+    });
+
+    it('should write the draft in the text format', () => {
+      editor.name = 'Edited';
+      editor.apply({ col: 1, row: 1 });
+
+      const maze = parseMaze(editor.toText());
+      expect(maze.name).toBe('Edited');
+      expect(maze.grid[1][1]).toBe(TileType.WALL);
+    });
+  });
+
+  describe('tools', () => {
+    it('should paint tiles, mirrored when asked', () => {
+      editor.tool = 'power';
+      expect(editor.apply({ col: 1, row: 5 })).toBe(true);
+      expect(editor.tileAt({ col: 1, row: 5 })).toBe(TileType.POWER_PELLET);
+      expect(editor.tileAt({ col: 26, row: 5 })).toBe(TileType.PELLET);
+
+      editor.mirror = true;
+      editor.apply({ col: 1, row: 8 });
+      expect(editor.tileAt({ col: 26, row: 8 })).toBe(TileType.POWER_PELLET);
+    });
+
+    it('should report no change for a tile that already holds the paint', () => {
+      editor.tool = 'wall';
+      expect(editor.apply({ col: 0, row: 0 })).toBe(false);
+      expect(editor.apply({ col: 40, row: 0 })).toBe(false);
+      expect(editor.canUndo()).toBe(false);
+    });
+
+    it('should place starts', () => {
+      editor.tool = 'blinky';
+      editor.apply({ col: 6, row: 5 });
+
+      expect(editor.getStarts().blinky).toEqual({ col: 6, row: 5 });
+      expect(editor.check().maze?.startPositions.blinky).toEqual({ col: 6, row: 5 });
+    });
+
+    it('should move the fruit spot, or widen it to a pair', () => {
+      editor.tool = 'fruit';
+      editor.apply({ col: 6, row: 14 });
+      expect(editor.check().maze?.fruitSpawn).toEqual({ col: 6, row: 14 });
+      expect(editor.tileAt({ col: 13, row: 17 })).toBe(TileType.EMPTY);
+
+      editor.apply({ col: 6, row: 15 });
+      expect(editor.check().maze?.fruitSpawn).toEqual({ col: 6, row: 15 });
+
+      editor.apply({ col: 7, row: 15 });
+      expect(editor.check().maze?.fruitSpawn).toEqual({ col: 6.5, row: 15 });
+    });
+
+    it('should lay tunnels in pairs, one mouth on each edge', () => {
+      editor.tool = 'tunnel';
+      editor.apply({ col: 12, row: 1 });
+
+      expect(editor.tileAt({ col: 0, row: 1 })).toBe(TileType.TUNNEL);
+      expect(editor.tileAt({ col: 27, row: 1 })).toBe(TileType.TUNNEL);
+      expect(editor.check().maze?.tunnels.map((tunnel) => tunnel.row)).toEqual([1, 13]);
+    });
+
+    it('should keep the loaded slow zones for a tunnel it keeps', () => {
+      expect(editor.check().maze?.tunnels).toEqual(CLASSIC_MAZE.tunnels);
+    });
+  });
+
+  describe('history', () => {
+    it('should undo and redo each change', () => {
+      editor.tool = 'wall';
+      editor.apply({ col: 1, row: 1 });
+      editor.apply({ col: 2, row: 1 });
+
+      expect(editor.undo()).toBe(true);
+      expect(editor.tileAt({ col: 2, row: 1 })).toBe(TileType.PELLET);
+      expect(editor.tileAt({ col: 1, row: 1 })).toBe(TileType.WALL);
+
+      expect(editor.redo()).toBe(true);
+      expect(editor.tileAt({ col: 2, row: 1 })).toBe(TileType.WALL);
+      expect(editor.redo()).toBe(false);
+    });
+
+    it('should undo a whole stroke at once', () => {
+      editor.tool = 'empty';
+      editor.beginStroke();
+      for (let col = 1; col <= 5; col++) editor.apply({ col, row: 1 });
+      editor.endStroke();
+
+      editor.undo();
+      expect(editor.getGrid()[1].slice(1, 6)).toEqual(CLASSIC_MAZE.grid[1].slice(1, 6));
+      expect(editor.canUndo()).toBe(false);
+    });
+
+    it('should drop the redo steps when something new is done', () => {
+      editor.apply({ col: 1, row: 1 });
+      editor.undo();
+      editor.tool = 'pinky';
+      editor.apply({ col: 12, row: 14 });
+
+      expect(editor.canRedo()).toBe(false);
+    });
+
+    it('should start afresh on load', () => {
+      editor.apply({ col: 1, row: 1 });
+      editor.load(CLASSIC_MAZE);
+      expect(editor.canUndo()).toBe(false);
+    });
+  });
+
+  describe('validation', () => {
+    it('should list issues live as the draft changes', () => {
+      editor.tool = 'wall';
+      editor.apply({ col: 1, row: 2 });
+
+      expect(editor.check().issues).toContainEqual(expect.objectContaining({ code: 'dead-end', tile: { col: 1, row: 1 } }));
+    });
+
+    it('should report a grid it cannot build as layout errors', () => {
+      editor.tool = 'wall';
+      editor.beginStroke();
+      for (let col = 13; col <= 14; col++) {
+        editor.apply({ col, row: 12 });
+        editor.apply({ col, row: 17 });
+      }
+      editor.endStroke();
+
+      const { maze, issues } = editor.check();
+      expect(maze).toBeNull();
+      expect(issues.map((issue) => issue.message)).toEqual([
+        "Maze has no ghost house door (no '=' tiles)",
+        "Maze has no fruit spawn (no 'F' tiles)",
+      ]);
+      expect(() => editor.toText()).toThrow('Maze cannot be saved yet');
+    });
+
+    it('should point at a tunnel mouth without a partner', () => {
+      editor.tool = 'wall';
+      editor.apply({ col: 27, row: 13 });
+
+      expect(editor.check().issues[0]).toEqual({
+        severity: 'error',
+        code: 'layout',
+        message: "Tunnel on row 13 has no '~' partner on the right edge",
+        tile: { col: 0, row: 13 },
+      });
+    });
+  });
+});
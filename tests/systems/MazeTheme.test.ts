@@ -0,0 +1,42 @@
+// @vitest-environment node
+/**
+ * Maze theme and wall shape tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { LEVEL_THEMES, cssColor, mazeWallShapes, themeForLevel } from '../../src/systems/MazeTheme';
+import { SCALED_TILE } from '../../src/constants';
+
+const WALL: [number, number, number, number] = [0, 0, 1, 1];
+const DOOR: [number, number, number, number] = [1, 0, 1, 1];
+
+describe('MazeTheme', () => {
+  it('should cycle through the themes by level', () => {
+    expect(themeForLevel(1).name).toBe('Classic Blue');
+    expect(themeForLevel(2)).toBe(LEVEL_THEMES[1]);
+    expect(themeForLevel(4)).toBe(LEVEL_THEMES[0]);
+  });
+
+  it('should join neighbouring walls with an arm each way', () => {
+    const shapes = mazeWallShapes({ grid: [[1, 1]], width: 2, height: 1 }, WALL, DOOR);
+    const half = SCALED_TILE / 2;
+
+    expect(shapes).toEqual([
+      { kind: 'rect', x: half + SCALED_TILE / 4, y: half, width: half, height: 2, color: WALL },
+      { kind: 'circle', x: half, y: half, radius: 2, segments: 6, color: WALL },
+      { kind: 'rect', x: SCALED_TILE + half - SCALED_TILE / 4, y: half, width: half, height: 2, color: WALL },
+      { kind: 'circle', x: SCALED_TILE + half, y: half, radius: 2, segments: 6, color: WALL },
+    ]);
+  });
+
+  it('should draw the door as a bar in the door colour', () => {
+    const shapes = mazeWallShapes({ grid: [[0, 5, 2]], width: 3, height: 1 }, WALL, DOOR);
+    expect(shapes).toEqual([
+      { kind: 'rect', x: SCALED_TILE * 1.5, y: SCALED_TILE / 2, width: SCALED_TILE, height: 4, color: DOOR },
+    ]);
+  });
+
+  it('should write colours as CSS', () => {
+    expect(cssColor([1, 0.5, 0, 0.25])).toBe('rgba(255, 128, 0, 0.25)');
+  });
+});
@@ -238,7 +238,95 @@ describe('Renderer', () => {
     });
   });
 
-  describe('getContext', () => {
+  describe('text overlays', () => {
+    it('should redraw READY! every frame until cleared', () => {
+      const renderer = new Renderer('game-canvas');
+      renderer.renderReadyText();
+      mockCtx.fillText.mockClear();
+
+      renderer.clear();
+      renderer.present();
+      expect(mockCtx.fillText).toHaveBeenCalledWith('READY!', expect.any(Number), expect.any(Number));
+
+      mockCtx.fillText.mockClear();
+      renderer.clearReadyText();
+      renderer.present();
+      expect(mockCtx.fillText).not.toHaveBeenCalled();
+    });
+
+    it('should redraw GAME OVER every frame until cleared', () => {
+      const renderer = new Renderer('game-canvas');
+      renderer.renderGameOverText();
+      renderer.clearGameOverText();
+      mockCtx.fillText.mockClear();
+
+      renderer.present();
+      expect(mockCtx.fillText).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renderFruit', () => {
+    it('should use the fruit color', () => {
+      const renderer = new Renderer('game-canvas');
+      renderer.renderFruit(100, 100, '#123456', 7);
+
+      expect(mockCtx.fillStyle).toBe('#123456');
+      expect(mockCtx.arc).toHaveBeenCalledWith(100, 100, 6, 0, Math.PI * 2);
+    });
+  });
+
+  describe('renderPacMan victory', () => {
+    it('should spin and jump Pac-Man', () => {
+      const renderer = new Renderer('game-canvas');
+      renderer.renderPacMan(100, 100, 3, 0, false, 0, true, 1.5, 8);
+
+      expect(mockCtx.translate).toHaveBeenCalledWith(100, 92);
+      expect(mockCtx.rotate).toHaveBeenCalledWith(1.5);
+      expect(mockCtx.restore).toHaveBeenCalled();
+    });
+  });
+
+  describe('renderParticles', () => {
+    it('should draw one square per particle quad', () => {
+      const renderer = new Renderer('game-canvas');
+      // One 4px particle centred on (10, 20), as built by ParticleSystem
+      const positions = [8, 18, 12, 18, 8, 22, 8, 22, 12, 18, 12, 22];
+      const colors = Array.from({ length: 6 }, () => [1, 0.5, 0, 0.25]).flat();
+      mockCtx.fillRect.mockClear(); // Ignore the maze drawn on construction
+
+      renderer.renderParticles({ positions, colors });
+
+      expect(mockCtx.fillRect).toHaveBeenCalledTimes(1);
+      expect(mockCtx.fillRect).toHaveBeenCalledWith(8, 18, 4, 4);
+      expect(mockCtx.fillStyle).toBe('rgba(255, 127.5, 0, 0.25)');
+    });
+  });
+
+  describe('maze flashing', () => {
+    it('should alternate between the normal and white maze', () => {
+      const renderer = new Renderer('game-canvas');
+      renderer.setMazeFlashing(true);
+
+      renderer.renderMaze();
+      for (let i = 0; i < 12; i++) renderer.updateMazeFlash();
+      renderer.renderMaze();
+
+      const [first, second] = mockCtx.drawImage.mock.calls.map((call) => call[0]);
+      expect(first).not.toBe(second);
+    });
+
+    it('should draw the normal maze when not flashing', () => {
+      const renderer = new Renderer('game-canvas');
+      renderer.renderMaze();
+      for (let i = 0; i < 12; i++) renderer.updateMazeFlash();
+      renderer.renderMaze();
+
+      const [first, second] = mockCtx.drawImage.mock.calls.map((call) => call[0]);
+      expect(first).toBe(second);
+    });
+  });
+
+    describe('getContext', () => {
     it('should return canvas context', () => {
       const renderer = new Renderer('game-canvas');
       const ctx = renderer.getContext();
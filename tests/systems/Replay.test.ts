@@ -0,0 +1,138 @@
+// @vitest-environment node
+/**
+ * Input recording and replay tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ReplayRecorder,
+  ReplayPlayer,
+  ReplayFile,
+  runReplay,
+  serializeReplay,
+  parseReplay,
+  clampPlaybackSpeed,
+  REPLAY_VERSION,
+} from '../../src/systems/Replay';
+import { GameSimulation, SimulationInputs } from '../../src/GameSimulation';
+import { Direction, DirectionType, GameState } from '../../src/constants';
+import { Random } from '../../src/utils/Random';
+
+/**
+ * Record a whole game the way the browser shell does: a sticky direction
+ * that changes every 30 ticks, plus a pause near the start
+ */
+function recordGame(seed: number): { replay: ReplayFile; sim: GameSimulation } {
+  const sim = new GameSimulation({ seed });
+  const recorder = new ReplayRecorder(seed);
+  const script = new Random(7);
+  const directions: DirectionType[] = [Direction.LEFT, Direction.UP, Direction.RIGHT, Direction.DOWN];
+
+  sim.startNewGame(seed);
+  let direction: DirectionType = Direction.NONE;
+  for (let tick = 0; tick < 50000 && sim.getState() !== GameState.GAME_OVER; tick++) {
+    if (tick % 30 === 0) direction = script.pick(directions);
+
+    const inputs: SimulationInputs = { direction };
+    if (tick === 400 || tick === 460) inputs.pause = true;
+
+    recorder.record(inputs);
+    sim.step(inputs);
+  }
+
+  return { replay: recorder.finish(sim.getSnapshot()), sim };
+}
+
+describe('Replay', () => {
+  describe('recorder', () => {
+    it('should only store direction changes and presses', () => {
+      const recorder = new ReplayRecorder(1);
+      recorder.record({ direction: Direction.LEFT });
+      recorder.record({ direction: Direction.LEFT });
+      recorder.record({ direction: Direction.LEFT, pause: true });
+      recorder.record({});
+      recorder.record({ direction: Direction.UP, start: true, skipLevel: true });
+
+      const replay = recorder.finish(new GameSimulation().getSnapshot());
+
+      expect(replay.inputs).toEqual(['0L', '2P', '4USK']);
+      expect(replay.length).toBe(5);
+      expect(replay.seed).toBe(1);
+      expect(replay.version).toBe(REPLAY_VERSION);
+    });
+  });
+
+  describe('player', () => {
+    it('should re-send the current direction every tick', () => {
+      const player = new ReplayPlayer({
+        version: REPLAY_VERSION,
+        gameVersion: '1.0.0',
+        seed: 1,
+        highScore: 0,
+        length: 5,
+        inputs: ['1L', '3P', '4U'],
+        final: { score: 0, state: GameState.READY, level: 1 },
+      });
+
+      expect(player.nextInputs()).toEqual({});
+      expect(player.nextInputs()).toEqual({ direction: Direction.LEFT });
+      expect(player.nextInputs()).toEqual({ direction: Direction.LEFT });
+      expect(player.nextInputs()).toEqual({ direction: Direction.LEFT, pause: true });
+      expect(player.isFinished()).toBe(false);
+      expect(player.nextInputs()).toEqual({ direction: Direction.UP });
+      expect(player.isFinished()).toBe(true);
+    });
+
+    it('should reject malformed input entries', () => {
+      const replay = { ...recordGame(3).replay, inputs: ['12X'] };
+      expect(() => new ReplayPlayer(replay)).toThrow("Invalid replay input '12X'");
+    });
+  });
+
+  describe('playback', () => {
+    it('should reproduce a recorded game exactly', () => {
+      const { replay, sim } = recordGame(3);
+
+      expect(replay.final.state).toBe(GameState.GAME_OVER);
+      expect(replay.final.score).toBeGreaterThan(0);
+
+      const result = runReplay(replay);
+
+      expect(result.desynced).toBe(false);
+      const { score, level } = sim.getSnapshot();
+      expect(result.actual).toEqual({ score, state: GameState.GAME_OVER, level });
+    });
+
+    it('should flag a replay whose outcome differs', () => {
+      const { replay } = recordGame(3);
+      const tampered = { ...replay, final: { ...replay.final, score: replay.final.score + 10 } };
+
+      const result = runReplay(tampered);
+
+      expect(result.desynced).toBe(true);
+      expect(result.actual.score).toBe(replay.final.score);
+    });
+
+    it('should clamp playback speed to 0.25x - 8x', () => {
+      expect(clampPlaybackSpeed(0.1)).toBe(0.25);
+      expect(clampPlaybackSpeed(2)).toBe(2);
+      expect(clampPlaybackSpeed(16)).toBe(8);
+    });
+  });
+
+  describe('file format', () => {
+    it('should round-trip through JSON', () => {
+      const { replay } = recordGame(3);
+      expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+    });
+
+    it('should reject another version', () => {
+      const json = JSON.stringify({ version: REPLAY_VERSION + 1 });
+      expect(() => parseReplay(json)).toThrow('Unsupported replay version');
+    });
+
+    it('should reject text that is not JSON', () => {
+      expect(() => parseReplay('not a replay')).toThrow('not valid JSON');
+    });
+  });
+});
@@ -0,0 +1,144 @@
+// @vitest-environment node
+/**
+ * Practice rewind buffer tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RewindBuffer } from '../../src/systems/Rewind';
+import { GameSimulation } from '../../src/GameSimulation';
+import { Direction, DirectionType, GameState } from '../../src/constants';
+import { Random } from '../../src/utils/Random';
+
+/** Wandering input: a new direction every 30 ticks */
+const SCRIPT_DIRECTIONS = (() => {
+  const inputs = new Random(7);
+  const directions: DirectionType[] = [Direction.LEFT, Direction.UP, Direction.RIGHT, Direction.DOWN];
+  return Array.from({ length: 500 }, () => inputs.pick(directions));
+})();
+
+describe('RewindBuffer', () => {
+  let sim: GameSimulation;
+  let buffer: RewindBuffer;
+  let tick: number;
+
+  /** Step one scripted tick and let the buffer record it */
+  function step(): void {
+    sim.step({ direction: SCRIPT_DIRECTIONS[Math.floor(tick / 30) % SCRIPT_DIRECTIONS.length] });
+    buffer.record(sim);
+    tick++;
+  }
+
+  beforeEach(() => {
+    sim = new GameSimulation({ seed: 3 });
+    buffer = new RewindBuffer();
+    tick = 0;
+    sim.startNewGame();
+  });
+
+  it('should keep 30 seconds of captures 10 ticks apart by default', () => {
+    expect(buffer.getCapacity()).toBe(180);
+  });
+
+  it('should only capture while playing', () => {
+    while (sim.getState() === GameState.READY) step();
+    expect(buffer.length).toBe(0);
+
+    for (let i = 0; i < 25; i++) step();
+    expect(buffer.length).toBe(2);
+  });
+
+  it('should drop the oldest captures once full', () => {
+    buffer = new RewindBuffer(10, 1);
+    while (sim.getState() === GameState.READY) step();
+    for (let i = 0; i < 200; i++) step();
+
+    expect(buffer.getCapacity()).toBe(6);
+    expect(buffer.length).toBe(6);
+  });
+
+  it('should return false when there is nothing to rewind to', () => {
+    expect(buffer.rewind(sim)).toBe(false);
+  });
+
+  it('should restore the newest capture', () => {
+    while (buffer.length < 10) step();
+    const captured = sim.getSnapshot();
+
+    for (let i = 0; i < 5; i++) step();
+    expect(sim.getSnapshot()).not.toEqual(captured);
+
+    expect(buffer.rewind(sim)).toBe(true);
+    expect(sim.getSnapshot()).toEqual(captured);
+    expect(buffer.length).toBe(9);
+  });
+
+  it('should step further back on each rewind', () => {
+    while (buffer.length < 10) step();
+    const first = sim.getSnapshot();
+    while (buffer.length < 20) step();
+
+    for (let i = 0; i < 11; i++) buffer.rewind(sim);
+
+    // Loading never lowers the high score reached since
+    expect(sim.getSnapshot()).toEqual({ ...first, highScore: sim.getSnapshot().highScore });
+    expect(sim.getSnapshot().highScore).toBeGreaterThanOrEqual(first.highScore);
+  });
+
+  it('should undo a death', () => {
+    while (sim.getState() !== GameState.DYING && tick < 20000) step();
+    expect(sim.getState()).toBe(GameState.DYING);
+    const lives = sim.getSnapshot().lives;
+
+    buffer.rewind(sim);
+
+    expect(sim.getState()).toBe(GameState.PLAYING);
+    expect(sim.getSnapshot().lives).toBe(lives);
+    expect(sim.getSnapshot().pacman.isDying).toBe(false);
+  });
+
+  it('should leave a paused game paused', () => {
+    while (buffer.length < 3) step();
+    sim.step({ pause: true });
+    expect(sim.getState()).toBe(GameState.PAUSED);
+    const paused = sim.getSnapshot();
+
+    expect(buffer.rewind(sim)).toBe(false);
+    expect(sim.getSnapshot()).toEqual(paused);
+    expect(buffer.length).toBe(3);
+  });
+
+  it('should leave a finished game over', () => {
+    while (sim.getState() !== GameState.GAME_OVER && tick < 20000) step();
+    expect(sim.getState()).toBe(GameState.GAME_OVER);
+    const length = buffer.length;
+
+    expect(buffer.rewind(sim)).toBe(false);
+    expect(sim.getState()).toBe(GameState.GAME_OVER);
+    expect(buffer.length).toBe(length);
+  });
+
+  it('should resync pellets through the event bus', () => {
+    while (buffer.length < 30) step();
+    const pellets = sim.getSnapshot().pelletsRemaining;
+    while (sim.getSnapshot().pelletsRemaining === pellets) step();
+
+    let remaining = -1;
+    sim.events.on('pelletsChanged', (e) => {
+      remaining = e.data.pelletsRemaining;
+    });
+
+    while (sim.getSnapshot().pelletsRemaining !== pellets) {
+      buffer.rewind(sim);
+    }
+    expect(remaining).toBe(pellets);
+  });
+
+  it('should forget everything on clear', () => {
+    while (buffer.length < 3) step();
+
+    buffer.clear();
+
+    expect(buffer.length).toBe(0);
+    expect(buffer.rewind(sim)).toBe(false);
+  });
+});
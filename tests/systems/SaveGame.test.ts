@@ -0,0 +1,48 @@
+// @vitest-environment node
+/**
+ * Save Game file format tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { serializeSave, parseSave, SAVE_VERSION } from '../../src/systems/SaveGame';
+import { GameSimulation } from '../../src/GameSimulation';
+
+describe('SaveGame', () => {
+  it('should round-trip simulation save data', () => {
+    const sim = new GameSimulation({ seed: 42 });
+    sim.startNewGame();
+    const data = sim.save();
+
+    expect(parseSave(serializeSave(data))).toEqual(data);
+  });
+
+  it('should record the version and time', () => {
+    const file = JSON.parse(serializeSave(new GameSimulation().save(), new Date(0)));
+
+    expect(file.version).toBe(SAVE_VERSION);
+    expect(file.savedAt).toBe('1970-01-01T00:00:00.000Z');
+  });
+
+  it('should reject text that is not JSON', () => {
+    expect(() => parseSave('not a save')).toThrow('not valid JSON');
+  });
+
+  it('should reject another version', () => {
+    const json = JSON.stringify({ version: SAVE_VERSION + 1, game: {} });
+    expect(() => parseSave(json)).toThrow('Unsupported save version');
+  });
+
+  it('should reject game data with missing fields', () => {
+    const { pacman: _pacman, ...game } = new GameSimulation().save();
+    const json = JSON.stringify({ version: SAVE_VERSION, game });
+
+    expect(() => parseSave(json)).toThrow("missing 'pacman'");
+  });
+
+  it('should reject game data without the ghost house state', () => {
+    const { ghostHouse: _ghostHouse, ...game } = new GameSimulation().save();
+    const json = JSON.stringify({ version: SAVE_VERSION, game });
+
+    expect(() => parseSave(json)).toThrow("missing 'ghostHouse'");
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Frame Scheduler TDD tests
+ *
+ * Tests for tick-driven delayed actions:
+ * - Actions run after exactly N updates
+ * - Cancel one or all pending actions
+ * - Nothing advances without update() (pause)
+ * - Save and load of keyed actions
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { FrameScheduler } from '../../src/systems/Scheduler';
+
+/** Call update() n times */
+function advance(scheduler: FrameScheduler, n: number): void {
+  for (let i = 0; i < n; i++) {
+    scheduler.update();
+  }
+}
+
+describe('FrameScheduler', () => {
+  let scheduler: FrameScheduler;
+
+  beforeEach(() => {
+    scheduler = new FrameScheduler();
+  });
+
+  describe('after', () => {
+    it('should run an action after exactly N updates', () => {
+      const action = vi.fn();
+      scheduler.after(3, action);
+
+      advance(scheduler, 2);
+      expect(action).not.toHaveBeenCalled();
+
+      scheduler.update();
+      expect(action).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run an action only once', () => {
+      const action = vi.fn();
+      scheduler.after(1, action);
+
+      advance(scheduler, 5);
+
+      expect(action).toHaveBeenCalledTimes(1);
+      expect(scheduler.pending).toBe(0);
+    });
+
+    it('should treat a zero delay as one update', () => {
+      const action = vi.fn();
+      scheduler.after(0, action);
+
+      expect(action).not.toHaveBeenCalled();
+      scheduler.update();
+      expect(action).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run actions due on the same update in scheduling order', () => {
+      const calls: string[] = [];
+      scheduler.after(2, () => calls.push('first'));
+      scheduler.after(2, () => calls.push('second'));
+
+      advance(scheduler, 2);
+
+      expect(calls).toEqual(['first', 'second']);
+    });
+
+    it('should defer actions scheduled while running to a later update', () => {
+      const later = vi.fn();
+      scheduler.after(1, () => scheduler.after(1, later));
+
+      scheduler.update();
+      expect(later).not.toHaveBeenCalled();
+
+      scheduler.update();
+      expect(later).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('pausing', () => {
+    it('should not advance while update() is not called', () => {
+      const action = vi.fn();
+      scheduler.after(2, action);
+
+      scheduler.update();
+      // Paused for a while - owner stops calling update()
+      scheduler.update();
+
+      expect(action).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should cancel one action via the returned function', () => {
+      const cancelled = vi.fn();
+      const kept = vi.fn();
+      const cancel = scheduler.after(2, cancelled);
+      scheduler.after(2, kept);
+
+      cancel();
+      advance(scheduler, 2);
+
+      expect(cancelled).not.toHaveBeenCalled();
+      expect(kept).toHaveBeenCalled();
+    });
+
+    it('should cancel everything on clear()', () => {
+      const action = vi.fn();
+      scheduler.after(1, action);
+      scheduler.after(5, action);
+
+      scheduler.clear();
+      advance(scheduler, 5);
+
+      expect(action).not.toHaveBeenCalled();
+      expect(scheduler.pending).toBe(0);
+    });
+
+    it('should drop the remaining due actions when one clears', () => {
+      const later = vi.fn();
+      scheduler.after(1, () => scheduler.clear());
+      scheduler.after(1, later);
+
+      scheduler.update();
+
+      expect(later).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('save/load', () => {
+    it('should rebuild keyed actions with their remaining ticks', () => {
+      const action = vi.fn();
+      scheduler.after(3, vi.fn(), 'release');
+      scheduler.update();
+
+      const restored = new FrameScheduler();
+      restored.load(scheduler.save(), () => action);
+
+      restored.update();
+      expect(action).not.toHaveBeenCalled();
+      restored.update();
+      expect(action).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse to save an action without a key', () => {
+      scheduler.after(3, vi.fn());
+      expect(() => scheduler.save()).toThrow('without a key');
+    });
+  });
+});
@@ -0,0 +1,95 @@
+// @vitest-environment node
+/**
+ * Finite state machine tests
+ *
+ * - Transitions allowed only by the table
+ * - Exit/enter hook order
+ * - Per-state update handlers
+ * - Rejection and transition listeners
+ * - Unchecked reset
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { StateMachine } from '../../src/systems/StateMachine';
+
+type Light = 'red' | 'green' | 'amber';
+
+const TABLE: Record<Light, readonly Light[]> = {
+  red: ['green'],
+  green: ['amber'],
+  amber: ['red'],
+};
+
+describe('StateMachine', () => {
+  let calls: string[];
+  let machine: StateMachine<Light>;
+  let onTransition: ReturnType<typeof vi.fn>;
+  let onRejected: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    calls = [];
+    onTransition = vi.fn();
+    onRejected = vi.fn();
+    machine = new StateMachine<Light>(
+      'red',
+      TABLE,
+      {
+        red: {
+          exit: (to) => calls.push(`exit red -> ${to}`),
+        },
+        green: {
+          enter: (from) => calls.push(`enter green <- ${from}`),
+          update: () => calls.push('update green'),
+        },
+      },
+      { onTransition, onRejected }
+    );
+  });
+
+  it('should start in the initial state without running its hooks', () => {
+    expect(machine.state).toBe('red');
+    expect(calls).toEqual([]);
+  });
+
+  it('should follow an allowed transition', () => {
+    expect(machine.canTransition('green')).toBe(true);
+    expect(machine.transition('green')).toBe(true);
+    expect(machine.state).toBe('green');
+    expect(onTransition).toHaveBeenCalledWith('green', 'red');
+  });
+
+  it('should run exit before enter', () => {
+    machine.transition('green');
+    expect(calls).toEqual(['exit red -> green', 'enter green <- red']);
+  });
+
+  it('should reject a transition missing from the table', () => {
+    expect(machine.canTransition('amber')).toBe(false);
+    expect(machine.transition('amber')).toBe(false);
+
+    expect(machine.state).toBe('red');
+    expect(calls).toEqual([]);
+    expect(onRejected).toHaveBeenCalledWith('amber', 'red');
+    expect(onTransition).not.toHaveBeenCalled();
+  });
+
+  it('should only run the current state update handler', () => {
+    machine.update();
+    expect(calls).toEqual([]);
+
+    machine.transition('green');
+    calls = [];
+    machine.update();
+    machine.update();
+    expect(calls).toEqual(['update green', 'update green']);
+  });
+
+  it('should reset to any state without checks or hooks', () => {
+    machine.reset('amber');
+
+    expect(machine.state).toBe('amber');
+    expect(calls).toEqual([]);
+    expect(onTransition).not.toHaveBeenCalled();
+    expect(onRejected).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,75 @@
+// @vitest-environment node
+/**
+ * Step debugger inspector tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildInspector, InspectorSection } from '../../src/systems/StepInspector';
+import { GameSnapshot } from '../../src/GameSimulation';
+import { Direction, GhostMode } from '../../src/constants';
+import { playingSnapshot } from '../helpers';
+
+/** A game just after Pac-Man's first steps left */
+const base: GameSnapshot = playingSnapshot(10);
+
+/** The lines of a section */
+function section(sections: InspectorSection[], title: string): readonly string[] {
+  const found = sections.find((s) => s.title === title);
+  if (!found) throw new Error(`No section ${title}`);
+  return found.lines;
+}
+
+describe('StepInspector', () => {
+  it('should head the panel with the tick and state', () => {
+    const sections = buildInspector(base);
+
+    expect(sections[0].title).toBe(`TICK ${base.tick}`);
+    expect(sections[0].lines[0]).toMatch(/^PLAYING \(\d+\) {2}LEVEL 1$/);
+  });
+
+  it("should show Pac-Man's position, tile and directions", () => {
+    const snapshot: GameSnapshot = {
+      ...base,
+      pacman: { ...base.pacman, position: { x: 100.125, y: 540 }, tile: { col: 4, row: 22 }, nextDirection: Direction.UP },
+    };
+
+    expect(section(buildInspector(snapshot), 'PAC-MAN')).toEqual([
+      'pos 100.13,540.00  tile 4,22',
+      'dir LEFT  queued UP',
+    ]);
+  });
+
+  it("should list each ghost's mode, target and speed", () => {
+    const lines = section(buildInspector(base), 'GHOSTS');
+    const blinky = base.ghosts[0];
+
+    expect(lines).toHaveLength(4);
+    expect(lines[0]).toBe(
+      `Blinky SCATTER    target ${blinky.targetTile.col},${blinky.targetTile.row}  speed ${blinky.speed.toFixed(3)}`
+    );
+    // Clyde waits in the house
+    expect(lines[3]).toContain(GhostMode.HOUSE.toUpperCase());
+  });
+
+  it('should show the mode and frightened timers and pellets eaten', () => {
+    const snapshot: GameSnapshot = { ...base, modeIndex: 2, modeTimer: 75, frightenedTimer: 30, pelletsEaten: 12 };
+
+    expect(section(buildInspector(snapshot), 'TIMERS')).toEqual([
+      'mode SCATTER  modeIndex 2  modeTimer 75',
+      'frightenedTimer 30  pelletsEaten 12',
+    ]);
+  });
+
+  it("should list the tick's collisions", () => {
+    const snapshot: GameSnapshot = {
+      ...base,
+      collisions: [
+        { type: 'pellet', points: 10, tile: { col: 12, row: 22 }, ghost: null },
+        { type: 'ghost', points: 0, tile: null, ghost: 'Pinky' },
+      ],
+    };
+
+    expect(section(buildInspector(snapshot), 'COLLISIONS')).toEqual(['pellet at 12,22 +10', 'ghost Pinky']);
+    expect(section(buildInspector({ ...base, collisions: [] }), 'COLLISIONS')).toEqual(['none']);
+  });
+});
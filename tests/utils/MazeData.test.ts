@@ -4,17 +4,20 @@
 
 import { describe, it, expect } from 'vitest';
 import {
-  MAZE_DATA,
-  SCATTER_TARGETS,
-  START_POSITIONS,
-  GHOST_HOUSE,
+  CLASSIC_MAZE,
   countPellets,
   isWalkable,
   isInTunnel,
   isInGhostHouse,
+  isNoUpwardTile,
+  tunnelAt,
+  wrapColumn,
   getAvailableDirections,
 } from '../../src/utils/MazeData';
 
+const MAZE_DATA = CLASSIC_MAZE.grid;
+const { scatterTargets, startPositions, ghostHouse } = CLASSIC_MAZE;
+
 describe('MazeData', () => {
   describe('maze dimensions', () => {
     it('should have correct height (31 rows)', () => {
@@ -26,6 +29,11 @@ describe('MazeData', () => {
         expect(MAZE_DATA[i].length).toBe(28);
       }
     });
+
+    it('should declare the size of its grid', () => {
+      expect(CLASSIC_MAZE.width).toBe(28);
+      expect(CLASSIC_MAZE.height).toBe(31);
+    });
   });
 
   describe('pellet count', () => {
@@ -72,143 +80,167 @@ describe('MazeData', () => {
 
   describe('scatter targets', () => {
     it('should have Blinky target in top-right', () => {
-      expect(SCATTER_TARGETS.BLINKY.col).toBe(25);
-      expect(SCATTER_TARGETS.BLINKY.row).toBe(0);
+      expect(scatterTargets.blinky.col).toBe(25);
+      expect(scatterTargets.blinky.row).toBe(0);
     });
 
     it('should have Pinky target in top-left', () => {
-      expect(SCATTER_TARGETS.PINKY.col).toBe(2);
-      expect(SCATTER_TARGETS.PINKY.row).toBe(0);
+      expect(scatterTargets.pinky.col).toBe(2);
+      expect(scatterTargets.pinky.row).toBe(0);
     });
 
     it('should have Inky target in bottom-right', () => {
-      expect(SCATTER_TARGETS.INKY.col).toBe(27);
-      expect(SCATTER_TARGETS.INKY.row).toBe(30);
+      expect(scatterTargets.inky.col).toBe(27);
+      expect(scatterTargets.inky.row).toBe(30);
     });
 
     it('should have Clyde target in bottom-left', () => {
-      expect(SCATTER_TARGETS.CLYDE.col).toBe(0);
-      expect(SCATTER_TARGETS.CLYDE.row).toBe(30);
+      expect(scatterTargets.clyde.col).toBe(0);
+      expect(scatterTargets.clyde.row).toBe(30);
     });
   });
 
   describe('start positions', () => {
     it('should have Pac-Man start position below center', () => {
-      expect(START_POSITIONS.PACMAN.col).toBe(13.5);
-      expect(START_POSITIONS.PACMAN.row).toBe(22); // Row 22 has empty space at center
+      expect(startPositions.pacman.col).toBe(13.5);
+      expect(startPositions.pacman.row).toBe(22); // Row 22 has empty space at center
     });
 
     it('should have Blinky start outside ghost house', () => {
-      expect(START_POSITIONS.BLINKY.col).toBe(13.5);
-      expect(START_POSITIONS.BLINKY.row).toBe(11);
+      expect(startPositions.blinky.col).toBe(13.5);
+      expect(startPositions.blinky.row).toBe(11);
     });
 
     it('should have other ghosts inside ghost house', () => {
-      expect(START_POSITIONS.PINKY.row).toBe(14);
-      expect(START_POSITIONS.INKY.row).toBe(14);
-      expect(START_POSITIONS.CLYDE.row).toBe(14);
+      expect(startPositions.pinky.row).toBe(14);
+      expect(startPositions.inky.row).toBe(14);
+      expect(startPositions.clyde.row).toBe(14);
     });
   });
 
   describe('isWalkable', () => {
     it('should return false for walls', () => {
-      expect(isWalkable(MAZE_DATA, 0, 0)).toBe(false);
-      expect(isWalkable(MAZE_DATA, 0, 1)).toBe(false);
+      expect(isWalkable(CLASSIC_MAZE, 0, 0)).toBe(false);
+      expect(isWalkable(CLASSIC_MAZE, 0, 1)).toBe(false);
     });
 
     it('should return true for pellet tiles', () => {
-      expect(isWalkable(MAZE_DATA, 1, 1)).toBe(true);
+      expect(isWalkable(CLASSIC_MAZE, 1, 1)).toBe(true);
     });
 
     it('should return true for power pellet tiles', () => {
-      expect(isWalkable(MAZE_DATA, 1, 3)).toBe(true);
+      expect(isWalkable(CLASSIC_MAZE, 1, 3)).toBe(true);
     });
 
     it('should return true for empty tiles', () => {
-      expect(isWalkable(MAZE_DATA, 12, 9)).toBe(true);  // Position with 0 in maze
+      expect(isWalkable(CLASSIC_MAZE, 12, 9)).toBe(true);  // Position with 0 in maze
     });
 
     it('should return true for tunnel positions outside maze', () => {
-      expect(isWalkable(MAZE_DATA, -1, 13)).toBe(true);
-      expect(isWalkable(MAZE_DATA, 28, 13)).toBe(true);
+      expect(isWalkable(CLASSIC_MAZE, -1, 13)).toBe(true);
+      expect(isWalkable(CLASSIC_MAZE, 28, 13)).toBe(true);
     });
 
     it('should return false for out of bounds (non-tunnel)', () => {
-      expect(isWalkable(MAZE_DATA, -1, 5)).toBe(false);
-      expect(isWalkable(MAZE_DATA, 28, 5)).toBe(false);
+      expect(isWalkable(CLASSIC_MAZE, -1, 5)).toBe(false);
+      expect(isWalkable(CLASSIC_MAZE, 28, 5)).toBe(false);
     });
   });
 
   describe('isInTunnel', () => {
     it('should return true for left tunnel zone', () => {
-      expect(isInTunnel(0, 13)).toBe(true);
-      expect(isInTunnel(5, 13)).toBe(true);
+      expect(isInTunnel(CLASSIC_MAZE, 0, 13)).toBe(true);
+      expect(isInTunnel(CLASSIC_MAZE, 5, 13)).toBe(true);
     });
 
     it('should return true for right tunnel zone', () => {
-      expect(isInTunnel(22, 13)).toBe(true);
-      expect(isInTunnel(27, 13)).toBe(true);
+      expect(isInTunnel(CLASSIC_MAZE, 22, 13)).toBe(true);
+      expect(isInTunnel(CLASSIC_MAZE, 27, 13)).toBe(true);
     });
 
     it('should return false for center of tunnel row', () => {
-      expect(isInTunnel(14, 13)).toBe(false);
+      expect(isInTunnel(CLASSIC_MAZE, 14, 13)).toBe(false);
     });
 
     it('should return false for non-tunnel rows', () => {
-      expect(isInTunnel(0, 10)).toBe(false);
-      expect(isInTunnel(0, 14)).toBe(false);
+      expect(isInTunnel(CLASSIC_MAZE, 0, 10)).toBe(false);
+      expect(isInTunnel(CLASSIC_MAZE, 0, 14)).toBe(false);
+    });
+  });
+
+  describe('tunnels', () => {
+    it('should find the tunnel on its row only', () => {
+      expect(tunnelAt(CLASSIC_MAZE, 13)?.row).toBe(13);
+      expect(tunnelAt(CLASSIC_MAZE, 14)).toBeUndefined();
+    });
+
+    it('should wrap columns through the tunnel', () => {
+      expect(wrapColumn(CLASSIC_MAZE, -1, 13)).toBe(27);
+      expect(wrapColumn(CLASSIC_MAZE, 28, 13)).toBe(0);
+    });
+
+    it('should leave columns on other rows alone', () => {
+      expect(wrapColumn(CLASSIC_MAZE, -1, 5)).toBe(-1);
+    });
+  });
+
+  describe('isNoUpwardTile', () => {
+    it('should bar the tiles beside the ghost house and above the start', () => {
+      expect(isNoUpwardTile(CLASSIC_MAZE, 12, 11)).toBe(true);
+      expect(isNoUpwardTile(CLASSIC_MAZE, 15, 23)).toBe(true);
+      expect(isNoUpwardTile(CLASSIC_MAZE, 13, 11)).toBe(false);
     });
   });
 
   describe('isInGhostHouse', () => {
     it('should return true for ghost house interior', () => {
-      expect(isInGhostHouse(13, 14)).toBe(true);
-      expect(isInGhostHouse(11, 14)).toBe(true);
-      expect(isInGhostHouse(15, 14)).toBe(true);
+      expect(isInGhostHouse(CLASSIC_MAZE, 13, 14)).toBe(true);
+      expect(isInGhostHouse(CLASSIC_MAZE, 11, 14)).toBe(true);
+      expect(isInGhostHouse(CLASSIC_MAZE, 15, 14)).toBe(true);
     });
 
     it('should return false for outside ghost house', () => {
-      expect(isInGhostHouse(13, 11)).toBe(false);
-      expect(isInGhostHouse(5, 14)).toBe(false);
+      expect(isInGhostHouse(CLASSIC_MAZE, 13, 11)).toBe(false);
+      expect(isInGhostHouse(CLASSIC_MAZE, 5, 14)).toBe(false);
     });
 
     it('should include ghost house boundaries', () => {
-      expect(isInGhostHouse(10, 12)).toBe(true);
-      expect(isInGhostHouse(17, 16)).toBe(true);
+      expect(isInGhostHouse(CLASSIC_MAZE, 10, 12)).toBe(true);
+      expect(isInGhostHouse(CLASSIC_MAZE, 17, 16)).toBe(true);
     });
   });
 
   describe('getAvailableDirections', () => {
     it('should return available directions at intersection', () => {
       // At a T-junction
-      const directions = getAvailableDirections(MAZE_DATA, 6, 5);
+      const directions = getAvailableDirections(CLASSIC_MAZE, 6, 5);
       expect(directions.length).toBeGreaterThan(1);
     });
 
     it('should exclude reverse direction when specified', () => {
-      const directions = getAvailableDirections(MAZE_DATA, 1, 5, 3); // Exclude right
+      const directions = getAvailableDirections(CLASSIC_MAZE, 1, 5, 3); // Exclude right
       expect(directions).not.toContain(3);
     });
 
     it('should return empty array when completely blocked', () => {
       // Inside a wall (shouldn't happen in gameplay)
-      const directions = getAvailableDirections(MAZE_DATA, 0, 0);
+      const directions = getAvailableDirections(CLASSIC_MAZE, 0, 0);
       expect(directions.length).toBe(0);
     });
   });
 
   describe('ghost house config', () => {
     it('should have correct ghost house boundaries', () => {
-      expect(GHOST_HOUSE.leftCol).toBe(10);
-      expect(GHOST_HOUSE.rightCol).toBe(17);
-      expect(GHOST_HOUSE.topRow).toBe(12);
-      expect(GHOST_HOUSE.bottomRow).toBe(16);
+      expect(ghostHouse.leftCol).toBe(10);
+      expect(ghostHouse.rightCol).toBe(17);
+      expect(ghostHouse.topRow).toBe(12);
+      expect(ghostHouse.bottomRow).toBe(16);
     });
 
     it('should have ghost house door position', () => {
-      expect(GHOST_HOUSE.doorRow).toBe(12);
-      expect(GHOST_HOUSE.doorLeftCol).toBe(13);
-      expect(GHOST_HOUSE.doorRightCol).toBe(14);
+      expect(ghostHouse.doorRow).toBe(12);
+      expect(ghostHouse.doorLeftCol).toBe(13);
+      expect(ghostHouse.doorRightCol).toBe(14);
     });
   });
 });
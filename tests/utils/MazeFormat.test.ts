@@ -0,0 +1,167 @@
+// @vitest-environment node
+/**
+ * Text maze format tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { loadMaze, parseMaze, serializeMaze } from '../../src/utils/MazeFormat';
+import { CLASSIC_MAZE } from '../../src/utils/MazeData';
+import { TileType } from '../../src/types';
+
+/** A 12x9 maze with a tunnel and no-upward tiles */
+const SMALL = [
+  'name: Small',
+  'pacman: 5.5,6',
+  'blinky: 5.5,3',
+  'pinky: 5.5,5',
+  'inky: 4.5,5',
+  'clyde: 6.5,5',
+  'blinky-scatter: 10,-1',
+  'pinky-scatter: 1,-1',
+  'inky-scatter: 11,9',
+  'clyde-scatter: 0,9',
+  'tunnel: 1',
+  'no-upward: 5,3 6,3',
+  '',
+  '############',
+  '~~.o....o.~~',
+  '#.##.##.##.#',
+  '#....__....#',
+  '#.###==###.#',
+  '#.##HHHH##.#',
+  '#....F_....#',
+  '#..........#',
+  '############',
+].join('\n');
+
+/** SMALL with one line replaced */
+function withLine(line: number, text: string): string {
+  const lines = SMALL.split('\n');
+  lines[line - 1] = text;
+  return lines.join('\n');
+}
+
+describe('MazeFormat', () => {
+  describe('parseMaze', () => {
+    it('should read the checked-in classic maze as CLASSIC_MAZE', () => {
+      const text = readFileSync(new URL('../../src/utils/mazes/classic.maze', import.meta.url), 'utf8');
+      expect(parseMaze(text)).toEqual(CLASSIC_MAZE);
+    });
+
+    it('should read the header', () => {
+      const maze = parseMaze(SMALL);
+
+      expect(maze.name).toBe('Small');
+      expect(maze.width).toBe(12);
+      expect(maze.height).toBe(9);
+      expect(maze.startPositions.inky).toEqual({ col: 4.5, row: 5 });
+      expect(maze.scatterTargets.blinky).toEqual({ col: 10, row: -1 });
+      expect(maze.noUpwardTiles).toEqual([{ col: 5, row: 3 }, { col: 6, row: 3 }]);
+    });
+
+    it('should read one tile per character', () => {
+      const { grid } = parseMaze(SMALL);
+
+      expect(grid[1].slice(0, 4)).toEqual([TileType.TUNNEL, TileType.TUNNEL, TileType.PELLET, TileType.POWER_PELLET]);
+      expect(grid[3][5]).toBe(TileType.EMPTY);
+      expect(grid[4][5]).toBe(TileType.GHOST_DOOR);
+      expect(grid[5][4]).toBe(TileType.GHOST_HOUSE);
+    });
+
+    it('should find the ghost house and fruit spot in the grid', () => {
+      const maze = parseMaze(SMALL);
+
+      expect(maze.ghostHouse).toEqual({
+        leftCol: 3,
+        rightCol: 8,
+        topRow: 4,
+        bottomRow: 6,
+        doorRow: 4,
+        doorLeftCol: 5,
+        doorRightCol: 6,
+        centerCol: 5.5,
+        centerRow: 5,
+        exitRow: 3,
+      });
+      expect(maze.fruitSpawn).toEqual({ col: 5, row: 6 });
+    });
+
+    it('should take tunnel slow zones from the tunnel tiles unless given', () => {
+      expect(parseMaze(SMALL).tunnels).toEqual([
+        { row: 1, slowZoneLeft: { startCol: 0, endCol: 1 }, slowZoneRight: { startCol: 10, endCol: 11 } },
+      ]);
+
+      const given = parseMaze(withLine(11, 'tunnel: 1 0-3 8-11'));
+      expect(given.tunnels[0].slowZoneLeft).toEqual({ startCol: 0, endCol: 3 });
+    });
+
+    it('should accept comments and Windows line endings', () => {
+      const text = `; A test maze\r\n${SMALL.replace(/\n/g, '\r\n')}\r\n`;
+      expect(parseMaze(text)).toEqual(parseMaze(SMALL));
+    });
+  });
+
+  describe('loadMaze', () => {
+    it('should load a maze that passes validation', () => {
+      const text = readFileSync(new URL('../../src/utils/mazes/classic.maze', import.meta.url), 'utf8');
+      expect(loadMaze(text)).toEqual(CLASSIC_MAZE);
+    });
+
+    it('should refuse a maze that fails validation', () => {
+      // SMALL's house has no bottom wall, so row 6 is shut inside it
+      expect(() => loadMaze(SMALL)).toThrow("Maze 'Small' cannot be played:\nerror (3,6): Gap in the ghost house wall");
+    });
+  });
+
+  describe('serializeMaze', () => {
+    it('should write a maze that reads back the same', () => {
+      const maze = parseMaze(SMALL);
+      expect(parseMaze(serializeMaze(maze))).toEqual(maze);
+      expect(parseMaze(serializeMaze(CLASSIC_MAZE))).toEqual(CLASSIC_MAZE);
+    });
+
+    it('should draw the grid one character per tile', () => {
+      const lines = serializeMaze(parseMaze(SMALL)).split('\n');
+      expect(lines).toContain('#.##HHHH##.#');
+    });
+  });
+
+  describe('errors', () => {
+    it('should point at an unknown tile', () => {
+      expect(() => parseMaze(withLine(16, '#....x_....#'))).toThrow("Line 16, column 6: unknown tile 'x'");
+    });
+
+    it('should point at a row of the wrong width', () => {
+      expect(() => parseMaze(withLine(17, '#.###==###.'))).toThrow('Line 17, column 12: row is 11 tiles wide, expected 12');
+    });
+
+    it('should point at a malformed position', () => {
+      expect(() => parseMaze(withLine(2, 'pacman: 5.5;6'))).toThrow("Line 2, column 9: expected a position 'col,row'");
+      expect(() => parseMaze(withLine(12, 'no-upward: 5,3 six'))).toThrow('Line 12, column 16');
+    });
+
+    it('should reject unknown, repeated and missing header keys', () => {
+      expect(() => parseMaze(withLine(2, 'pac: 5.5,6'))).toThrow("Line 2, column 1: unknown header key 'pac'");
+      expect(() => parseMaze(withLine(3, 'pacman: 5.5,6'))).toThrow("Line 3, column 1: 'pacman' is given twice");
+      expect(() => parseMaze(withLine(3, '; no blinky'))).toThrow("Maze header is missing 'blinky'");
+    });
+
+    it('should reject a tunnel row without tunnel tiles', () => {
+      expect(() => parseMaze(withLine(11, 'tunnel: 2'))).toThrow("Line 11, column 9: row 2 needs '~' tiles");
+    });
+
+    it('should reject a maze without a door or fruit spot', () => {
+      expect(() => parseMaze(withLine(18, '#.########.#'))).toThrow('Maze has no ghost house door');
+      expect(() => parseMaze(withLine(20, '#....__....#'))).toThrow('Maze has no fruit spawn');
+    });
+
+    it('should point at fruit tiles that are not side by side', () => {
+      expect(() => parseMaze(withLine(20, '#....F....F#'))).toThrow('Line 20, column 11: fruit spawn');
+    });
+
+    it('should reject text after the grid', () => {
+      expect(() => parseMaze(`${SMALL}\n\n###`)).toThrow('Line 24, column 1: unexpected text after the grid');
+    });
+  });
+});
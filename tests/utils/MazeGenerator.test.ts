@@ -0,0 +1,112 @@
+// @vitest-environment node
+/**
+ * Maze generator tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateMaze, randomMazes } from '../../src/utils/MazeGenerator';
+import { validateMaze } from '../../src/utils/MazeValidator';
+import { loadMaze, serializeMaze } from '../../src/utils/MazeFormat';
+import { CLASSIC_MAZE, MazeDefinition } from '../../src/utils/MazeData';
+import { TilePosition, TileType } from '../../src/types';
+
+/** Seeds every property is checked on */
+const SEEDS = Array.from({ length: 40 }, (_, i) => i * 7919);
+
+/** Every tile holding a tile type */
+function tilesOf(maze: MazeDefinition, type: TileType): TilePosition[] {
+  return maze.grid.flatMap((cells, row) => cells.flatMap((cell, col) => (cell === type ? [{ col, row }] : [])));
+}
+
+describe('MazeGenerator', () => {
+  describe('generateMaze', () => {
+    it('should give the same maze for the same seed', () => {
+      expect(generateMaze(1234)).toEqual(generateMaze(1234));
+    });
+
+    it('should give different mazes for different seeds', () => {
+      const grids = new Set(SEEDS.map((seed) => JSON.stringify(generateMaze(seed).grid)));
+      expect(grids.size).toBe(SEEDS.length);
+    });
+
+    it('should only make mazes the validator has nothing to say about', () => {
+      for (const seed of SEEDS) {
+        expect(validateMaze(generateMaze(seed)), `seed ${seed}`).toEqual([]);
+      }
+    });
+
+    it('should mirror the left half onto the right', () => {
+      for (const seed of SEEDS) {
+        for (const cells of generateMaze(seed).grid) {
+          expect(cells).toEqual([...cells].reverse());
+        }
+      }
+    });
+
+    it('should keep the classic ghost house and door', () => {
+      const maze = generateMaze(5);
+      const house = CLASSIC_MAZE.ghostHouse;
+
+      expect(maze.ghostHouse).toEqual(house);
+      expect(maze.grid[house.doorRow].slice(house.leftCol, house.rightCol + 1)).toEqual(
+        CLASSIC_MAZE.grid[house.doorRow].slice(house.leftCol, house.rightCol + 1)
+      );
+      expect(tilesOf(maze, TileType.GHOST_HOUSE)).toEqual(tilesOf(CLASSIC_MAZE, TileType.GHOST_HOUSE));
+    });
+
+    it('should open one or two tunnels, each with a mouth on both edges', () => {
+      const counts = new Set<number>();
+      for (const seed of SEEDS) {
+        const maze = generateMaze(seed);
+        counts.add(maze.tunnels.length);
+        for (const { row } of maze.tunnels) {
+          expect(maze.grid[row][0]).toBe(TileType.TUNNEL);
+          expect(maze.grid[row][maze.width - 1]).toBe(TileType.TUNNEL);
+        }
+      }
+      expect([...counts].sort()).toEqual([1, 2]);
+    });
+
+    it('should put a power pellet near each corner', () => {
+      for (const seed of SEEDS) {
+        const maze = generateMaze(seed);
+        const power = tilesOf(maze, TileType.POWER_PELLET);
+
+        expect(power).toHaveLength(4);
+        for (const tile of power) {
+          expect(Math.min(tile.col, maze.width - 1 - tile.col)).toBeLessThanOrEqual(6);
+          expect(Math.min(tile.row, maze.height - 1 - tile.row)).toBeLessThanOrEqual(8);
+        }
+      }
+    });
+
+    it('should put the fruit just below the house', () => {
+      const maze = generateMaze(99);
+      expect(maze.fruitSpawn).toEqual({ col: 13.5, row: maze.ghostHouse.bottomRow + 1 });
+      expect(tilesOf(maze, TileType.FRUIT_SPAWN)).toEqual([{ col: 13, row: 17 }, { col: 14, row: 17 }]);
+    });
+
+    it('should survive the text format', () => {
+      const maze = generateMaze(42);
+      expect(loadMaze(serializeMaze(maze))).toEqual(maze);
+    });
+  });
+
+  describe('randomMazes', () => {
+    it('should build a different maze for each level, once', () => {
+      const mazes = randomMazes(77);
+
+      expect(mazes(1)).toBe(mazes(1));
+      expect(mazes(2).grid).not.toEqual(mazes(1).grid);
+      expect(mazes(2).name).toBe('Random 77-2');
+    });
+
+    it('should repeat the same run of mazes for the same seed', () => {
+      const first = randomMazes(77);
+      const second = randomMazes(77);
+
+      expect(second(3)).toEqual(first(3));
+      expect(randomMazes(78)(3).grid).not.toEqual(first(3).grid);
+    });
+  });
+});
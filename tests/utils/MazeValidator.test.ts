@@ -0,0 +1,166 @@
+// @vitest-environment node
+/**
+ * Maze validator tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { assertPlayable, formatIssues, hasErrors, validateMaze } from '../../src/utils/MazeValidator';
+import { parseMaze } from '../../src/utils/MazeFormat';
+import { CLASSIC_MAZE, MazeDefinition } from '../../src/utils/MazeData';
+
+/** Header of the test maze */
+const HEADER = [
+  'name: Loops',
+  'pacman: 5.5,7',
+  'blinky: 5.5,3',
+  'pinky: 5.5,5',
+  'inky: 3.5,5',
+  'clyde: 7.5,5',
+  'blinky-scatter: 10,-1',
+  'pinky-scatter: 1,-1',
+  'inky-scatter: 11,10',
+  'clyde-scatter: 0,10',
+  'tunnel: 3',
+];
+
+/** A 12x10 maze with no problems: loops around a walled house, one tunnel */
+const GRID = [
+  '############',
+  '#o........o#',
+  '#.##.##.##.#',
+  '~....__....~',
+  '#.###==###.#',
+  '#.#HHHHHH#.#',
+  '#.########.#',
+  '#....FF....#',
+  '#o........o#',
+  '############',
+];
+
+/** The test maze, with some grid rows replaced */
+function loops(rows: Record<number, string> = {}, header: readonly string[] = HEADER): MazeDefinition {
+  const grid = GRID.map((text, row) => rows[row] ?? text);
+  return parseMaze([...header, '', ...grid].join('\n'));
+}
+
+/** Codes of the errors found */
+function errorCodes(maze: MazeDefinition): string[] {
+  return validateMaze(maze)
+    .filter((issue) => issue.severity === 'error')
+    .map((issue) => issue.code);
+}
+
+describe('MazeValidator', () => {
+  describe('validateMaze', () => {
+    it('should find nothing wrong with a good maze', () => {
+      expect(validateMaze(loops())).toEqual([]);
+    });
+
+    it('should pass the classic maze, warning about its sealed tunnel', () => {
+      const issues = validateMaze(CLASSIC_MAZE);
+
+      expect(hasErrors(issues)).toBe(false);
+      expect(issues.map((issue) => issue.code)).toEqual(['tunnel-unreachable', 'no-upward-unused', 'no-upward-unused']);
+      expect(issues[0].tile).toEqual({ col: 0, row: 13 });
+    });
+
+    it('should stop at a grid of the wrong size', () => {
+      expect(validateMaze({ ...loops(), height: 11 })).toEqual([
+        { severity: 'error', code: 'grid-size', message: 'Grid has 10 rows, expected 11', tile: null },
+      ]);
+    });
+
+    it('should find pellets Pac-Man cannot reach', () => {
+      const issues = validateMaze(loops({ 1: '#o.#.#....o#', 2: '#.#####.##.#' }));
+
+      expect(issues).toContainEqual({
+        severity: 'error',
+        code: 'pellet-unreachable',
+        message: "Pellet cannot be reached from Pac-Man's start",
+        tile: { col: 4, row: 1 },
+      });
+    });
+
+    it('should find one-wide dead ends', () => {
+      const issues = validateMaze(loops({ 9: '#####.######' }));
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ severity: 'error', code: 'dead-end', tile: { col: 5, row: 9 } });
+    });
+
+    it('should check the ghost house is walled, with a door ghosts can leave by', () => {
+      expect(errorCodes(loops({ 6: '#.###__###.#' }))).toEqual(['house-open', 'house-open']);
+      expect(errorCodes(loops({ 3: '~....##....~' }))).toContain('door-blocked');
+
+      const maze = loops();
+      const wideDoor = { ...maze, ghostHouse: { ...maze.ghostHouse, doorLeftCol: 4 } };
+      expect(validateMaze(wideDoor)).toEqual([
+        { severity: 'error', code: 'no-door', message: 'Ghost house door tile is missing', tile: { col: 4, row: 4 } },
+      ]);
+    });
+
+    it('should check where everyone starts', () => {
+      const maze = loops();
+      const starts = (changes: Partial<MazeDefinition['startPositions']>): MazeDefinition => ({
+        ...maze,
+        startPositions: { ...maze.startPositions, ...changes },
+      });
+
+      expect(errorCodes(starts({ pacman: { col: 0, row: 0 } }))).toEqual(['start-blocked']);
+      expect(errorCodes(starts({ blinky: { col: 5.5, row: 5 } }))).toEqual(['start-blocked']);
+      expect(errorCodes(starts({ inky: { col: 1, row: 1 } }))).toEqual(['start-outside-house']);
+    });
+
+    it('should pair each tunnel with an opening on the other edge', () => {
+      const header = [...HEADER.slice(0, -1), 'tunnel: 3 0-0 11-11'];
+      const issues = validateMaze(loops({ 3: '#....__....~' }, header));
+
+      expect(issues[0]).toMatchObject({ code: 'tunnel-unpaired', tile: { col: 0, row: 3 } });
+      expect(issues[0].message).toBe('Tunnel on row 3 has no opening on the left edge to wrap to');
+    });
+
+    it('should reject slow zones off the grid', () => {
+      const maze = loops();
+      const tunnels = [{ ...maze.tunnels[0], slowZoneRight: { startCol: 11, endCol: 12 } }];
+      expect(errorCodes({ ...maze, tunnels })).toEqual(['tunnel-zone']);
+    });
+
+    it('should keep scatter targets out of the ghost house', () => {
+      const maze = loops();
+      const scatterTargets = { ...maze.scatterTargets, pinky: { col: 5, row: 5 } };
+
+      expect(validateMaze({ ...maze, scatterTargets })).toEqual([
+        {
+          severity: 'error',
+          code: 'scatter-in-house',
+          message: "Pinky's scatter target is inside the ghost house",
+          tile: { col: 5, row: 5 },
+        },
+      ]);
+    });
+
+    it('should put the fruit where Pac-Man can eat it', () => {
+      const maze = loops();
+      expect(errorCodes({ ...maze, fruitSpawn: { col: 3.5, row: 5 } })).toEqual(['fruit-unreachable']);
+    });
+
+    it('should list errors before warnings', () => {
+      const maze = loops();
+      const broken = { ...maze, noUpwardTiles: [{ col: 0, row: 0 }], fruitSpawn: { col: 0, row: 0 } };
+
+      expect(validateMaze(broken).map((issue) => issue.severity)).toEqual(['error', 'warning']);
+    });
+  });
+
+  describe('reporting', () => {
+    it('should print one line per issue', () => {
+      const text = formatIssues(validateMaze(loops({ 9: '#####.######' })));
+      expect(text).toBe('error (5,9): Dead end: ghosts that enter cannot leave without reversing');
+    });
+
+    it('should throw only for errors', () => {
+      expect(() => assertPlayable(CLASSIC_MAZE)).not.toThrow();
+      expect(() => assertPlayable(loops({ 9: '#####.######' }))).toThrow("Maze 'Loops' cannot be played:\nerror (5,9)");
+    });
+  });
+});
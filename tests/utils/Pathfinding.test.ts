@@ -0,0 +1,61 @@
+// @vitest-environment node
+/**
+ * Maze pathfinding tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  distanceMap,
+  distanceAt,
+  isOpen,
+  houseEntranceDistances,
+  houseEntrance,
+} from '../../src/utils/Pathfinding';
+import { CLASSIC_MAZE } from '../../src/utils/MazeData';
+
+describe('Pathfinding', () => {
+  it('should measure zero at the target', () => {
+    const distances = distanceMap({ col: 1, row: 1 }, CLASSIC_MAZE);
+    expect(distanceAt(distances, { col: 1, row: 1 }, CLASSIC_MAZE)).toBe(0);
+  });
+
+  it('should count tiles along corridors, not straight lines', () => {
+    // (12, 1) and (15, 1) are 3 apart, but a wall forces a trip via row 5
+    const distances = distanceMap({ col: 15, row: 1 }, CLASSIC_MAZE);
+    expect(distanceAt(distances, { col: 12, row: 1 }, CLASSIC_MAZE)).toBe(11);
+  });
+
+  it('should mark walls unreachable', () => {
+    const distances = distanceMap({ col: 1, row: 1 }, CLASSIC_MAZE);
+    expect(distanceAt(distances, { col: 0, row: 0 }, CLASSIC_MAZE)).toBe(Infinity);
+  });
+
+  it('should keep corridor paths out of the ghost house', () => {
+    const distances = distanceMap({ col: 13, row: 11 }, CLASSIC_MAZE);
+    expect(distanceAt(distances, { col: 13, row: 14 }, CLASSIC_MAZE)).toBe(Infinity);
+  });
+
+  it('should let open paths through the ghost house door', () => {
+    const distances = distanceMap({ col: 13, row: 11 }, CLASSIC_MAZE, isOpen);
+    expect(distanceAt(distances, { col: 13, row: 14 }, CLASSIC_MAZE)).toBe(3);
+  });
+
+  it('should return an empty map for an off-grid target', () => {
+    const distances = distanceMap({ col: 25, row: -3 }, CLASSIC_MAZE);
+    expect(distances.flat().every((d) => d === Infinity)).toBe(true);
+  });
+
+  it('should wrap through the side tunnel', () => {
+    const distances = distanceMap({ col: 0, row: 13 }, CLASSIC_MAZE);
+    expect(distanceAt(distances, { col: 27, row: 13 }, CLASSIC_MAZE)).toBe(1);
+    expect(distanceAt(distances, { col: -1, row: 13 }, CLASSIC_MAZE)).toBe(1);
+  });
+
+  it('should build the house entrance field once per maze', () => {
+    const distances = houseEntranceDistances(CLASSIC_MAZE);
+
+    expect(houseEntranceDistances(CLASSIC_MAZE)).toBe(distances);
+    expect(distanceAt(distances, houseEntrance(CLASSIC_MAZE), CLASSIC_MAZE)).toBe(0);
+    expect(distanceAt(distances, { col: 13, row: 14 }, CLASSIC_MAZE)).toBe(Infinity);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Seeded Random TDD tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Random } from '../../src/utils/Random';
+
+/** Draw n numbers from a generator */
+function draw(random: Random, n: number): number[] {
+  return Array.from({ length: n }, () => random.next());
+}
+
+describe('Random', () => {
+  describe('determinism', () => {
+    it('should produce the same sequence for the same seed', () => {
+      expect(draw(new Random(42), 10)).toEqual(draw(new Random(42), 10));
+    });
+
+    it('should produce different sequences for different seeds', () => {
+      expect(draw(new Random(1), 10)).not.toEqual(draw(new Random(2), 10));
+    });
+
+    it('should restart the sequence on setSeed', () => {
+      const random = new Random(5);
+      const first = draw(random, 5);
+
+      random.setSeed(5);
+
+      expect(draw(random, 5)).toEqual(first);
+    });
+
+    it('should resume mid-sequence from a saved state', () => {
+      const random = new Random(5);
+      draw(random, 3);
+      const state = random.getState();
+      const expected = draw(random, 5);
+
+      random.setState(state);
+
+      expect(draw(random, 5)).toEqual(expected);
+    });
+  });
+
+  describe('seed', () => {
+    it('should report the seed it started from', () => {
+      const random = new Random(1234);
+      draw(random, 3);
+      expect(random.getSeed()).toBe(1234);
+    });
+
+    it('should pick a seed when none is given', () => {
+      const seed = new Random().getSeed();
+      expect(Number.isInteger(seed)).toBe(true);
+      expect(seed).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  describe('ranges', () => {
+    it('should return numbers in [0, 1)', () => {
+      for (const n of draw(new Random(7), 1000)) {
+        expect(n).toBeGreaterThanOrEqual(0);
+        expect(n).toBeLessThan(1);
+      }
+    });
+
+    it('should return integers below max from nextInt', () => {
+      const random = new Random(7);
+      const seen = new Set<number>();
+      for (let i = 0; i < 200; i++) {
+        seen.add(random.nextInt(4));
+      }
+      expect([...seen].sort()).toEqual([0, 1, 2, 3]);
+    });
+
+    it('should return numbers in [min, max) from range', () => {
+      const random = new Random(7);
+      for (let i = 0; i < 100; i++) {
+        const n = random.range(-2, 3);
+        expect(n).toBeGreaterThanOrEqual(-2);
+        expect(n).toBeLessThan(3);
+      }
+    });
+
+    it('should pick an element of the array', () => {
+      const items = ['a', 'b', 'c'];
+      expect(items).toContain(new Random(7).pick(items));
+    });
+  });
+});